@@ -1,4 +1,6 @@
 import type { JSONSchema7Definition } from "json-schema";
+import { errorCode } from "./error-codes.ts";
+import { escapePointer } from "./ref-resolver.ts";
 import type {
 	Constraint,
 	ConstraintExecutionContext,
@@ -16,23 +18,52 @@ import { hasOwn, isPlainObj, toConstraintArray } from "./utils.ts";
 // This module is separate from `runtime-validator.ts` (which wraps AJV)
 // and from `format-validator.ts` (which handles the `format` keyword).
 
+/**
+ * Position of a validated value: its normalized property path (`users[].id`),
+ * the JSON pointer of its schema and the JSON pointer of the value itself.
+ */
+interface ValueLocation {
+	key: string;
+	schema: string;
+	instance: string;
+}
+
+const ROOT: ValueLocation = { key: "", schema: "", instance: "" };
+
+/** Location of the property `name`, its schema being at `schemaSuffix`. */
+function propertyLocation(
+	at: ValueLocation,
+	schemaSuffix: string,
+	name: string,
+): ValueLocation {
+	return {
+		key: at.key ? `${at.key}.${name}` : name,
+		schema: `${at.schema}${schemaSuffix}`,
+		instance: `${at.instance}/${escapePointer(name)}`,
+	};
+}
+
 /**
  * Validates a single value against a list of constraints using the registry.
  *
  * @param constraints - The constraints to validate against
  * @param value - The runtime value
  * @param registry - The constraint validator registry
- * @param path - The property path for error reporting
+ * @param at - The location of the value for error reporting
  * @returns Array of errors (empty if all constraints pass)
  */
 async function validateValue(
 	constraints: Constraint[],
 	value: unknown,
 	registry: ConstraintValidatorRegistry,
-	path: string,
+	at: ValueLocation,
 	context: ConstraintExecutionContext | undefined,
 ): Promise<SchemaError[]> {
 	const errors: SchemaError[] = [];
+	const pointers = {
+		supSchemaPath: `${at.schema}/constraints`,
+		instancePath: at.instance,
+	};
 
 	for (const constraint of constraints) {
 		const name = typeof constraint === "string" ? constraint : constraint.name;
@@ -40,13 +71,22 @@ async function validateValue(
 			typeof constraint === "string" ? undefined : constraint.params;
 
 		const validator = registry[name];
+		// The constraint as written, and the value it rejects
+		const fields = (reason?: string) => ({
+			code: errorCode("constraints", reason),
+			keyword: "constraints",
+			expectedValue: constraint,
+			receivedValue: value,
+		});
 
 		if (!validator) {
 			errors.push({
 				type: SchemaErrorType.CustomConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: name,
 				received: "unknown constraint (not registered)",
+				...fields("unknown"),
+				...pointers,
 			});
 			continue;
 		}
@@ -56,18 +96,22 @@ async function validateValue(
 			if (!result.valid) {
 				errors.push({
 					type: SchemaErrorType.CustomConstraint,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: name,
 					received: result.message ?? "constraint validation failed",
+					...fields(),
+					...pointers,
 				});
 			}
 		} catch (err) {
 			errors.push({
 				type: SchemaErrorType.CustomConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: name,
 				received:
 					err instanceof Error ? err.message : "constraint validation error",
+				...fields("error"),
+				...pointers,
 			});
 		}
 	}
@@ -90,7 +134,7 @@ async function validateValue(
  * @param schema - The resolved/narrowed schema containing constraints
  * @param data - The runtime data to validate
  * @param registry - The constraint validator registry (may be empty)
- * @param path - The current property path (for error reporting)
+ * @param at - The current location (for error reporting)
  * @returns Array of schema errors (empty if all constraints pass)
  */
 export async function validateSchemaConstraints(
@@ -98,7 +142,7 @@ export async function validateSchemaConstraints(
 	data: unknown,
 	registry: ConstraintValidatorRegistry,
 	context?: ConstraintExecutionContext,
-	path = "",
+	at: ValueLocation = ROOT,
 ): Promise<SchemaError[]> {
 	// Boolean schemas → nothing to validate
 	if (typeof schema === "boolean") return [];
@@ -109,7 +153,7 @@ export async function validateSchemaConstraints(
 	const constraints = toConstraintArray(schema.constraints);
 	if (constraints.length > 0) {
 		errors.push(
-			...(await validateValue(constraints, data, registry, path, context)),
+			...(await validateValue(constraints, data, registry, at, context)),
 		);
 	}
 
@@ -126,14 +170,13 @@ export async function validateSchemaConstraints(
 			// Only validate if the property exists in the data
 			if (propValue === undefined && !hasOwn(dataObj, key)) continue;
 
-			const propPath = path ? `${path}.${key}` : key;
 			errors.push(
 				...(await validateSchemaConstraints(
 					propSchema,
 					propValue,
 					registry,
 					context,
-					propPath,
+					propertyLocation(at, `/properties/${escapePointer(key)}`, key),
 				)),
 			);
 		}
@@ -142,7 +185,7 @@ export async function validateSchemaConstraints(
 	// ── Recurse into items (single schema) ──
 	if (isPlainObj(schema.items) && Array.isArray(data)) {
 		const itemSchema = schema.items as JSONSchema7Definition;
-		const itemPath = path ? `${path}[]` : "[]";
+		const itemPath = at.key ? `${at.key}[]` : "[]";
 
 		for (let i = 0; i < data.length; i++) {
 			errors.push(
@@ -151,7 +194,11 @@ export async function validateSchemaConstraints(
 					data[i],
 					registry,
 					context,
-					itemPath,
+					{
+						key: itemPath,
+						schema: `${at.schema}/items`,
+						instance: `${at.instance}/${i}`,
+					},
 				)),
 			);
 		}
@@ -163,14 +210,17 @@ export async function validateSchemaConstraints(
 		for (let i = 0; i < tupleSchemas.length && i < data.length; i++) {
 			const itemSchema = tupleSchemas[i];
 			if (itemSchema === undefined) continue;
-			const itemPath = path ? `${path}[${i}]` : `[${i}]`;
 			errors.push(
 				...(await validateSchemaConstraints(
 					itemSchema,
 					data[i],
 					registry,
 					context,
-					itemPath,
+					{
+						key: at.key ? `${at.key}[${i}]` : `[${i}]`,
+						schema: `${at.schema}/items/${i}`,
+						instance: `${at.instance}/${i}`,
+					},
 				)),
 			);
 		}
@@ -201,14 +251,17 @@ export async function validateSchemaConstraints(
 				if (!regex.test(dataKey)) continue;
 
 				const dataValue = dataObj[dataKey];
-				const ppPath = path ? `${path}.${dataKey}` : dataKey;
 				errors.push(
 					...(await validateSchemaConstraints(
 						patternSchema,
 						dataValue,
 						registry,
 						context,
-						ppPath,
+						propertyLocation(
+							at,
+							`/patternProperties/${escapePointer(pattern)}`,
+							dataKey,
+						),
 					)),
 				);
 			}
@@ -249,14 +302,13 @@ export async function validateSchemaConstraints(
 			if (ppPatterns.some((re) => re.test(dataKey))) continue;
 
 			const dataValue = dataObj[dataKey];
-			const apPath = path ? `${path}.${dataKey}` : dataKey;
 			errors.push(
 				...(await validateSchemaConstraints(
 					apSchema,
 					dataValue,
 					registry,
 					context,
-					apPath,
+					propertyLocation(at, "/additionalProperties", dataKey),
 				)),
 			);
 		}
@@ -286,13 +338,10 @@ export async function validateSchemaConstraints(
 			// Schema-form dependency: validate the entire data object against it
 			// The dependency schema applies to the whole object, not just the dep key
 			errors.push(
-				...(await validateSchemaConstraints(
-					depValue,
-					data,
-					registry,
-					context,
-					path,
-				)),
+				...(await validateSchemaConstraints(depValue, data, registry, context, {
+					...at,
+					schema: `${at.schema}/dependencies/${escapePointer(depKey)}`,
+				})),
 			);
 		}
 	}
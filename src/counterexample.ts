@@ -0,0 +1,582 @@
+import type {
+	JSONSchema7,
+	JSONSchema7Definition,
+	JSONSchema7TypeName,
+} from "json-schema";
+import { FORMAT_EXAMPLES } from "./format-validator.ts";
+import type { MergeEngine } from "./merge-engine.ts";
+import { samplePattern } from "./pattern-subset.ts";
+import { unfoldRecursiveRef } from "./ref-resolver.ts";
+import { patternDifference } from "./regex-automaton.ts";
+import { isDataValidForSchema } from "./runtime-validator.ts";
+import { expandConditions } from "./subset-checker.ts";
+import { itemSchemaAt } from "./tuple-items.ts";
+import { hasOwn } from "./utils.ts";
+
+// ─── Counterexample search ───────────────────────────────────────────────────
+//
+// Looks for a value accepted by sub and rejected by sup, to illustrate a
+// failed subset check.
+//
+// Candidates are built from the keywords of sub — their boundary values —
+// and pushed just past the keywords sup holds at the same location (the
+// "hints"): a length one above `maxLength` of sup, a key sup requires and sub
+// does not, a string matching the pattern of sub but not the one of sup…
+//
+// The search shares one budget of locations: a schema branching at every
+// level (an `allOf` of many `anyOf`s) stops being explored once it is spent,
+// instead of enumerating every combination of branches.
+//
+// Every candidate is confirmed with AJV (`runtime-validator.ts`): a value is
+// only returned when it validates against sub and fails sup. The search
+// never reports a wrong counterexample — it may only find none.
+
+/** A value valid for sub and invalid for sup. */
+export interface Counterexample {
+	value: unknown;
+}
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Nesting depth past which no candidate is generated */
+const MAX_DEPTH = 6;
+
+/** Candidates of a nested location combined into its parent */
+const MAX_NODE_CANDIDATES = 64;
+
+/** Candidates validated per search */
+const MAX_CANDIDATES = 500;
+
+/** Locations (schemas and `allOf` merges) explored per search */
+const MAX_LOCATIONS = 5000;
+
+/** Conjunctions of an `allOf` distributed over its `anyOf` / `oneOf` members */
+const MAX_ALL_OF_BRANCHES = 64;
+
+/** Pattern samples generated per string location */
+const PATTERN_SAMPLES = 5;
+
+/** Arrays longer than this are not generated */
+const MAX_ARRAY_LENGTH = 20;
+
+/** Types tried when a schema does not restrict `type` */
+const ALL_TYPES: readonly JSONSchema7TypeName[] = [
+	"null",
+	"boolean",
+	"number",
+	"string",
+	"array",
+	"object",
+];
+
+/** Key added to objects to probe `additionalProperties` */
+const EXTRA_KEY = "extra";
+
+/** State of a search, shared by all its locations. */
+interface Search {
+	/** Locations left to explore */
+	locations: number;
+	/** Candidates of locations without constraint nor hint, per depth */
+	unconstrained: Map<number, unknown[]>;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Searches for a value valid for `sub` and invalid for `sup`.
+ *
+ * @param sub    Normalized schema of the subset candidate
+ * @param sup    Normalized schema of the expected superset
+ * @param engine Merge engine used to combine `allOf` / `anyOf` members
+ * @returns The value found, or `null` when none of the candidates separates
+ *          the two schemas (or a schema cannot be compiled by AJV)
+ *
+ * @example
+ * ```ts
+ * findCounterexample(
+ *   { type: "string", maxLength: 10 },
+ *   { type: "string", maxLength: 5 },
+ *   engine,
+ * );
+ * // → { value: "aaaaaa" }
+ * ```
+ */
+export function findCounterexample(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): Counterexample | null {
+	if (sub === false) return null;
+
+	try {
+		const hints = hintsOf(expandConditions(sup, engine));
+		const values = candidates(expandConditions(sub, engine), hints, 0, engine, {
+			locations: MAX_LOCATIONS,
+			unconstrained: new Map(),
+		});
+
+		for (const value of values.slice(0, MAX_CANDIDATES)) {
+			if (
+				isDataValidForSchema(sub, value) &&
+				!isDataValidForSchema(sup, value)
+			) {
+				return { value };
+			}
+		}
+	} catch {
+		// A schema AJV cannot compile (invalid pattern…) has no counterexample
+	}
+	return null;
+}
+
+// ─── Hints ───────────────────────────────────────────────────────────────────
+
+/**
+ * Lists the object schemas of sup constraining one location: the schema
+ * itself and the members of its `allOf` / `anyOf` / `oneOf`.
+ */
+function hintsOf(
+	def: JSONSchema7Definition,
+	seen: Set<JSONSchema7> = new Set(),
+): JSONSchema7[] {
+	const schema = unfold(def);
+	if (typeof schema === "boolean" || seen.has(schema)) return [];
+	seen.add(schema);
+
+	const hints = [schema];
+	for (const member of [
+		...(schema.allOf ?? []),
+		...(schema.anyOf ?? []),
+		...(schema.oneOf ?? []),
+	]) {
+		hints.push(...hintsOf(member, seen));
+	}
+	return hints;
+}
+
+/** Hints of a child location, given how to reach it from a hint. */
+function childHints(
+	hints: JSONSchema7[],
+	child: (hint: JSONSchema7) => JSONSchema7Definition | undefined,
+): JSONSchema7[] {
+	return hints.flatMap((hint) => {
+		const def = child(hint);
+		return def === undefined ? [] : hintsOf(def);
+	});
+}
+
+// ─── Candidates ──────────────────────────────────────────────────────────────
+
+/**
+ * Builds values likely to validate against `def`, biased towards the
+ * boundaries of `def` and of its hints.
+ */
+function candidates(
+	def: JSONSchema7Definition,
+	hints: JSONSchema7[],
+	depth: number,
+	engine: MergeEngine,
+	search: Search,
+): unknown[] {
+	const schema = unfold(def);
+	if (schema === false || depth > MAX_DEPTH) return [];
+	if (schema === true) return candidates({}, hints, depth, engine, search);
+
+	// ── No constraint nor hint: the same candidates at every such location ──
+	const unconstrained = hints.length === 0 && Object.keys(schema).length === 0;
+	if (unconstrained) {
+		const cached = search.unconstrained.get(depth);
+		if (cached !== undefined) return cached;
+	}
+
+	if (search.locations <= 0) return [];
+	search.locations--;
+
+	if (hasOwn(schema, "const")) return [schema.const];
+	if (Array.isArray(schema.enum)) return [...schema.enum];
+
+	// ── allOf: merged into the other keywords, one branch per member ──
+	if (schema.allOf !== undefined) {
+		const { allOf, ...rest } = schema;
+		return unique(
+			conjunctions(rest, allOf, engine, search).flatMap((conjunction) =>
+				candidates(conjunction, hints, depth, engine, search),
+			),
+		);
+	}
+
+	// ── anyOf / oneOf: one set of candidates per branch ──
+	for (const keyword of ["anyOf", "oneOf"] as const) {
+		const branches = schema[keyword];
+		if (branches === undefined) continue;
+		const { [keyword]: _, ...rest } = schema;
+		return unique(
+			branches.flatMap((branch) => {
+				const merged = engine.merge(rest, branch);
+				return merged === null
+					? []
+					: candidates(merged, hints, depth, engine, search);
+			}),
+		);
+	}
+
+	const values = unique(
+		typesOf(schema).flatMap((type): unknown[] => {
+			switch (type) {
+				case "null":
+					return [null];
+				case "boolean":
+					return [true, false];
+				case "integer":
+				case "number":
+					return numberCandidates(schema, hints, type === "integer");
+				case "string":
+					return stringCandidates(schema, hints);
+				case "array":
+					return arrayCandidates(schema, hints, depth, engine, search);
+				case "object":
+					return objectCandidates(schema, hints, depth, engine, search);
+				default:
+					return [];
+			}
+		}),
+	);
+	if (unconstrained) search.unconstrained.set(depth, values);
+	return values;
+}
+
+/**
+ * Merges `base` with one branch of each member — the `anyOf` / `oneOf`
+ * members are distributed depth-first, empty combinations dropped — up to
+ * `MAX_ALL_OF_BRANCHES` conjunctions or the end of the budget.
+ */
+function conjunctions(
+	base: JSONSchema7Definition,
+	members: JSONSchema7Definition[],
+	engine: MergeEngine,
+	search: Search,
+): JSONSchema7Definition[] {
+	const found: JSONSchema7Definition[] = [];
+	const visit = (current: JSONSchema7Definition, index: number): void => {
+		const member = members[index];
+		if (member === undefined) {
+			found.push(current);
+			return;
+		}
+		for (const option of alternatives(member)) {
+			if (found.length >= MAX_ALL_OF_BRANCHES || search.locations <= 0) {
+				return;
+			}
+			search.locations--;
+			const merged = engine.merge(current, option);
+			if (merged !== null && merged !== false) visit(merged, index + 1);
+		}
+	};
+	visit(base, 0);
+	return found;
+}
+
+/** The schemas one of which a value of `member` matches. */
+function alternatives(member: JSONSchema7Definition): JSONSchema7Definition[] {
+	if (typeof member === "boolean") return [member];
+	for (const keyword of ["anyOf", "oneOf"] as const) {
+		const branches = member[keyword];
+		if (branches === undefined) continue;
+		const { [keyword]: _, ...rest } = member;
+		return branches.map((branch) => ({ allOf: [rest, branch] }));
+	}
+	return [member];
+}
+
+/**
+ * Numbers at and around the bounds and steps of the schema and its hints —
+ * plus fractions when a hint only admits integers.
+ */
+function numberCandidates(
+	schema: JSONSchema7,
+	hints: JSONSchema7[],
+	integer: boolean,
+): number[] {
+	const points = [0, 1, -1];
+	if (!integer && hints.some(isIntegerOnly)) points.push(0.5, -0.5);
+	for (const source of [schema, ...hints]) {
+		for (const bound of [
+			source.minimum,
+			source.maximum,
+			source.exclusiveMinimum,
+			source.exclusiveMaximum,
+		]) {
+			if (typeof bound === "number") {
+				points.push(bound, bound - 1, bound + 1, bound - 0.5, bound + 0.5);
+			}
+		}
+		if (source.multipleOf !== undefined) {
+			points.push(source.multipleOf, source.multipleOf / 2);
+		}
+	}
+
+	const step = schema.multipleOf;
+	const stepped =
+		step === undefined
+			? points
+			: points.flatMap((p) => [
+					Math.floor(p / step) * step,
+					Math.ceil(p / step) * step,
+				]);
+	return integer
+		? stepped.flatMap((n) => [Math.floor(n), Math.ceil(n)])
+		: stepped;
+}
+
+/** Whether a schema admits integers and no other number. */
+function isIntegerOnly(schema: JSONSchema7): boolean {
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	return types.includes("integer") && !types.includes("number");
+}
+
+/**
+ * Strings from the format or pattern of the schema — preferring those the
+ * pattern of a hint rejects — resized to the lengths of interest.
+ */
+function stringCandidates(schema: JSONSchema7, hints: JSONSchema7[]): string[] {
+	const bases: string[] = [];
+
+	if (schema.format !== undefined && FORMAT_EXAMPLES[schema.format]) {
+		bases.push(FORMAT_EXAMPLES[schema.format] as string);
+	}
+	// "" is the regex matching every string
+	const pattern = schema.pattern ?? "";
+	for (const hint of hints) {
+		if (hint.pattern === undefined) continue;
+		const witness = patternDifference(pattern, hint.pattern)?.witness;
+		if (typeof witness === "string") bases.push(witness);
+	}
+	if (schema.pattern !== undefined) {
+		bases.push(...samplePattern(schema.pattern, PATTERN_SAMPLES));
+	} else {
+		bases.push("a", "");
+	}
+
+	const lengths = boundaryLengths(schema, hints, "minLength", "maxLength");
+	return [
+		...bases,
+		...bases.flatMap((base) => lengths.map((length) => resize(base, length))),
+	];
+}
+
+/**
+ * Arrays of the lengths of interest, filled with the first candidate of
+ * each position, then with each candidate of the leading positions.
+ */
+function arrayCandidates(
+	schema: JSONSchema7,
+	hints: JSONSchema7[],
+	depth: number,
+	engine: MergeEngine,
+	search: Search,
+): unknown[][] {
+	const tupleLength = Array.isArray(schema.items) ? schema.items.length : 0;
+	const positions = new Map<number, unknown[]>();
+	const itemsAt = (index: number): unknown[] => {
+		let values = positions.get(index);
+		if (values === undefined) {
+			values = candidates(
+				itemSchemaAt(schema, index),
+				childHints(hints, (hint) =>
+					hint.items === undefined ? undefined : itemSchemaAt(hint, index),
+				),
+				depth + 1,
+				engine,
+				search,
+			).slice(0, MAX_NODE_CANDIDATES);
+			positions.set(index, values);
+		}
+		return values;
+	};
+	const contains =
+		schema.contains === undefined
+			? []
+			: candidates(
+					schema.contains,
+					childHints(hints, (hint) => hint.contains),
+					depth + 1,
+					engine,
+					search,
+				).slice(0, MAX_NODE_CANDIDATES);
+
+	const lengths = [
+		0,
+		1,
+		2,
+		tupleLength,
+		tupleLength + 1,
+		...boundaryLengths(schema, hints, "minItems", "maxItems"),
+	].filter(
+		(length, i, all) => length <= MAX_ARRAY_LENGTH && all.indexOf(length) === i,
+	);
+
+	const arrays: unknown[][] = [];
+	for (const length of lengths) {
+		// Distinct items when sub requires them, else repeated ones
+		const base: unknown[] = [];
+		for (let index = 0; index < length; index++) {
+			const values = itemsAt(index);
+			if (values.length === 0) break;
+			base.push(
+				schema.uniqueItems === true ? values[index % values.length] : values[0],
+			);
+		}
+		if (base.length < length) continue;
+
+		arrays.push(base);
+		for (const value of contains) {
+			if (length > 0) arrays.push([value, ...base.slice(1)]);
+		}
+		for (let index = 0; index < Math.min(length, tupleLength + 1); index++) {
+			for (const value of itemsAt(index)) {
+				arrays.push(base.map((item, i) => (i === index ? value : item)));
+			}
+		}
+	}
+	return arrays;
+}
+
+/**
+ * Objects holding the required keys of the schema, then every known key,
+ * then one key at a time set to each of its candidates — keys of hints and
+ * an unknown key included.
+ */
+function objectCandidates(
+	schema: JSONSchema7,
+	hints: JSONSchema7[],
+	depth: number,
+	engine: MergeEngine,
+	search: Search,
+): Record<string, unknown>[] {
+	const values = new Map<string, unknown[]>();
+	const valuesOf = (key: string): unknown[] => {
+		let found = values.get(key);
+		if (found === undefined) {
+			found = candidates(
+				propertySchema(schema, key),
+				childHints(hints, (hint) => propertySchema(hint, key)),
+				depth + 1,
+				engine,
+				search,
+			).slice(0, MAX_NODE_CANDIDATES);
+			values.set(key, found);
+		}
+		return found;
+	};
+
+	const required = schema.required ?? [];
+	const keys = [
+		...new Set([
+			...required,
+			...Object.keys(schema.properties ?? {}),
+			...hints.flatMap((hint) => [
+				...(hint.required ?? []),
+				...Object.keys(hint.properties ?? {}),
+			]),
+			EXTRA_KEY,
+		]),
+	];
+
+	const base: Record<string, unknown> = {};
+	for (const key of required) {
+		const [first] = valuesOf(key);
+		if (valuesOf(key).length === 0) return [];
+		base[key] = first;
+	}
+
+	const full = { ...base };
+	for (const key of Object.keys(schema.properties ?? {})) {
+		const [first] = valuesOf(key);
+		if (!hasOwn(full, key) && valuesOf(key).length > 0) full[key] = first;
+	}
+
+	const objects = [base, full];
+	for (const key of keys) {
+		for (const value of valuesOf(key)) {
+			objects.push({ ...base, [key]: value });
+			objects.push({ ...full, [key]: value });
+		}
+	}
+	return objects;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Resolves a recursive-reference placeholder to the schema it stands for. */
+function unfold(def: JSONSchema7Definition): JSONSchema7Definition {
+	return unfoldRecursiveRef(def) ?? def;
+}
+
+/** Types a schema admits — every type when `type` is absent. */
+function typesOf(schema: JSONSchema7): readonly JSONSchema7TypeName[] {
+	if (schema.type === undefined) return ALL_TYPES;
+	return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/**
+ * Returns the schema a property `key` validates against: its `properties`
+ * entry, else the first matching `patternProperties` entry, else
+ * `additionalProperties`.
+ */
+export function propertySchema(
+	schema: JSONSchema7,
+	key: string,
+): JSONSchema7Definition {
+	const property = schema.properties?.[key];
+	if (property !== undefined) return property;
+	for (const [pattern, patternSchema] of Object.entries(
+		schema.patternProperties ?? {},
+	)) {
+		try {
+			if (new RegExp(pattern, "u").test(key)) return patternSchema;
+		} catch {
+			// An invalid pattern matches no key
+		}
+	}
+	return schema.additionalProperties ?? true;
+}
+
+/**
+ * Lengths at the bounds of the schema, and just past the bounds of its
+ * hints — shortest first.
+ */
+function boundaryLengths(
+	schema: JSONSchema7,
+	hints: JSONSchema7[],
+	minKeyword: "minLength" | "minItems",
+	maxKeyword: "maxLength" | "maxItems",
+): number[] {
+	const lengths = [schema[minKeyword], schema[maxKeyword]];
+	for (const hint of hints) {
+		const min = hint[minKeyword];
+		const max = hint[maxKeyword];
+		if (min !== undefined) lengths.push(min - 1);
+		if (max !== undefined) lengths.push(max + 1);
+	}
+	return lengths
+		.filter((length): length is number => length !== undefined && length >= 0)
+		.sort((a, b) => a - b);
+}
+
+/** Pads `base` with "a" or truncates it to `length` characters. */
+function resize(base: string, length: number): string {
+	return base.length >= length
+		? base.slice(0, length)
+		: base + "a".repeat(length - base.length);
+}
+
+/** Removes duplicate values, keeping the first occurrences. */
+function unique(values: unknown[]): unknown[] {
+	const seen = new Set<string>();
+	return values.filter((value) => {
+		const key = JSON.stringify(value);
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
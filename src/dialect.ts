@@ -0,0 +1,630 @@
+import type {
+	JSONSchema7,
+	JSONSchema7Definition,
+	JSONSchema7Type,
+} from "json-schema";
+import { mapSubSchemas } from "./ref-resolver.ts";
+import type { Draft, SchemaRewrite, UpgradeResult } from "./types.ts";
+import { hasOwn, isPlainObj } from "./utils.ts";
+
+// ─── Dialect ─────────────────────────────────────────────────────────────────
+//
+// Converts schemas written for Draft 2019-09 / 2020-12 to the internal form
+// the rest of the pipeline works on: Draft-07 keywords, plus `minContains` /
+// `maxContains` which have no Draft-07 equivalent (merged and compared as
+// regular array bounds).
+//
+// Conversions:
+//   - `dependentRequired` / `dependentSchemas` → `dependencies`
+//   - `prefixItems` + `items` (2020-12) → tuple `items` + `additionalItems`
+//   - `contains` with `minContains: 0` and no `maxContains` is vacuous and
+//     is dropped with `minContains`
+//   - `$ref` with sibling keywords (evaluated since 2019-09, ignored in
+//     Draft-07) → `allOf: [{ $ref }, siblings]` — `unevaluated*` stay next
+//     to the `allOf`, as they apply to what the `$ref` evaluates
+//   - JSON pointers through renamed keywords (`#/prefixItems/0`) follow the
+//     rename (`#/items/0`)
+//   - `$schema` is dropped — the converted schema is no longer in that
+//     dialect
+//
+// `$defs` and `$anchor` are understood natively by `ref-resolver.ts`;
+// `unevaluatedProperties` / `unevaluatedItems` are rewritten once `$ref`s
+// are resolved (`unevaluated.ts`).
+//
+// OpenAPI 3.0 schema objects (`"openapi30"`, never detected — there is no
+// `$schema` for them) are converted too:
+//   - `nullable: true` → `"null"` added to `type` (and to `enum`)
+//   - boolean `exclusiveMinimum` / `exclusiveMaximum` → numeric bounds
+//   - `discriminator` → a `const` discriminant required in each `oneOf` /
+//     `anyOf` branch, from `mapping` or the implicit schema name
+//   - `example` → `examples`
+//   - schemas under `components.schemas` are converted, so that
+//     `#/components/schemas/X` pointers reach converted schemas
+// `readOnly` / `writeOnly` are Draft-07 annotations and are kept as-is.
+//
+// Draft-04 / Draft-06 schemas are upgraded:
+//   - boolean `exclusiveMinimum` / `exclusiveMaximum` → numeric bounds
+//     (Draft-04, shared with OpenAPI 3.0)
+//   - `id` → `$id` (Draft-04)
+//   - keywords the draft does not know (`if` / `then` / `else`, and
+//     `const` / `contains` / `propertyNames` for Draft-04) are dropped, as
+//     its validators ignore them
+// `upgradeSchema` reports these rewrites with the location of each node.
+//
+// A `$schema` keyword always wins over the dialect passed by the caller,
+// including on embedded resources — a Draft-07 schema is traversed too, as
+// any node may declare another dialect. Results are cached per object and
+// untouched schemas are returned as-is, so the conversion costs one walk
+// per schema on the common path.
+
+// ─── Caches ──────────────────────────────────────────────────────────────────
+
+/** Conversion results per source dialect. */
+const conversionCaches: Record<
+	Draft,
+	WeakMap<object, JSONSchema7Definition>
+> = {
+	"draft-04": new WeakMap(),
+	"draft-07": new WeakMap(),
+	"draft-06": new WeakMap(),
+	"2019-09": new WeakMap(),
+	"2020-12": new WeakMap(),
+	openapi30: new WeakMap(),
+};
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+/** Meta-schema URI fragments identifying each dialect. */
+const DRAFT_URIS: [marker: string, draft: Draft][] = [
+	["draft-04", "draft-04"],
+	["draft-06", "draft-06"],
+	["draft-07", "draft-07"],
+	["draft/2019-09", "2019-09"],
+	["draft/2020-12", "2020-12"],
+];
+
+/**
+ * Returns the dialect declared by a schema's `$schema`, or `fallback` when
+ * it declares none (or one this library does not know).
+ */
+export function detectDraft(
+	def: JSONSchema7Definition,
+	fallback: Draft,
+): Draft {
+	if (typeof def === "boolean" || typeof def.$schema !== "string") {
+		return fallback;
+	}
+	for (const [marker, draft] of DRAFT_URIS) {
+		if (def.$schema.includes(marker)) return draft;
+	}
+	return fallback;
+}
+
+// ─── Conversion ──────────────────────────────────────────────────────────────
+
+/**
+ * Converts a schema to the internal (Draft-07) form.
+ *
+ * @param def    The schema
+ * @param draft  Dialect to assume when the schema has no `$schema`
+ * @returns      The converted schema — the original object when there was
+ *               nothing to convert
+ *
+ * @example
+ * ```ts
+ * toInternalForm(
+ *   { prefixItems: [{ type: "string" }], items: false, dependentRequired: { a: ["b"] } },
+ *   "2020-12",
+ * );
+ * // → { items: [{ type: "string" }], additionalItems: false, dependencies: { a: ["b"] } }
+ * ```
+ */
+export function toInternalForm(
+	def: JSONSchema7Definition,
+	draft: Draft,
+): JSONSchema7Definition {
+	if (typeof def === "boolean") return def;
+
+	const source = detectDraft(def, draft);
+	const cache = conversionCaches[source];
+	const cached = cache.get(def);
+	if (cached !== undefined) return cached;
+
+	const converted = mapSubSchemas(
+		source === "draft-07"
+			? withoutSchemaKeyword(def)
+			: source === "openapi30"
+				? convertOpenApiKeywords(def)
+				: isLegacyDraft(source)
+					? convertLegacyKeywords(def, source)
+					: convertKeywords(def, source),
+		(sub) => toInternalForm(sub, source),
+		false,
+	);
+
+	cache.set(def, converted);
+	return converted;
+}
+
+/**
+ * Drops `$schema` from a Draft-07 node, the only keyword to convert.
+ */
+function withoutSchemaKeyword(schema: JSONSchema7): JSONSchema7 {
+	if (!hasOwn(schema, "$schema")) return schema;
+	const { $schema: _schema, ...rest } = schema;
+	return rest;
+}
+
+/**
+ * Rewrites the 2019-09 / 2020-12 keywords of a single schema node
+ * (sub-schemas are left to the caller). Copy-on-write.
+ */
+function convertKeywords(
+	schema: JSONSchema7,
+	draft: "2019-09" | "2020-12",
+): JSONSchema7 {
+	const source = schema as JSONSchema7 & Record<string, unknown>;
+	let result = source;
+	let copied = false;
+
+	function ensureCopy(): JSONSchema7 & Record<string, unknown> {
+		if (!copied) {
+			result = { ...source };
+			copied = true;
+		}
+		return result;
+	}
+
+	if (hasOwn(source, "$schema")) delete ensureCopy().$schema;
+
+	// ── dependentRequired / dependentSchemas → dependencies ──
+	const dependentRequired = source.dependentRequired;
+	const dependentSchemas = source.dependentSchemas;
+	if (isPlainObj(dependentRequired) || isPlainObj(dependentSchemas)) {
+		const dependencies: Record<string, JSONSchema7Definition | string[]> = {
+			...(isPlainObj(source.dependencies) ? source.dependencies : {}),
+		};
+		for (const record of [dependentRequired, dependentSchemas]) {
+			if (!isPlainObj(record)) continue;
+			for (const key of Object.keys(record)) {
+				const value = record[key] as JSONSchema7Definition | string[];
+				const existing = dependencies[key];
+				dependencies[key] =
+					existing === undefined ? value : combineDependency(existing, value);
+			}
+		}
+		const copy = ensureCopy();
+		delete copy.dependentRequired;
+		delete copy.dependentSchemas;
+		copy.dependencies = dependencies;
+	}
+
+	// ── prefixItems + items → tuple items + additionalItems (2020-12) ──
+	if (draft === "2020-12" && Array.isArray(source.prefixItems)) {
+		const copy = ensureCopy();
+		copy.items = source.prefixItems as JSONSchema7Definition[];
+		delete copy.prefixItems;
+		if (source.items !== undefined) {
+			copy.additionalItems = source.items as JSONSchema7Definition;
+		} else {
+			delete copy.additionalItems;
+		}
+	}
+
+	// ── contains + minContains: 0 → no constraint ──
+	if (source.minContains === 0 && source.maxContains === undefined) {
+		const copy = ensureCopy();
+		delete copy.contains;
+		delete copy.minContains;
+	}
+
+	if (typeof source.$ref === "string") {
+		// ── $ref pointers through renamed keywords ──
+		const ref = rewritePointer(source.$ref);
+		if (ref !== source.$ref) ensureCopy().$ref = ref;
+
+		// ── $ref siblings are evaluated (not ignored as in Draft-07) ──
+		return wrapRefSiblings(result);
+	}
+
+	return result;
+}
+
+/**
+ * Combines two `dependencies` entries for the same property.
+ */
+function combineDependency(
+	a: JSONSchema7Definition | string[],
+	b: JSONSchema7Definition | string[],
+): JSONSchema7Definition | string[] {
+	if (Array.isArray(a) && Array.isArray(b)) return [...new Set([...a, ...b])];
+	const toSchema = (
+		v: JSONSchema7Definition | string[],
+	): JSONSchema7Definition => (Array.isArray(v) ? { required: v } : v);
+	return { allOf: [toSchema(a), toSchema(b)] };
+}
+
+/** Keywords that stay on a `$ref` node — identification and containers. */
+const REF_NODE_KEYWORDS = new Set([
+	"$ref",
+	"$id",
+	"$anchor",
+	"$comment",
+	"definitions",
+	"$defs",
+]);
+
+/**
+ * Keywords that must stay next to the `allOf` wrapping a `$ref`: they apply
+ * to what the referenced schema evaluates (see `unevaluated.ts`).
+ */
+const UNEVALUATED_KEYWORDS = new Set([
+	"unevaluatedProperties",
+	"unevaluatedItems",
+]);
+
+/**
+ * Moves the constraints living next to a `$ref` into an `allOf`, so that
+ * Draft-07 processing (which ignores `$ref` siblings) still applies them.
+ */
+function wrapRefSiblings(
+	schema: JSONSchema7 & Record<string, unknown>,
+): JSONSchema7 {
+	const kept: Record<string, unknown> = {};
+	const siblings: Record<string, unknown> = {};
+	let unevaluated = false;
+	for (const key of Object.keys(schema)) {
+		if (REF_NODE_KEYWORDS.has(key)) kept[key] = schema[key];
+		else if (UNEVALUATED_KEYWORDS.has(key)) {
+			kept[key] = schema[key];
+			unevaluated = true;
+		} else siblings[key] = schema[key];
+	}
+	const hasSiblings = Object.keys(siblings).length > 0;
+	if (!hasSiblings && !unevaluated) return schema;
+
+	const { $ref, ...rest } = kept;
+	return {
+		...rest,
+		allOf: [{ $ref: $ref as string }, ...(hasSiblings ? [siblings] : [])],
+	};
+}
+
+/** Keywords whose children are named by the user, not by the spec. */
+const NAMED_CHILDREN_KEYWORDS = new Set([
+	"properties",
+	"patternProperties",
+	"definitions",
+	"$defs",
+	"dependencies",
+	"dependentSchemas",
+]);
+
+/** Keywords renamed by the conversion, as seen in JSON pointers. */
+const RENAMED_KEYWORDS: Record<string, string> = {
+	prefixItems: "items",
+	dependentSchemas: "dependencies",
+};
+
+/**
+ * Rewrites the JSON pointer of a reference so that it still designates the
+ * same sub-schema once the target document is converted.
+ * (`#/prefixItems/0` → `#/items/0`)
+ */
+function rewritePointer(ref: string): string {
+	const hash = ref.indexOf("#");
+	if (hash === -1 || ref[hash + 1] !== "/") return ref;
+
+	const tokens = ref.slice(hash + 2).split("/");
+	let changed = false;
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i] as string;
+		const renamed = RENAMED_KEYWORDS[token];
+		const previous = i > 0 ? tokens[i - 1] : undefined;
+		if (
+			renamed !== undefined &&
+			(previous === undefined || !NAMED_CHILDREN_KEYWORDS.has(previous))
+		) {
+			tokens[i] = renamed;
+			changed = true;
+		}
+	}
+	return changed ? `${ref.slice(0, hash + 2)}${tokens.join("/")}` : ref;
+}
+
+// ─── Draft-04 / Draft-06 ─────────────────────────────────────────────────────
+
+type LegacyDraft = "draft-04" | "draft-06";
+
+/** Records a rewrite of the node being converted. */
+type RewriteRecorder = (keyword: string, description: string) => void;
+
+/** Keywords unknown to a legacy draft — its validators ignore them. */
+const UNKNOWN_KEYWORDS: Record<LegacyDraft, readonly string[]> = {
+	"draft-04": ["const", "contains", "propertyNames", "if", "then", "else"],
+	"draft-06": ["if", "then", "else"],
+};
+
+function isLegacyDraft(draft: Draft): draft is LegacyDraft {
+	return draft === "draft-04" || draft === "draft-06";
+}
+
+/**
+ * Rewrites the Draft-04 / Draft-06 constructs of a single schema node
+ * (sub-schemas are left to the caller). Copy-on-write.
+ */
+function convertLegacyKeywords(
+	schema: JSONSchema7,
+	draft: LegacyDraft,
+	record?: RewriteRecorder,
+): JSONSchema7 {
+	const source = schema as JSONSchema7 & Record<string, unknown>;
+	let result = source;
+	let copied = false;
+
+	function ensureCopy(): JSONSchema7 & Record<string, unknown> {
+		if (!copied) {
+			result = { ...source };
+			copied = true;
+		}
+		return result;
+	}
+
+	if (hasOwn(source, "$schema")) delete ensureCopy().$schema;
+
+	if (draft === "draft-04") {
+		// ── id → $id ──
+		if (typeof source.id === "string" && !hasOwn(source, "$id")) {
+			const copy = ensureCopy();
+			copy.$id = source.id;
+			delete copy.id;
+			record?.("id", "id → $id");
+		}
+
+		// ── Boolean exclusiveMinimum / exclusiveMaximum → numeric bounds ──
+		convertExclusiveBounds(source, ensureCopy, record);
+	}
+
+	// ── Keywords introduced by later drafts ──
+	for (const keyword of UNKNOWN_KEYWORDS[draft]) {
+		if (!hasOwn(source, keyword)) continue;
+		delete ensureCopy()[keyword];
+		record?.(keyword, `unknown to ${draft}, dropped`);
+	}
+
+	return result;
+}
+
+/**
+ * Rewrites boolean `exclusiveMinimum` / `exclusiveMaximum` (Draft-04,
+ * OpenAPI 3.0) into the numeric bounds of Draft-06+:
+ * `{ minimum: 0, exclusiveMinimum: true }` → `{ exclusiveMinimum: 0 }`.
+ */
+function convertExclusiveBounds(
+	source: JSONSchema7 & Record<string, unknown>,
+	ensureCopy: () => JSONSchema7 & Record<string, unknown>,
+	record?: RewriteRecorder,
+): void {
+	for (const [exclusive, bound] of [
+		["exclusiveMinimum", "minimum"],
+		["exclusiveMaximum", "maximum"],
+	] as const) {
+		const flag: unknown = source[exclusive];
+		if (typeof flag !== "boolean") continue;
+		const copy = ensureCopy();
+		delete copy[exclusive];
+		const value = source[bound];
+		if (flag && typeof value === "number") {
+			copy[exclusive] = value;
+			delete copy[bound];
+			record?.(exclusive, `${exclusive}: true → ${exclusive}: ${value}`);
+		} else {
+			record?.(exclusive, `${exclusive}: ${flag} without effect, dropped`);
+		}
+	}
+}
+
+// ─── Upgrade report ──────────────────────────────────────────────────────────
+
+/**
+ * Converts a schema to the internal form, and lists the Draft-04 /
+ * Draft-06 rewrites applied on the way.
+ *
+ * @param def    The schema
+ * @param draft  Dialect to assume when the schema has no `$schema`
+ *
+ * @example
+ * ```ts
+ * upgradeSchema(
+ *   { $schema: "http://json-schema.org/draft-04/schema#", minimum: 0, exclusiveMinimum: true },
+ *   "draft-07",
+ * );
+ * // → {
+ * //   schema: { exclusiveMinimum: 0 },
+ * //   rewrites: [{ path: "", keyword: "exclusiveMinimum", description: "exclusiveMinimum: true → exclusiveMinimum: 0" }],
+ * // }
+ * ```
+ */
+export function upgradeSchema(
+	def: JSONSchema7Definition,
+	draft: Draft,
+): UpgradeResult {
+	const rewrites: SchemaRewrite[] = [];
+	collectRewrites(def, draft, "", rewrites);
+	return { schema: toInternalForm(def, draft), rewrites };
+}
+
+/**
+ * Replays the legacy conversion of every node (uncached) to record its
+ * rewrites. Dropped keywords are not traversed.
+ */
+function collectRewrites(
+	def: JSONSchema7Definition,
+	draft: Draft,
+	path: string,
+	rewrites: SchemaRewrite[],
+): void {
+	if (typeof def === "boolean") return;
+
+	const source = detectDraft(def, draft);
+	const node = isLegacyDraft(source)
+		? convertLegacyKeywords(def, source, (keyword, description) => {
+				rewrites.push({ path, keyword, description });
+			})
+		: def;
+
+	mapSubSchemas(
+		node,
+		(sub, keyword, key) => {
+			const location =
+				key === undefined ? keyword : `${keyword}/${escapePointerToken(key)}`;
+			collectRewrites(sub, source, `${path}/${location}`, rewrites);
+			return sub;
+		},
+		false,
+	);
+}
+
+/** Escapes a key as an RFC 6901 pointer token. */
+function escapePointerToken(token: string): string {
+	return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+// ─── OpenAPI 3.0 ─────────────────────────────────────────────────────────────
+
+/**
+ * Rewrites the OpenAPI 3.0 keywords of a single schema node
+ * (sub-schemas are left to the caller, except `components.schemas`).
+ * Copy-on-write.
+ */
+function convertOpenApiKeywords(schema: JSONSchema7): JSONSchema7 {
+	const source = schema as JSONSchema7 & Record<string, unknown>;
+	let result = source;
+	let copied = false;
+
+	function ensureCopy(): JSONSchema7 & Record<string, unknown> {
+		if (!copied) {
+			result = { ...source };
+			copied = true;
+		}
+		return result;
+	}
+
+	// ── nullable → "null" in type (only effective next to `type`) ──
+	if (hasOwn(source, "nullable")) {
+		const copy = ensureCopy();
+		delete copy.nullable;
+		if (source.nullable === true && source.type !== undefined) {
+			const types = Array.isArray(source.type) ? source.type : [source.type];
+			if (!types.includes("null")) copy.type = [...types, "null"];
+			if (Array.isArray(source.enum) && !source.enum.includes(null)) {
+				copy.enum = [...source.enum, null];
+			}
+		}
+	}
+
+	// ── Boolean exclusiveMinimum / exclusiveMaximum → numeric bounds ──
+	convertExclusiveBounds(source, ensureCopy);
+
+	// ── example → examples ──
+	if (hasOwn(source, "example")) {
+		const copy = ensureCopy();
+		delete copy.example;
+		if (source.examples === undefined)
+			copy.examples = [source.example as JSONSchema7Type];
+	}
+
+	// ── discriminator → const discriminant in each branch ──
+	const discriminator = source.discriminator;
+	if (hasOwn(source, "discriminator")) {
+		const copy = ensureCopy();
+		delete copy.discriminator;
+		if (
+			isPlainObj(discriminator) &&
+			typeof discriminator.propertyName === "string"
+		) {
+			const propertyName = discriminator.propertyName;
+			const mapping = isPlainObj(discriminator.mapping)
+				? (discriminator.mapping as Record<string, string>)
+				: {};
+			for (const keyword of ["oneOf", "anyOf"] as const) {
+				const branches = source[keyword];
+				if (!Array.isArray(branches)) continue;
+				copy[keyword] = branches.map((branch) =>
+					tagBranch(branch, propertyName, mapping),
+				);
+			}
+		}
+	}
+
+	// ── components.schemas ──
+	// Not a JSON Schema container, so not traversed by `mapSubSchemas`
+	const components = source.components;
+	if (isPlainObj(components) && isPlainObj(components.schemas)) {
+		const schemas = components.schemas as Record<string, JSONSchema7Definition>;
+		const converted: Record<string, JSONSchema7Definition> = {};
+		let changed = false;
+		for (const name of Object.keys(schemas)) {
+			const original = schemas[name] as JSONSchema7Definition;
+			converted[name] = toInternalForm(original, "openapi30");
+			if (converted[name] !== original) changed = true;
+		}
+		if (changed)
+			ensureCopy().components = { ...components, schemas: converted };
+	}
+
+	return result;
+}
+
+/**
+ * Requires the discriminant value(s) of a `$ref` branch: the `mapping` keys
+ * targeting it, or else the name of the referenced schema
+ * (`#/components/schemas/Cat` → `"Cat"`). Other branches are left as-is.
+ */
+function tagBranch(
+	branch: JSONSchema7Definition,
+	propertyName: string,
+	mapping: Record<string, string>,
+): JSONSchema7Definition {
+	if (typeof branch === "boolean" || typeof branch.$ref !== "string") {
+		return branch;
+	}
+	const ref = branch.$ref;
+	const name = referencedName(ref);
+
+	let values = Object.keys(mapping).filter((key) => {
+		const target = mapping[key];
+		return target === ref || (name !== null && target === name);
+	});
+	if (values.length === 0 && name !== null) values = [name];
+	if (values.length === 0) return branch;
+
+	return {
+		allOf: [
+			branch,
+			{
+				properties: {
+					[propertyName]:
+						values.length === 1 ? { const: values[0] } : { enum: values },
+				},
+				required: [propertyName],
+			},
+		],
+	};
+}
+
+/**
+ * Last token of the JSON pointer of a reference
+ * (`#/components/schemas/Cat` → `"Cat"`), or `null` without pointer.
+ */
+function referencedName(ref: string): string | null {
+	const hash = ref.indexOf("#");
+	if (hash === -1 || ref[hash + 1] !== "/") return null;
+	const token = ref.slice(ref.lastIndexOf("/") + 1);
+	if (token === "") return null;
+	try {
+		return decodeURIComponent(token).replace(/~1/g, "/").replace(/~0/g, "~");
+	} catch {
+		return null;
+	}
+}
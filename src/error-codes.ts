@@ -0,0 +1,105 @@
+// ─── Error codes ─────────────────────────────────────────────────────────────
+//
+// Every `SchemaError` carries a stable machine-readable `code` built from
+// the keyword it concerns and the reason of the failure:
+//
+//   - `<domain>.<keyword>.<reason>` for the keywords of one type
+//     (`numeric.minimum.too_low`, `string.pattern.mismatch`,
+//     `object.required.missing`, `array.uniqueItems.not_unique`)
+//   - `<keyword>.<reason>` for the keywords applying to any value
+//     (`type.mismatch`, `enum.mismatch`, `oneOf.overlap`,
+//     `$ref.unresolved`)
+//
+// Static and runtime errors on the same keyword share their code: a sub
+// accepting values below sup `minimum` and a value below `minimum` are
+// both `numeric.minimum.too_low`.
+
+/** Type family of the keywords applying to one type */
+const KEYWORD_DOMAINS: Readonly<Record<string, string>> = {
+	minimum: "numeric",
+	maximum: "numeric",
+	exclusiveMinimum: "numeric",
+	exclusiveMaximum: "numeric",
+	multipleOf: "numeric",
+	minLength: "string",
+	maxLength: "string",
+	pattern: "string",
+	format: "string",
+	required: "object",
+	properties: "object",
+	patternProperties: "object",
+	additionalProperties: "object",
+	unevaluatedProperties: "object",
+	propertyNames: "object",
+	minProperties: "object",
+	maxProperties: "object",
+	dependencies: "object",
+	dependentRequired: "object",
+	dependentSchemas: "object",
+	items: "array",
+	prefixItems: "array",
+	additionalItems: "array",
+	unevaluatedItems: "array",
+	minItems: "array",
+	maxItems: "array",
+	uniqueItems: "array",
+	contains: "array",
+	minContains: "array",
+	maxContains: "array",
+};
+
+/** Reason of a failure of the keyword when no other is given */
+const DEFAULT_REASONS: Readonly<Record<string, string>> = {
+	minimum: "too_low",
+	exclusiveMinimum: "too_low",
+	maximum: "too_high",
+	exclusiveMaximum: "too_high",
+	multipleOf: "not_multiple",
+	minLength: "too_short",
+	maxLength: "too_long",
+	minItems: "too_few",
+	minProperties: "too_few",
+	minContains: "too_few",
+	maxItems: "too_many",
+	maxProperties: "too_many",
+	maxContains: "too_many",
+	required: "missing",
+	dependencies: "missing",
+	dependentRequired: "missing",
+	dependentSchemas: "missing",
+	contains: "missing",
+	additionalProperties: "not_allowed",
+	unevaluatedProperties: "not_allowed",
+	additionalItems: "not_allowed",
+	unevaluatedItems: "not_allowed",
+	uniqueItems: "not_unique",
+	not: "matched",
+	anyOf: "no_match",
+	oneOf: "no_match",
+	$ref: "unresolved",
+	constraints: "failed",
+};
+
+/**
+ * Builds the code of an error on `keyword`.
+ *
+ * @param keyword The offending keyword (`minimum`, `required`, `type`, …)
+ * @param reason  The reason of the failure — by default the usual one of
+ *                the keyword (`too_low` for `minimum`), else `mismatch`
+ *
+ * @example
+ * ```ts
+ * errorCode("minimum");                 // → "numeric.minimum.too_low"
+ * errorCode("pattern", "unconstrained"); // → "string.pattern.unconstrained"
+ * errorCode("type");                    // → "type.mismatch"
+ * ```
+ */
+export function errorCode(
+	keyword: string,
+	reason = DEFAULT_REASONS[keyword] ?? "mismatch",
+): string {
+	const domain = KEYWORD_DOMAINS[keyword];
+	return domain === undefined
+		? `${keyword}.${reason}`
+		: `${domain}.${keyword}.${reason}`;
+}
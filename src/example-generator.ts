@@ -0,0 +1,548 @@
+import type {
+	JSONSchema7,
+	JSONSchema7Definition,
+	JSONSchema7TypeName,
+} from "json-schema";
+import { findCounterexample, propertySchema } from "./counterexample.ts";
+import { FORMAT_EXAMPLES } from "./format-validator.ts";
+import type { MergeEngine } from "./merge-engine.ts";
+import { matchesPattern, samplePattern } from "./pattern-subset.ts";
+import { unfoldRecursiveRef } from "./ref-resolver.ts";
+import {
+	patternIntersection,
+	patternsIntersection,
+} from "./regex-automaton.ts";
+import { isDataValidForSchema } from "./runtime-validator.ts";
+import { expandConditions } from "./subset-checker.ts";
+import { itemSchemaAt } from "./tuple-items.ts";
+import { deepEqual, hasOwn } from "./utils.ts";
+
+// ─── Example generator ───────────────────────────────────────────────────────
+//
+// Generates values valid for a schema, e.g. mock payloads for offline tests.
+//
+// Values are drawn at random within the keywords of the schema — `type`,
+// `const` / `enum`, numeric bounds and `multipleOf`, string lengths,
+// `pattern` (via `randexp`), `format`, `required`, `propertyNames`, array
+// bounds, one branch of `anyOf` / `oneOf` — from a seeded generator, so
+// that a seed always yields the same values.
+//
+// Keywords relating several locations (`not`, `uniqueItems`, `oneOf`
+// exclusivity, schema `dependencies`…) are not modeled: every value is
+// validated with AJV (`runtime-validator.ts`) and drawn again when invalid.
+// When no draw succeeds, the boundary values of the counterexample search
+// are tried instead.
+//
+// Draws that would almost never succeed are made exact: a string whose
+// patterns were merged by `allOf` (or whose sample misses the length
+// bounds) is the shortest string matching them all within the bounds,
+// and a number whose bounds leave no step of the grid is their midpoint.
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/** Draws attempted per requested value */
+const ATTEMPTS_PER_VALUE = 20;
+
+/** Nesting depth past which optional properties and items are left out */
+const MAX_OPTIONAL_DEPTH = 3;
+
+/** Nesting depth past which no value is generated */
+const MAX_DEPTH = 8;
+
+/** Draws of an extra key allowed to fail (no name, or one already taken) */
+const MAX_EXTRA_KEY_FAILURES = 20;
+
+/** Values of each schema tried against the other by `findCommonValue` */
+const COMMON_VALUE_SAMPLES = 10;
+
+/** Width of the range drawn from when a number has a single bound, or none */
+const NUMBER_SPAN = 100;
+
+/** Extra length drawn when a string or array has no upper bound */
+const LENGTH_SPAN = 5;
+
+/** Prefix and suffix of the patterns the merge library conjoins */
+const CONJUNCTION_START = "^(?=.*(?:";
+const CONJUNCTION_END = ")).*$";
+const CONJUNCTION_SEPARATOR = "))(?=.*(?:";
+
+/** Characters of strings without `pattern` */
+const ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+
+/** Types drawn from when a schema does not restrict `type` */
+const ALL_TYPES: readonly JSONSchema7TypeName[] = [
+	"null",
+	"boolean",
+	"integer",
+	"number",
+	"string",
+	"array",
+	"object",
+];
+
+/** Returned by the draws of schemas accepting no value */
+const NO_VALUE = Symbol("no value");
+
+/** Source of randomness in [0, 1) */
+type Random = () => number;
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Generates up to `count` distinct values valid for a normalized schema.
+ *
+ * @param def    Normalized schema
+ * @param engine Merge engine used to combine `allOf` / `anyOf` members
+ * @param count  Number of values wanted
+ * @param seed   Seed of the random draws
+ * @returns The values found — fewer than `count` (possibly none) when the
+ *          draws keep failing validation
+ */
+export function generateExamples(
+	def: JSONSchema7Definition,
+	engine: MergeEngine,
+	count: number,
+	seed: number,
+): unknown[] {
+	const random = createRandom(seed);
+	const schema = expandConditions(def, engine);
+	const values: unknown[] = [];
+
+	for (
+		let attempt = 0;
+		attempt < count * ATTEMPTS_PER_VALUE && values.length < count;
+		attempt++
+	) {
+		const value = draw(schema, random, engine, 0);
+		if (
+			value !== NO_VALUE &&
+			isDataValidForSchema(def, value) &&
+			!values.some((other) => deepEqual(other, value))
+		) {
+			values.push(value);
+		}
+	}
+	return values;
+}
+
+/**
+ * Generates one value valid for a normalized schema — drawn at random,
+ * else among the boundary values of the counterexample search.
+ *
+ * @returns The value, or `null` when none was found
+ */
+export function generateExample(
+	def: JSONSchema7Definition,
+	engine: MergeEngine,
+	seed: number,
+): { value: unknown } | null {
+	const [value] = generateExamples(def, engine, 1, seed);
+	if (value !== undefined) return { value };
+	// Every value of `def` is a counterexample to `def ⊆ false`
+	return findCounterexample(def, false, engine);
+}
+
+/**
+ * Finds a value valid for two normalized schemas: the shortest string
+ * matching both root patterns, a value generated from their intersection,
+ * else a value generated from one schema that the other accepts.
+ *
+ * @param intersection The merge of `a` and `b`, `null` when it failed
+ * @returns The value — validated against both schemas with AJV — or
+ *          `null` when none was found
+ */
+export function findCommonValue(
+	a: JSONSchema7Definition,
+	b: JSONSchema7Definition,
+	intersection: JSONSchema7Definition | null,
+	engine: MergeEngine,
+): { value: unknown } | null {
+	const candidates: unknown[] = [];
+	if (
+		typeof a !== "boolean" &&
+		typeof b !== "boolean" &&
+		a.pattern !== undefined &&
+		b.pattern !== undefined
+	) {
+		const witness = patternIntersection(a.pattern, b.pattern)?.witness;
+		if (typeof witness === "string") candidates.push(witness);
+	}
+	if (intersection !== null) {
+		candidates.push(...generateExamples(intersection, engine, 1, 0));
+	}
+	candidates.push(
+		...generateExamples(a, engine, COMMON_VALUE_SAMPLES, 0),
+		...generateExamples(b, engine, COMMON_VALUE_SAMPLES, 0),
+	);
+
+	const value = candidates.find(
+		(candidate) =>
+			isDataValidForSchema(a, candidate) && isDataValidForSchema(b, candidate),
+	);
+	return value === undefined ? null : { value };
+}
+
+// ─── Draws ───────────────────────────────────────────────────────────────────
+
+/** Draws a value from the keywords of `def`. */
+function draw(
+	def: JSONSchema7Definition,
+	random: Random,
+	engine: MergeEngine,
+	depth: number,
+): unknown {
+	const schema = unfoldRecursiveRef(def) ?? def;
+	if (schema === false || depth > MAX_DEPTH) return NO_VALUE;
+	if (schema === true) return draw({}, random, engine, depth);
+
+	if (hasOwn(schema, "const")) return schema.const;
+	if (Array.isArray(schema.enum)) {
+		return schema.enum.length === 0 ? NO_VALUE : pick(schema.enum, random);
+	}
+
+	// ── allOf: merged into the other keywords ──
+	if (schema.allOf !== undefined) {
+		const { allOf, ...rest } = schema;
+		let merged: JSONSchema7Definition | null = rest;
+		for (const member of allOf) {
+			merged = merged === null ? null : engine.merge(merged, member);
+		}
+		return merged === null ? NO_VALUE : draw(merged, random, engine, depth);
+	}
+
+	// ── anyOf / oneOf: one branch, merged with the other keywords ──
+	for (const keyword of ["anyOf", "oneOf"] as const) {
+		const branches = schema[keyword];
+		if (branches === undefined) continue;
+		if (branches.length === 0) return NO_VALUE;
+		const { [keyword]: _, ...rest } = schema;
+		const merged = engine.merge(rest, pick(branches, random));
+		return merged === null ? NO_VALUE : draw(merged, random, engine, depth);
+	}
+
+	const types =
+		schema.type === undefined
+			? ALL_TYPES
+			: Array.isArray(schema.type)
+				? schema.type
+				: [schema.type];
+	if (types.length === 0) return NO_VALUE;
+
+	switch (pick(types, random)) {
+		case "null":
+			return null;
+		case "boolean":
+			return random() < 0.5;
+		case "integer":
+			return drawNumber(schema, random, true);
+		case "number":
+			return drawNumber(schema, random, false);
+		case "string":
+			return drawString(schema, random);
+		case "array":
+			return drawArray(schema, random, engine, depth);
+		case "object":
+			return drawObject(schema, random, engine, depth);
+		default:
+			return NO_VALUE;
+	}
+}
+
+/**
+ * Draws a number between the bounds of the schema, on its `multipleOf`
+ * grid. Numbers without `multipleOf` are rounded to two decimals, or
+ * take the midpoint of bounds too close for that grid.
+ */
+function drawNumber(
+	schema: JSONSchema7,
+	random: Random,
+	integer: boolean,
+): number | typeof NO_VALUE {
+	let low = Math.max(
+		schema.minimum ?? Number.NEGATIVE_INFINITY,
+		schema.exclusiveMinimum ?? Number.NEGATIVE_INFINITY,
+	);
+	let high = Math.min(
+		schema.maximum ?? Number.POSITIVE_INFINITY,
+		schema.exclusiveMaximum ?? Number.POSITIVE_INFINITY,
+	);
+	if (low === Number.NEGATIVE_INFINITY && high === Number.POSITIVE_INFINITY) {
+		low = -NUMBER_SPAN;
+		high = NUMBER_SPAN;
+	} else if (low === Number.NEGATIVE_INFINITY) {
+		low = high - NUMBER_SPAN;
+	} else if (high === Number.POSITIVE_INFINITY) {
+		high = low + NUMBER_SPAN;
+	}
+
+	const step = schema.multipleOf ?? (integer ? 1 : 0.01);
+	let first = Math.ceil(low / step);
+	let last = Math.floor(high / step);
+	// Exclusive bounds are not on the grid themselves
+	if (first * step === schema.exclusiveMinimum) first++;
+	if (last * step === schema.exclusiveMaximum) last--;
+	if (first > last) {
+		const middle = (low + high) / 2;
+		return !integer &&
+			schema.multipleOf === undefined &&
+			isWithinBounds(middle, schema)
+			? middle
+			: NO_VALUE;
+	}
+
+	const value = (first + Math.floor(random() * (last - first + 1))) * step;
+	// Cancels the binary rounding of fractional steps (0.1 * 3)
+	const rounded = Number(value.toPrecision(12));
+	return integer ? Math.round(rounded) : rounded;
+}
+
+/** Whether a number satisfies the numeric bounds of a schema. */
+function isWithinBounds(value: number, schema: JSONSchema7): boolean {
+	return (
+		value >= (schema.minimum ?? Number.NEGATIVE_INFINITY) &&
+		value <= (schema.maximum ?? Number.POSITIVE_INFINITY) &&
+		value > (schema.exclusiveMinimum ?? Number.NEGATIVE_INFINITY) &&
+		value < (schema.exclusiveMaximum ?? Number.POSITIVE_INFINITY)
+	);
+}
+
+/**
+ * Draws a string from the format or pattern of the schema, else letters.
+ * Conjoined patterns, and samples missing the length bounds, give way to
+ * the shortest string matching the patterns within the bounds.
+ */
+function drawString(
+	schema: JSONSchema7,
+	random: Random,
+): string | typeof NO_VALUE {
+	if (schema.format !== undefined && FORMAT_EXAMPLES[schema.format]) {
+		return FORMAT_EXAMPLES[schema.format] as string;
+	}
+	if (schema.pattern !== undefined) {
+		const patterns = patternConjuncts(schema.pattern);
+		if (patterns.length === 1) {
+			const [sample] = samplePattern(schema.pattern, 1, random);
+			if (sample !== undefined && isWithinLength(sample, schema)) {
+				return sample;
+			}
+		}
+		const bounded =
+			schema.minLength === undefined && schema.maxLength === undefined
+				? patterns
+				: [
+						...patterns,
+						`^[\\s\\S]{${schema.minLength ?? 0},${schema.maxLength ?? ""}}$`,
+					];
+		return patternsIntersection(bounded)?.witness ?? NO_VALUE;
+	}
+
+	const length = drawLength(schema.minLength, schema.maxLength, random);
+	if (length === null) return NO_VALUE;
+	let value = "";
+	for (let i = 0; i < length; i++) value += pick([...ALPHABET], random);
+	return value;
+}
+
+/** Whether a string's length, in code points, is within the bounds. */
+function isWithinLength(value: string, schema: JSONSchema7): boolean {
+	const length = [...value].length;
+	return (
+		length >= (schema.minLength ?? 0) &&
+		length <= (schema.maxLength ?? Number.POSITIVE_INFINITY)
+	);
+}
+
+/**
+ * Splits the conjunction `^(?=.*(?:a))(?=.*(?:b)).*$` the merge library
+ * builds for patterns of an `allOf` into its patterns, recursively — a
+ * pattern built otherwise is returned alone.
+ */
+function patternConjuncts(pattern: string): string[] {
+	if (
+		!pattern.startsWith(CONJUNCTION_START) ||
+		!pattern.endsWith(CONJUNCTION_END)
+	) {
+		return [pattern];
+	}
+	const inner = pattern.slice(
+		CONJUNCTION_START.length,
+		pattern.length - CONJUNCTION_END.length,
+	);
+	// The separator may also occur inside a pattern: the split kept is the
+	// first one leaving two valid patterns
+	for (
+		let at = inner.indexOf(CONJUNCTION_SEPARATOR);
+		at !== -1;
+		at = inner.indexOf(CONJUNCTION_SEPARATOR, at + 1)
+	) {
+		const left = inner.slice(0, at);
+		const right = inner.slice(at + CONJUNCTION_SEPARATOR.length);
+		if (isValidPattern(left) && isValidPattern(right)) {
+			return [...patternConjuncts(left), ...patternConjuncts(right)];
+		}
+	}
+	return [pattern];
+}
+
+/** Whether a pattern compiles as AJV compiles it. */
+function isValidPattern(pattern: string): boolean {
+	try {
+		new RegExp(pattern, "u");
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Draws an array of a length within the bounds, item by item. */
+function drawArray(
+	schema: JSONSchema7,
+	random: Random,
+	engine: MergeEngine,
+	depth: number,
+): unknown[] | typeof NO_VALUE {
+	const tupleLength = Array.isArray(schema.items) ? schema.items.length : 0;
+	const closed =
+		Array.isArray(schema.items) && schema.additionalItems === false;
+	const maxItems = Math.min(
+		schema.maxItems ?? Number.POSITIVE_INFINITY,
+		closed ? tupleLength : Number.POSITIVE_INFINITY,
+	);
+	const minItems = Math.max(
+		schema.minItems ?? 0,
+		schema.contains === undefined ? 0 : 1,
+	);
+	const length =
+		depth >= MAX_OPTIONAL_DEPTH
+			? minItems
+			: drawLength(
+					minItems,
+					Number.isFinite(maxItems) ? maxItems : undefined,
+					random,
+				);
+	if (length === null || length > maxItems) return NO_VALUE;
+
+	const items: unknown[] = [];
+	for (let index = 0; index < length; index++) {
+		const item =
+			index === 0 && schema.contains !== undefined
+				? draw(schema.contains, random, engine, depth + 1)
+				: draw(itemSchemaAt(schema, index), random, engine, depth + 1);
+		if (item === NO_VALUE) return NO_VALUE;
+		items.push(item);
+	}
+	return items;
+}
+
+/**
+ * Draws an object holding the required keys and, at random, the optional
+ * ones — plus the keys the array `dependencies` of present keys require
+ * and extra keys up to `minProperties`.
+ */
+function drawObject(
+	schema: JSONSchema7,
+	random: Random,
+	engine: MergeEngine,
+	depth: number,
+): Record<string, unknown> | typeof NO_VALUE {
+	const keys = new Set(schema.required ?? []);
+	if (depth < MAX_OPTIONAL_DEPTH) {
+		for (const key of Object.keys(schema.properties ?? {})) {
+			if (random() < 0.5) keys.add(key);
+		}
+	}
+	for (const key of [...keys]) {
+		const dependency = schema.dependencies?.[key];
+		if (Array.isArray(dependency)) {
+			for (const required of dependency) keys.add(required);
+		}
+	}
+	let failures = 0;
+	for (let extra = 0; keys.size < (schema.minProperties ?? 0); extra++) {
+		const key = extraKey(schema, extra, keys, random, engine);
+		if (key === NO_VALUE || keys.has(key)) {
+			// The names the schema allows may be too few to reach minProperties
+			if (++failures >= MAX_EXTRA_KEY_FAILURES) return NO_VALUE;
+			continue;
+		}
+		keys.add(key);
+	}
+
+	const object: Record<string, unknown> = {};
+	for (const key of keys) {
+		const value = draw(propertySchema(schema, key), random, engine, depth + 1);
+		if (value === NO_VALUE) return NO_VALUE;
+		object[key] = value;
+	}
+	return object;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a deterministic source of randomness (mulberry32) from a seed.
+ */
+function createRandom(seed: number): Random {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/** Picks one element of a non-empty list. */
+function pick<T>(values: readonly T[], random: Random): T {
+	return values[Math.floor(random() * values.length)] as T;
+}
+
+/**
+ * Draws a length within `[min, max]` — up to `LENGTH_SPAN` above `min`
+ * without `max`. Returns `null` when the bounds cross.
+ */
+function drawLength(
+	min: number | undefined,
+	max: number | undefined,
+	random: Random,
+): number | null {
+	const low = min ?? 0;
+	const high = max ?? low + LENGTH_SPAN;
+	if (low > high) return null;
+	return low + Math.floor(random() * (high - low + 1));
+}
+
+/**
+ * Draws the name of the `index`-th extra key: a key of `properties` not
+ * drawn yet, else a name valid for `propertyNames`, else a sample of a
+ * `patternProperties` pattern — numbered when the sample is taken and
+ * the pattern still matches — else a numbered key.
+ */
+function extraKey(
+	schema: JSONSchema7,
+	index: number,
+	taken: ReadonlySet<string>,
+	random: Random,
+	engine: MergeEngine,
+): string | typeof NO_VALUE {
+	const declared = Object.keys(schema.properties ?? {});
+	if (index < declared.length) return declared[index] as string;
+	if (schema.propertyNames !== undefined) {
+		const names = engine.merge(schema.propertyNames, { type: "string" });
+		if (names === null) return NO_VALUE;
+		const name = draw(names, random, engine, 0);
+		return typeof name === "string" ? name : NO_VALUE;
+	}
+	const patterns = Object.keys(schema.patternProperties ?? {});
+	if (patterns.length > 0) {
+		const pattern = pick(patterns, random);
+		const [sample] = samplePattern(pattern, 1, random);
+		if (sample === undefined) return NO_VALUE;
+		const numbered = `${sample}${index}`;
+		return taken.has(sample) && matchesPattern(numbered, pattern) === true
+			? numbered
+			: sample;
+	}
+	return `key${index}`;
+}
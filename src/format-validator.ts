@@ -68,6 +68,28 @@ export const KNOWN_FORMATS: ReadonlySet<string> = new Set([
 	"regex",
 ]);
 
+/** A valid value for each known format — used to generate instances */
+export const FORMAT_EXAMPLES: Readonly<Record<string, string>> = {
+	"date-time": "2020-01-01T00:00:00Z",
+	date: "2020-01-01",
+	time: "00:00:00Z",
+	email: "user@example.com",
+	"idn-email": "user@example.com",
+	hostname: "example.com",
+	"idn-hostname": "example.com",
+	ipv4: "192.0.2.1",
+	ipv6: "2001:db8::1",
+	uri: "https://example.com",
+	"uri-reference": "/path",
+	iri: "https://example.com",
+	"iri-reference": "/path",
+	"uri-template": "https://example.com/{id}",
+	uuid: "123e4567-e89b-12d3-a456-426614174000",
+	"json-pointer": "/path",
+	"relative-json-pointer": "0",
+	regex: "^a$",
+};
+
 // ─── Format hierarchy ────────────────────────────────────────────────────────
 
 /**
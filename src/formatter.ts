@@ -36,6 +36,7 @@ function formatErrorLine(e: {
  *    Errors:
  *      ✗ accountId: expected string, received undefined
  *      ✗ meetingId: expected not optional, received optional
+ *    Counterexample: {"meetingId":"a"}
  * ```
  */
 export function formatResult(label: string, result: SubsetResult): string {
@@ -50,5 +51,9 @@ export function formatResult(label: string, result: SubsetResult): string {
 		}
 	}
 
+	if (!result.isSubset && "counterexample" in result) {
+		lines.push(`   Counterexample: ${JSON.stringify(result.counterexample)}`);
+	}
+
 	return lines.join("\n");
 }
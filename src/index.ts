@@ -1,14 +1,18 @@
 export { resolveConditions } from "./condition-resolver.ts";
 export { JsonSchemaCompatibilityChecker } from "./json-schema-compatibility-checker.ts";
 export { MergeEngine } from "./merge-engine.ts";
+export { checkOpenApi } from "./openapi.ts";
 export {
 	arePatternsEquivalent,
+	checkPatternSubset,
 	isPatternSubset,
 	isTrivialPattern,
 } from "./pattern-subset.ts";
+export { SchemaRegistry } from "./schema-registry.ts";
 export { formatSchemaType } from "./semantic-errors.ts";
 export type {
 	CheckerOptions,
+	CheckOptions,
 	CheckRuntimeOptions,
 	Constraint,
 	ConstraintExecutionContext,
@@ -16,11 +20,25 @@ export type {
 	ConstraintValidationResult,
 	ConstraintValidator,
 	ConstraintValidatorRegistry,
+	Contradiction,
+	Draft,
+	ExampleOptions,
+	OpenApiCompatibilityResult,
+	OpenApiDocument,
+	OpenApiOperationReport,
+	PatternSubsetResult,
+	RelationResult,
 	ResolvedConditionResult,
 	ResolvedSubsetResult,
+	SatisfiabilityResult,
 	SchemaError,
+	SchemaRelation,
+	SchemaRewrite,
 	SubsetResult,
+	UpgradeResult,
 	ValidateTargetOptions,
 	ValidateTargets,
+	VerificationResult,
+	VerifyOptions,
 } from "./types.ts";
 export { SchemaErrorType } from "./types.ts";
@@ -1,7 +1,11 @@
 import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
 import { resolveConditions } from "./condition-resolver.ts";
 import { validateSchemaConstraints } from "./constraint-validator.ts";
+import { findCounterexample } from "./counterexample.ts";
 import { narrowSchemaWithData } from "./data-narrowing.ts";
+import { toInternalForm, upgradeSchema } from "./dialect.ts";
+import { errorCode } from "./error-codes.ts";
+import { findCommonValue, generateExample } from "./example-generator.ts";
 import { formatResult } from "./formatter.ts";
 import { MergeEngine } from "./merge-engine.ts";
 import { normalize } from "./normalizer.ts";
@@ -10,33 +14,61 @@ import {
 	isPatternSubset,
 	isTrivialPattern,
 } from "./pattern-subset.ts";
+import type { UnresolvedRef } from "./ref-resolver.ts";
+import {
+	bundleRefs,
+	collectUnresolvedRefs,
+	decodePointer,
+	followPointer,
+	rebindRecursiveRefs,
+	resolveRefs,
+} from "./ref-resolver.ts";
+import { patternIntersection } from "./regex-automaton.ts";
 import {
 	clearAllValidatorCaches,
 	getPartialRuntimeValidationErrors,
 	getRuntimeValidationErrors,
 } from "./runtime-validator.ts";
+import { findContradictions } from "./satisfiability.ts";
+import { locatePointer } from "./schema-pointer.ts";
+import type { SchemaRegistry } from "./schema-registry.ts";
+import { attributeAllOfErrors } from "./semantic-errors.ts";
 import type { BranchResult, BranchType } from "./subset-checker.ts";
 import {
 	checkAtomic,
 	checkBranchedSub,
 	checkBranchedSup,
+	checkUndecomposedAllOf,
+	expandConditions,
+	findOneOfOverlaps,
+	flattenAllOf,
 	getBranchesTyped,
 	isAtomicSubsetOf,
+	splitByCondition,
 } from "./subset-checker.ts";
 import type {
 	CheckerOptions,
+	CheckOptions,
 	CheckRuntimeOptions,
 	ConstraintExecutionContext,
 	ConstraintValidatorRegistry,
+	Draft,
+	ExampleOptions,
+	RelationResult,
 	ResolvedConditionResult,
 	ResolvedSubsetResult,
+	SatisfiabilityResult,
 	SchemaError,
 	SubsetResult,
+	UpgradeResult,
 	ValidateTargets,
+	VerifyOptions,
 } from "./types.ts";
 import { SchemaErrorType } from "./types.ts";
-import { deepEqual, isPlainObj } from "./utils.ts";
+import { resolveUnevaluated, unevaluatedLocations } from "./unevaluated.ts";
+import { deepEqual, hasOwn, isPlainObj } from "./utils.ts";
 import { resolveValidateTargets } from "./validate-targets.ts";
+import { verifySubset } from "./verification.ts";
 
 // ─── Re-exports ──────────────────────────────────────────────────────────────
 
@@ -86,10 +118,16 @@ export {
 export class JsonSchemaCompatibilityChecker {
 	private readonly constraintValidators: ConstraintValidatorRegistry;
 	private readonly engine: MergeEngine;
+	private readonly registry: SchemaRegistry | undefined;
+	private readonly draft: Draft;
+	private readonly strictOneOf: boolean;
 
 	constructor(options?: CheckerOptions) {
 		this.engine = new MergeEngine();
 		this.constraintValidators = options?.constraints ?? {};
+		this.registry = options?.registry;
+		this.draft = options?.draft ?? "draft-07";
+		this.strictOneOf = options?.strictOneOf ?? false;
 	}
 
 	// ── Subset check (boolean) ─────────────────────────────────────────────
@@ -114,8 +152,39 @@ export class JsonSchemaCompatibilityChecker {
 		// like {} ⊆ {} or identical schema objects with different references.
 		if (deepEqual(sub, sup)) return true;
 
-		const nSub = normalize(sub);
-		const nSup = normalize(sup);
+		const normalizedSub = normalize(sub, this.registry, this.draft);
+		const normalizedSup = normalize(sup, this.registry, this.draft);
+
+		// ── Unresolved references ──
+		// A `$ref` whose target is unknown could stand for any schema —
+		// no subset relation can be proven.
+		if (
+			collectUnresolvedRefs(normalizedSub).length > 0 ||
+			collectUnresolvedRefs(normalizedSup).length > 0
+		) {
+			return false;
+		}
+
+		// ── unevaluated* the rewrite could not close ──
+		// They constrain properties / items the check cannot see in sup
+		if (unevaluatedLocations(normalizedSup).length > 0) return false;
+
+		// ── if/then/else ──
+		// Conditions are split into the anyOf of their reachable cases,
+		// and sub is cut along the root condition of sup.
+		const nSup = expandConditions(normalizedSup, this.engine);
+
+		// ── allOf in sub ──
+		// Its members are merged into one schema, or into anyOf branches
+		// when they hold anyOf/oneOf — too many branches, and sub is
+		// compared through its members instead.
+		const flatSub = flattenAllOf(
+			expandConditions(normalizedSub, this.engine),
+			this.engine,
+		);
+		const undecomposed = checkUndecomposedAllOf(flatSub, nSup, this.engine);
+		if (undecomposed !== null) return undecomposed.isSubset;
+		const nSub = splitByCondition(flatSub, normalizedSup, this.engine);
 
 		// ── Post-normalize structural identity ──
 		// After normalization, schemas that were syntactically different
@@ -126,13 +195,18 @@ export class JsonSchemaCompatibilityChecker {
 
 		const { branches: subBranches } = getBranchesTyped(nSub);
 
-		if (subBranches.length > 1 || subBranches[0] !== nSub) {
-			return subBranches.every((branch) =>
-				isAtomicSubsetOf(branch, nSup, this.engine),
-			);
-		}
+		const subset =
+			subBranches.length > 1 || subBranches[0] !== nSub
+				? subBranches.every((branch) =>
+						isAtomicSubsetOf(branch, nSup, this.engine),
+					)
+				: isAtomicSubsetOf(nSub, nSup, this.engine);
 
-		return isAtomicSubsetOf(nSub, nSup, this.engine);
+		// ── oneOf exclusivity (strictOneOf) ──
+		if (subset && this.strictOneOf) {
+			return findOneOfOverlaps(nSub, nSup, this.engine).length === 0;
+		}
+		return subset;
 	}
 
 	// ── Subset check (detailed) ────────────────────────────────────────────
@@ -144,7 +218,7 @@ export class JsonSchemaCompatibilityChecker {
 	 * When `options` is provided, both schemas go through runtime-aware
 	 * processing before the static check:
 	 *   1. Conditions (`if/then/else`) are resolved using `data`
-	 *      (if `data` is `undefined`, conditions are resolved with `{}`)
+	 *      (if `data` is `undefined`, they are left to the static check)
 	 *   2. Schemas are narrowed using runtime values (enum materialization)
 	 *   3. The static subset check runs on the resolved/narrowed schemas
 	 *
@@ -153,6 +227,13 @@ export class JsonSchemaCompatibilityChecker {
 	 *   4. `data` is validated against the targeted resolved schema(s) via AJV
 	 *   5. Custom constraints are validated against `data` for the targeted schema(s)
 	 *
+	 * Options without `data` keep the check static and synchronous. Both
+	 * forms accept `verify`: instances of sub are generated and validated
+	 * against sup via AJV, and `result.verification` flags a
+	 * `isSubset: true` answer one of them contradicts. They also accept
+	 * `counterexample`: a failed check then carries a value valid for sub
+	 * and invalid for sup in `result.counterexample`.
+	 *
 	 * `validate` accepts:
 	 *   - `true` — validate against **both** sub and sup
 	 *   - `{ sub: true }` — validate only against the sub schema
@@ -161,8 +242,9 @@ export class JsonSchemaCompatibilityChecker {
 	 *
 	 * @param sub - The source schema (subset candidate)
 	 * @param sup - The target schema (expected superset)
-	 * @param options - Runtime options with `data` and optional `validate` flag
-	 * @returns SubsetResult if no options, ResolvedSubsetResult if options provided
+	 * @param options - Runtime options with `data` and optional `validate` flag,
+	 *   or static options (`verify`, `counterexample`)
+	 * @returns SubsetResult without `data`, ResolvedSubsetResult with `data`
 	 *
 	 * @example
 	 * ```ts
@@ -174,6 +256,12 @@ export class JsonSchemaCompatibilityChecker {
 	 *
 	 * // Full pipeline including AJV + constraint runtime validation
 	 * checker.check(sub, sup, { data: { kind: "text", value: "hello" }, validate: true });
+	 *
+	 * // Static check cross-validated with 100 generated instances of sub
+	 * checker.check(sub, sup, { verify: { samples: 100 } });
+	 *
+	 * // Static check with a failing value when sub ⊄ sup
+	 * checker.check(sub, sup, { counterexample: true });
 	 * ```
 	 */
 	check(
@@ -181,19 +269,32 @@ export class JsonSchemaCompatibilityChecker {
 		sup: JSONSchema7Definition,
 		options: CheckRuntimeOptions,
 	): Promise<ResolvedSubsetResult>;
-	check(sub: JSONSchema7Definition, sup: JSONSchema7Definition): SubsetResult;
 	check(
 		sub: JSONSchema7Definition,
 		sup: JSONSchema7Definition,
-		options?: CheckRuntimeOptions,
+		options?: CheckOptions,
+	): SubsetResult;
+	check(
+		sub: JSONSchema7Definition,
+		sup: JSONSchema7Definition,
+		options?: CheckOptions | CheckRuntimeOptions,
 	): SubsetResult | Promise<ResolvedSubsetResult> {
 		// ── Runtime-aware path ──
-		if (options) {
-			return this.checkWithOptions(sub, sup, options);
+		if (options && hasOwn(options, "data")) {
+			return this.checkWithOptions(sub, sup, options as CheckRuntimeOptions);
 		}
 
 		// ── Standard path (no condition resolution) ──
-		return this.checkInternal(sub, sup);
+		return this.withVerification(
+			this.locateErrors(
+				this.checkInternal(sub, sup, options?.counterexample),
+				sub,
+				sup,
+			),
+			sub,
+			sup,
+			options?.verify,
+		);
 	}
 
 	// ── Equality ───────────────────────────────────────────────────────────
@@ -202,7 +303,10 @@ export class JsonSchemaCompatibilityChecker {
 	 * Checks structural equality between two schemas.
 	 */
 	isEqual(a: JSONSchema7Definition, b: JSONSchema7Definition): boolean {
-		return this.engine.isEqual(normalize(a), normalize(b));
+		return this.engine.isEqual(
+			normalize(a, this.registry, this.draft),
+			normalize(b, this.registry, this.draft),
+		);
 	}
 
 	// ── Intersection ───────────────────────────────────────────────────────
@@ -212,39 +316,258 @@ export class JsonSchemaCompatibilityChecker {
 	 * Returns null if the schemas are incompatible.
 	 *
 	 * The result is normalized to eliminate structural artifacts
-	 * from the merge (e.g. redundant `enum` when `const` is present).
+	 * from the merge (e.g. redundant `enum` when `const` is present), and
+	 * its recursive references are rebound under `$defs` as in
+	 * `dereference()`, so that external validators can compile it.
 	 */
 	intersect(
 		a: JSONSchema7Definition,
 		b: JSONSchema7Definition,
+	): JSONSchema7Definition | null {
+		const merged = this.intersectNormalized(
+			normalize(a, this.registry, this.draft),
+			normalize(b, this.registry, this.draft),
+		);
+		return merged === null ? null : rebindRecursiveRefs(merged, "$defs");
+	}
+
+	/**
+	 * Intersection of two normalized schemas, recursive references kept
+	 * as placeholders for the internal engine.
+	 */
+	private intersectNormalized(
+		nA: JSONSchema7Definition,
+		nB: JSONSchema7Definition,
 	): JSONSchema7Definition | null {
 		// ── Identity short-circuit ──
 		// If a and b are the same reference or structurally equal,
-		// intersection is just normalize(a) — skip the merge entirely.
-		if (a === b || deepEqual(a, b)) return normalize(a);
-
-		const nA = normalize(a);
-		const nB = normalize(b);
-
-		// ── Post-normalize identity ──
-		if (deepEqual(nA, nB)) return nA;
+		// intersection is just nA — skip the merge entirely.
+		if (nA === nB || deepEqual(nA, nB)) return nA;
 
 		const merged = this.engine.merge(nA, nB);
 		if (merged === null) return null;
 		// Fast path: if merge result equals one of the normalized inputs,
 		// it's already normalized — skip redundant normalize call.
 		if (deepEqual(merged, nA) || deepEqual(merged, nB)) return merged;
-		return normalize(merged);
+		return normalize(merged, this.registry, this.draft);
+	}
+
+	// ── Relation ───────────────────────────────────────────────────────────
+
+	/**
+	 * Classifies how the values of `a` and `b` relate: `equal`, `subset`
+	 * (a ⊂ b), `superset` (a ⊃ b), `overlapping` or `disjoint`, with a
+	 * witness value for the overlap and for each non-inclusion direction.
+	 *
+	 * Inclusions come from `check()` in both directions, their
+	 * counterexamples being the `onlyInA` / `onlyInB` witnesses. Without
+	 * inclusion, the schemas are `overlapping` when a value valid for both
+	 * is found — from the intersection of their patterns, `intersect()`,
+	 * or the values of either one — and `disjoint` otherwise, without a
+	 * search when `isSatisfiable()` proves the intersection empty, their
+	 * patterns share no string or one lies within the `not` of the other.
+	 *
+	 * @param a - First schema
+	 * @param b - Second schema
+	 * @throws When either schema holds an unresolved `$ref`
+	 *
+	 * @example
+	 * ```ts
+	 * checker.relate(
+	 *   { type: "integer", minimum: 0, maximum: 10 },
+	 *   { type: "integer", minimum: 5 },
+	 * );
+	 * // → { relation: "overlapping", commonValue: 5, onlyInA: 0, onlyInB: 11 }
+	 *
+	 * checker.relate({ type: "string" }, { type: "number" });
+	 * // → { relation: "disjoint", onlyInA: "a", onlyInB: 0 }
+	 * ```
+	 */
+	relate(a: JSONSchema7Definition, b: JSONSchema7Definition): RelationResult {
+		const nA = normalize(a, this.registry, this.draft);
+		const nB = normalize(b, this.registry, this.draft);
+		this.assertResolved(nA, "relate");
+		this.assertResolved(nB, "relate");
+
+		const aInB = this.checkInternal(nA, nB, true);
+		const bInA = this.checkInternal(nB, nA, true);
+		if (aInB.isSubset && bInA.isSubset) return { relation: "equal" };
+		if (aInB.isSubset) {
+			return { relation: "subset", ...this.witness("onlyInB", bInA) };
+		}
+		if (bInA.isSubset) {
+			return { relation: "superset", ...this.witness("onlyInA", aInB) };
+		}
+
+		const intersection = this.intersectNormalized(nA, nB);
+		const common = this.areProvablyDisjoint(nA, nB, intersection)
+			? null
+			: findCommonValue(nA, nB, intersection, this.engine);
+		if (common === null) {
+			// Every value of one schema lies outside the other
+			return {
+				relation: "disjoint",
+				...this.witness("onlyInA", aInB, nA),
+				...this.witness("onlyInB", bInA, nB),
+			};
+		}
+		return {
+			relation: "overlapping",
+			commonValue: common.value,
+			...this.witness("onlyInA", aInB),
+			...this.witness("onlyInB", bInA),
+		};
 	}
 
 	// ── Normalization ──────────────────────────────────────────────────────
 
 	/**
-	 * Normalizes a schema: infers `type` from `const`/`enum`,
-	 * and recursively normalizes all sub-schemas.
+	 * Normalizes a schema: resolves `$ref` pointers (local or against the
+	 * registry), infers `type` from `const`/`enum`, and recursively
+	 * normalizes all sub-schemas.
 	 */
 	normalize(def: JSONSchema7Definition): JSONSchema7Definition {
-		return normalize(def);
+		return normalize(def, this.registry, this.draft);
+	}
+
+	// ── Upgrading ──────────────────────────────────────────────────────────
+
+	/**
+	 * Converts a schema to the internal (Draft-07) form, and reports the
+	 * Draft-04 / Draft-06 constructs rewritten on the way — boolean
+	 * `exclusiveMinimum` / `exclusiveMaximum`, `id`, keywords unknown to
+	 * the draft. The same conversion is applied before every check.
+	 *
+	 * @example
+	 * ```ts
+	 * new JsonSchemaCompatibilityChecker({ draft: "draft-04" }).upgrade({
+	 *   id: "age.json", type: "integer", minimum: 0, exclusiveMinimum: true,
+	 * });
+	 * // → {
+	 * //   schema: { $id: "age.json", type: "integer", exclusiveMinimum: 0 },
+	 * //   rewrites: [
+	 * //     { path: "", keyword: "id", description: "id → $id" },
+	 * //     { path: "", keyword: "exclusiveMinimum", description: "exclusiveMinimum: true → exclusiveMinimum: 0" },
+	 * //   ],
+	 * // }
+	 * ```
+	 */
+	upgrade(schema: JSONSchema7Definition): UpgradeResult {
+		return upgradeSchema(schema, this.draft);
+	}
+
+	// ── Dereferencing ──────────────────────────────────────────────────────
+
+	/**
+	 * Returns a self-contained schema where every `$ref` is inlined — the
+	 * schema the subset pipeline actually compares. Recursive references
+	 * cannot be inlined: they point to local `$defs` entries instead.
+	 *
+	 * @param schema - The schema to dereference
+	 * @param registry - Documents for cross-document refs (defaults to the checker's)
+	 * @throws When a `$ref` resolves neither locally nor against the registry
+	 *
+	 * @example
+	 * ```ts
+	 * checker.dereference({
+	 *   properties: { price: { $ref: "common.json#/definitions/money" } },
+	 * });
+	 * // → { properties: { price: { type: "number", minimum: 0 } } }
+	 * ```
+	 */
+	dereference(
+		schema: JSONSchema7Definition,
+		registry: SchemaRegistry | undefined = this.registry,
+	): JSONSchema7Definition {
+		const resolved = this.resolve(schema, registry);
+		this.assertResolved(resolved, "dereference");
+		return rebindRecursiveRefs(resolved, "$defs");
+	}
+
+	/**
+	 * Returns a single document embedding every registry document `schema`
+	 * references (under `$defs`, each with its `$id`). References are kept,
+	 * and resolve to the same schemas as during the subset check.
+	 *
+	 * @param schema - The schema to bundle
+	 * @param registry - Documents for cross-document refs (defaults to the checker's)
+	 * @throws When a `$ref` resolves neither locally nor against the registry
+	 */
+	bundle(
+		schema: JSONSchema7Definition,
+		registry: SchemaRegistry | undefined = this.registry,
+	): JSONSchema7Definition {
+		this.assertResolved(this.resolve(schema, registry), "bundle");
+		return bundleRefs(toInternalForm(schema, this.draft), registry);
+	}
+
+	// ── Example generation ─────────────────────────────────────────────────
+
+	/**
+	 * Generates a value valid for `schema` — e.g. a mock payload for
+	 * offline tests. The value is drawn at random within the keywords of the
+	 * schema, then validated with AJV.
+	 *
+	 * @param schema - The schema to generate a value for
+	 * @param options - `seed` of the draws (the same seed yields the same value)
+	 * @returns The value, or `undefined` when no valid value is found (e.g.
+	 *          the schema accepts none)
+	 * @throws When `schema` holds an unresolved `$ref`
+	 *
+	 * @example
+	 * ```ts
+	 * checker.generateExample(
+	 *   { type: "object", properties: { id: { type: "integer", minimum: 1 } }, required: ["id"] },
+	 *   { seed: 42 },
+	 * );
+	 * // → { id: 68 } — always the same value for seed 42
+	 * ```
+	 */
+	generateExample(
+		schema: JSONSchema7Definition,
+		options?: ExampleOptions,
+	): unknown {
+		const normalized = normalize(schema, this.registry, this.draft);
+		this.assertResolved(normalized, "generate an example for");
+		const found = generateExample(normalized, this.engine, options?.seed ?? 0);
+		return found?.value;
+	}
+
+	// ── Satisfiability ─────────────────────────────────────────────────────
+
+	/**
+	 * Checks whether `schema` accepts at least one value, and explains why
+	 * not: each contradiction names the conflicting keywords and the JSON
+	 * pointer of the node holding them.
+	 *
+	 * `isSatisfiable: false` is certain; `true` means no contradiction was
+	 * found (some empty schemas, e.g. through `not`, are not detected).
+	 *
+	 * @param schema - The schema to analyze
+	 * @throws When `schema` holds an unresolved `$ref`
+	 *
+	 * @example
+	 * ```ts
+	 * checker.isSatisfiable({
+	 *   type: "object",
+	 *   properties: { age: { type: "integer", minimum: 18, maximum: 10 } },
+	 *   required: ["age"],
+	 * });
+	 * // → {
+	 * //   isSatisfiable: false,
+	 * //   contradictions: [{
+	 * //     path: "/properties/age",
+	 * //     keywords: ["minimum", "maximum"],
+	 * //     description: "no integer between minimum: 18 and maximum: 10",
+	 * //   }],
+	 * // }
+	 * ```
+	 */
+	isSatisfiable(schema: JSONSchema7Definition): SatisfiabilityResult {
+		const normalized = normalize(schema, this.registry, this.draft);
+		this.assertResolved(normalized, "check the satisfiability of");
+		const contradictions = findContradictions(normalized, this.engine);
+		return { isSatisfiable: contradictions.length === 0, contradictions };
 	}
 
 	// ── Formatting ─────────────────────────────────────────────────────────
@@ -296,22 +619,30 @@ export class JsonSchemaCompatibilityChecker {
 		} = resolveValidateTargets(options.validate);
 
 		// resolveConditions expects Record<string, unknown> for property access;
-		// coerce non-object / undefined data to empty object so conditions
-		// are always resolved (v1.0.11 compat: subData: undefined → {})
+		// coerce non-object data to empty object so conditions are resolved
 		const dataForConditions: Record<string, unknown> = isPlainObj(data)
 			? data
 			: {};
 
-		const resolvedSub = resolveConditions(
-			sub as JSONSchema7,
-			dataForConditions,
-			this.engine,
-		);
-		const resolvedSup = resolveConditions(
-			sup as JSONSchema7,
-			dataForConditions,
-			this.engine,
-		);
+		// Schemas are converted to the internal form and their `$ref`s
+		// inlined first, so that conditions living in referenced definitions
+		// are resolved too. Without data, conditions are left to the static
+		// check, which splits them into their cases — the result is the one
+		// of `check(sub, sup)`.
+		const resolveFor = (schema: JSONSchema7Definition) =>
+			data === undefined
+				? {
+						resolved: this.resolve(schema) as JSONSchema7,
+						branch: null,
+						discriminant: {},
+					}
+				: resolveConditions(
+						this.resolve(schema) as JSONSchema7,
+						dataForConditions,
+						this.engine,
+					);
+		const resolvedSub = resolveFor(sub);
+		const resolvedSup = resolveFor(sup);
 
 		// ── Runtime-aware data narrowing ──
 		// Apply narrowing only when concrete data is available.
@@ -334,17 +665,27 @@ export class JsonSchemaCompatibilityChecker {
 		// Structural incompatibilities are schema-level problems — they are
 		// permanent regardless of the concrete data. Run this before runtime
 		// validation so that static errors always surface with higher priority.
-		const staticResult = this.checkInternal(
+		const staticResult = this.withVerification(
+			this.checkInternal(
+				narrowedSubResolved,
+				narrowedSupResolved,
+				options.counterexample,
+			),
 			narrowedSubResolved,
 			narrowedSupResolved,
+			options.verify,
 		);
 
 		if (!staticResult.isSubset) {
-			return {
-				...staticResult,
-				resolvedSub: { ...resolvedSub, resolved: narrowedSubResolved },
-				resolvedSup: { ...resolvedSup, resolved: narrowedSupResolved },
-			};
+			return this.locateErrors(
+				{
+					...staticResult,
+					resolvedSub: { ...resolvedSub, resolved: narrowedSubResolved },
+					resolvedSup: { ...resolvedSup, resolved: narrowedSupResolved },
+				},
+				sub,
+				sup,
+			);
 		}
 
 		// ── Runtime validation (opt-in) ──
@@ -418,13 +759,17 @@ export class JsonSchemaCompatibilityChecker {
 			}
 
 			if (runtimeErrors.length > 0) {
-				return {
-					isSubset: false,
-					merged: null,
-					errors: runtimeErrors,
-					resolvedSub: { ...resolvedSub, resolved: narrowedSubResolved },
-					resolvedSup: { ...resolvedSup, resolved: narrowedSupResolved },
-				};
+				return this.locateErrors(
+					{
+						isSubset: false,
+						merged: null,
+						errors: runtimeErrors,
+						resolvedSub: { ...resolvedSub, resolved: narrowedSubResolved },
+						resolvedSup: { ...resolvedSup, resolved: narrowedSupResolved },
+					},
+					sub,
+					sup,
+				);
 			}
 		}
 
@@ -439,12 +784,132 @@ export class JsonSchemaCompatibilityChecker {
 		errors: SchemaError[],
 		rootKey: "$sub" | "$sup",
 	): SchemaError[] {
-		return errors.map((error) => ({
+		return errors.map(({ supSchemaPath, ...error }) => ({
 			...error,
 			key: error.key === "$root" ? rootKey : `${rootKey}.${error.key}`,
+			// Validated against a single schema: the pointer belongs to its side
+			...(supSchemaPath !== undefined &&
+				(rootKey === "$sub"
+					? { subSchemaPath: supSchemaPath }
+					: { supSchemaPath })),
 		}));
 	}
 
+	/**
+	 * Reports `$ref`s left unresolved in a normalized schema, keyed like
+	 * runtime errors (`$sub.billing`, `$sub[]`, `$sup`, …) since they belong
+	 * to a single side.
+	 */
+	private unresolvedRefErrors(
+		refs: UnresolvedRef[],
+		rootKey: "$sub" | "$sup",
+	): SchemaError[] {
+		return refs.map(({ ref, path, pointer, instancePath }) => ({
+			type: SchemaErrorType.UnresolvedRef,
+			key:
+				path === "" || path.startsWith("[")
+					? `${rootKey}${path}`
+					: `${rootKey}.${path}`,
+			expected: "resolvable $ref",
+			received: ref,
+			code: errorCode("$ref"),
+			keyword: "$ref",
+			expectedValue: undefined,
+			receivedValue: ref,
+			...(rootKey === "$sub"
+				? { subSchemaPath: pointer }
+				: { supSchemaPath: pointer }),
+			instancePath,
+		}));
+	}
+
+	/**
+	 * Errors of the `unevaluated*` keywords left in sup by the rewrite:
+	 * what they leave out cannot be known statically.
+	 */
+	private unevaluatedErrors(sup: JSONSchema7Definition): SchemaError[] {
+		return unevaluatedLocations(sup).map(({ pointer, instancePath }) => {
+			const tokens = decodePointer(pointer) ?? [];
+			const keyword = tokens[tokens.length - 1] as string;
+			return {
+				type:
+					keyword === "unevaluatedItems"
+						? SchemaErrorType.ArrayConstraint
+						: SchemaErrorType.ObjectConstraint,
+				key: "$sup",
+				expected: `${keyword} decidable without data`,
+				received: "undecided",
+				code: errorCode(keyword, "undecided"),
+				keyword,
+				expectedValue: followPointer(sup, tokens),
+				receivedValue: undefined,
+				supSchemaPath: pointer,
+				instancePath,
+			};
+		});
+	}
+
+	/**
+	 * Maps the schema pointers of the errors, built on the compared forms
+	 * of sub and sup, to the schemas as written (`locatePointer`) — errors
+	 * landing on the same place twice are reported once.
+	 */
+	private locateErrors<R extends SubsetResult>(
+		result: R,
+		sub: JSONSchema7Definition,
+		sup: JSONSchema7Definition,
+	): R {
+		if (result.errors.length === 0) return result;
+		const located: SchemaError[] = [];
+		for (const error of result.errors) {
+			const locatedError: SchemaError = {
+				...error,
+				...(error.subSchemaPath !== undefined && {
+					subSchemaPath: locatePointer(sub, error.subSchemaPath),
+				}),
+				...(error.supSchemaPath !== undefined && {
+					supSchemaPath: locatePointer(sup, error.supSchemaPath),
+				}),
+			};
+			// Cases of a condition, or members of a flattened allOf, may
+			// report the same error at the same place
+			if (!located.some((other) => deepEqual(other, locatedError))) {
+				located.push(locatedError);
+			}
+		}
+		return { ...result, errors: located };
+	}
+
+	/**
+	 * Converts a schema to the internal form, inlines its `$ref`s and
+	 * rewrites its `unevaluated*` keywords — everything `normalize` does
+	 * before its own rewrites.
+	 */
+	private resolve(
+		def: JSONSchema7Definition,
+		registry: SchemaRegistry | undefined = this.registry,
+	): JSONSchema7Definition {
+		return resolveUnevaluated(
+			resolveRefs(toInternalForm(def, this.draft), registry),
+		);
+	}
+
+	/**
+	 * Throws when `resolved` still holds a `$ref` — a schema handed out by
+	 * `dereference` / `bundle` must not depend on missing documents.
+	 */
+	private assertResolved(
+		resolved: JSONSchema7Definition,
+		action: string,
+	): void {
+		const [first] = collectUnresolvedRefs(resolved);
+		if (first === undefined) return;
+		const location = first.path === "" ? "" : ` at "${first.path}"`;
+		throw new Error(
+			`Cannot ${action} schema: unresolved $ref "${first.ref}"${location}`,
+		);
+	}
+
 	/**
 	 * Internal check logic without condition resolution.
 	 * Factorizes the normalize → branch → atomic pipeline to avoid
@@ -453,6 +918,7 @@ export class JsonSchemaCompatibilityChecker {
 	private checkInternal(
 		sub: JSONSchema7Definition,
 		sup: JSONSchema7Definition,
+		counterexample = false,
 	): SubsetResult {
 		// ── Identity short-circuit ──
 		// Same reference → no errors, no merge needed.
@@ -466,8 +932,42 @@ export class JsonSchemaCompatibilityChecker {
 			return { isSubset: true, merged: sub, errors: [] };
 		}
 
-		const nSub = normalize(sub);
-		const nSup = normalize(sup);
+		const normalizedSub = normalize(sub, this.registry, this.draft);
+		const normalizedSup = normalize(sup, this.registry, this.draft);
+
+		// ── Unresolved references ──
+		const unresolvedErrors = [
+			...this.unresolvedRefErrors(collectUnresolvedRefs(normalizedSub), "$sub"),
+			...this.unresolvedRefErrors(collectUnresolvedRefs(normalizedSup), "$sup"),
+		];
+		if (unresolvedErrors.length > 0) {
+			return { isSubset: false, merged: null, errors: unresolvedErrors };
+		}
+
+		// ── unevaluated* the rewrite could not close ──
+		const undecidedErrors = this.unevaluatedErrors(normalizedSup);
+		if (undecidedErrors.length > 0) {
+			return { isSubset: false, merged: null, errors: undecidedErrors };
+		}
+
+		// ── if/then/else ──
+		const nSup = expandConditions(normalizedSup, this.engine);
+
+		// ── allOf in sub ──
+		const flatSub = flattenAllOf(
+			expandConditions(normalizedSub, this.engine),
+			this.engine,
+		);
+		const undecomposed = checkUndecomposedAllOf(flatSub, nSup, this.engine);
+		if (undecomposed !== null) {
+			return this.withCounterexample(
+				undecomposed,
+				normalizedSub,
+				normalizedSup,
+				counterexample,
+			);
+		}
+		const nSub = splitByCondition(flatSub, normalizedSup, this.engine);
 
 		// ── Post-normalize structural identity ──
 		// Catches semantically equivalent schemas after normalization.
@@ -480,18 +980,144 @@ export class JsonSchemaCompatibilityChecker {
 		const { branches: supBranches, type: supBranchType } =
 			getBranchesTyped(nSup);
 
-		// anyOf/oneOf in sub
+		let result: SubsetResult;
 		if (subBranches.length > 1 || subBranches[0] !== nSub) {
-			return checkBranchedSub(subBranches, nSup, this.engine, subBranchType);
+			// anyOf/oneOf in sub
+			result = checkBranchedSub(subBranches, nSup, this.engine, subBranchType);
+		} else if (supBranches.length > 1 || supBranches[0] !== nSup) {
+			// anyOf/oneOf in sup only
+			result = checkBranchedSup(nSub, supBranches, this.engine, supBranchType);
+		} else {
+			// Standard case
+			result = checkAtomic(nSub, nSup, this.engine);
 		}
 
-		// anyOf/oneOf in sup only
-		if (supBranches.length > 1 || supBranches[0] !== nSup) {
-			return checkBranchedSup(nSub, supBranches, this.engine, supBranchType);
+		// ── oneOf exclusivity (strictOneOf) ──
+		if (result.isSubset && this.strictOneOf) {
+			const overlaps = findOneOfOverlaps(nSub, nSup, this.engine);
+			if (overlaps.length > 0) {
+				return this.withCounterexample(
+					{ isSubset: false, merged: null, errors: overlaps },
+					normalizedSub,
+					normalizedSup,
+					counterexample,
+				);
+			}
+		}
+
+		// ── Errors of a flattened allOf point to their member ──
+		if (
+			nSub !== normalizedSub &&
+			typeof normalizedSub !== "boolean" &&
+			normalizedSub.allOf !== undefined
+		) {
+			result = {
+				...result,
+				errors: attributeAllOfErrors(result.errors, normalizedSub.allOf, nSup),
+			};
 		}
+		return this.withCounterexample(
+			result,
+			normalizedSub,
+			normalizedSup,
+			counterexample,
+		);
+	}
 
-		// Standard case
-		return checkAtomic(nSub, nSup, this.engine);
+	/**
+	 * Cross-validates a result with generated instances of sub, when
+	 * `verify` is requested.
+	 */
+	private withVerification(
+		result: SubsetResult,
+		sub: JSONSchema7Definition,
+		sup: JSONSchema7Definition,
+		verify: VerifyOptions | undefined,
+	): SubsetResult {
+		if (verify === undefined) return result;
+		return {
+			...result,
+			verification: verifySubset(
+				normalize(sub, this.registry, this.draft),
+				normalize(sup, this.registry, this.draft),
+				result.isSubset,
+				this.engine,
+				verify,
+			),
+		};
+	}
+
+	/**
+	 * Attaches to a failed result a value valid for sub and invalid for sup,
+	 * when `counterexample` is requested and the search finds one — checks
+	 * that pass are returned as-is.
+	 */
+	private withCounterexample(
+		result: SubsetResult,
+		sub: JSONSchema7Definition,
+		sup: JSONSchema7Definition,
+		counterexample: boolean,
+	): SubsetResult {
+		if (result.isSubset || !counterexample) return result;
+		const found = findCounterexample(sub, sup, this.engine);
+		return found === null ? result : { ...result, counterexample: found.value };
+	}
+
+	/**
+	 * Whether no value is valid for both normalized schemas, for
+	 * `relate()`: their intersection is unsatisfiable, their root patterns
+	 * share no string, or one schema is included in the `not` of the other.
+	 */
+	private areProvablyDisjoint(
+		a: JSONSchema7Definition,
+		b: JSONSchema7Definition,
+		intersection: JSONSchema7Definition | null,
+	): boolean {
+		if (
+			intersection !== null &&
+			findContradictions(intersection, this.engine).length > 0
+		) {
+			return true;
+		}
+		if (typeof a === "boolean" || typeof b === "boolean") return false;
+		if (
+			intersection !== null &&
+			typeof intersection !== "boolean" &&
+			intersection.type === "string" &&
+			a.pattern !== undefined &&
+			b.pattern !== undefined &&
+			patternIntersection(a.pattern, b.pattern)?.witness === null
+		) {
+			return true;
+		}
+		return [
+			[a, b],
+			[b, a],
+		].some(
+			([schema, other]) =>
+				isPlainObj(other?.not) &&
+				this.checkInternal(schema as JSONSchema7, other.not).isSubset,
+		);
+	}
+
+	/**
+	 * Witness of a non-inclusion for `relate()`: the counterexample of the
+	 * failed check, else — between disjoint schemas, where any value of the
+	 * one is outside the other — a value generated from `schema`.
+	 */
+	private witness<K extends "onlyInA" | "onlyInB">(
+		key: K,
+		result: SubsetResult,
+		schema?: JSONSchema7Definition,
+	): Partial<Record<K, unknown>> {
+		const found = hasOwn(result, "counterexample")
+			? { value: result.counterexample }
+			: schema === undefined
+				? null
+				: generateExample(schema, this.engine, 0);
+		return found === null
+			? {}
+			: ({ [key]: found.value } as Partial<Record<K, unknown>>);
 	}
 
 	// ── Cache management ───────────────────────────────────────────────────
@@ -14,7 +14,10 @@ import type {
 	JSONSchema7Type,
 } from "json-schema";
 
+import { toInternalForm } from "./dialect.ts";
 import { isFormatSubset } from "./format-validator.ts";
+import { lcmOf } from "./rational.ts";
+import type { Draft } from "./types.ts";
 import { deepEqual, hasOwn, isPlainObj, unionStrings } from "./utils.ts";
 
 // ─── Merge Engine ────────────────────────────────────────────────────────────
@@ -100,7 +103,7 @@ const PROPERTIES_MAP_CONFLICT_KEYS = [
  *   - `items` (single schema), tuple `items` (by index)
  *   - `additionalProperties`, `contains`, `propertyNames`, `not`
  */
-function hasDeepConstConflict(
+export function hasDeepConstConflict(
 	a: JSONSchema7Definition,
 	b: JSONSchema7Definition,
 ): boolean {
@@ -205,7 +208,7 @@ function hasDeepConstConflict(
  * Returns `true` if an obvious conflict is detected, `false` otherwise.
  * When in doubt → `false` (conservative, let the merge decide).
  */
-function hasAdditionalPropertiesConflict(
+export function hasAdditionalPropertiesConflict(
 	a: JSONSchema7Definition,
 	b: JSONSchema7Definition,
 ): boolean {
@@ -359,7 +362,7 @@ function hasAdditionalPropertiesConflict(
  *
  * @returns `true` if a format conflict is detected, `false` otherwise
  */
-function hasFormatConflict(
+export function hasFormatConflict(
 	a: JSONSchema7Definition,
 	b: JSONSchema7Definition,
 ): boolean {
@@ -444,7 +447,16 @@ export class MergeEngine {
 		schema: JSONSchema7 & { allOf: JSONSchema7Definition[] },
 	) => JSONSchema7Definition;
 
-	constructor() {
+	private readonly draft: Draft;
+
+	/**
+	 * @param options.draft  Dialect of schemas without `$schema`
+	 *   (default `"draft-07"`). Inputs are converted to the internal
+	 *   (Draft-07) form before merging, so results are in that form.
+	 */
+	constructor(options?: { draft?: Draft }) {
+		this.draft = options?.draft ?? "draft-07";
+
 		const { compareSchemaDefinitions, compareSchemaValues } =
 			createComparator();
 
@@ -464,6 +476,15 @@ export class MergeEngine {
 		const { mergeArrayOfSchemaDefinitions } = createMerger({
 			intersectJson: createIntersector(safeCompareSchemaValues),
 			deduplicateJsonSchemaDef: createDeduplicator(compareSchemaDefinitions),
+			mergers: {
+				// Draft 2019-09 bounds kept by the internal form — intersected
+				// like `minItems` / `maxItems`, as the library does for `contains`
+				minContains: Math.max,
+				maxContains: Math.min,
+				// Exact decimal LCM — the library scales floats by 10 until
+				// they are integers, which drifts for steps like 0.07
+				multipleOf: lcmOf,
+			},
 		});
 
 		this.compareFn = compareSchemaDefinitions;
@@ -483,6 +504,9 @@ export class MergeEngine {
 		a: JSONSchema7Definition,
 		b: JSONSchema7Definition,
 	): JSONSchema7Definition | null {
+		a = toInternalForm(a, this.draft);
+		b = toInternalForm(b, this.draft);
+
 		// ── Trivial fast paths ──
 		// Avoid expensive recursive conflict checks and external merge calls
 		// for the most common identity/boolean intersection cases.
@@ -527,6 +551,9 @@ export class MergeEngine {
 		a: JSONSchema7Definition,
 		b: JSONSchema7Definition,
 	): JSONSchema7Definition {
+		a = toInternalForm(a, this.draft);
+		b = toInternalForm(b, this.draft);
+
 		// ── Trivial fast paths ──
 		// Keep mergeOrThrow aligned with merge() for the common boolean/identity
 		// intersections that can be resolved without touching the merge library.
@@ -564,14 +591,17 @@ export class MergeEngine {
 	 * Returns 0 if they are identical, otherwise a non-zero integer.
 	 */
 	compare(a: JSONSchema7Definition, b: JSONSchema7Definition): number {
-		return this.compareFn(a, b);
+		return this.compareFn(
+			toInternalForm(a, this.draft),
+			toInternalForm(b, this.draft),
+		);
 	}
 
 	/**
 	 * Checks structural equality between two schema definitions.
 	 */
 	isEqual(a: JSONSchema7Definition, b: JSONSchema7Definition): boolean {
-		return this.compareFn(a, b) === 0;
+		return this.compare(a, b) === 0;
 	}
 
 	// ── Overlay (sequential spread) ────────────────────────────────────────
@@ -1,4 +1,9 @@
 import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import { toInternalForm } from "./dialect.ts";
+import { resolveRefs } from "./ref-resolver.ts";
+import type { SchemaRegistry } from "./schema-registry.ts";
+import type { Draft } from "./types.ts";
+import { resolveUnevaluated } from "./unevaluated.ts";
 import { deepEqual, hasOwn, isPlainObj } from "./utils.ts";
 
 // ─── Schema Normalizer ───────────────────────────────────────────────────────
@@ -9,6 +14,10 @@ import { deepEqual, hasOwn, isPlainObj } from "./utils.ts";
 //   - Resolve double negation `not.not` → flatten to direct content
 //   - Recurse into `patternProperties` (Point 2)
 //   - Recurse into `dependencies` schema form (Point 3)
+//   - Convert Draft 2019-09 / 2020-12 keywords beforehand (see `dialect.ts`)
+//   - Inline `$ref` pointers beforehand (see `ref-resolver.ts`)
+//   - Rewrite `unevaluatedProperties` / `unevaluatedItems` beforehand
+//     (see `unevaluated.ts`)
 //
 // Optimizations:
 //   - WeakMap cache to avoid re-normalizing the same object
@@ -118,7 +127,7 @@ function normalizePropertiesMap(
 		const key = keys[i];
 		if (key === undefined) continue;
 		const original = props[key];
-		const normalized = normalize(original as JSONSchema7Definition);
+		const normalized = normalizeSchema(original as JSONSchema7Definition);
 		if (normalized !== original) {
 			changed = true;
 			break;
@@ -132,7 +141,7 @@ function normalizePropertiesMap(
 	for (let i = 0; i < keys.length; i++) {
 		const key = keys[i];
 		if (key === undefined) continue;
-		result[key] = normalize(props[key] as JSONSchema7Definition);
+		result[key] = normalizeSchema(props[key] as JSONSchema7Definition);
 	}
 
 	return result;
@@ -194,7 +203,7 @@ function inferTypeFromEnum(
  *     mutation is needed, via `ensureCopy()`
  *   - Sub-structures are only replaced if actually changed
  */
-export function normalize(def: JSONSchema7Definition): JSONSchema7Definition {
+function normalizeSchema(def: JSONSchema7Definition): JSONSchema7Definition {
 	if (typeof def === "boolean") return def;
 
 	// ── Cache lookup (O(1) fast path) ──
@@ -307,7 +316,7 @@ export function normalize(def: JSONSchema7Definition): JSONSchema7Definition {
 				newDeps[key] = val;
 			} else if (isPlainObj(val)) {
 				// Form 2: sub-schema → normalize recursively
-				const normalized = normalize(val as JSONSchema7Definition);
+				const normalized = normalizeSchema(val as JSONSchema7Definition);
 				newDeps[key] = normalized;
 				if (normalized !== val) depsChanged = true;
 			} else {
@@ -331,7 +340,7 @@ export function normalize(def: JSONSchema7Definition): JSONSchema7Definition {
 			for (let i = 0; i < items.length; i++) {
 				const original = items[i];
 				if (original === undefined) continue;
-				const normalized = normalize(original);
+				const normalized = normalizeSchema(original);
 				newItems[i] = normalized;
 				if (normalized !== original) itemsChanged = true;
 			}
@@ -341,7 +350,7 @@ export function normalize(def: JSONSchema7Definition): JSONSchema7Definition {
 			}
 		} else if (isPlainObj(schema.items)) {
 			// Single items schema
-			const normalized = normalize(schema.items as JSONSchema7Definition);
+			const normalized = normalizeSchema(schema.items as JSONSchema7Definition);
 			if (normalized !== schema.items) {
 				ensureCopy().items = normalized;
 			}
@@ -352,7 +361,7 @@ export function normalize(def: JSONSchema7Definition): JSONSchema7Definition {
 	for (const key of SINGLE_SCHEMA_KEYWORDS) {
 		const val = schema[key];
 		if (val !== undefined && typeof val !== "boolean") {
-			const normalized = normalize(val as JSONSchema7Definition);
+			const normalized = normalizeSchema(val as JSONSchema7Definition);
 			if (normalized !== val) {
 				(ensureCopy() as Record<string, JSONSchema7Definition>)[key] =
 					normalized;
@@ -409,7 +418,7 @@ export function normalize(def: JSONSchema7Definition): JSONSchema7Definition {
 			for (let i = 0; i < arr.length; i++) {
 				const original = arr[i];
 				if (original === undefined) continue;
-				const normalized = normalize(original);
+				const normalized = normalizeSchema(original);
 				newArr[i] = normalized;
 				if (normalized !== original) arrChanged = true;
 			}
@@ -430,3 +439,26 @@ export function normalize(def: JSONSchema7Definition): JSONSchema7Definition {
 
 	return result;
 }
+
+/**
+ * Normalizes a root schema: converts it to the internal (Draft-07) form
+ * (see `toInternalForm`), resolves its `$ref` pointers against itself and
+ * the optional registry (see `resolveRefs`), rewrites its `unevaluated*`
+ * keywords (see `resolveUnevaluated`), then applies `normalizeSchema`.
+ *
+ * These steps are no-ops for Draft-07 schemas without `$ref`, so this is
+ * safe to call on already-normalized or merged schemas.
+ *
+ * @param def       The schema
+ * @param registry  Documents available to cross-document references
+ * @param draft     Dialect of the schema when it declares no `$schema`
+ */
+export function normalize(
+	def: JSONSchema7Definition,
+	registry?: SchemaRegistry,
+	draft: Draft = "draft-07",
+): JSONSchema7Definition {
+	return normalizeSchema(
+		resolveUnevaluated(resolveRefs(toInternalForm(def, draft), registry)),
+	);
+}
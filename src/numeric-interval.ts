@@ -0,0 +1,166 @@
+import type { JSONSchema7 } from "json-schema";
+import { lcmOf, roundToMultiple } from "./rational.ts";
+
+// ─── Numeric intervals ───────────────────────────────────────────────────────
+//
+// Models `minimum` / `exclusiveMinimum` / `maximum` / `exclusiveMaximum` as
+// one interval with open or closed bounds, so that bounds spelled with
+// different keywords can be compared semantically:
+//   - `{ exclusiveMinimum: 5 }` ⊆ `{ minimum: 0 }`
+//   - redundant bounds: the tightest of `minimum` / `exclusiveMinimum` wins
+//   - integer schemas: bounds are rounded to the closest integer inside,
+//     so `{ type: "integer", exclusiveMinimum: 4 }` ≡ `{ minimum: 5 }`
+//   - `multipleOf` generalizes the rounding to its step:
+//     `{ multipleOf: 0.5, exclusiveMinimum: 1 }` ≡ `{ minimum: 1.5 }`
+//
+// Rounding uses exact decimal arithmetic (`rational.ts`).
+//
+// Bounds only constrain numbers: the interval says nothing about the other
+// types a schema may accept.
+
+/** One end of an interval. */
+export interface NumericBound {
+	value: number;
+	/** `true` for `exclusiveMinimum` / `exclusiveMaximum` */
+	exclusive: boolean;
+	/** Keyword the bound was read from, for error messages */
+	keyword: "minimum" | "exclusiveMinimum" | "maximum" | "exclusiveMaximum";
+}
+
+/** Numbers accepted by the bounds of a schema — `null` for no bound. */
+export interface NumericInterval {
+	lower: NumericBound | null;
+	upper: NumericBound | null;
+}
+
+/**
+ * Returns the step all numbers accepted by a schema are multiples of:
+ * `1` for integers, `multipleOf` (combined with `1` for integers), or
+ * `null` when numbers are not restricted to a grid.
+ */
+export function numericStep(schema: JSONSchema7): number | null {
+	const integer = isIntegerSchema(schema);
+	const multipleOf = schema.multipleOf;
+	if (typeof multipleOf === "number" && multipleOf > 0) {
+		return integer ? lcmOf(multipleOf, 1) : multipleOf;
+	}
+	return integer ? 1 : null;
+}
+
+/**
+ * Reads the interval described by the bounds of a schema.
+ *
+ * @param schema  The schema
+ * @param step    Round the bounds to multiples of this step — pass
+ *                `numericStep(sub)` for both sides of a comparison, as only
+ *                the numbers of the sub matter
+ */
+export function numericInterval(
+	schema: JSONSchema7,
+	step: number | null,
+): NumericInterval {
+	let lower = tightest(
+		bound(schema, "minimum", false),
+		bound(schema, "exclusiveMinimum", true),
+		1,
+	);
+	let upper = tightest(
+		bound(schema, "maximum", false),
+		bound(schema, "exclusiveMaximum", true),
+		-1,
+	);
+	if (step !== null) {
+		if (lower !== null) lower = roundBound(lower, step, true);
+		if (upper !== null) upper = roundBound(upper, step, false);
+	}
+	return { lower, upper };
+}
+
+/**
+ * Checks whether every number above `sub` is also above `sup`.
+ */
+export function lowerBoundImplies(
+	sub: NumericBound | null,
+	sup: NumericBound | null,
+): boolean {
+	if (sup === null) return true;
+	if (sub === null) return false;
+	if (sub.value !== sup.value) return sub.value > sup.value;
+	return sub.exclusive || !sup.exclusive;
+}
+
+/**
+ * Checks whether every number below `sub` is also below `sup`.
+ */
+export function upperBoundImplies(
+	sub: NumericBound | null,
+	sup: NumericBound | null,
+): boolean {
+	if (sup === null) return true;
+	if (sub === null) return false;
+	if (sub.value !== sup.value) return sub.value < sup.value;
+	return sub.exclusive || !sup.exclusive;
+}
+
+/**
+ * Checks whether no number lies between the bounds of an interval.
+ */
+export function isEmptyInterval({ lower, upper }: NumericInterval): boolean {
+	if (lower === null || upper === null) return false;
+	if (lower.value !== upper.value) return lower.value > upper.value;
+	return lower.exclusive || upper.exclusive;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+/**
+ * Checks whether the numbers accepted by a schema are all integers:
+ * `type` includes `"integer"` and not `"number"`.
+ */
+function isIntegerSchema(schema: JSONSchema7): boolean {
+	const type = schema.type;
+	if (type === "integer") return true;
+	return (
+		Array.isArray(type) && type.includes("integer") && !type.includes("number")
+	);
+}
+
+function bound(
+	schema: JSONSchema7,
+	keyword: NumericBound["keyword"],
+	exclusive: boolean,
+): NumericBound | null {
+	const value: unknown = schema[keyword];
+	return typeof value === "number" ? { value, exclusive, keyword } : null;
+}
+
+/**
+ * Keeps the most restrictive of two bounds on the same side
+ * (`direction` is 1 for lower bounds, -1 for upper bounds).
+ */
+function tightest(
+	inclusive: NumericBound | null,
+	exclusive: NumericBound | null,
+	direction: 1 | -1,
+): NumericBound | null {
+	if (inclusive === null) return exclusive;
+	if (exclusive === null) return inclusive;
+	// At equal values the exclusive bound is the stricter one
+	return (exclusive.value - inclusive.value) * direction >= 0
+		? exclusive
+		: inclusive;
+}
+
+/**
+ * Moves a bound to the closest multiple of `step` it accepts, as a closed
+ * bound (step 1: `> 4` → `≥ 5`, `≤ 9.5` → `≤ 9`).
+ */
+function roundBound(
+	b: NumericBound,
+	step: number,
+	lower: boolean,
+): NumericBound {
+	if (!Number.isFinite(b.value)) return b;
+	const value = roundToMultiple(b.value, step, lower, b.exclusive);
+	return { value, exclusive: false, keyword: b.keyword };
+}
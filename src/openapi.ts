@@ -0,0 +1,530 @@
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import { detectDraft, toInternalForm } from "./dialect.ts";
+import { JsonSchemaCompatibilityChecker } from "./json-schema-compatibility-checker.ts";
+import { decodePointer, followPointer } from "./ref-resolver.ts";
+import type {
+	CheckerOptions,
+	Draft,
+	OpenApiCompatibilityResult,
+	OpenApiDocument,
+	OpenApiOperationReport,
+	SchemaError,
+} from "./types.ts";
+import { SchemaErrorType } from "./types.ts";
+import { hasOwn, isPlainObj } from "./utils.ts";
+
+// ─── OpenAPI compatibility ───────────────────────────────────────────────────
+//
+// Compares two OpenAPI 3.x documents operation by operation:
+//   - Requests are contravariant: the new version must accept everything
+//     the old one accepted (parameters and bodies, old ⊆ new)
+//   - Responses are covariant: the new version must only produce what the
+//     old one could produce (new ⊆ old), per status code and media type
+//   - Removed operations, request media types no longer accepted, and
+//     response status codes / media types unknown to the old version are
+//     reported as `OpenApiMismatch` errors
+//
+// Parameters are compared per location as one object schema
+// (`{ properties: { [name]: schema }, required }`), so that new required
+// parameters and narrower parameter schemas are both reported. Only the
+// parameters the old version declares are compared by schema: a new
+// optional parameter is compatible, a new required one is not. Header
+// names are case-insensitive.
+//
+// Schemas are converted with the dialect of their document — OpenAPI 3.0
+// schema objects, or JSON Schema 2020-12 (`jsonSchemaDialect`) for 3.1 —
+// and keep access to the `#/components/schemas` of their document. Only
+// local `$ref`s are followed for parameters, request bodies and responses;
+// external schema `$ref`s go through the optional registry.
+
+/** HTTP methods of a path item, in the order operations are reported. */
+const HTTP_METHODS = [
+	"get",
+	"put",
+	"post",
+	"delete",
+	"options",
+	"head",
+	"patch",
+	"trace",
+] as const;
+
+type JsonObject = Record<string, unknown>;
+
+/** A document prepared for comparison. */
+interface DocumentContext {
+	document: OpenApiDocument;
+	/** Dialect of the schemas of the document */
+	draft: Draft;
+	/** `components` with converted schemas, embedded next to every compared schema */
+	components: JsonObject | undefined;
+}
+
+/**
+ * Checks that a new version of an OpenAPI 3.x document is backward
+ * compatible with the old one.
+ *
+ * @param oldDoc   The document currently used by clients
+ * @param newDoc   The new version of the document
+ * @param options  Checker options (custom constraints, registry for
+ *                 external `$ref`s)
+ * @returns        Reports of every operation of `oldDoc`
+ * @throws         When a document is not an OpenAPI 3.x document
+ *
+ * @example
+ * ```ts
+ * const result = checkOpenApi(v1, v2);
+ * result.isCompatible;                               // false
+ * result.paths["/pets"]?.get?.responses["200"];      // { "application/json": [SchemaError, …] }
+ * ```
+ */
+export function checkOpenApi(
+	oldDoc: OpenApiDocument,
+	newDoc: OpenApiDocument,
+	options?: Omit<CheckerOptions, "draft">,
+): OpenApiCompatibilityResult {
+	// Schemas are converted per document, then compared in the internal form
+	const checker = new JsonSchemaCompatibilityChecker({
+		...options,
+		draft: "draft-07",
+	});
+	const before = createContext(oldDoc);
+	const after = createContext(newDoc);
+
+	const paths: OpenApiCompatibilityResult["paths"] = {};
+	let isCompatible = true;
+
+	const oldPaths = isPlainObj(oldDoc.paths) ? oldDoc.paths : {};
+	const newPaths = isPlainObj(newDoc.paths) ? newDoc.paths : {};
+
+	for (const path of Object.keys(oldPaths)) {
+		const oldItem = resolveObject(before, oldPaths[path]);
+		if (oldItem === undefined) continue;
+		const newItem = resolveObject(after, newPaths[path]);
+
+		for (const method of HTTP_METHODS) {
+			const oldOperation = oldItem[method];
+			if (!isPlainObj(oldOperation)) continue;
+			const newOperation = newItem?.[method];
+
+			const report = isPlainObj(newOperation)
+				? compareOperation(
+						checker,
+						{ context: before, item: oldItem, operation: oldOperation },
+						{ context: after, item: newItem ?? {}, operation: newOperation },
+					)
+				: removedOperation();
+
+			paths[path] = { ...paths[path], [method]: report };
+			if (!report.isCompatible) isCompatible = false;
+		}
+	}
+
+	return { isCompatible, paths };
+}
+
+// ─── Documents ───────────────────────────────────────────────────────────────
+
+/**
+ * Determines the dialect of a document and converts its component schemas.
+ */
+function createContext(document: OpenApiDocument): DocumentContext {
+	const version = document.openapi;
+	if (typeof version !== "string" || !version.startsWith("3.")) {
+		throw new Error(
+			`Cannot check OpenAPI document: unsupported version "${String(version)}"`,
+		);
+	}
+
+	const draft: Draft = version.startsWith("3.0")
+		? "openapi30"
+		: typeof document.jsonSchemaDialect === "string"
+			? detectDraft({ $schema: document.jsonSchemaDialect }, "2020-12")
+			: "2020-12";
+
+	let components = isPlainObj(document.components)
+		? document.components
+		: undefined;
+	if (components !== undefined && isPlainObj(components.schemas)) {
+		const schemas: Record<string, JSONSchema7Definition> = {};
+		for (const [name, schema] of Object.entries(components.schemas)) {
+			schemas[name] = convertSchema(draft, schema);
+		}
+		components = { ...components, schemas };
+	}
+
+	return { document, draft, components };
+}
+
+/**
+ * Follows local `$ref`s (`#/components/parameters/Limit`, …) until an
+ * object without `$ref` is reached. Returns `undefined` when the value is
+ * not an object or a reference cannot be followed.
+ */
+function resolveObject(
+	context: DocumentContext,
+	value: unknown,
+): JsonObject | undefined {
+	let current = value;
+	const seen = new Set<string>();
+	while (isPlainObj(current) && typeof current.$ref === "string") {
+		const ref = current.$ref;
+		if (!ref.startsWith("#") || seen.has(ref)) return undefined;
+		seen.add(ref);
+		const tokens = decodePointer(ref.slice(1));
+		if (tokens === null) return undefined;
+		current = followPointer(context.document as JSONSchema7Definition, tokens);
+	}
+	return isPlainObj(current) ? current : undefined;
+}
+
+/** Converts a schema of a document to the internal form. */
+function convertSchema(draft: Draft, schema: unknown): JSONSchema7Definition {
+	if (typeof schema === "boolean") return schema;
+	if (!isPlainObj(schema)) return true;
+	return toInternalForm(schema as JSONSchema7, draft);
+}
+
+/**
+ * Makes a converted schema self-contained: the components of its document
+ * are embedded at its root, so that `#/components/schemas/X` resolves.
+ */
+function embedSchema(
+	context: DocumentContext,
+	schema: JSONSchema7Definition,
+): JSONSchema7Definition {
+	if (typeof schema === "boolean" || context.components === undefined) {
+		return schema;
+	}
+	return { ...schema, components: context.components } as JSONSchema7;
+}
+
+/** The converted, self-contained schema of a media type object. */
+function mediaTypeSchema(
+	context: DocumentContext,
+	mediaType: unknown,
+): JSONSchema7Definition {
+	const schema = isPlainObj(mediaType) ? mediaType.schema : undefined;
+	return embedSchema(context, convertSchema(context.draft, schema ?? true));
+}
+
+/**
+ * Finds the media type object matching `mediaType` in a `content` map:
+ * exact match, then `type/*`, then `*∕*`.
+ */
+function findMediaType(content: unknown, mediaType: string): unknown {
+	if (!isPlainObj(content)) return undefined;
+	const [type] = mediaType.split("/");
+	return content[mediaType] ?? content[`${type}/*`] ?? content["*/*"];
+}
+
+// ─── Operations ──────────────────────────────────────────────────────────────
+
+/** One side of an operation comparison. */
+interface OperationSide {
+	context: DocumentContext;
+	/** The path item, for path-level parameters */
+	item: JsonObject;
+	operation: JsonObject;
+}
+
+function emptyReport(): OpenApiOperationReport {
+	return {
+		isCompatible: true,
+		errors: [],
+		parameters: {},
+		requestBody: {},
+		responses: {},
+	};
+}
+
+function removedOperation(): OpenApiOperationReport {
+	const report = emptyReport();
+	report.isCompatible = false;
+	report.errors.push(
+		mismatch("operation", "missing", "defined", "undefined", true, false),
+	);
+	return report;
+}
+
+/**
+ * Error on an entry of the document (`operation`, `content`, `status`),
+ * coded `openapi.<key>.<reason>`.
+ */
+function mismatch(
+	key: string,
+	reason: "missing" | "unexpected" | "incompatible",
+	expected: string,
+	received: string,
+	expectedValue: unknown,
+	receivedValue: unknown,
+): SchemaError {
+	return {
+		type: SchemaErrorType.OpenApiMismatch,
+		key,
+		expected,
+		received,
+		code: `openapi.${key}.${reason}`,
+		keyword: key,
+		expectedValue,
+		receivedValue,
+		instancePath: "",
+	};
+}
+
+/**
+ * Compares the requests (contravariant) and the responses (covariant) of
+ * an operation.
+ */
+function compareOperation(
+	checker: JsonSchemaCompatibilityChecker,
+	before: OperationSide,
+	after: OperationSide,
+): OpenApiOperationReport {
+	const report = emptyReport();
+
+	/** Records the result of `sub ⊆ sup` under `errors` when it fails */
+	function compare(
+		sub: JSONSchema7Definition,
+		sup: JSONSchema7Definition,
+		record: (errors: SchemaError[]) => void,
+	): void {
+		const result = checker.check(sub, sup);
+		if (result.isSubset) return;
+		report.isCompatible = false;
+		record(
+			result.errors.length > 0
+				? result.errors
+				: [
+						mismatch(
+							"schema",
+							"incompatible",
+							"superset",
+							"not a superset",
+							sup,
+							sub,
+						),
+					],
+		);
+	}
+
+	// ── Parameters: old ⊆ new, per location and declared name ──
+	const oldParameters = parameterGroups(before);
+	const newParameters = parameterGroups(after);
+	for (const location of new Set([
+		...oldParameters.keys(),
+		...newParameters.keys(),
+	])) {
+		const oldGroup = oldParameters.get(location) ?? emptyGroup();
+		const newGroup = newParameters.get(location) ?? emptyGroup();
+		// Parameters unknown to the old version only matter when required
+		const properties: Record<string, JSONSchema7Definition> = {};
+		for (const [name, schema] of Object.entries(newGroup.properties)) {
+			if (
+				hasOwn(oldGroup.properties, name) ||
+				newGroup.required.includes(name)
+			) {
+				properties[name] = schema;
+			}
+		}
+		compare(
+			groupSchema(before.context, oldGroup),
+			groupSchema(after.context, {
+				properties,
+				required: newGroup.required,
+			}),
+			(errors) => {
+				report.parameters[location] = errors;
+			},
+		);
+	}
+
+	// ── Request body: old ⊆ new, per media type ──
+	const oldBody = resolveObject(before.context, before.operation.requestBody);
+	const newBody = resolveObject(after.context, after.operation.requestBody);
+	if (newBody?.required === true && oldBody?.required !== true) {
+		report.isCompatible = false;
+		report.errors.push({
+			type: SchemaErrorType.Optionality,
+			key: "requestBody",
+			expected: "not optional",
+			received: "optional",
+			code: "openapi.requestBody.optional",
+			keyword: "required",
+			expectedValue: true,
+			receivedValue: oldBody?.required,
+			instancePath: "",
+		});
+	}
+	if (oldBody !== undefined && newBody !== undefined) {
+		const oldContent = isPlainObj(oldBody.content) ? oldBody.content : {};
+		for (const mediaType of Object.keys(oldContent)) {
+			const newMediaType = findMediaType(newBody.content, mediaType);
+			if (newMediaType === undefined) {
+				report.isCompatible = false;
+				report.requestBody[mediaType] = [
+					mismatch(
+						"content",
+						"missing",
+						mediaType,
+						"undefined",
+						mediaType,
+						undefined,
+					),
+				];
+				continue;
+			}
+			compare(
+				mediaTypeSchema(before.context, oldContent[mediaType]),
+				mediaTypeSchema(after.context, newMediaType),
+				(errors) => {
+					report.requestBody[mediaType] = errors;
+				},
+			);
+		}
+	}
+
+	// ── Responses: new ⊆ old, per status code and media type ──
+	const oldResponses = isPlainObj(before.operation.responses)
+		? before.operation.responses
+		: {};
+	const newResponses = isPlainObj(after.operation.responses)
+		? after.operation.responses
+		: {};
+	for (const status of Object.keys(newResponses)) {
+		const newResponse = resolveObject(after.context, newResponses[status]);
+		if (newResponse === undefined) continue;
+		const oldResponse = resolveObject(
+			before.context,
+			oldResponses[status] ??
+				oldResponses[`${status[0]}XX`] ??
+				oldResponses[`${status[0]}xx`] ??
+				oldResponses.default,
+		);
+		if (oldResponse === undefined) {
+			report.isCompatible = false;
+			report.responses[status] = {
+				"*": [
+					mismatch(
+						"status",
+						"unexpected",
+						Object.keys(oldResponses).join(", "),
+						status,
+						Object.keys(oldResponses),
+						status,
+					),
+				],
+			};
+			continue;
+		}
+
+		const newContent = isPlainObj(newResponse.content)
+			? newResponse.content
+			: {};
+		for (const mediaType of Object.keys(newContent)) {
+			const oldMediaType = findMediaType(oldResponse.content, mediaType);
+			const group = (errors: SchemaError[]) => {
+				report.responses[status] = {
+					...report.responses[status],
+					[mediaType]: errors,
+				};
+			};
+			if (oldMediaType === undefined) {
+				report.isCompatible = false;
+				const known = isPlainObj(oldResponse.content)
+					? Object.keys(oldResponse.content)
+					: [];
+				group([
+					mismatch(
+						"content",
+						"unexpected",
+						known.length > 0 ? known.join(", ") : "no content",
+						mediaType,
+						known,
+						mediaType,
+					),
+				]);
+				continue;
+			}
+			compare(
+				mediaTypeSchema(after.context, newContent[mediaType]),
+				mediaTypeSchema(before.context, oldMediaType),
+				group,
+			);
+		}
+	}
+
+	return report;
+}
+
+/** Parameters of one location: schema and requirement per name. */
+interface ParameterGroup {
+	properties: Record<string, JSONSchema7Definition>;
+	required: string[];
+}
+
+function emptyGroup(): ParameterGroup {
+	return { properties: {}, required: [] };
+}
+
+/**
+ * Groups the path-level and operation-level parameters by location (the
+ * latter override the former).
+ */
+function parameterGroups(side: OperationSide): Map<string, ParameterGroup> {
+	const parameters = new Map<
+		string,
+		{ location: string; name: string; parameter: JsonObject }
+	>();
+	for (const list of [side.item.parameters, side.operation.parameters]) {
+		if (!Array.isArray(list)) continue;
+		for (const entry of list) {
+			const parameter = resolveObject(side.context, entry);
+			if (
+				parameter === undefined ||
+				typeof parameter.name !== "string" ||
+				typeof parameter.in !== "string"
+			) {
+				continue;
+			}
+			const location = parameter.in;
+			const name =
+				location === "header" ? parameter.name.toLowerCase() : parameter.name;
+			parameters.set(`${location}:${name}`, { location, name, parameter });
+		}
+	}
+
+	const groups = new Map<string, ParameterGroup>();
+	for (const { location, name, parameter } of parameters.values()) {
+		let group = groups.get(location);
+		if (group === undefined) {
+			group = emptyGroup();
+			groups.set(location, group);
+		}
+
+		// `schema`, or the schema of the single entry of `content`
+		const content = isPlainObj(parameter.content)
+			? Object.values(parameter.content)[0]
+			: undefined;
+		const schema =
+			parameter.schema ?? (isPlainObj(content) ? content.schema : undefined);
+		group.properties[name] = convertSchema(side.context.draft, schema ?? true);
+		if (parameter.required === true || location === "path") {
+			group.required.push(name);
+		}
+	}
+	return groups;
+}
+
+/**
+ * Object schema of the parameters of one location, with the components
+ * of its document.
+ */
+function groupSchema(
+	context: DocumentContext,
+	{ properties, required }: ParameterGroup,
+): JSONSchema7 {
+	const schema: JSONSchema7 = { type: "object", properties };
+	if (required.length > 0) schema.required = required;
+	return embedSchema(context, schema) as JSONSchema7;
+}
@@ -1,33 +1,36 @@
 import RandExp from "randexp";
+import {
+	clearAutomatonCache,
+	patternDifference,
+	patternIntersection,
+} from "./regex-automaton.ts";
+import type { PatternSubsetResult } from "./types.ts";
 
 // ─── Pattern Subset Checker ──────────────────────────────────────────────────
 //
-// Checks whether a regex pattern is a subset of another regex pattern
-// via a sampling-based approach.
+// Checks whether a regex pattern is a subset of another regex pattern.
 //
 // Principle:
 //   L(A) ⊆ L(B)  ⟺  ∀s ∈ L(A), s ∈ L(B)
 //
-// This cannot be formally proven for arbitrary ECMA-262 regexes
-// (the problem is PSPACE-complete for pure regexes, and undecidable with
-// extensions like backreferences).
+// Patterns in the regular subset of ECMAScript regexes (classes,
+// quantifiers, alternation, anchors) are compared exactly with automata
+// (`regex-automaton.ts`). Regexes with lookarounds, backreferences or word
+// boundaries are not regular (undecidable in general with backreferences):
+// for those, a sampling-based approach is used instead.
 //
-// Pragmatic approach:
+// Sampling fallback:
 //   1. Generate N random strings matching the sub pattern (via `randexp`)
 //   2. Verify that EVERY string also matches the sup pattern
 //   3. If all match → return `true` (high confidence)
 //   4. If at least one doesn't match → return `false` (certain)
 //   5. If generation fails → return `null` (undetermined)
 //
-// Limitations:
+// Sampling limitations:
 //   - False positives are possible (but very unlikely with sufficient N)
-//   - Does not handle regexes with complex backreferences
 //   - `randexp` may generate biased strings (not uniformly distributed)
 //
-// To mitigate false positives, we use:
-//   - A high sample count (200 by default)
-//   - Multiple seeds to diversify generation
-//   - A `null` fallback when in doubt
+// `checkPatternSubset` reports which method decided.
 
 // ─── Configuration ───────────────────────────────────────────────────────────
 
@@ -43,10 +46,15 @@ const MAX_REPETITION = 20;
 // ─── Result Cache ────────────────────────────────────────────────────────────
 
 /**
- * Cache of isPatternSubset results to avoid recomputing the same comparisons.
+ * Cache of checkPatternSubset results to avoid recomputing the same comparisons.
  * The key is `${subPattern}\0${supPattern}\0${sampleCount}`.
  */
-const subsetCache = new Map<string, boolean | null>();
+const subsetCache = new Map<string, PatternSubsetResult>();
+
+/**
+ * Cache of arePatternsDisjoint results, keyed like `subsetCache`.
+ */
+const disjointCache = new Map<string, boolean | null>();
 
 /**
  * Cache of compiled RegExp results to avoid recompilation.
@@ -63,8 +71,10 @@ const generatorCache = new Map<string, RandExp | null>();
  */
 export function clearPatternCaches(): void {
 	subsetCache.clear();
+	disjointCache.clear();
 	regexCache.clear();
 	generatorCache.clear();
+	clearAutomatonCache();
 }
 
 // ─── Trivial pattern detection (module-level constants) ──────────────────────
@@ -127,7 +137,7 @@ function compileRegex(pattern: string): RegExp | null {
 	if (cached !== undefined) return cached;
 
 	try {
-		const regex = new RegExp(pattern);
+		const regex = new RegExp(pattern, "u");
 		regexCache.set(pattern, regex);
 		return regex;
 	} catch {
@@ -173,20 +183,20 @@ function quickSubsetCheck(
 
 /**
  * Checks whether the language of pattern `sub` is a subset of the language
- * of pattern `sup` via sampling.
+ * of pattern `sup`.
  *
  * `sub ⊆ sup` means: every string matching `sub` also matches `sup`.
  *
  * Ternary contract:
- *   - `true`  → all sampled strings from sub match sup
- *               (high confidence, not a formal proof)
+ *   - `true`  → every string from sub matches sup (exact with automata;
+ *               high confidence, not a formal proof, with sampling)
  *   - `false` → at least one string from sub does NOT match sup
  *               (certain — it's a concrete counter-example)
  *   - `null`  → cannot determine (invalid pattern, generation failed)
  *
  * @param subPattern    The regex pattern of the sub schema
  * @param supPattern    The regex pattern of the sup schema
- * @param sampleCount   Number of samples (default: 200)
+ * @param sampleCount   Number of samples when sampling (default: 200)
  * @returns             `true`, `false`, or `null`
  *
  * @example
@@ -204,32 +214,67 @@ export function isPatternSubset(
 ): boolean | null {
 	// ── Identity: same pattern → always a subset ──
 	if (subPattern === supPattern) return true;
+	return checkPatternSubset(subPattern, supPattern, sampleCount).isSubset;
+}
 
+/**
+ * Same as `isPatternSubset`, with the method that decided: `"automaton"`
+ * (exact) for regular patterns, `"sampling"` otherwise.
+ *
+ * @example
+ * ```ts
+ * checkPatternSubset("^[a-z]{3}$", "^[a-z]+$");
+ * // → { isSubset: true, method: "automaton" }
+ * checkPatternSubset("^(a)\\1$", "^a+$");
+ * // → { isSubset: true, method: "sampling" } — backreference
+ * ```
+ */
+export function checkPatternSubset(
+	subPattern: string,
+	supPattern: string,
+	sampleCount: number = DEFAULT_SAMPLE_COUNT,
+): PatternSubsetResult {
 	// ── Cache lookup ──
 	const cacheKey = `${subPattern}\0${supPattern}\0${sampleCount}`;
 	const cached = subsetCache.get(cacheKey);
 	if (cached !== undefined) return cached;
 
+	// ── Exact decision for regular patterns ──
+	const exact =
+		compileRegex(subPattern) !== null && compileRegex(supPattern) !== null
+			? patternDifference(subPattern, supPattern)
+			: null;
+	const result: PatternSubsetResult =
+		exact !== null
+			? { isSubset: exact.witness === null, method: "automaton" }
+			: {
+					isSubset: sampleSubset(subPattern, supPattern, sampleCount),
+					method: "sampling",
+				};
+	subsetCache.set(cacheKey, result);
+	return result;
+}
+
+/**
+ * Sampling fallback of `checkPatternSubset`: generates strings from
+ * `subPattern` and tests them against `supPattern`.
+ */
+function sampleSubset(
+	subPattern: string,
+	supPattern: string,
+	sampleCount: number,
+): boolean | null {
 	// ── Quick checks before sampling ──
 	const quick = quickSubsetCheck(subPattern, supPattern);
-	if (quick !== null) {
-		subsetCache.set(cacheKey, quick);
-		return quick;
-	}
+	if (quick !== null) return quick;
 
 	// ── Compile the sup pattern ──
 	const supRegex = compileRegex(supPattern);
-	if (supRegex === null) {
-		subsetCache.set(cacheKey, null);
-		return null;
-	}
+	if (supRegex === null) return null;
 
 	// ── Create the generator for sub ──
 	const generator = createGenerator(subPattern);
-	if (generator === null) {
-		subsetCache.set(cacheKey, null);
-		return null;
-	}
+	if (generator === null) return null;
 
 	// ── Generate and verify samples lazily ──
 	// Instead of generating all samples first then verifying them,
@@ -260,22 +305,54 @@ export function isPatternSubset(
 		// Early termination as soon as a counter-example is found
 		if (!supRegex.test(sample)) {
 			// Counter-example found → sub ⊄ sup (certain)
-			subsetCache.set(cacheKey, false);
 			return false;
 		}
 	}
 
 	// If no samples could be generated → undetermined
-	if (validSamples === 0) {
-		subsetCache.set(cacheKey, null);
-		return null;
-	}
+	if (validSamples === 0) return null;
 
 	// All samples match → sub ⊆ sup (high confidence)
-	subsetCache.set(cacheKey, true);
 	return true;
 }
 
+/**
+ * Generates up to `count` distinct strings matching `pattern` (via `randexp`).
+ *
+ * @param random  Source of randomness in [0, 1) — `Math.random` by default
+ * @returns The generated strings — empty when the pattern is invalid or
+ *          generation fails
+ */
+export function samplePattern(
+	pattern: string,
+	count: number,
+	random?: () => number,
+): string[] {
+	const generator = createGenerator(pattern);
+	if (generator === null) return [];
+
+	// The cached generator is shared: its randomness is restored afterwards
+	const randInt = generator.randInt;
+	if (random !== undefined) {
+		generator.randInt = (from, to) =>
+			from + Math.floor(random() * (to - from + 1));
+	}
+
+	const samples = new Set<string>();
+	try {
+		for (let attempt = 0; attempt < count * 3; attempt++) {
+			const sample = generator.gen();
+			if (sample.length <= MAX_GENERATED_LENGTH) samples.add(sample);
+			if (samples.size >= count) break;
+		}
+	} catch {
+		// Generation failures leave the samples found so far
+	} finally {
+		generator.randInt = randInt;
+	}
+	return [...samples];
+}
+
 /**
  * Checks whether two patterns are equivalent (accept the same language)
  * via bidirectional sampling.
@@ -304,6 +381,80 @@ export function arePatternsEquivalent(
 	return bSubA;
 }
 
+/**
+ * Checks whether two patterns have no string in common — exactly with
+ * automata for regular patterns, otherwise by sampling each pattern against
+ * the other.
+ *
+ * Ternary contract:
+ *   - `true`  → no string matches both (exact with automata, high
+ *               confidence with sampling)
+ *   - `false` → a string matches both (certain)
+ *   - `null`  → cannot determine (invalid pattern, generation failed)
+ *
+ * @example
+ * ```ts
+ * arePatternsDisjoint("^x_", "^y_");         // true
+ * arePatternsDisjoint("^x_", "^x_[a-z]+$");  // false — "x_a" matches both
+ * ```
+ */
+export function arePatternsDisjoint(
+	patternA: string,
+	patternB: string,
+	sampleCount: number = DEFAULT_SAMPLE_COUNT,
+): boolean | null {
+	const cacheKey = `${patternA}\0${patternB}\0${sampleCount}`;
+	const cached = disjointCache.get(cacheKey);
+	if (cached !== undefined) return cached;
+
+	const exact =
+		compileRegex(patternA) !== null && compileRegex(patternB) !== null
+			? patternIntersection(patternA, patternB)
+			: null;
+	if (exact !== null) {
+		const disjoint = exact.witness === null;
+		disjointCache.set(cacheKey, disjoint);
+		return disjoint;
+	}
+
+	let result: boolean | null = true;
+	for (const [source, target] of [
+		[patternA, patternB],
+		[patternB, patternA],
+	] as const) {
+		const generator = createGenerator(source);
+		const regex = compileRegex(target);
+		if (generator === null || regex === null) {
+			result = null;
+			break;
+		}
+		let common = false;
+		for (let i = 0; i < sampleCount && !common; i++) {
+			const sample = generator.gen();
+			common =
+				typeof sample === "string" &&
+				sample.length <= MAX_GENERATED_LENGTH &&
+				regex.test(sample);
+		}
+		if (common) {
+			result = false;
+			break;
+		}
+	}
+
+	disjointCache.set(cacheKey, result);
+	return result;
+}
+
+/**
+ * Checks whether a string (e.g. a property name) matches a pattern.
+ * Returns `null` for an invalid pattern.
+ */
+export function matchesPattern(value: string, pattern: string): boolean | null {
+	const regex = compileRegex(pattern);
+	return regex === null ? null : regex.test(value);
+}
+
 /**
  * Checks whether a pattern is "trivially universal" — i.e., it matches
  * every string (or nearly every). Useful for detecting patterns that
@@ -0,0 +1,128 @@
+// ─── Rational numbers ────────────────────────────────────────────────────────
+//
+// Exact arithmetic for `multipleOf` and the numeric bounds it constrains.
+//
+// Schema numbers are decimal literals (`0.1`, `19.99`), but binary
+// floating point cannot represent most of them: `0.3 % 0.1` is not `0`,
+// and scaling by 10 until both values are integers (as the merge library
+// does for `multipleOf`) can yield `lcm(0.07, 0.03) = 210000000000000.03`.
+//
+// Each number is read back as the decimal literal it was written as — the
+// shortest representation JavaScript prints for it — and handled as an
+// exact fraction of `bigint`s. Results are converted back to the closest
+// double, which is the value of the decimal literal with the same digits.
+
+/** An exact fraction, always reduced, with a positive denominator. */
+interface Rational {
+	num: bigint;
+	den: bigint;
+}
+
+const DECIMAL = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/;
+
+/**
+ * Reads a finite number as the decimal literal it prints as.
+ * Returns `null` for `NaN` / `±Infinity`.
+ */
+function toRational(value: number): Rational | null {
+	if (!Number.isFinite(value)) return null;
+	const match = DECIMAL.exec(String(value));
+	if (match === null) return null;
+	const [, sign = "", int = "0", frac = "", exp = "0"] = match;
+	let num = BigInt(`${sign}${int}${frac}`);
+	let den = 1n;
+	const shift = Number(exp) - frac.length;
+	if (shift >= 0) num *= 10n ** BigInt(shift);
+	else den = 10n ** BigInt(-shift);
+	return reduce(num, den);
+}
+
+function toNumber({ num, den }: Rational): number {
+	// Both conversions and the division are correctly rounded for
+	// operands below 2^53 — the common case for schema literals
+	return den === 1n ? Number(num) : Number(num) / Number(den);
+}
+
+function reduce(num: bigint, den: bigint): Rational {
+	if (den < 0n) {
+		num = -num;
+		den = -den;
+	}
+	const g = gcd(num, den);
+	return g > 1n ? { num: num / g, den: den / g } : { num, den };
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+	if (a < 0n) a = -a;
+	if (b < 0n) b = -b;
+	while (b !== 0n) [a, b] = [b, a % b];
+	return a;
+}
+
+/** Rounds a fraction to an integer, towards +∞ or −∞. */
+function roundQuotient(num: bigint, den: bigint, up: boolean): bigint {
+	const q = num / den; // truncated towards 0
+	const r = num % den;
+	if (r === 0n) return q;
+	if (up) return num > 0n ? q + 1n : q;
+	return num < 0n ? q - 1n : q;
+}
+
+// ─── Public helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Checks whether `value` is an integer multiple of `step`, exactly
+ * (`isMultipleOf(0.3, 0.1)` is `true`). Falls back to floating point for
+ * non-finite values.
+ */
+export function isMultipleOf(value: number, step: number): boolean {
+	const v = toRational(value);
+	const s = toRational(step);
+	if (v === null || s === null || s.num === 0n) return value % step === 0;
+	// v / s = (v.num * s.den) / (v.den * s.num)
+	return (v.num * s.den) % (v.den * s.num) === 0n;
+}
+
+/**
+ * Least common multiple of two positive steps: the `multipleOf` of the
+ * intersection of `{ multipleOf: a }` and `{ multipleOf: b }`
+ * (`lcmOf(0.07, 0.03)` is `2.1`).
+ */
+export function lcmOf(a: number, b: number): number {
+	const x = toRational(a);
+	const y = toRational(b);
+	if (x === null || y === null || x.num === 0n || y.num === 0n) {
+		return Math.max(a, b);
+	}
+	// For reduced fractions: lcm(p/q, r/s) = lcm(p, r) / gcd(q, s)
+	const numerator = (x.num * y.num) / gcd(x.num, y.num);
+	return toNumber(reduce(numerator, gcd(x.den, y.den)));
+}
+
+/**
+ * The multiple of `step` closest to `value` in one direction: the smallest
+ * multiple ≥ `value` (`up`) or the largest ≤ `value`. With `strict`, the
+ * multiple must differ from `value` (`>` / `<`).
+ *
+ * @example
+ * ```ts
+ * roundToMultiple(1, 0.5, true, true);    // → 1.5 (smallest multiple > 1)
+ * roundToMultiple(0.95, 0.1, false, false); // → 0.9
+ * ```
+ */
+export function roundToMultiple(
+	value: number,
+	step: number,
+	up: boolean,
+	strict: boolean,
+): number {
+	const v = toRational(value);
+	const s = toRational(step);
+	if (v === null || s === null || s.num <= 0n) return value;
+	// k = value / step, rounded in the requested direction
+	const num = v.num * s.den;
+	const den = v.den * s.num;
+	let k = roundQuotient(num, den, up);
+	if (strict && num % den === 0n) k += up ? 1n : -1n;
+	return toNumber(reduce(k * s.num, s.den));
+}
@@ -0,0 +1,1010 @@
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import type { SchemaRegistry } from "./schema-registry.ts";
+import { hasOwn, isPlainObj } from "./utils.ts";
+
+// ─── Ref Resolver ────────────────────────────────────────────────────────────
+//
+// Resolves `$ref`s — JSON pointers (`#`, `#/definitions/X`, `#/$defs/X`,
+// `#/properties/a/items`, …), plain-name anchors (`$id: "#foo"`) and
+// cross-document references (`common.json#/definitions/Money`) — so that the
+// rest of the pipeline (normalize → merge → compare) sees the referenced
+// constraints instead of an opaque `{ $ref }` node.
+//
+// Semantics (Draft-07):
+//   - A schema with `$ref` is replaced by its target — sibling keywords are
+//     ignored, as mandated by the spec
+//   - Refs are resolved against the base URI of the node holding them (the
+//     `$id` of the root or of an enclosing sub-schema, `memory:///` by
+//     default), so sub and sup are each resolved against their own
+//     `definitions`
+//   - Other documents come from an optional `SchemaRegistry` — nothing is
+//     ever fetched over the network
+//   - `definitions` / `$defs` are dropped from the resolved output: they have
+//     no validation impact, and keeping them would make the merge engine
+//     intersect unrelated definitions of sub and sup
+//   - Refs that cannot be resolved are left untouched and reported by
+//     `collectUnresolvedRefs`
+//   - Recursive refs (the target contains the ref itself) cannot be inlined:
+//     they are replaced by a placeholder `{ $ref }` bound to the resolved
+//     target (see `unfoldRecursiveRef`). The subset checker and the semantic
+//     error generator unfold placeholders lazily, tracking the pairs they
+//     are already comparing, so cyclic schemas never cause infinite loops
+//
+// Optimizations:
+//   - WeakMap cache per root object (and per registry revision)
+//   - Schemas without any `$ref` are returned as-is (no allocation)
+//   - Each ref is resolved once per root, so a definition referenced from
+//     several places maps to the same resolved object (keeps the downstream
+//     WeakMap caches of normalize / getBranchesTyped hot)
+
+// ─── Caches ──────────────────────────────────────────────────────────────────
+
+/** Resolution results per root schema object (without registry). */
+const resolveCache = new WeakMap<object, JSONSchema7Definition>();
+
+/** Resolution results per registry, invalidated when the registry changes. */
+const registryCaches = new WeakMap<
+	SchemaRegistry,
+	{ revision: number; cache: WeakMap<object, JSONSchema7Definition> }
+>();
+
+/** `collectUnresolvedRefs` results per resolved schema object. */
+const unresolvedCache = new WeakMap<object, UnresolvedRef[]>();
+
+/**
+ * `$ref` nodes deliberately left in a resolved schema (unresolved or
+ * recursive reference). They are skipped by `containsRef` so that a schema
+ * produced by `resolveRefs` — or a merge of such schemas — is never resolved
+ * a second time against the wrong root.
+ */
+const opaqueRefs = new WeakSet<object>();
+
+/**
+ * Placeholders emitted for recursive references, mapped to the resolved
+ * schema they stand for. A placeholder is a plain `{ $ref }` object (also
+ * registered in `opaqueRefs`), so the resolved schema stays a finite tree;
+ * consumers that need to look through it use `unfoldRecursiveRef`.
+ */
+const recursiveTargets = new WeakMap<object, JSONSchema7Definition>();
+
+/** `containsRecursiveRef` results per schema object. */
+const recursiveRefCache = new WeakMap<object, boolean>();
+
+/** `rebindRecursiveRefs` results per schema object, for each container. */
+const rebindCaches: Record<
+	DefinitionsContainer,
+	WeakMap<object, JSONSchema7Definition>
+> = {
+	definitions: new WeakMap(),
+	$defs: new WeakMap(),
+};
+
+// ─── Sub-schema keywords ─────────────────────────────────────────────────────
+
+/** Keywords containing a single sub-schema */
+const SINGLE_SCHEMA_KEYWORDS = [
+	"items",
+	"additionalItems",
+	"additionalProperties",
+	"contains",
+	"propertyNames",
+	"not",
+	"if",
+	"then",
+	"else",
+	"unevaluatedProperties",
+	"unevaluatedItems",
+] as const;
+
+/** Keywords containing an array of sub-schemas */
+const ARRAY_SCHEMA_KEYWORDS = ["allOf", "anyOf", "oneOf"] as const;
+
+/** Keywords containing a Record<string, JSONSchema7Definition> */
+const SCHEMA_MAP_KEYWORDS = [
+	"properties",
+	"patternProperties",
+	"dependencies",
+] as const;
+
+/** Containers of reusable schemas — no validation impact */
+const DEFINITIONS_KEYWORDS = ["definitions", "$defs"] as const;
+
+export type DefinitionsContainer = (typeof DEFINITIONS_KEYWORDS)[number];
+
+/** Callback of `mapSubSchemas`: `keyword` / `key` locate the sub-schema. */
+export type SubSchemaMapper = (
+	def: JSONSchema7Definition,
+	keyword: string,
+	key?: string,
+) => JSONSchema7Definition;
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+/**
+ * Applies `fn` to every direct sub-schema of `schema` (copy-on-write).
+ * Also used by the dialect converter (`dialect.ts`).
+ * Array-form `dependencies` values are left unchanged.
+ *
+ * `fn` also receives the location of the sub-schema: the keyword holding
+ * it, and its index / key inside that keyword when it holds several.
+ *
+ * When `dropDefinitions` is `true`, `definitions` / `$defs` are removed
+ * from the result instead of being traversed.
+ *
+ * Returns the original object if nothing changed.
+ */
+export function mapSubSchemas(
+	schema: JSONSchema7,
+	fn: SubSchemaMapper,
+	dropDefinitions: boolean,
+): JSONSchema7 {
+	let result = schema as JSONSchema7 & Record<string, unknown>;
+	let copied = false;
+
+	function ensureCopy(): JSONSchema7 & Record<string, unknown> {
+		if (!copied) {
+			result = { ...schema } as JSONSchema7 & Record<string, unknown>;
+			copied = true;
+		}
+		return result;
+	}
+
+	for (const key of SINGLE_SCHEMA_KEYWORDS) {
+		const val = schema[key];
+		if (val === undefined) continue;
+		if (Array.isArray(val)) {
+			// Tuple-form `items`
+			const mapped = mapArray(val, fn, key);
+			if (mapped !== val) ensureCopy()[key] = mapped;
+		} else if (typeof val !== "boolean") {
+			const mapped = fn(val as JSONSchema7Definition, key);
+			if (mapped !== val) ensureCopy()[key] = mapped;
+		}
+	}
+
+	for (const key of ARRAY_SCHEMA_KEYWORDS) {
+		const val = schema[key];
+		if (!Array.isArray(val)) continue;
+		const mapped = mapArray(val, fn, key);
+		if (mapped !== val) ensureCopy()[key] = mapped;
+	}
+
+	for (const key of SCHEMA_MAP_KEYWORDS) {
+		const val = schema[key];
+		if (!isPlainObj(val)) continue;
+		const mapped = mapRecord(
+			val as Record<string, JSONSchema7Definition | string[]>,
+			fn,
+			key,
+		);
+		if (mapped !== val) ensureCopy()[key] = mapped;
+	}
+
+	for (const key of DEFINITIONS_KEYWORDS) {
+		if (!hasOwn(schema, key)) continue;
+		if (dropDefinitions) {
+			delete ensureCopy()[key];
+			continue;
+		}
+		const val = (schema as Record<string, unknown>)[key];
+		if (!isPlainObj(val)) continue;
+		const mapped = mapRecord(
+			val as Record<string, JSONSchema7Definition>,
+			fn,
+			key,
+		);
+		if (mapped !== val) ensureCopy()[key] = mapped;
+	}
+
+	return result;
+}
+
+function mapArray(
+	arr: JSONSchema7Definition[],
+	fn: SubSchemaMapper,
+	keyword: string,
+): JSONSchema7Definition[] {
+	let result: JSONSchema7Definition[] | undefined;
+	for (let i = 0; i < arr.length; i++) {
+		const original = arr[i];
+		if (original === undefined) continue;
+		const mapped = fn(original, keyword, String(i));
+		if (mapped !== original) {
+			if (!result) result = arr.slice();
+			result[i] = mapped;
+		}
+	}
+	return result ?? arr;
+}
+
+function mapRecord<V extends JSONSchema7Definition | string[]>(
+	record: Record<string, V>,
+	fn: SubSchemaMapper,
+	keyword: string,
+): Record<string, V> {
+	let result: Record<string, V> | undefined;
+	for (const key of Object.keys(record)) {
+		const original = record[key];
+		// Array-form dependencies are property lists, not schemas
+		if (original === undefined || Array.isArray(original)) continue;
+		const mapped = fn(original as JSONSchema7Definition, keyword, key);
+		if (mapped !== original) {
+			if (!result) result = { ...record };
+			result[key] = mapped as V;
+		}
+	}
+	return result ?? record;
+}
+
+/**
+ * Checks whether a schema contains at least one `$ref` that has not been
+ * marked as opaque by a previous resolution.
+ */
+function containsRef(def: JSONSchema7Definition): boolean {
+	if (typeof def === "boolean") return false;
+	if (typeof def.$ref === "string" && !opaqueRefs.has(def)) return true;
+
+	let found = false;
+	mapSubSchemas(
+		def,
+		(sub) => {
+			if (!found && containsRef(sub)) found = true;
+			return sub;
+		},
+		false,
+	);
+	return found;
+}
+
+/**
+ * Decodes an RFC 6901 JSON pointer found in a URI fragment
+ * (`/definitions/a~1b` → `["definitions", "a/b"]`).
+ *
+ * Returns `null` when the fragment is not a JSON pointer (plain-name anchor).
+ * Also used by the OpenAPI comparison (`openapi.ts`).
+ */
+export function decodePointer(pointer: string): string[] | null {
+	if (pointer === "") return [];
+	if (!pointer.startsWith("/")) return null;
+	try {
+		return pointer
+			.slice(1)
+			.split("/")
+			.map((token) =>
+				decodeURIComponent(token).replace(/~1/g, "/").replace(/~0/g, "~"),
+			);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Escapes a token for a JSON pointer (RFC 6901), the inverse of the
+ * token decoding of `decodePointer` (`a/b` → `a~1b`).
+ */
+export function escapePointer(token: string): string {
+	return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Follows decoded JSON pointer tokens from `resource`.
+ * Returns `undefined` when the pointer does not lead to a schema (or to an
+ * object, for OpenAPI documents).
+ */
+export function followPointer(
+	resource: JSONSchema7Definition,
+	tokens: string[],
+): JSONSchema7Definition | undefined {
+	let current: unknown = resource;
+	for (const token of tokens) {
+		if (Array.isArray(current)) {
+			if (!/^\d+$/.test(token)) return undefined;
+			current = current[Number(token)];
+		} else if (isPlainObj(current) && hasOwn(current, token)) {
+			current = current[token];
+		} else {
+			return undefined;
+		}
+	}
+
+	if (typeof current === "boolean" || isPlainObj(current)) {
+		return current as JSONSchema7Definition;
+	}
+	return undefined;
+}
+
+/**
+ * Returns a copy of a `$ref` node marked as opaque (left unresolved).
+ * The original object is not marked, since it may be resolvable in
+ * another root.
+ */
+function markOpaque(node: JSONSchema7): JSONSchema7 {
+	const copy = { ...node };
+	opaqueRefs.add(copy);
+	return copy;
+}
+
+// ─── URIs ────────────────────────────────────────────────────────────────────
+
+/**
+ * Base URI of schemas without an absolute `$id`.
+ *
+ * An in-memory hierarchical base lets relative ids and refs resolve
+ * consistently: `{ $ref: "common.json#/X" }` in a schema without `$id`
+ * finds a registry document registered as `{ $id: "common.json" }`.
+ */
+export const DEFAULT_BASE_URI = "memory:///";
+
+/**
+ * Resolves a URI reference against a base URI (RFC 3986).
+ * An empty fragment is dropped (`a.json#` → `a.json`), so that every
+ * location has a single canonical form.
+ *
+ * @returns  The absolute URI, or `null` when the reference is malformed
+ */
+export function resolveUri(ref: string, base: string): string | null {
+	let href: string;
+	try {
+		href = new URL(ref, base).href;
+	} catch {
+		return null;
+	}
+	return href.endsWith("#") ? href.slice(0, -1) : href;
+}
+
+/** Splits an absolute URI into its resource part and its fragment. */
+function splitFragment(uri: string): [resource: string, fragment: string] {
+	const hash = uri.indexOf("#");
+	if (hash === -1) return [uri, ""];
+	return [uri.slice(0, hash), uri.slice(hash + 1)];
+}
+
+/**
+ * Indexes the resources of a schema document: the document itself under
+ * `base` (replacing any previous entry), every sub-schema declaring an `$id`
+ * under its resolved URI, and plain-name anchors (`$id: "#name"` or
+ * `$anchor: "name"`) under `resource#name`.
+ *
+ * @param schema  The document
+ * @param base    Absolute URI the document is known by
+ * @param into    Index to fill (URI → schema)
+ */
+export function indexResources(
+	schema: JSONSchema7Definition,
+	base: string,
+	into: Map<string, JSONSchema7Definition>,
+): void {
+	into.set(base, schema);
+
+	function visit(node: JSONSchema7Definition, nodeBase: string): void {
+		if (typeof node === "boolean") return;
+		let currentBase = nodeBase;
+		if (typeof node.$id === "string") {
+			const id = resolveUri(node.$id, nodeBase);
+			if (id !== null) {
+				if (!into.has(id)) into.set(id, node);
+				currentBase = splitFragment(id)[0];
+			}
+		}
+		// Draft 2019-09+ plain-name anchor
+		const anchor = (node as Record<string, unknown>).$anchor;
+		if (typeof anchor === "string") {
+			const uri = `${currentBase}#${anchor}`;
+			if (!into.has(uri)) into.set(uri, node);
+		}
+		mapSubSchemas(
+			node,
+			(sub) => {
+				visit(sub, currentBase);
+				return sub;
+			},
+			false,
+		);
+	}
+
+	visit(schema, base);
+}
+
+/**
+ * Returns the base URI of a root schema: its `$id` resolved against
+ * `DEFAULT_BASE_URI`, or `DEFAULT_BASE_URI` itself.
+ */
+function documentBase(root: JSONSchema7): string {
+	if (typeof root.$id !== "string") return DEFAULT_BASE_URI;
+	const id = resolveUri(root.$id, DEFAULT_BASE_URI);
+	return id === null ? DEFAULT_BASE_URI : splitFragment(id)[0];
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Resolves every `$ref` of a schema, returning a schema where references
+ * are replaced by their targets.
+ *
+ * References are resolved against the base URI of the node they appear in
+ * (`$id` of the root or of an enclosing sub-schema), and looked up first in
+ * the schema itself, then in `registry`. Nothing is ever fetched.
+ *
+ * - `definitions` / `$defs` are dropped from the result
+ * - Unknown references are left as `{ $ref }` nodes
+ *   (see `collectUnresolvedRefs`)
+ * - Recursive references become placeholders (see `unfoldRecursiveRef`)
+ * - Returns the original object when the schema contains no `$ref`
+ *
+ * @param def       The root schema
+ * @param registry  Documents available to cross-document references
+ * @returns         The schema with references inlined
+ *
+ * @example
+ * ```ts
+ * resolveRefs({
+ *   properties: { billing: { $ref: "#/definitions/address" } },
+ *   definitions: { address: { type: "object" } },
+ * });
+ * // → { properties: { billing: { type: "object" } } }
+ *
+ * const registry = new SchemaRegistry([
+ *   { $id: "common.json", definitions: { money: { type: "number" } } },
+ * ]);
+ * resolveRefs({ $ref: "common.json#/definitions/money" }, registry);
+ * // → { type: "number" }
+ * ```
+ */
+export function resolveRefs(
+	def: JSONSchema7Definition,
+	registry?: SchemaRegistry,
+): JSONSchema7Definition {
+	if (typeof def === "boolean") return def;
+
+	const cache = getResolveCache(registry);
+	const cached = cache.get(def);
+	if (cached !== undefined) return cached;
+
+	const result = containsRef(def) ? inlineRefs(def, registry) : def;
+
+	cache.set(def, result);
+	return result;
+}
+
+/**
+ * Returns the resolution cache for a registry — a fresh one whenever the
+ * registry changed since the cache was created.
+ */
+function getResolveCache(
+	registry: SchemaRegistry | undefined,
+): WeakMap<object, JSONSchema7Definition> {
+	if (registry === undefined) return resolveCache;
+
+	const entry = registryCaches.get(registry);
+	if (entry !== undefined && entry.revision === registry.revision) {
+		return entry.cache;
+	}
+	const cache = new WeakMap<object, JSONSchema7Definition>();
+	registryCaches.set(registry, { revision: registry.revision, cache });
+	return cache;
+}
+
+/**
+ * Single resolution pass over `root`.
+ */
+function inlineRefs(
+	root: JSONSchema7,
+	registry: SchemaRegistry | undefined,
+): JSONSchema7Definition {
+	const rootBase = documentBase(root);
+	const resources = new Map<string, JSONSchema7Definition>();
+	indexResources(root, rootBase, resources);
+
+	// Keyed by absolute URI, so that different spellings of the same
+	// reference share their resolution
+	const resolvedRefs = new Map<string, JSONSchema7Definition>();
+	const placeholders = new Map<string, JSONSchema7>();
+	// The root itself is being resolved: `{ $ref: "#" }` inside it is recursive
+	const inProgress = new Set<string>([rootBase]);
+
+	function findResource(uri: string): JSONSchema7Definition | undefined {
+		return resources.get(uri) ?? registry?.get(uri);
+	}
+
+	function lookup(uri: string): JSONSchema7Definition | undefined {
+		const [resource, fragment] = splitFragment(uri);
+		const tokens = decodePointer(fragment);
+		// Plain-name anchor — indexed under its full URI
+		if (tokens === null) return findResource(uri);
+
+		const document = findResource(resource);
+		if (document === undefined) return undefined;
+		return followPointer(document, tokens);
+	}
+
+	function resolveNode(
+		node: JSONSchema7Definition,
+		base: string,
+	): JSONSchema7Definition {
+		if (typeof node === "boolean") return node;
+
+		let nodeBase = base;
+		if (typeof node.$id === "string") {
+			const id = resolveUri(node.$id, base);
+			if (id !== null) nodeBase = splitFragment(id)[0];
+		}
+
+		if (typeof node.$ref === "string" && !opaqueRefs.has(node)) {
+			return resolveRef(node, node.$ref, nodeBase);
+		}
+		const mapped = mapSubSchemas(
+			node,
+			(sub) => resolveNode(sub, nodeBase),
+			true,
+		);
+		if (node === root || !hasOwn(mapped, "$id")) return mapped;
+
+		// Embedded `$id`s have served their purpose: left in the inlined
+		// output, they would change the base URI of the refs produced by
+		// `rebindRecursiveRefs` and clash between documents compiled by AJV
+		const { $id: _id, ...withoutId } = mapped;
+		return withoutId;
+	}
+
+	function resolveRef(
+		node: JSONSchema7,
+		ref: string,
+		base: string,
+	): JSONSchema7Definition {
+		const uri = resolveUri(ref, base);
+		if (uri === null) return markOpaque(node);
+
+		const known = resolvedRefs.get(uri);
+		if (known !== undefined) return known;
+
+		// Recursive reference — inlining would never terminate, emit a
+		// placeholder bound to the resolved target once it is complete
+		if (inProgress.has(uri)) return placeholderFor(uri, ref);
+
+		const target = lookup(uri);
+		if (target === undefined) return markOpaque(node);
+
+		inProgress.add(uri);
+		const resolved = resolveNode(target, splitFragment(uri)[0]);
+		inProgress.delete(uri);
+
+		resolvedRefs.set(uri, resolved);
+		bindPlaceholder(uri, resolved);
+		return resolved;
+	}
+
+	function placeholderFor(uri: string, ref: string): JSONSchema7 {
+		let placeholder = placeholders.get(uri);
+		if (placeholder === undefined) {
+			placeholder = { $ref: ref };
+			opaqueRefs.add(placeholder);
+			placeholders.set(uri, placeholder);
+		}
+		return placeholder;
+	}
+
+	function bindPlaceholder(uri: string, resolved: JSONSchema7Definition): void {
+		const placeholder = placeholders.get(uri);
+		if (placeholder === undefined) return;
+		// A reference that only resolves to itself (`a → b → a`) has no
+		// content to unfold — it stays an opaque `{ $ref }`
+		if (typeof resolved !== "boolean" && recursiveTargets.has(resolved)) return;
+		if (resolved === placeholder) return;
+		recursiveTargets.set(placeholder, resolved);
+	}
+
+	const schema = resolveNode(root, rootBase);
+	bindPlaceholder(rootBase, schema);
+	return schema;
+}
+
+// ─── Unresolved references ───────────────────────────────────────────────────
+
+/** A `$ref` left in a resolved schema because its target was not found. */
+export interface UnresolvedRef {
+	/** The reference, as written in the schema */
+	ref: string;
+	/** Normalized path of the node holding the reference ("" for the root) */
+	path: string;
+	/** JSON pointer of the `$ref` keyword in the resolved schema */
+	pointer: string;
+	/** JSON pointer of the values it applies to (`*` for any index or key) */
+	instancePath: string;
+}
+
+/** Keywords whose sub-schema applies to the items or values of the node */
+const VALUE_SCHEMA_KEYWORDS = new Set([
+	"additionalItems",
+	"additionalProperties",
+	"contains",
+	"propertyNames",
+	"unevaluatedProperties",
+	"unevaluatedItems",
+]);
+
+/**
+ * Lists the references `resolveRefs` could not resolve (unknown pointer,
+ * document missing from the registry, reference cycle without content).
+ *
+ * Paths follow the semantic-error convention: `user.address` for
+ * properties, `tags[]` for array items, `pair[0]` for tuple items.
+ */
+export function collectUnresolvedRefs(
+	def: JSONSchema7Definition,
+): UnresolvedRef[] {
+	if (typeof def === "boolean") return [];
+
+	const cached = unresolvedCache.get(def);
+	if (cached !== undefined) return cached;
+
+	const found: UnresolvedRef[] = [];
+	visitUnresolved(def, { path: "", pointer: "", instancePath: "" }, found);
+
+	unresolvedCache.set(def, found);
+	return found;
+}
+
+function visitUnresolved(
+	def: JSONSchema7Definition,
+	at: Omit<UnresolvedRef, "ref">,
+	found: UnresolvedRef[],
+): void {
+	if (typeof def === "boolean") return;
+	if (typeof def.$ref === "string" && !recursiveTargets.has(def)) {
+		found.push({ ref: def.$ref, ...at, pointer: `${at.pointer}/$ref` });
+		return;
+	}
+
+	for (const key of ["properties", "patternProperties"] as const) {
+		const record = def[key];
+		if (!isPlainObj(record)) continue;
+		for (const name of Object.keys(record)) {
+			const child = record[name];
+			if (child === undefined) continue;
+			const token = `/${escapePointer(name)}`;
+			visitUnresolved(
+				child,
+				{
+					path: at.path ? `${at.path}.${name}` : name,
+					pointer: `${at.pointer}/${key}${token}`,
+					instancePath: `${at.instancePath}${key === "properties" ? token : "/*"}`,
+				},
+				found,
+			);
+		}
+	}
+
+	if (Array.isArray(def.items)) {
+		def.items.forEach((item, i) => {
+			visitUnresolved(
+				item,
+				{
+					path: `${at.path}[${i}]`,
+					pointer: `${at.pointer}/items/${i}`,
+					instancePath: `${at.instancePath}/${i}`,
+				},
+				found,
+			);
+		});
+	} else if (def.items !== undefined) {
+		visitUnresolved(
+			def.items,
+			{
+				path: `${at.path}[]`,
+				pointer: `${at.pointer}/items`,
+				instancePath: `${at.instancePath}/*`,
+			},
+			found,
+		);
+	}
+
+	// Remaining sub-schemas (composition, conditions, …) keep the parent path
+	mapSubSchemas(
+		{
+			...def,
+			properties: undefined,
+			patternProperties: undefined,
+			items: undefined,
+		},
+		(sub, keyword, key) => {
+			visitUnresolved(
+				sub,
+				{
+					path: at.path,
+					pointer:
+						key === undefined
+							? `${at.pointer}/${keyword}`
+							: `${at.pointer}/${keyword}/${escapePointer(key)}`,
+					instancePath: VALUE_SCHEMA_KEYWORDS.has(keyword)
+						? `${at.instancePath}/*`
+						: at.instancePath,
+				},
+				found,
+			);
+			return sub;
+		},
+		true,
+	);
+}
+
+// ─── Recursive references ────────────────────────────────────────────────────
+
+/**
+ * Checks whether a schema contains a recursive-reference placeholder.
+ * Does not unfold placeholders.
+ */
+export function containsRecursiveRef(def: JSONSchema7Definition): boolean {
+	if (typeof def === "boolean") return false;
+
+	const cached = recursiveRefCache.get(def);
+	if (cached !== undefined) return cached;
+
+	let found = recursiveTargets.has(def);
+	if (!found) {
+		mapSubSchemas(
+			def,
+			(sub) => {
+				if (!found && containsRecursiveRef(sub)) found = true;
+				return sub;
+			},
+			false,
+		);
+	}
+
+	recursiveRefCache.set(def, found);
+	return found;
+}
+
+/**
+ * Returns the schema a recursive-reference placeholder stands for, or
+ * `undefined` when `def` is not such a placeholder.
+ *
+ * The returned schema is the resolved (not normalized) target. It contains
+ * the placeholder itself somewhere below — callers walking it must track
+ * the placeholders they already unfolded.
+ */
+export function unfoldRecursiveRef(
+	def: JSONSchema7Definition,
+): JSONSchema7Definition | undefined {
+	if (typeof def === "boolean") return undefined;
+	return recursiveTargets.get(def);
+}
+
+/**
+ * Rewrites recursive-reference placeholders of a resolved schema as local
+ * `definitions` (or `$defs`) entries, producing a self-contained schema that
+ * external validators (AJV) can compile.
+ *
+ * Returns the original object when the schema has no placeholder.
+ *
+ * @param def        A schema produced by `resolveRefs` / `normalize`
+ * @param container  Keyword receiving the recursive definitions
+ *
+ * @example
+ * ```ts
+ * const tree = normalize({
+ *   type: "object",
+ *   properties: { children: { type: "array", items: { $ref: "#" } } },
+ * });
+ * rebindRecursiveRefs(tree);
+ * // → {
+ * //   type: "object",
+ * //   properties: { children: { type: "array", items: { $ref: "#/definitions/root" } } },
+ * //   definitions: { root: { …same schema… } },
+ * // }
+ * ```
+ */
+export function rebindRecursiveRefs(
+	def: JSONSchema7Definition,
+	container: DefinitionsContainer = "definitions",
+): JSONSchema7Definition {
+	if (typeof def === "boolean") return def;
+
+	const rebindCache = rebindCaches[container];
+	const cached = rebindCache.get(def);
+	if (cached !== undefined) return cached;
+
+	const root = unfoldRecursiveRef(def) ?? def;
+	if (typeof root === "boolean" || !containsRecursiveRef(root)) {
+		rebindCache.set(def, root);
+		return root;
+	}
+
+	const current = (root as Record<string, unknown>)[container];
+	const existing = isPlainObj(current) ? current : {};
+	const names = new Map<JSONSchema7Definition, string>();
+	const definitions: Record<string, JSONSchema7Definition> = {};
+
+	function nameFor(placeholder: JSONSchema7): string | undefined {
+		const target = recursiveTargets.get(placeholder);
+		if (target === undefined) return undefined;
+
+		const known = names.get(target);
+		if (known !== undefined) return known;
+
+		const name = uniqueName(
+			definitionName(placeholder.$ref ?? "#"),
+			(candidate) =>
+				hasOwn(existing, candidate) || hasOwn(definitions, candidate),
+		);
+		// Register (and reserve the name) before rebinding the target:
+		// it contains the placeholder itself
+		names.set(target, name);
+		definitions[name] = true;
+		definitions[name] = withoutIds(rebind(target));
+		return name;
+	}
+
+	function rebind(node: JSONSchema7Definition): JSONSchema7Definition {
+		if (typeof node === "boolean") return node;
+		if (recursiveTargets.has(node)) {
+			const name = nameFor(node);
+			if (name !== undefined)
+				return { $ref: `#/${container}/${encodePointerToken(name)}` };
+		}
+		return mapSubSchemas(node, rebind, false);
+	}
+
+	const rebound = rebind(root) as JSONSchema7 & Record<string, unknown>;
+	const reboundDefinitions = rebound[container];
+	const result: JSONSchema7 = {
+		...rebound,
+		[container]: {
+			...(isPlainObj(reboundDefinitions) ? reboundDefinitions : {}),
+			...definitions,
+		},
+	};
+
+	rebindCache.set(def, result);
+	return result;
+}
+
+/**
+ * Drops `$id` and `$schema` from a copy of a schema, at every depth: the
+ * schema they identify stays where it was, and the copy must not claim
+ * its id (AJV rejects duplicate ids) nor change the base of its `$ref`s.
+ */
+function withoutIds(def: JSONSchema7Definition): JSONSchema7Definition {
+	if (typeof def === "boolean") return def;
+	const mapped = mapSubSchemas(def, withoutIds, false);
+	if (!hasOwn(mapped, "$id") && !hasOwn(mapped, "$schema")) return mapped;
+	const { $id, $schema, ...rest } = mapped;
+	return rest;
+}
+
+/**
+ * Suffixes `base` with `_2`, `_3`, … until `taken` rejects it.
+ */
+function uniqueName(base: string, taken: (name: string) => boolean): string {
+	let name = base;
+	for (let i = 2; taken(name); i++) {
+		name = `${base}_${i}`;
+	}
+	return name;
+}
+
+/**
+ * Derives a readable `definitions` key from a reference
+ * (`#/definitions/node` → `node`, `#` → `root`, `tree.json` → `tree`).
+ */
+function definitionName(ref: string): string {
+	const [resource, fragment] = splitFragment(ref);
+	const tokens = decodePointer(fragment);
+	const last = tokens?.[tokens.length - 1];
+	if (last !== undefined && last !== "") return last;
+	if (tokens === null && fragment !== "") return fragment;
+	const file = resource
+		.split("/")
+		.pop()
+		?.replace(/\.[^.]*$/, "");
+	return file ? file : "root";
+}
+
+/** Encodes a key as an RFC 6901 pointer token inside a URI fragment. */
+function encodePointerToken(token: string): string {
+	return encodeURIComponent(token.replace(/~/g, "~0").replace(/\//g, "~1"));
+}
+
+// ─── Bundling ────────────────────────────────────────────────────────────────
+
+/**
+ * Collects the documents a schema references from the registry —
+ * transitively — and embeds them under `$defs`, each with an `$id` set to
+ * the URI it was found under. References are left untouched: they resolve
+ * to the embedded copies exactly as they resolved against the registry.
+ *
+ * Returns the original object when the schema references no other document.
+ *
+ * @param def       The root schema
+ * @param registry  Documents available to cross-document references
+ *
+ * @example
+ * ```ts
+ * const registry = new SchemaRegistry([
+ *   { $id: "common.json", definitions: { money: { type: "number" } } },
+ * ]);
+ * bundleRefs({ $ref: "common.json#/definitions/money" }, registry);
+ * // → {
+ * //   $ref: "common.json#/definitions/money",
+ * //   $defs: { common: { $id: "common.json", definitions: { money: … } } },
+ * // }
+ * ```
+ */
+export function bundleRefs(
+	def: JSONSchema7Definition,
+	registry?: SchemaRegistry,
+): JSONSchema7Definition {
+	if (typeof def === "boolean" || registry === undefined) return def;
+
+	const rootBase = documentBase(def);
+	const known = new Map<string, JSONSchema7Definition>();
+	indexResources(def, rootBase, known);
+	const embedded = new Map<string, JSONSchema7Definition>();
+
+	function collect(node: JSONSchema7Definition, base: string): void {
+		if (typeof node === "boolean") return;
+
+		let nodeBase = base;
+		if (typeof node.$id === "string") {
+			const id = resolveUri(node.$id, base);
+			if (id !== null) nodeBase = splitFragment(id)[0];
+		}
+
+		if (typeof node.$ref === "string") {
+			const uri = resolveUri(node.$ref, nodeBase);
+			const resource = uri === null ? undefined : splitFragment(uri)[0];
+			const document =
+				resource === undefined || known.has(resource)
+					? undefined
+					: registry?.get(resource);
+			if (resource !== undefined && document !== undefined) {
+				embedded.set(resource, document);
+				indexResources(document, resource, known);
+				collect(document, resource);
+			}
+		}
+
+		mapSubSchemas(
+			node,
+			(sub) => {
+				collect(sub, nodeBase);
+				return sub;
+			},
+			false,
+		);
+	}
+
+	collect(def, rootBase);
+	if (embedded.size === 0) return def;
+
+	const current = (def as Record<string, unknown>).$defs;
+	const defs: Record<string, JSONSchema7Definition> = isPlainObj(current)
+		? { ...(current as Record<string, JSONSchema7Definition>) }
+		: {};
+
+	for (const [uri, document] of embedded) {
+		const name = uniqueName(definitionName(uri), (candidate) =>
+			hasOwn(defs, candidate),
+		);
+		const $id = relativeToBase(uri, rootBase);
+		if (typeof document === "boolean") {
+			defs[name] = document ? { $id } : { $id, not: {} };
+		} else {
+			const { $id: _id, ...rest } = document;
+			defs[name] = { $id, ...rest };
+		}
+	}
+
+	return { ...def, $defs: defs } as JSONSchema7;
+}
+
+/**
+ * Writes `uri` relative to the default base URI when the root has no `$id`
+ * of its own (`memory:///common.json` → `common.json`), absolute otherwise.
+ */
+function relativeToBase(uri: string, rootBase: string): string {
+	if (rootBase === DEFAULT_BASE_URI && uri.startsWith(DEFAULT_BASE_URI)) {
+		return uri.slice(DEFAULT_BASE_URI.length);
+	}
+	return uri;
+}
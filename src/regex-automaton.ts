@@ -0,0 +1,783 @@
+// ─── Regex Automata ──────────────────────────────────────────────────────────
+//
+// Exact decision procedure for the regular subset of ECMAScript regexes:
+// character classes, `.`, escapes, groups, alternation, quantifiers and the
+// `^` / `$` anchors. Lookarounds, backreferences, word boundaries and
+// property escapes are not regular (or not supported): such patterns are
+// rejected and the caller falls back to sampling.
+//
+// Pipeline:
+//   1. parse → AST (the semantics AJV gives JSON Schema patterns:
+//      `new RegExp(pattern, "u")`, code points, unanchored search)
+//   2. AST → NFA (Thompson construction), wrapped in `[\s\S]*` on both
+//      sides for the search semantics; `^` / `$` are ε-edges only allowed
+//      at the start / end of the input
+//   3. NFA → DFA, built lazily by subset construction over a partition of
+//      the code points into intervals no character class splits
+//   4. product of the DFAs, explored breadth-first: the first reachable
+//      tuple of states of interest yields the shortest witness string
+//
+// Sizes are bounded (`MAX_NFA_STATES`, `MAX_PRODUCT_STATES`): beyond them
+// the pattern is treated as unsupported.
+
+/** Maximum number of NFA states per pattern (bounded repetitions expand) */
+const MAX_NFA_STATES = 4000;
+
+/** Maximum number of state pairs explored in a product */
+const MAX_PRODUCT_STATES = 5000;
+
+const MAX_CODE_POINT = 0x10ffff;
+
+// ─── Character sets ──────────────────────────────────────────────────────────
+
+/** Sorted, disjoint, non-adjacent inclusive ranges of code points. */
+type CharSet = [number, number][];
+
+function normalizeSet(ranges: CharSet): CharSet {
+	const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+	const result: CharSet = [];
+	for (const [lo, hi] of sorted) {
+		const last = result[result.length - 1];
+		if (last !== undefined && lo <= last[1] + 1) {
+			last[1] = Math.max(last[1], hi);
+		} else {
+			result.push([lo, hi]);
+		}
+	}
+	return result;
+}
+
+function negateSet(set: CharSet): CharSet {
+	const result: CharSet = [];
+	let next = 0;
+	for (const [lo, hi] of set) {
+		if (lo > next) result.push([next, lo - 1]);
+		next = hi + 1;
+	}
+	if (next <= MAX_CODE_POINT) result.push([next, MAX_CODE_POINT]);
+	return result;
+}
+
+function char(c: string): CharSet {
+	const code = c.codePointAt(0) as number;
+	return [[code, code]];
+}
+
+const DIGIT: CharSet = [[0x30, 0x39]];
+const WORD: CharSet = normalizeSet([
+	[0x30, 0x39],
+	[0x41, 0x5a],
+	[0x5f, 0x5f],
+	[0x61, 0x7a],
+]);
+const SPACE: CharSet = normalizeSet([
+	[0x09, 0x0d],
+	[0x20, 0x20],
+	[0xa0, 0xa0],
+	[0x1680, 0x1680],
+	[0x2000, 0x200a],
+	[0x2028, 0x2029],
+	[0x202f, 0x202f],
+	[0x205f, 0x205f],
+	[0x3000, 0x3000],
+	[0xfeff, 0xfeff],
+]);
+const ANY: CharSet = [[0, MAX_CODE_POINT]];
+/** `.` without the `s` flag: anything but line terminators */
+const DOT: CharSet = negateSet(
+	normalizeSet([
+		[0x0a, 0x0a],
+		[0x0d, 0x0d],
+		[0x2028, 0x2029],
+	]),
+);
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+type RegexNode =
+	| { type: "chars"; set: CharSet }
+	| { type: "concat"; items: RegexNode[] }
+	| { type: "alt"; items: RegexNode[] }
+	| { type: "repeat"; node: RegexNode; min: number; max: number }
+	| { type: "assert"; kind: "begin" | "end" };
+
+/** Thrown for syntax outside the supported regular subset. */
+class UnsupportedRegex extends Error {}
+
+class RegexParser {
+	private pos = 0;
+
+	constructor(private readonly source: string) {}
+
+	parse(): RegexNode {
+		const node = this.disjunction();
+		if (this.pos < this.source.length) throw new UnsupportedRegex();
+		return node;
+	}
+
+	private peek(): string | undefined {
+		return this.source[this.pos];
+	}
+
+	/** Consumes one code point — a surrogate pair is one character. */
+	private next(): string {
+		const code = this.source.codePointAt(this.pos);
+		if (code === undefined) throw new UnsupportedRegex();
+		const c = String.fromCodePoint(code);
+		this.pos += c.length;
+		return c;
+	}
+
+	private disjunction(): RegexNode {
+		const items = [this.alternative()];
+		while (this.peek() === "|") {
+			this.pos++;
+			items.push(this.alternative());
+		}
+		return items.length === 1
+			? (items[0] as RegexNode)
+			: { type: "alt", items };
+	}
+
+	private alternative(): RegexNode {
+		const items: RegexNode[] = [];
+		for (let c = this.peek(); c !== undefined && c !== "|" && c !== ")"; ) {
+			items.push(this.term());
+			c = this.peek();
+		}
+		return { type: "concat", items };
+	}
+
+	private term(): RegexNode {
+		const c = this.peek();
+		if (c === "^" || c === "$") {
+			this.pos++;
+			return { type: "assert", kind: c === "^" ? "begin" : "end" };
+		}
+		const atom = this.atom();
+		return this.quantifier(atom);
+	}
+
+	private quantifier(node: RegexNode): RegexNode {
+		let min: number;
+		let max: number;
+		const c = this.peek();
+		if (c === "*") [min, max] = [0, Number.POSITIVE_INFINITY];
+		else if (c === "+") [min, max] = [1, Number.POSITIVE_INFINITY];
+		else if (c === "?") [min, max] = [0, 1];
+		else if (c === "{") {
+			const braced = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.pos));
+			if (braced === null) return node; // a literal `{`
+			min = Number(braced[1]);
+			max =
+				braced[2] === undefined
+					? min
+					: braced[3] === ""
+						? Number.POSITIVE_INFINITY
+						: Number(braced[3]);
+			if (max < min) throw new UnsupportedRegex();
+			this.pos += braced[0].length - 1;
+		} else {
+			return node;
+		}
+		this.pos++;
+		// Lazy quantifiers match the same language
+		if (this.peek() === "?") this.pos++;
+		return { type: "repeat", node, min, max };
+	}
+
+	private atom(): RegexNode {
+		const c = this.next();
+		switch (c) {
+			case ".":
+				return { type: "chars", set: DOT };
+			case "(":
+				return this.group();
+			case "[":
+				return { type: "chars", set: this.characterClass() };
+			case "\\":
+				return { type: "chars", set: this.atomEscape() };
+			case ")":
+			case "*":
+			case "+":
+			case "?":
+			case "|":
+				throw new UnsupportedRegex();
+			case "{":
+				// A `{` starting a valid quantifier has nothing to repeat
+				if (/^\d+(,\d*)?\}/.test(this.source.slice(this.pos))) {
+					throw new UnsupportedRegex();
+				}
+				return { type: "chars", set: char(c) };
+			default:
+				return { type: "chars", set: char(c) };
+		}
+	}
+
+	private group(): RegexNode {
+		if (this.peek() === "?") {
+			const rest = this.source.slice(this.pos + 1);
+			if (rest.startsWith(":")) {
+				this.pos += 2;
+			} else if (/^<[A-Za-z_$][\w$]*>/.test(rest)) {
+				this.pos = this.source.indexOf(">", this.pos) + 1;
+			} else {
+				// Lookarounds
+				throw new UnsupportedRegex();
+			}
+		}
+		const node = this.disjunction();
+		if (this.next() !== ")") throw new UnsupportedRegex();
+		return node;
+	}
+
+	/** Escape outside a class: `\d`, `\n`, `\x41`, identity escapes… */
+	private atomEscape(): CharSet {
+		const c = this.peek();
+		// Word boundaries, backreferences, named backreferences
+		if (c === "b" || c === "B" || c === "k" || /^[1-9]$/.test(c ?? "")) {
+			throw new UnsupportedRegex();
+		}
+		return this.characterEscape();
+	}
+
+	/** Escape shared by atoms and classes (`\b` excluded). */
+	private characterEscape(): CharSet {
+		const c = this.next();
+		switch (c) {
+			case "d":
+				return DIGIT;
+			case "D":
+				return negateSet(DIGIT);
+			case "w":
+				return WORD;
+			case "W":
+				return negateSet(WORD);
+			case "s":
+				return SPACE;
+			case "S":
+				return negateSet(SPACE);
+			case "t":
+				return [[0x09, 0x09]];
+			case "n":
+				return [[0x0a, 0x0a]];
+			case "v":
+				return [[0x0b, 0x0b]];
+			case "f":
+				return [[0x0c, 0x0c]];
+			case "r":
+				return [[0x0d, 0x0d]];
+			case "0":
+				if (/^\d$/.test(this.peek() ?? "")) throw new UnsupportedRegex();
+				return [[0, 0]];
+			case "c": {
+				const letter = this.peek();
+				if (letter === undefined || !/^[A-Za-z]$/.test(letter)) {
+					throw new UnsupportedRegex();
+				}
+				this.pos++;
+				const code = letter.charCodeAt(0) % 32;
+				return [[code, code]];
+			}
+			case "x":
+			case "u": {
+				const code = this.hexEscape(c);
+				return [[code, code]];
+			}
+			case "p":
+			case "P":
+				throw new UnsupportedRegex();
+			default:
+				if (/^\d$/.test(c)) throw new UnsupportedRegex();
+				return char(c);
+		}
+	}
+
+	/**
+	 * Code point of `\xHH`, `\uHHHH`, `\u{H…}` — a `\uHHHH` surrogate pair
+	 * is one code point.
+	 */
+	private hexEscape(kind: "x" | "u"): number {
+		if (kind === "u" && this.peek() === "{") {
+			const braced = /^\{([0-9A-Fa-f]+)\}/.exec(this.source.slice(this.pos));
+			if (braced === null) throw new UnsupportedRegex();
+			const code = Number.parseInt(braced[1] as string, 16);
+			if (code > MAX_CODE_POINT) throw new UnsupportedRegex();
+			this.pos += braced[0].length;
+			return code;
+		}
+		const length = kind === "x" ? 2 : 4;
+		const hex = this.source.slice(this.pos, this.pos + length);
+		if (!new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)) {
+			throw new UnsupportedRegex();
+		}
+		this.pos += length;
+		const code = Number.parseInt(hex, 16);
+		const low = /^\\u([Dd][C-Fc-f][0-9A-Fa-f]{2})/.exec(
+			this.source.slice(this.pos),
+		);
+		if (kind === "u" && code >= 0xd800 && code <= 0xdbff && low !== null) {
+			this.pos += low[0].length;
+			return (
+				(code - 0xd800) * 0x400 +
+				(Number.parseInt(low[1] as string, 16) - 0xdc00) +
+				0x10000
+			);
+		}
+		return code;
+	}
+
+	private characterClass(): CharSet {
+		const negated = this.peek() === "^";
+		if (negated) this.pos++;
+		const ranges: CharSet = [];
+		while (this.peek() !== "]") {
+			const from = this.classAtom();
+			if (
+				this.peek() === "-" &&
+				this.source[this.pos + 1] !== "]" &&
+				this.source[this.pos + 1] !== undefined
+			) {
+				this.pos++;
+				const to = this.classAtom();
+				const single = (set: CharSet) =>
+					set.length === 1 && set[0]?.[0] === set[0]?.[1];
+				if (single(from) && single(to)) {
+					const lo = (from[0] as [number, number])[0];
+					const hi = (to[0] as [number, number])[0];
+					if (lo > hi) throw new UnsupportedRegex();
+					ranges.push([lo, hi]);
+				} else {
+					// `[\d-z]`: the dash is a literal
+					ranges.push(...from, ...char("-"), ...to);
+				}
+			} else {
+				ranges.push(...from);
+			}
+		}
+		this.pos++;
+		const set = normalizeSet(ranges);
+		return negated ? negateSet(set) : set;
+	}
+
+	private classAtom(): CharSet {
+		const c = this.next();
+		if (c !== "\\") return char(c);
+		if (this.peek() === "b") {
+			this.pos++;
+			return [[0x08, 0x08]];
+		}
+		if (this.peek() === "-") {
+			this.pos++;
+			return char("-");
+		}
+		return this.characterEscape();
+	}
+}
+
+// ─── NFA ─────────────────────────────────────────────────────────────────────
+
+interface NfaEdge {
+	to: number;
+	/** Characters consumed — absent for ε-edges */
+	set?: CharSet;
+	/** Zero-width assertion of an ε-edge */
+	assert?: "begin" | "end";
+}
+
+interface Nfa {
+	edges: NfaEdge[][];
+	start: number;
+	accept: number;
+}
+
+class NfaBuilder {
+	readonly edges: NfaEdge[][] = [];
+
+	state(): number {
+		if (this.edges.length >= MAX_NFA_STATES) throw new UnsupportedRegex();
+		this.edges.push([]);
+		return this.edges.length - 1;
+	}
+
+	edge(from: number, edge: NfaEdge): void {
+		this.edges[from]?.push(edge);
+	}
+
+	/** Builds a fragment for `node` between two new states. */
+	build(node: RegexNode): { start: number; end: number } {
+		const start = this.state();
+		const end = this.state();
+		switch (node.type) {
+			case "chars":
+				this.edge(start, { to: end, set: node.set });
+				break;
+			case "assert":
+				this.edge(start, { to: end, assert: node.kind });
+				break;
+			case "concat": {
+				let current = start;
+				for (const item of node.items) {
+					const fragment = this.build(item);
+					this.edge(current, { to: fragment.start });
+					current = fragment.end;
+				}
+				this.edge(current, { to: end });
+				break;
+			}
+			case "alt":
+				for (const item of node.items) {
+					const fragment = this.build(item);
+					this.edge(start, { to: fragment.start });
+					this.edge(fragment.end, { to: end });
+				}
+				break;
+			case "repeat": {
+				let current = start;
+				for (let i = 0; i < node.min; i++) {
+					const fragment = this.build(node.node);
+					this.edge(current, { to: fragment.start });
+					current = fragment.end;
+				}
+				if (node.max === Number.POSITIVE_INFINITY) {
+					const fragment = this.build(node.node);
+					this.edge(current, { to: fragment.start });
+					this.edge(fragment.end, { to: fragment.start });
+					this.edge(fragment.end, { to: end });
+				} else {
+					for (let i = node.min; i < node.max; i++) {
+						const fragment = this.build(node.node);
+						this.edge(current, { to: fragment.start });
+						this.edge(current, { to: end });
+						current = fragment.end;
+					}
+				}
+				this.edge(current, { to: end });
+				break;
+			}
+		}
+		return { start, end };
+	}
+}
+
+const nfaCache = new Map<string, Nfa | null>();
+
+/**
+ * Compiles a pattern into an NFA accepting the strings it matches
+ * (search semantics), or `null` outside the supported subset.
+ */
+function compileNfa(pattern: string): Nfa | null {
+	const cached = nfaCache.get(pattern);
+	if (cached !== undefined) return cached;
+	let nfa: Nfa | null = null;
+	try {
+		const anything: RegexNode = {
+			type: "repeat",
+			node: { type: "chars", set: ANY },
+			min: 0,
+			max: Number.POSITIVE_INFINITY,
+		};
+		const builder = new NfaBuilder();
+		const { start, end } = builder.build({
+			type: "concat",
+			items: [anything, new RegexParser(pattern).parse(), anything],
+		});
+		nfa = { edges: builder.edges, start, accept: end };
+	} catch (e) {
+		if (!(e instanceof UnsupportedRegex)) throw e;
+	}
+	nfaCache.set(pattern, nfa);
+	return nfa;
+}
+
+// ─── DFA (lazy subset construction) ──────────────────────────────────────────
+
+/** Intervals of code points that no character set of the automata splits. */
+type Alphabet = [number, number][];
+
+function alphabetOf(nfas: Nfa[]): Alphabet {
+	const bounds = new Set<number>([0]);
+	for (const nfa of nfas) {
+		for (const edges of nfa.edges) {
+			for (const { set } of edges) {
+				for (const [lo, hi] of set ?? []) {
+					bounds.add(lo);
+					if (hi < MAX_CODE_POINT) bounds.add(hi + 1);
+				}
+			}
+		}
+	}
+	const sorted = [...bounds].sort((a, b) => a - b);
+	return sorted.map((lo, i) => [lo, (sorted[i + 1] ?? MAX_CODE_POINT + 1) - 1]);
+}
+
+/** Index of the interval of `alphabet` starting at `code`. */
+function intervalIndex(alphabet: Alphabet, code: number): number {
+	let lo = 0;
+	let hi = alphabet.length - 1;
+	while (lo < hi) {
+		const mid = (lo + hi + 1) >> 1;
+		if ((alphabet[mid] as [number, number])[0] <= code) lo = mid;
+		else hi = mid - 1;
+	}
+	return lo;
+}
+
+class LazyDfa {
+	private readonly ids = new Map<string, number>();
+	private readonly sets: number[][] = [];
+	private readonly accepting: boolean[] = [];
+	private readonly transitions: number[][] = [];
+	/** Intervals of the alphabet each NFA character edge consumes */
+	private readonly spans = new Map<NfaEdge, [number, number][]>();
+	readonly start: number;
+
+	constructor(
+		private readonly nfa: Nfa,
+		private readonly alphabet: Alphabet,
+	) {
+		for (const edges of nfa.edges) {
+			for (const edge of edges) {
+				if (edge.set === undefined) continue;
+				this.spans.set(
+					edge,
+					edge.set.map(([lo, hi]) => [
+						intervalIndex(alphabet, lo),
+						intervalIndex(alphabet, hi),
+					]),
+				);
+			}
+		}
+		this.start = this.intern([nfa.start], true);
+	}
+
+	isAccepting(state: number): boolean {
+		return this.accepting[state] === true;
+	}
+
+	/** Whether `state` holds no NFA state: it rejects every input. */
+	isDead(state: number): boolean {
+		return this.sets[state]?.length === 0;
+	}
+
+	next(state: number, symbol: number): number {
+		let row = this.transitions[state];
+		if (row === undefined) {
+			row = this.computeTransitions(state);
+			this.transitions[state] = row;
+		}
+		return row[symbol] as number;
+	}
+
+	private computeTransitions(state: number): number[] {
+		const buckets: number[][] = this.alphabet.map(() => []);
+		for (const s of this.sets[state] ?? []) {
+			for (const edge of this.nfa.edges[s] ?? []) {
+				for (const [from, to] of this.spans.get(edge) ?? []) {
+					for (let i = from; i <= to; i++) buckets[i]?.push(edge.to);
+				}
+			}
+		}
+		return buckets.map((targets) => this.intern(targets, false));
+	}
+
+	/** Interns the ε-closure of `states` as a DFA state. */
+	private intern(states: number[], atStart: boolean): number {
+		const closure = this.closure(states, atStart, false);
+		const key = `${atStart ? 1 : 0}|${closure.join(",")}`;
+		let id = this.ids.get(key);
+		if (id === undefined) {
+			id = this.sets.length;
+			this.ids.set(key, id);
+			this.sets.push(closure);
+			this.accepting.push(
+				this.closure(closure, atStart, true).includes(this.nfa.accept),
+			);
+		}
+		return id;
+	}
+
+	/**
+	 * States reachable through ε-edges. `^` edges are only followed before
+	 * any input, `$` edges only to test acceptance (no input follows).
+	 */
+	private closure(
+		states: number[],
+		atStart: boolean,
+		atEnd: boolean,
+	): number[] {
+		const seen = new Set(states);
+		const stack = [...states];
+		while (stack.length > 0) {
+			const s = stack.pop() as number;
+			for (const edge of this.nfa.edges[s] ?? []) {
+				if (edge.set !== undefined || seen.has(edge.to)) continue;
+				if (edge.assert === "begin" && !atStart) continue;
+				if (edge.assert === "end" && !atEnd) continue;
+				seen.add(edge.to);
+				stack.push(edge.to);
+			}
+		}
+		return [...seen].sort((a, b) => a - b);
+	}
+}
+
+// ─── Product ─────────────────────────────────────────────────────────────────
+
+/**
+ * Outcome of an exact comparison: the shortest witness string, or `null`
+ * when there is none.
+ */
+export interface AutomatonAnswer {
+	witness: string | null;
+}
+
+/**
+ * Explores the product of the patterns' DFAs breadth-first, looking for
+ * a tuple of states satisfying `goal` (given their acceptance). States
+ * dead for a pattern flagged in `prune` are not explored further.
+ *
+ * @returns `null` when a pattern is outside the supported subset or the
+ *          product is too large
+ */
+function searchProduct(
+	patterns: readonly string[],
+	goal: (accepts: boolean[]) => boolean,
+	prune: readonly boolean[],
+): AutomatonAnswer | null {
+	const nfas: Nfa[] = [];
+	for (const pattern of patterns) {
+		const nfa = compileNfa(pattern);
+		if (nfa === null) return null;
+		nfas.push(nfa);
+	}
+
+	const alphabet = alphabetOf(nfas);
+	const dfas = nfas.map((nfa) => new LazyDfa(nfa, alphabet));
+
+	const width = alphabet.length;
+	const start = dfas.map((dfa) => dfa.start);
+	const parents = new Map<string, [string, number] | null>([
+		[start.join(","), null],
+	]);
+	const queue: number[][] = [start];
+
+	for (let head = 0; head < queue.length; head++) {
+		const states = queue[head] as number[];
+		if (
+			goal(states.map((state, i) => (dfas[i] as LazyDfa).isAccepting(state)))
+		) {
+			return { witness: witnessOf(parents, states.join(","), alphabet) };
+		}
+		for (let symbol = 0; symbol < width; symbol++) {
+			const next = states.map((state, i) =>
+				(dfas[i] as LazyDfa).next(state, symbol),
+			);
+			if (
+				next.some((state, i) => prune[i] && (dfas[i] as LazyDfa).isDead(state))
+			)
+				continue;
+			const k = next.join(",");
+			if (parents.has(k)) continue;
+			if (parents.size >= MAX_PRODUCT_STATES) return null;
+			parents.set(k, [states.join(","), symbol]);
+			queue.push(next);
+		}
+	}
+	return { witness: null };
+}
+
+/** Rebuilds the input leading to a product state. */
+function witnessOf(
+	parents: Map<string, [string, number] | null>,
+	target: string,
+	alphabet: Alphabet,
+): string {
+	const codes: number[] = [];
+	for (let step = parents.get(target); step; step = parents.get(step[0])) {
+		codes.push(representative(alphabet[step[1]] as [number, number]));
+	}
+	return String.fromCodePoint(...codes.reverse());
+}
+
+/** A readable code point of an interval: a letter, else printable ASCII. */
+function representative([lo, hi]: [number, number]): number {
+	for (const [from, to] of [
+		[0x61, 0x7a],
+		[0x30, 0x39],
+		[0x21, 0x7e],
+		[0x20, 0x20],
+	] as const) {
+		if (lo <= to && hi >= from) return Math.max(lo, from);
+	}
+	return lo;
+}
+
+// ─── Public helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Decides exactly whether every string matching `sub` matches `sup`.
+ *
+ * @returns `{ witness: null }` when `sub ⊆ sup`, the shortest string matching
+ *          `sub` but not `sup` otherwise, or `null` when a pattern is outside
+ *          the regular subset (lookarounds, backreferences, `\b`…)
+ *
+ * @example
+ * ```ts
+ * patternDifference("^[a-z]{3}$", "^[a-z]+$"); // → { witness: null }
+ * patternDifference("^[a-z]+$", "^[a-z]{3}$"); // → { witness: "a" }
+ * patternDifference("^(a)\\1$", "^a+$");       // → null
+ * ```
+ */
+export function patternDifference(
+	sub: string,
+	sup: string,
+): AutomatonAnswer | null {
+	return searchProduct(
+		[sub, sup],
+		([inSub, inSup]) => inSub === true && inSup === false,
+		[true, false],
+	);
+}
+
+/**
+ * Decides exactly whether two patterns have a string in common.
+ *
+ * @returns The shortest string matching both, `{ witness: null }` when they
+ *          are disjoint, or `null` outside the regular subset
+ */
+export function patternIntersection(
+	a: string,
+	b: string,
+): AutomatonAnswer | null {
+	return patternsIntersection([a, b]);
+}
+
+/**
+ * Decides exactly whether patterns have a string in common — every string
+ * when the list is empty.
+ *
+ * @returns The shortest string matching them all, `{ witness: null }` when
+ *          there is none, or `null` outside the regular subset
+ *
+ * @example
+ * ```ts
+ * patternsIntersection(["^a", "b$", "^.{4,}$"]); // → { witness: "aaab" }
+ * ```
+ */
+export function patternsIntersection(
+	patterns: readonly string[],
+): AutomatonAnswer | null {
+	return searchProduct(
+		patterns,
+		(accepts) => accepts.every(Boolean),
+		patterns.map(() => true),
+	);
+}
+
+/**
+ * Clears the compiled automata cache.
+ */
+export function clearAutomatonCache(): void {
+	nfaCache.clear();
+}
@@ -1,9 +1,16 @@
 import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import unevaluatedVocabulary from "ajv/dist/vocabularies/unevaluated";
 import addFormats from "ajv-formats";
 import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import { errorCode } from "./error-codes.ts";
+import {
+	decodePointer,
+	escapePointer,
+	rebindRecursiveRefs,
+} from "./ref-resolver.ts";
 import type { SchemaError } from "./types.ts";
 import { SchemaErrorType } from "./types.ts";
-import { isPlainObj } from "./utils.ts";
+import { hasOwn, isPlainObj } from "./utils.ts";
 
 /**
  * ─── Runtime Validator ────────────────────────────────────────────────────────
@@ -26,6 +33,10 @@ import { isPlainObj } from "./utils.ts";
  *     only for a single AJV instance; per-instance AJV would break caching.
  *   - `ajv-formats` is registered once at module load; all standard Draft-07
  *     formats are available globally.
+ *   - Schemas of every dialect reach the validator in the internal form
+ *     (Draft-07 plus `minContains` / `maxContains`, see `dialect.ts`), so a
+ *     single Draft-07 instance with the 2019-09 keywords enabled (`next`)
+ *     validates all of them.
  *   - In worker-thread environments, each worker loads its own module scope
  *     and gets its own AJV instance — no cross-worker sharing occurs.
  *   - Custom AJV configuration or format registration is not supported
@@ -50,8 +61,18 @@ const ajv = new Ajv({
 	validateFormats: true,
 	allowUnionTypes: true,
 	messages: true,
+	// Keyword value and failing value on every error (`expectedValue` /
+	// `receivedValue`)
+	verbose: true,
+	// Draft 2019-09 keywords kept by the internal form (`minContains`, …)
+	next: true,
+	// Dynamic evaluation tracking for the vocabulary below
+	unevaluated: true,
 });
 
+// `unevaluated*` left as-is when they cannot be rewritten statically
+// (see `unevaluated.ts`) — only registered by default on `Ajv2019`
+ajv.addVocabulary(unevaluatedVocabulary);
 addFormats(ajv);
 
 /**
@@ -307,6 +328,43 @@ function formatExpected(error: ErrorObject, schema: JSONSchema7): string {
 	}
 }
 
+/**
+ * Converts an AJV `schemaPath` (URI fragment) to a JSON pointer.
+ */
+function toSchemaPointer(schemaPath: string): string {
+	const tokens = decodePointer(schemaPath.replace(/^#/, "")) ?? [];
+	return tokens.map((token) => `/${escapePointer(token)}`).join("");
+}
+
+/**
+ * Code, keyword and values of an AJV error: the value of the keyword in
+ * the schema and the failing value. A `false` subschema is reported like
+ * the `false` root schema (`type.never`), a value matching several `oneOf`
+ * branches as `oneOf.overlap`.
+ */
+function keywordFields(
+	error: ErrorObject,
+): Pick<SchemaError, "code" | "keyword" | "expectedValue" | "receivedValue"> {
+	if (error.keyword === "false schema") {
+		return {
+			code: errorCode("type", "never"),
+			keyword: "type",
+			expectedValue: false,
+			receivedValue: error.data,
+		};
+	}
+	const overlap =
+		error.keyword === "oneOf" &&
+		isPlainObj(error.params) &&
+		Array.isArray(error.params.passingSchemas);
+	return {
+		code: errorCode(error.keyword, overlap ? "overlap" : undefined),
+		keyword: error.keyword,
+		expectedValue: error.schema,
+		receivedValue: error.data,
+	};
+}
+
 function buildSchemaError(
 	error: ErrorObject,
 	schema: JSONSchema7,
@@ -314,6 +372,7 @@ function buildSchemaError(
 ): SchemaError {
 	const type = SchemaErrorType.RuntimeValidation;
 	const baseKey = normalizeInstancePath(error.instancePath);
+	const supSchemaPath = toSchemaPointer(error.schemaPath);
 
 	if (error.keyword === "required") {
 		const missingProperty =
@@ -329,6 +388,11 @@ function buildSchemaError(
 				baseKey === "$root" ? missingProperty : `${baseKey}.${missingProperty}`,
 			expected: formatExpected(error, schema),
 			received: "undefined",
+			...keywordFields(error),
+			expectedValue: missingProperty,
+			receivedValue: undefined,
+			supSchemaPath,
+			instancePath: `${error.instancePath}/${escapePointer(missingProperty)}`,
 		};
 	}
 
@@ -348,24 +412,91 @@ function buildSchemaError(
 					: `${baseKey}.${additionalProperty}`,
 			expected: formatExpected(error, schema),
 			received: "present",
+			...keywordFields(error),
+			receivedValue: isPlainObj(error.data)
+				? error.data[additionalProperty]
+				: undefined,
+			supSchemaPath,
+			instancePath: `${error.instancePath}/${escapePointer(additionalProperty)}`,
 		};
 	}
 
+	if (error.keyword === "contains") {
+		const bound = containsBound(error);
+		if (bound !== null) {
+			const value = (error.params as Record<string, unknown>)[bound];
+			return {
+				type,
+				key: baseKey,
+				expected: `${bound}: ${String(value)}`,
+				received: stringifyValue(data),
+				code: errorCode(bound),
+				keyword: bound,
+				expectedValue: value,
+				receivedValue: error.data,
+				supSchemaPath: supSchemaPath.replace(/contains$/, bound),
+				instancePath: error.instancePath,
+			};
+		}
+	}
+
 	return {
 		type,
 		key: baseKey,
 		expected: formatExpected(error, schema),
 		received: stringifyValue(data),
+		...keywordFields(error),
+		supSchemaPath,
+		instancePath: error.instancePath,
 	};
 }
 
+/**
+ * Bound of a failed `contains` the value violates, from the AJV params:
+ * `maxContains` when more items than it match, `minContains` when the
+ * schema sets it, `null` for the plain `contains`.
+ */
+function containsBound(
+	error: ErrorObject,
+): "minContains" | "maxContains" | null {
+	if (!isPlainObj(error.params)) return null;
+	const { maxContains } = error.params;
+	if (typeof maxContains === "number" && Array.isArray(error.data)) {
+		const matching = countMatching(error.data, error.schema);
+		if (matching !== null && matching > maxContains) return "maxContains";
+	}
+	return isPlainObj(error.parentSchema) &&
+		hasOwn(error.parentSchema, "minContains")
+		? "minContains"
+		: null;
+}
+
+/**
+ * Number of `items` valid for `schema`, or `null` when the schema does not
+ * compile on its own (a `$ref` into the enclosing document).
+ */
+function countMatching(items: unknown[], schema: unknown): number | null {
+	if (typeof schema !== "boolean" && !isPlainObj(schema)) return null;
+	try {
+		return items.filter((item) =>
+			isDataValidForSchema(schema as JSONSchema7Definition, item),
+		).length;
+	} catch {
+		return null;
+	}
+}
+
 function compileValidator(schema: JSONSchema7): ValidateFunction {
 	if (isObjectLike(schema)) {
 		const cached = validatorCache.get(schema);
 		if (cached !== undefined) return cached;
 	}
 
-	const serialized = stableStringify(schema);
+	// Recursive `$ref` placeholders point to schemas AJV cannot see —
+	// rebind them as local definitions first
+	const selfContained = rebindRecursiveRefs(schema) as JSONSchema7;
+
+	const serialized = stableStringify(selfContained);
 	const cachedByString = validatorStringCache.get(serialized);
 	if (cachedByString !== undefined) {
 		if (isObjectLike(schema)) {
@@ -374,7 +505,7 @@ function compileValidator(schema: JSONSchema7): ValidateFunction {
 		return cachedByString;
 	}
 
-	const validate = ajv.compile(schema);
+	const validate = ajv.compile(selfContained);
 
 	if (isObjectLike(schema)) {
 		validatorCache.set(schema, validate);
@@ -423,6 +554,12 @@ export function getRuntimeValidationErrors(
 				key: "$root",
 				expected: "never",
 				received: stringifyValue(data),
+				code: errorCode("type", "never"),
+				keyword: "type",
+				expectedValue: false,
+				receivedValue: data,
+				supSchemaPath: "",
+				instancePath: "",
 			},
 		];
 	}
@@ -0,0 +1,618 @@
+import type {
+	JSONSchema7,
+	JSONSchema7Definition,
+	JSONSchema7TypeName,
+} from "json-schema";
+import { propertySchema } from "./counterexample.ts";
+import {
+	hasAdditionalPropertiesConflict,
+	hasDeepConstConflict,
+	hasFormatConflict,
+	type MergeEngine,
+} from "./merge-engine.ts";
+import {
+	isEmptyInterval,
+	numericInterval,
+	numericStep,
+} from "./numeric-interval.ts";
+import { escapePointer, unfoldRecursiveRef } from "./ref-resolver.ts";
+import { patternIntersection } from "./regex-automaton.ts";
+import { isDataValidForSchema } from "./runtime-validator.ts";
+import { evaluateNot } from "./subset-checker.ts";
+import { itemSchemaAt } from "./tuple-items.ts";
+import type { Contradiction } from "./types.ts";
+import { hasOwn } from "./utils.ts";
+
+// ─── Satisfiability ──────────────────────────────────────────────────────────
+//
+// Proves that a schema accepts no value, and explains why: each
+// contradiction names the keywords that exclude each other and the JSON
+// pointer of the schema node holding them.
+//
+// A node is empty when:
+//   - it is `false`, `not: {}`, `type: []` or `enum: []`
+//   - no value of its `const` / `enum` passes its other keywords (AJV)
+//   - its `allOf` members conflict — the pre-merge detectors of
+//     `merge-engine.ts` (const, format, additionalProperties), then the
+//     merge itself
+//   - every branch of its `anyOf` / `oneOf` is empty
+//   - every case of its `if` / `then` / `else` it can reach is empty
+//   - every type it admits is emptied by that type's keywords: crossed
+//     numeric bounds, lengths or counts, a pattern matching no string of
+//     the allowed lengths, a required property that is forbidden or empty,
+//     a required item that is forbidden or empty, a `contains` that is empty
+//
+// The analysis is sound but incomplete: a contradiction it reports is
+// real, yet some empty schemas (e.g. through `not` or recursion) are not
+// detected.
+
+/** Keywords that do not constrain values */
+const ANNOTATION_KEYWORDS: ReadonlySet<string> = new Set([
+	"$id",
+	"$schema",
+	"$comment",
+	"title",
+	"description",
+	"default",
+	"examples",
+	"readOnly",
+	"writeOnly",
+	"definitions",
+	"$defs",
+]);
+
+/** Types admitted by a schema without `type` */
+const ALL_TYPES: readonly JSONSchema7TypeName[] = [
+	"null",
+	"boolean",
+	"number",
+	"string",
+	"array",
+	"object",
+];
+
+/**
+ * Lists the contradictions that make a normalized schema accept no value.
+ *
+ * @param def    Normalized schema
+ * @param engine Merge engine used to combine `allOf` / `anyOf` members
+ * @param path   JSON pointer of `def` ("" for the root)
+ * @returns The contradictions — empty when none was found
+ *
+ * @example
+ * ```ts
+ * findContradictions(
+ *   { type: "object", properties: { age: { type: "integer", minimum: 18, maximum: 10 } }, required: ["age"] },
+ *   engine,
+ * );
+ * // → [{
+ * //   path: "/properties/age",
+ * //   keywords: ["minimum", "maximum"],
+ * //   description: "no integer between minimum: 18 and maximum: 10",
+ * // }]
+ * ```
+ */
+export function findContradictions(
+	def: JSONSchema7Definition,
+	engine: MergeEngine,
+	path = "",
+): Contradiction[] {
+	if (def === true) return [];
+	if (def === false) {
+		return [contradiction(path, [], "the false schema accepts no value")];
+	}
+	// Recursive references are not unfolded
+	if (unfoldRecursiveRef(def) !== undefined) return [];
+
+	if (Array.isArray(def.type) && def.type.length === 0) {
+		return [contradiction(path, ["type"], "type: [] admits no type")];
+	}
+	if (def.not === true || isEmptySchema(def.not)) {
+		return [contradiction(path, ["not"], "not rejects every value")];
+	}
+
+	const valueContradictions = valueListContradictions(def, path);
+	if (valueContradictions.length > 0) return valueContradictions;
+
+	const allOfContradictions = allOfContradictionsOf(def, engine, path);
+	if (allOfContradictions.length > 0) return allOfContradictions;
+
+	for (const keyword of ["anyOf", "oneOf"] as const) {
+		const branches = def[keyword];
+		if (branches === undefined) continue;
+		const { [keyword]: _, ...rest } = def;
+		const perBranch = branches.map((branch, i) => {
+			const merged = engine.merge(rest, branch);
+			const branchPath = `${path}/${keyword}/${i}`;
+			return merged === null
+				? [
+						contradiction(
+							branchPath,
+							[],
+							`${keyword}[${i}] conflicts with the keywords next to ${keyword}`,
+						),
+					]
+				: findContradictions(merged, engine, branchPath);
+		});
+		if (perBranch.every((found) => found.length > 0)) {
+			return perBranch.flat();
+		}
+	}
+
+	const conditionContradictions = conditionContradictionsOf(def, engine, path);
+	if (conditionContradictions.length > 0) return conditionContradictions;
+
+	const perType: Contradiction[][] = [];
+	for (const type of admittedTypes(def)) {
+		const found = typeContradictions(def, type, engine, path);
+		if (found.length === 0) return [];
+		perType.push(found);
+	}
+	return unique(perType.flat());
+}
+
+// ─── const / enum ────────────────────────────────────────────────────────────
+
+/**
+ * Checks the values listed by `const` / `enum` against the other keywords
+ * of the node, with AJV. When none passes, the keywords rejecting every
+ * value on their own are reported — all of them when no single one does.
+ */
+function valueListContradictions(
+	def: JSONSchema7,
+	path: string,
+): Contradiction[] {
+	const listKeyword = hasOwn(def, "const")
+		? "const"
+		: Array.isArray(def.enum)
+			? "enum"
+			: undefined;
+	if (listKeyword === undefined) return [];
+
+	const values =
+		listKeyword === "const" ? [def.const] : (def.enum as unknown[]);
+	if (values.length === 0) {
+		return [contradiction(path, ["enum"], "enum: [] lists no value")];
+	}
+
+	const { const: _, enum: __, ...rest } = def;
+	const constraining = Object.keys(rest).filter(
+		(keyword) => !ANNOTATION_KEYWORDS.has(keyword),
+	);
+	if (constraining.length === 0) return [];
+	if (values.some((value) => isDataValidForSchema(rest, value))) return [];
+
+	const culprits = constraining.filter(
+		(keyword) =>
+			!values.some((value) =>
+				isDataValidForSchema(
+					{ [keyword]: (rest as Record<string, unknown>)[keyword] },
+					value,
+				),
+			),
+	);
+	const keywords = culprits.length > 0 ? culprits : constraining;
+	const description =
+		listKeyword === "const"
+			? `the const value does not satisfy ${keywords.join(", ")}`
+			: `no value of enum satisfies ${keywords.join(", ")}`;
+	return [contradiction(path, [listKeyword, ...keywords], description)];
+}
+
+// ─── allOf ───────────────────────────────────────────────────────────────────
+
+/**
+ * Explains an empty `allOf`: an empty member, then a conflict found by
+ * the pre-merge detectors between two members (or a member and the
+ * keywords next to `allOf`), then a failed merge or an empty merged node.
+ */
+function allOfContradictionsOf(
+	def: JSONSchema7,
+	engine: MergeEngine,
+	path: string,
+): Contradiction[] {
+	if (def.allOf === undefined) return [];
+	const { allOf, ...rest } = def;
+
+	for (const [i, member] of allOf.entries()) {
+		const found = findContradictions(member, engine, `${path}/allOf/${i}`);
+		if (found.length > 0) return found;
+	}
+
+	// The keywords next to `allOf` take part as one more member
+	const members: [string, JSONSchema7Definition][] = [
+		...allOf.map((member, i): [string, JSONSchema7Definition] => [
+			`allOf[${i}]`,
+			member,
+		]),
+		["the keywords next to allOf", rest],
+	];
+	for (const [i, [nameA, a]] of members.entries()) {
+		for (const [nameB, b] of members.slice(i + 1)) {
+			const conflict = hasDeepConstConflict(a, b)
+				? "conflicting const / enum values"
+				: hasFormatConflict(a, b)
+					? "conflicting formats"
+					: hasAdditionalPropertiesConflict(a, b)
+						? "a required property forbidden by additionalProperties"
+						: undefined;
+			if (conflict !== undefined) {
+				return [
+					contradiction(path, ["allOf"], `${nameA} and ${nameB}: ${conflict}`),
+				];
+			}
+		}
+	}
+
+	let merged: JSONSchema7Definition | null = rest;
+	for (const member of allOf) {
+		merged = merged === null ? null : engine.merge(merged, member);
+	}
+	if (merged === null) {
+		return [
+			contradiction(path, ["allOf"], "the allOf members have no common value"),
+		];
+	}
+	return findContradictions(merged, engine, path);
+}
+
+// ─── if / then / else ────────────────────────────────────────────────────────
+
+/**
+ * Explains an empty conditional: each case the keywords next to `if` can
+ * reach (`evaluateNot`, as in `expandConditions`) is empty — the `then`
+ * case merged with `if`, the `else` case without `¬if` (not representable
+ * by the merge, its absence only widens the case).
+ */
+function conditionContradictionsOf(
+	def: JSONSchema7,
+	engine: MergeEngine,
+	path: string,
+): Contradiction[] {
+	if (def.if === undefined) return [];
+	if (def.then === undefined && def.else === undefined) return [];
+	const { if: ifSchema, then: thenSchema, else: elseSchema, ...rest } = def;
+
+	// `true`: rest is disjoint from if, `false`: rest is included in it
+	const reach =
+		typeof ifSchema === "boolean"
+			? !ifSchema
+			: evaluateNot(rest, { not: ifSchema });
+	const cases: Contradiction[][] = [];
+	if (reach !== true) {
+		const withIf = engine.merge(rest, ifSchema);
+		const thenCase =
+			withIf === null ? null : engine.merge(withIf, thenSchema ?? true);
+		cases.push(
+			thenCase === null
+				? [
+						contradiction(
+							`${path}/then`,
+							["if", "then"],
+							"then conflicts with if and the keywords next to it",
+						),
+					]
+				: findContradictions(thenCase, engine, `${path}/then`),
+		);
+	}
+	if (reach !== false) {
+		const elseCase = engine.merge(rest, elseSchema ?? true);
+		cases.push(
+			elseCase === null
+				? [
+						contradiction(
+							`${path}/else`,
+							["else"],
+							"else conflicts with the keywords next to it",
+						),
+					]
+				: findContradictions(elseCase, engine, `${path}/else`),
+		);
+	}
+	return cases.every((found) => found.length > 0) ? cases.flat() : [];
+}
+
+// ─── Per-type keywords ───────────────────────────────────────────────────────
+
+/** Contradictions of the keywords applying to the values of one type. */
+function typeContradictions(
+	def: JSONSchema7,
+	type: JSONSchema7TypeName,
+	engine: MergeEngine,
+	path: string,
+): Contradiction[] {
+	switch (type) {
+		case "integer":
+		case "number":
+			return numberContradictions(def, path);
+		case "string":
+			return stringContradictions(def, path);
+		case "array":
+			return arrayContradictions(def, engine, path);
+		case "object":
+			return objectContradictions(def, engine, path);
+		default:
+			return [];
+	}
+}
+
+function numberContradictions(def: JSONSchema7, path: string): Contradiction[] {
+	const step = numericStep(def);
+	const { lower, upper } = numericInterval(def, step);
+	if (lower === null || upper === null) return [];
+	if (!isEmptyInterval({ lower, upper })) return [];
+
+	// The grid only matters when the raw bounds leave some numbers
+	const keywords: string[] = [lower.keyword, upper.keyword];
+	const raw = numericInterval(def, null);
+	let numbers = "number";
+	if (!isEmptyInterval(raw) && step !== null) {
+		if (def.multipleOf !== undefined) {
+			keywords.push("multipleOf");
+			numbers = `multiple of ${def.multipleOf}`;
+		} else {
+			keywords.push("type");
+			numbers = "integer";
+		}
+	} else if (step === 1 && def.multipleOf === undefined) {
+		numbers = "integer";
+	}
+	return [
+		contradiction(
+			path,
+			keywords,
+			`no ${numbers} between ${lower.keyword}: ${def[lower.keyword]} and ${upper.keyword}: ${def[upper.keyword]}`,
+		),
+	];
+}
+
+function stringContradictions(def: JSONSchema7, path: string): Contradiction[] {
+	const { minLength, maxLength, pattern } = def;
+	if (
+		minLength !== undefined &&
+		maxLength !== undefined &&
+		minLength > maxLength
+	) {
+		return [
+			contradiction(
+				path,
+				["minLength", "maxLength"],
+				`minLength: ${minLength} > maxLength: ${maxLength}`,
+			),
+		];
+	}
+	if (pattern === undefined) return [];
+
+	if (minLength === undefined && maxLength === undefined) {
+		if (patternIntersection(pattern, "")?.witness === null) {
+			return [
+				contradiction(
+					path,
+					["pattern"],
+					`pattern ${pattern} matches no string`,
+				),
+			];
+		}
+		return [];
+	}
+
+	const lengths = `^[\\s\\S]{${minLength ?? 0},${maxLength ?? ""}}$`;
+	if (patternIntersection(pattern, lengths)?.witness !== null) return [];
+	const keywords = [
+		"pattern",
+		...(minLength !== undefined ? ["minLength"] : []),
+		...(maxLength !== undefined ? ["maxLength"] : []),
+	];
+	return [
+		contradiction(
+			path,
+			keywords,
+			`pattern ${pattern} matches no string of the allowed lengths`,
+		),
+	];
+}
+
+function arrayContradictions(
+	def: JSONSchema7,
+	engine: MergeEngine,
+	path: string,
+): Contradiction[] {
+	const { minItems = 0, maxItems } = def;
+	if (maxItems !== undefined && minItems > maxItems) {
+		return [
+			contradiction(
+				path,
+				["minItems", "maxItems"],
+				`minItems: ${minItems} > maxItems: ${maxItems}`,
+			),
+		];
+	}
+	if (
+		Array.isArray(def.items) &&
+		def.additionalItems === false &&
+		def.items.length < minItems
+	) {
+		return [
+			contradiction(
+				path,
+				["items", "additionalItems", "minItems"],
+				`a closed tuple of length ${def.items.length} cannot hold minItems: ${minItems}`,
+			),
+		];
+	}
+
+	// Items every array must hold
+	const tupleLength = Array.isArray(def.items) ? def.items.length : 0;
+	for (let index = 0; index < Math.min(minItems, tupleLength + 1); index++) {
+		const itemKeyword =
+			Array.isArray(def.items) && index >= tupleLength
+				? "additionalItems"
+				: "items";
+		const itemSchema = itemSchemaAt(def, index);
+		if (itemSchema === false) {
+			return [
+				contradiction(
+					path,
+					[itemKeyword, "minItems"],
+					`item ${index} required by minItems: ${minItems} is forbidden by ${itemKeyword}`,
+				),
+			];
+		}
+		const itemPath = Array.isArray(def.items)
+			? index < tupleLength
+				? `${path}/items/${index}`
+				: `${path}/additionalItems`
+			: `${path}/items`;
+		const found = findContradictions(itemSchema, engine, itemPath);
+		if (found.length > 0) return found;
+	}
+
+	if (def.contains !== undefined) {
+		if (maxItems === 0) {
+			return [
+				contradiction(
+					path,
+					["contains", "maxItems"],
+					"contains needs an item but maxItems: 0",
+				),
+			];
+		}
+		const found = findContradictions(def.contains, engine, `${path}/contains`);
+		if (found.length > 0) return found;
+	}
+	return [];
+}
+
+function objectContradictions(
+	def: JSONSchema7,
+	engine: MergeEngine,
+	path: string,
+): Contradiction[] {
+	const { minProperties = 0, maxProperties, required = [] } = def;
+	if (maxProperties !== undefined && minProperties > maxProperties) {
+		return [
+			contradiction(
+				path,
+				["minProperties", "maxProperties"],
+				`minProperties: ${minProperties} > maxProperties: ${maxProperties}`,
+			),
+		];
+	}
+	if (maxProperties !== undefined && new Set(required).size > maxProperties) {
+		return [
+			contradiction(
+				path,
+				["required", "maxProperties"],
+				`${new Set(required).size} required properties > maxProperties: ${maxProperties}`,
+			),
+		];
+	}
+
+	for (const key of required) {
+		const { keyword, pointer, schema } = propertyEntry(def, key);
+		if (schema === false) {
+			return [
+				contradiction(
+					path,
+					["required", keyword],
+					`required property "${key}" is forbidden by ${keyword}`,
+				),
+			];
+		}
+		if (
+			def.propertyNames !== undefined &&
+			!isDataValidForSchema(def.propertyNames, key)
+		) {
+			return [
+				contradiction(
+					path,
+					["required", "propertyNames"],
+					`required property "${key}" does not satisfy propertyNames`,
+				),
+			];
+		}
+		const found = findContradictions(schema, engine, `${path}${pointer}`);
+		if (found.length > 0) return found;
+	}
+	return [];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function contradiction(
+	path: string,
+	keywords: string[],
+	description: string,
+): Contradiction {
+	return { path, keywords, description };
+}
+
+/** Checks whether a subschema is `{}` (accepts every value). */
+function isEmptySchema(def: JSONSchema7Definition | undefined): boolean {
+	return (
+		typeof def === "object" &&
+		Object.keys(def).every((keyword) => ANNOTATION_KEYWORDS.has(keyword))
+	);
+}
+
+/** Types a schema admits — `integer` is covered by `number` when both are. */
+function admittedTypes(def: JSONSchema7): readonly JSONSchema7TypeName[] {
+	if (def.type === undefined) return ALL_TYPES;
+	const types = Array.isArray(def.type) ? def.type : [def.type];
+	return types.includes("number")
+		? types.filter((type) => type !== "integer")
+		: types;
+}
+
+/**
+ * Where property `key` is validated: the keyword holding its schema, the
+ * relative JSON pointer of that schema, and the schema itself.
+ */
+function propertyEntry(
+	def: JSONSchema7,
+	key: string,
+): { keyword: string; pointer: string; schema: JSONSchema7Definition } {
+	const schema = propertySchema(def, key);
+	if (def.properties?.[key] !== undefined) {
+		return {
+			keyword: "properties",
+			pointer: `/properties/${escapePointer(key)}`,
+			schema,
+		};
+	}
+	const pattern = Object.keys(def.patternProperties ?? {}).find((p) =>
+		matchesKey(p, key),
+	);
+	if (pattern !== undefined) {
+		return {
+			keyword: "patternProperties",
+			pointer: `/patternProperties/${escapePointer(pattern)}`,
+			schema,
+		};
+	}
+	return {
+		keyword: "additionalProperties",
+		pointer: "/additionalProperties",
+		schema,
+	};
+}
+
+/** Tests a `patternProperties` pattern — an invalid one matches no key. */
+function matchesKey(pattern: string, key: string): boolean {
+	try {
+		return new RegExp(pattern, "u").test(key);
+	} catch {
+		return false;
+	}
+}
+
+/** Removes duplicate contradictions, keeping the first occurrences. */
+function unique(contradictions: Contradiction[]): Contradiction[] {
+	const seen = new Set<string>();
+	return contradictions.filter((c) => {
+		const key = JSON.stringify(c);
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
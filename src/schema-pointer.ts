@@ -0,0 +1,190 @@
+import type { JSONSchema7Definition } from "json-schema";
+import { decodePointer, escapePointer, followPointer } from "./ref-resolver.ts";
+import { hasOwn, isPlainObj } from "./utils.ts";
+
+// ─── Schema pointers ─────────────────────────────────────────────────────────
+//
+// Errors locate keywords with JSON pointers (RFC 6901) built while walking
+// the compared schemas — normalized, with their conditions and `allOf`
+// expanded. `locatePointer` maps such a pointer back to the schema as
+// written:
+//
+//   - a token missing from the node is looked up under its aliases
+//     (`prefixItems` for tuple `items` and `items` for `additionalItems`
+//     in Draft 2020-12, `$defs` for `definitions`, `enum` for a
+//     single-value enum turned into `const`, `unevaluatedProperties`
+//     rewritten to `additionalProperties`, …)
+//   - a branch the expansion created (`/anyOf/1` of an `if/then/else`
+//     case) is skipped, its case (`then`, then `else`) searched first
+//   - the rest of the pointer is searched in the `allOf` / `anyOf` /
+//     `oneOf` members and `then` / `else` / `if` of the node, where merged
+//     keywords come from
+//   - local `$ref`s are followed (the pointer continues in their target)
+//
+// What cannot be found is cut: the result points to the deepest node
+// located, never to a location the schema lacks.
+
+/** Keywords an internal-form token may be written as */
+const ALIASES: Readonly<Record<string, readonly string[]>> = {
+	definitions: ["$defs"],
+	additionalProperties: ["unevaluatedProperties"],
+	additionalItems: ["unevaluatedItems"],
+	dependencies: ["dependentSchemas", "dependentRequired"],
+	const: ["enum"],
+	exclusiveMinimum: ["minimum"],
+	exclusiveMaximum: ["maximum"],
+};
+
+/** Keywords whose members may hold the keywords of the node */
+const MEMBER_KEYWORDS = ["allOf", "anyOf", "oneOf"] as const;
+
+/** Bound on the local `$ref`s followed, against reference cycles */
+const MAX_REF_HOPS = 16;
+
+/**
+ * Maps a pointer into the compared form of `schema` to the deepest
+ * matching location in `schema` as written.
+ *
+ * @param schema  The schema as written by the user
+ * @param pointer JSON pointer built on the normalized / expanded schema
+ *
+ * @example
+ * ```ts
+ * locatePointer(
+ *   { properties: { id: { $ref: "#/definitions/id" } }, definitions: { id: { maxLength: 5 } } },
+ *   "/properties/id/maxLength",
+ * );
+ * // → "/definitions/id/maxLength"
+ * ```
+ */
+export function locatePointer(
+	schema: JSONSchema7Definition,
+	pointer: string,
+): string {
+	const tokens = decodePointer(pointer);
+	if (tokens === null) return "";
+	const found = locate(schema, schema, [], tokens, 0);
+	return found.path.map((token) => `/${escapePointer(token)}`).join("");
+}
+
+/** A location found in the written schema */
+interface Located {
+	/** Tokens of the location, from the root */
+	path: string[];
+	/** Number of pointer tokens it accounts for */
+	consumed: number;
+}
+
+function locate(
+	root: JSONSchema7Definition,
+	node: unknown,
+	path: string[],
+	tokens: string[],
+	hops: number,
+): Located {
+	const [head, ...rest] = tokens;
+	if (head === undefined) return { path, consumed: 0 };
+
+	if (Array.isArray(node)) {
+		if (!/^\d+$/.test(head) || Number(head) >= node.length) {
+			return { path, consumed: 0 };
+		}
+		return step(locate(root, node[Number(head)], [...path, head], rest, hops));
+	}
+	if (!isPlainObj(node)) return { path, consumed: 0 };
+
+	let best: Located = { path, consumed: 0 };
+	const consider = (found: Located): boolean => {
+		if (found.consumed > best.consumed) best = found;
+		return best.consumed === tokens.length;
+	};
+
+	// ── The token itself, then its aliases ──
+	for (const keyword of [head, ...(ALIASES[head] ?? [])]) {
+		if (!hasOwn(node, keyword)) continue;
+		const found = step(
+			locate(root, node[keyword], [...path, keyword], rest, hops),
+		);
+		if (consider(found)) return best;
+	}
+	// Draft 2020-12 tuples: `prefixItems` + `items` for the rest
+	if (
+		hasOwn(node, "prefixItems") &&
+		(head === "items" || head === "additionalItems")
+	) {
+		const keyword = head === "items" ? "prefixItems" : "items";
+		const found = step(
+			locate(root, node[keyword], [...path, keyword], rest, hops),
+		);
+		if (consider(found)) return best;
+	}
+
+	// ── A branch created by the expansion ──
+	if (
+		(head === "anyOf" || head === "oneOf") &&
+		!hasOwn(node, head) &&
+		rest.length > 0
+	) {
+		// The cases of an if/then/else come in order: then, else
+		const condition = hasOwn(node, "if")
+			? (["then", "else"] as const)[Number(rest[0])]
+			: undefined;
+		if (condition !== undefined && hasOwn(node, condition)) {
+			const found = locate(
+				root,
+				node[condition],
+				[...path, condition],
+				rest.slice(1),
+				hops,
+			);
+			if (consider({ ...found, consumed: found.consumed + 2 })) return best;
+		}
+		const found = locate(root, node, path, rest.slice(1), hops);
+		if (consider({ ...found, consumed: found.consumed + 2 })) return best;
+	}
+
+	// ── Local reference ──
+	if (typeof node.$ref === "string" && hops < MAX_REF_HOPS) {
+		const target = node.$ref.startsWith("#")
+			? decodePointer(node.$ref.slice(1))
+			: null;
+		if (target !== null) {
+			const found = locate(
+				root,
+				followPointer(root, target),
+				target,
+				tokens,
+				hops + 1,
+			);
+			if (consider(found)) return best;
+		}
+	}
+
+	// ── Members holding the merged keywords ──
+	for (const keyword of MEMBER_KEYWORDS) {
+		const members = node[keyword];
+		if (!Array.isArray(members)) continue;
+		for (const [i, member] of members.entries()) {
+			const found = locate(
+				root,
+				member,
+				[...path, keyword, String(i)],
+				tokens,
+				hops,
+			);
+			if (consider(found)) return best;
+		}
+	}
+	for (const keyword of ["then", "else", "if"] as const) {
+		if (!hasOwn(node, keyword)) continue;
+		const found = locate(root, node[keyword], [...path, keyword], tokens, hops);
+		if (consider(found)) return best;
+	}
+
+	return best;
+}
+
+/** Counts the token just stepped over. */
+function step(found: Located): Located {
+	return { ...found, consumed: found.consumed + 1 };
+}
@@ -0,0 +1,109 @@
+import type { JSONSchema7Definition } from "json-schema";
+import { toInternalForm } from "./dialect.ts";
+import {
+	DEFAULT_BASE_URI,
+	indexResources,
+	resolveUri,
+} from "./ref-resolver.ts";
+import type { Draft } from "./types.ts";
+
+// ─── Schema Registry ─────────────────────────────────────────────────────────
+//
+// Offline store of schema documents, keyed by URI, used to resolve
+// cross-document `$ref`s (`common.json#/definitions/Money`,
+// `https://example.com/schemas/user.json`, …).
+//
+// - Documents are registered up front — nothing is ever fetched
+// - Relative ids are resolved against `memory:///`, the base URI of schemas
+//   without an absolute `$id`, so `{ $id: "common.json" }` is found by
+//   `{ $ref: "common.json" }` in such a schema
+// - Embedded resources (sub-schemas with their own `$id`, plain-name
+//   anchors) are indexed as well
+// - Documents are stored in the internal (Draft-07) form — their `$schema`,
+//   or the registry's `draft` option, tells which dialect they are in
+// - Every change bumps `revision`, which invalidates resolutions computed
+//   against a previous state of the registry
+
+export class SchemaRegistry {
+	private readonly resources = new Map<string, JSONSchema7Definition>();
+
+	private readonly draft: Draft;
+
+	private currentRevision = 0;
+
+	/**
+	 * @param schemas        Documents to register, each identified by its `$id`
+	 * @param options.draft  Dialect of documents without `$schema` (default `"draft-07"`)
+	 */
+	constructor(
+		schemas?: Iterable<JSONSchema7Definition>,
+		options?: { draft?: Draft },
+	) {
+		this.draft = options?.draft ?? "draft-07";
+		if (schemas) {
+			for (const schema of schemas) this.add(schema);
+		}
+	}
+
+	/**
+	 * Registers a schema document.
+	 *
+	 * @param schema  The document
+	 * @param uri     URI the document is known by — defaults to its `$id`
+	 * @returns       The registry, for chaining
+	 * @throws        When the document has no URI, or the URI is malformed
+	 *
+	 * @example
+	 * ```ts
+	 * const registry = new SchemaRegistry()
+	 *   .add({ $id: "https://example.com/common.json", definitions: { … } })
+	 *   .add({ type: "string", format: "email" }, "email.json");
+	 * ```
+	 */
+	add(schema: JSONSchema7Definition, uri?: string): this {
+		// Converted first: a Draft-04 `id` becomes `$id`
+		const document = toInternalForm(schema, this.draft);
+		const id =
+			uri ??
+			(typeof document !== "boolean" && typeof document.$id === "string"
+				? document.$id
+				: undefined);
+		if (id === undefined) {
+			throw new Error(
+				"Cannot register a schema without URI: pass one or set its $id",
+			);
+		}
+
+		const resolved = resolveUri(id, DEFAULT_BASE_URI);
+		if (resolved === null) {
+			throw new Error(`Cannot register a schema under invalid URI "${id}"`);
+		}
+
+		indexResources(
+			document,
+			resolved.split("#")[0] ?? resolved,
+			this.resources,
+		);
+		this.currentRevision++;
+		return this;
+	}
+
+	/**
+	 * Returns the schema registered under an absolute URI (a document, an
+	 * embedded resource, or a `document#anchor`), in the internal form,
+	 * or `undefined`.
+	 */
+	get(uri: string): JSONSchema7Definition | undefined {
+		return this.resources.get(uri);
+	}
+
+	/** Checks whether a schema is registered under an absolute URI. */
+	has(uri: string): boolean {
+		return this.resources.has(uri);
+	}
+
+	/** Incremented on every registration. */
+	get revision(): number {
+		return this.currentRevision;
+	}
+}
@@ -1,4 +1,30 @@
 import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import { errorCode } from "./error-codes.ts";
+import { normalize } from "./normalizer.ts";
+import type { NumericBound } from "./numeric-interval.ts";
+import {
+	lowerBoundImplies,
+	numericInterval,
+	numericStep,
+	upperBoundImplies,
+} from "./numeric-interval.ts";
+import {
+	arePatternsDisjoint,
+	isPatternSubset,
+	matchesPattern,
+} from "./pattern-subset.ts";
+import { isMultipleOf } from "./rational.ts";
+import {
+	containsRecursiveRef,
+	escapePointer,
+	unfoldRecursiveRef,
+} from "./ref-resolver.ts";
+import {
+	effectiveMaxItems,
+	isTupleSchema,
+	itemPointerAt,
+	itemPositions,
+} from "./tuple-items.ts";
 import type { SchemaError } from "./types.ts";
 import { SchemaErrorType } from "./types.ts";
 import { deepEqual, hasOwn, isPlainObj } from "./utils.ts";
@@ -15,6 +41,13 @@ import { deepEqual, hasOwn, isPlainObj } from "./utils.ts";
 //   - `accountId`       (top-level property)
 //   - `user.name`       (nested property)
 //   - `users[].name`    (property inside array items)
+//   - `pair.[0]`        (tuple item)
+//
+// Each error also locates the offending keyword with a JSON pointer into
+// sub and into sup (the node itself when that side lacks the keyword), and
+// the concerned values with an instance path pattern (`/users/*/name`).
+// The pointers refer to the compared schemas; the checker maps them back
+// to the schemas as written (`locatePointer`).
 //
 // Convention:
 //   - `expected` = what the target schema (sup) expects
@@ -87,6 +120,12 @@ function formatSchemaTypeInternal(
 
 	// ── Array type ──
 	if (schema.type === "array") {
+		// Tuple → "[string, number]", "[string, ...]" when open
+		if (Array.isArray(schema.items)) {
+			const parts = schema.items.map((item) => formatSchemaType(item));
+			if (schema.additionalItems !== false) parts.push("...");
+			return `[${parts.join(", ")}]`;
+		}
 		if (schema.items !== undefined && typeof schema.items !== "boolean") {
 			const itemSchema = schema.items as JSONSchema7;
 
@@ -161,6 +200,179 @@ function arrayPath(parent: string): string {
 	return `${parent}[]`;
 }
 
+/**
+ * Appends the `.[i]` segment to indicate entering a tuple item.
+ */
+function indexPath(parent: string, index: number): string {
+	return joinPath(parent, `[${index}]`);
+}
+
+/**
+ * Position of the compared nodes: the normalized property path used as
+ * error key, the JSON pointers of the sub and sup nodes, and the instance
+ * path pattern (`*` for any index or key).
+ */
+export interface ErrorLocation {
+	key: string;
+	sub: string;
+	sup: string;
+	instance: string;
+}
+
+export const ROOT_LOCATION: ErrorLocation = {
+	key: "",
+	sub: "",
+	sup: "",
+	instance: "",
+};
+
+/** Location of a property named on both sides: `user.name`. */
+function propertyLocation(at: ErrorLocation, name: string): ErrorLocation {
+	const token = `/${escapePointer(name)}`;
+	return {
+		key: joinPath(at.key, name),
+		sub: `${at.sub}/properties${token}`,
+		sup: `${at.sup}/properties${token}`,
+		instance: `${at.instance}${token}`,
+	};
+}
+
+/**
+ * Location of nested schemas: their key, the pointer suffixes of the sub
+ * and sup schemas, and the instance suffix ("" for the same values).
+ */
+function childLocation(
+	at: ErrorLocation,
+	key: string,
+	sub: string,
+	sup: string,
+	instance = "",
+): ErrorLocation {
+	return {
+		key,
+		sub: `${at.sub}${sub}`,
+		sup: `${at.sup}${sup}`,
+		instance: `${at.instance}${instance}`,
+	};
+}
+
+/**
+ * Pointer fields of an error at `at`: the offending keyword of each side,
+ * or the node when that side does not set it.
+ */
+function pointers(
+	at: ErrorLocation,
+	subKeyword?: string,
+	supKeyword?: string,
+): Pick<SchemaError, "subSchemaPath" | "supSchemaPath" | "instancePath"> {
+	return {
+		subSchemaPath:
+			subKeyword === undefined ? at.sub : `${at.sub}/${subKeyword}`,
+		supSchemaPath:
+			supKeyword === undefined ? at.sup : `${at.sup}/${supKeyword}`,
+		instancePath: at.instance,
+	};
+}
+
+/** Pointer fields of a type mismatch at `at`. */
+function typePointers(
+	at: ErrorLocation,
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+): Pick<SchemaError, "subSchemaPath" | "supSchemaPath" | "instancePath"> {
+	return pointers(at, setIn(sub, "type"), setIn(sup, "type"));
+}
+
+/** Value of `type` in a schema: its effective type, or the boolean schema. */
+function typeValue(schema: JSONSchema7Definition): unknown {
+	return typeof schema === "boolean" ? schema : getEffectiveType(schema);
+}
+
+/** Values of `enum` in sub: its enum, or its `const` as a single value. */
+function enumValue(sub: JSONSchema7): unknown[] | undefined {
+	if (Array.isArray(sub.enum)) return sub.enum;
+	return hasOwn(sub, "const") ? [sub.const] : undefined;
+}
+
+/** Pointer fields of an enum mismatch at `at`. */
+function enumPointers(
+	at: ErrorLocation,
+	sub: JSONSchema7,
+): Pick<SchemaError, "subSchemaPath" | "supSchemaPath" | "instancePath"> {
+	return pointers(at, setIn(sub, "enum") ?? setIn(sub, "const"), "enum");
+}
+
+/**
+ * Code, keyword, values and pointers of a mismatch between the values sup
+ * allows — its `const` or `enum` — and those of sub (its `enum` or `const`,
+ * else its type). An `enum` on either side makes it an enum mismatch, the
+ * `const` of sup becoming a single value.
+ */
+function valueMismatchFields(
+	at: ErrorLocation,
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+): Pick<
+	SchemaError,
+	| "code"
+	| "keyword"
+	| "expectedValue"
+	| "receivedValue"
+	| "subSchemaPath"
+	| "supSchemaPath"
+	| "instancePath"
+> {
+	const supKeyword = hasOwn(sup, "const") ? "const" : "enum";
+	const subPointer =
+		setIn(sub, "enum") ?? setIn(sub, "const") ?? setIn(sub, "type");
+	if (supKeyword === "const" && !Array.isArray(sub.enum)) {
+		return {
+			...keywordFields(
+				"const",
+				sup.const,
+				hasOwn(sub, "const") ? sub.const : typeValue(sub),
+			),
+			...pointers(at, subPointer, "const"),
+		};
+	}
+	return {
+		...keywordFields(
+			"enum",
+			supKeyword === "const" ? [sup.const] : sup.enum,
+			enumValue(sub) ?? typeValue(sub),
+		),
+		...pointers(at, subPointer, supKeyword),
+	};
+}
+
+/**
+ * Code, keyword and values of an error on `keyword`: by default the value
+ * of the keyword in sup and in sub (see `errorCode` for `reason`).
+ */
+function keywordFields(
+	keyword: string,
+	expectedValue: unknown,
+	receivedValue: unknown,
+	reason?: string,
+): Pick<SchemaError, "code" | "keyword" | "expectedValue" | "receivedValue"> {
+	return {
+		code: errorCode(keyword, reason),
+		keyword,
+		expectedValue,
+		receivedValue,
+	};
+}
+
+/** Returns `keyword` when `schema` sets it. */
+function setIn(
+	schema: JSONSchema7Definition,
+	keyword: string,
+): string | undefined {
+	return typeof schema !== "boolean" && hasOwn(schema, keyword)
+		? keyword
+		: undefined;
+}
+
 // ─── Schema Accessors ────────────────────────────────────────────────────────
 
 /**
@@ -287,7 +499,7 @@ function checkMinConstraint(
 	subVal: number | undefined,
 	supVal: number | undefined,
 	name: string,
-	path: string,
+	at: ErrorLocation,
 	errors: SchemaError[],
 	type: SchemaErrorType,
 ): void {
@@ -295,9 +507,11 @@ function checkMinConstraint(
 		if (subVal === undefined || subVal < supVal) {
 			errors.push({
 				type,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: fmtConstraint(name, supVal),
 				received: fmtConstraint(name, subVal),
+				...keywordFields(name, supVal, subVal),
+				...pointers(at, subVal === undefined ? undefined : name, name),
 			});
 		}
 	}
@@ -311,7 +525,7 @@ function checkMaxConstraint(
 	subVal: number | undefined,
 	supVal: number | undefined,
 	name: string,
-	path: string,
+	at: ErrorLocation,
 	errors: SchemaError[],
 	type: SchemaErrorType,
 ): void {
@@ -319,9 +533,11 @@ function checkMaxConstraint(
 		if (subVal === undefined || subVal > supVal) {
 			errors.push({
 				type,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: fmtConstraint(name, supVal),
 				received: fmtConstraint(name, subVal),
+				...keywordFields(name, supVal, subVal),
+				...pointers(at, subVal === undefined ? undefined : name, name),
 			});
 		}
 	}
@@ -329,142 +545,79 @@ function checkMaxConstraint(
 
 /**
  * Compares numeric constraints between sub and sup.
+ *
+ * Bounds are compared as intervals (see `numeric-interval.ts`): a sup
+ * bound is satisfied by any sub bound implying it, whatever keyword spells
+ * it (`exclusiveMinimum: 5` satisfies `minimum: 0`), rounded to the step
+ * of sub (integers, `multipleOf`). One error is reported per side, naming
+ * the tightest sup bound.
  */
 function checkNumericConstraints(
 	sub: JSONSchema7,
 	sup: JSONSchema7,
-	path: string,
+	at: ErrorLocation,
 	errors: SchemaError[],
 ): void {
-	const subMin = sub.minimum;
-	const subExclMin = sub.exclusiveMinimum as number | undefined;
-	const subMax = sub.maximum;
-	const subExclMax = sub.exclusiveMaximum as number | undefined;
-
-	const supMin = sup.minimum;
-	const supExclMin = sup.exclusiveMinimum as number | undefined;
-	const supMax = sup.maximum;
-	const supExclMax = sup.exclusiveMaximum as number | undefined;
-
-	// ── LOWER BOUND cross-check ──
-
-	// Check sup.minimum
-	if (supMin !== undefined) {
-		// sub satisfies sup.minimum if:
-		//   sub.minimum >= sup.minimum  OR
-		//   sub.exclusiveMinimum >= sup.minimum  (>X implies >=X when X is the same)
-		const satisfiedByMin = subMin !== undefined && subMin >= supMin;
-		const satisfiedByExclMin = subExclMin !== undefined && subExclMin >= supMin;
-
-		if (!satisfiedByMin && !satisfiedByExclMin) {
-			errors.push({
-				type: SchemaErrorType.NumericConstraint,
-				key: path || "$root",
-				expected: fmtConstraint("minimum", supMin),
-				received:
-					subMin !== undefined
-						? fmtConstraint("minimum", subMin)
-						: subExclMin !== undefined
-							? fmtConstraint("exclusiveMinimum", subExclMin)
-							: fmtConstraint("minimum", undefined),
-			});
-		}
-	}
-
-	// Check sup.exclusiveMinimum
-	if (supExclMin !== undefined) {
-		// sub satisfies sup.exclusiveMinimum if:
-		//   sub.exclusiveMinimum >= sup.exclusiveMinimum  OR
-		//   sub.minimum > sup.exclusiveMinimum  (>=X with X>B implies >B)
-		const satisfiedByExclMin =
-			subExclMin !== undefined && subExclMin >= supExclMin;
-		const satisfiedByMin = subMin !== undefined && subMin > supExclMin;
-
-		if (!satisfiedByExclMin && !satisfiedByMin) {
-			errors.push({
-				type: SchemaErrorType.NumericConstraint,
-				key: path || "$root",
-				expected: fmtConstraint("exclusiveMinimum", supExclMin),
-				received:
-					subExclMin !== undefined
-						? fmtConstraint("exclusiveMinimum", subExclMin)
-						: subMin !== undefined
-							? fmtConstraint("minimum", subMin)
-							: fmtConstraint("exclusiveMinimum", undefined),
-			});
-		}
+	const step = numericStep(sub);
+	const subInterval = numericInterval(sub, step);
+	const supInterval = numericInterval(sup, step);
+
+	// ── LOWER BOUND ──
+	const supLower = supInterval.lower;
+	if (supLower !== null && !lowerBoundImplies(subInterval.lower, supLower)) {
+		errors.push(numericBoundError(sub, sup, subInterval.lower, supLower, at));
 	}
 
-	// ── UPPER BOUND cross-check ──
-
-	// Check sup.maximum
-	if (supMax !== undefined) {
-		// sub satisfies sup.maximum if:
-		//   sub.maximum <= sup.maximum  OR
-		//   sub.exclusiveMaximum <= sup.maximum
-		const satisfiedByMax = subMax !== undefined && subMax <= supMax;
-		const satisfiedByExclMax = subExclMax !== undefined && subExclMax <= supMax;
-
-		if (!satisfiedByMax && !satisfiedByExclMax) {
-			errors.push({
-				type: SchemaErrorType.NumericConstraint,
-				key: path || "$root",
-				expected: fmtConstraint("maximum", supMax),
-				received:
-					subMax !== undefined
-						? fmtConstraint("maximum", subMax)
-						: subExclMax !== undefined
-							? fmtConstraint("exclusiveMaximum", subExclMax)
-							: fmtConstraint("maximum", undefined),
-			});
-		}
+	// ── UPPER BOUND ──
+	const supUpper = supInterval.upper;
+	if (supUpper !== null && !upperBoundImplies(subInterval.upper, supUpper)) {
+		errors.push(numericBoundError(sub, sup, subInterval.upper, supUpper, at));
 	}
 
-	// Check sup.exclusiveMaximum
-	if (supExclMax !== undefined) {
-		// sub satisfies sup.exclusiveMaximum if:
-		//   sub.exclusiveMaximum <= sup.exclusiveMaximum  OR
-		//   sub.maximum < sup.exclusiveMaximum
-		const satisfiedByExclMax =
-			subExclMax !== undefined && subExclMax <= supExclMax;
-		const satisfiedByMax = subMax !== undefined && subMax < supExclMax;
-
-		if (!satisfiedByExclMax && !satisfiedByMax) {
-			errors.push({
-				type: SchemaErrorType.NumericConstraint,
-				key: path || "$root",
-				expected: fmtConstraint("exclusiveMaximum", supExclMax),
-				received:
-					subExclMax !== undefined
-						? fmtConstraint("exclusiveMaximum", subExclMax)
-						: subMax !== undefined
-							? fmtConstraint("maximum", subMax)
-							: fmtConstraint("exclusiveMaximum", undefined),
-			});
-		}
+	// ── multipleOf ──
+	// The step of sub (its multipleOf, or 1 for integers) must be a
+	// multiple of sup.multipleOf — compared exactly (0.3 is a multiple of 0.1)
+	if (
+		sup.multipleOf !== undefined &&
+		(step === null || !isMultipleOf(step, sup.multipleOf))
+	) {
+		errors.push({
+			type: SchemaErrorType.NumericConstraint,
+			key: at.key || "$root",
+			expected: fmtConstraint("multipleOf", sup.multipleOf),
+			received: fmtConstraint("multipleOf", sub.multipleOf),
+			...keywordFields("multipleOf", sup.multipleOf, sub.multipleOf),
+			...pointers(at, setIn(sub, "multipleOf"), "multipleOf"),
+		});
 	}
+}
 
-	// ── multipleOf (unchanged) ──
-	if (sup.multipleOf !== undefined) {
-		if (sub.multipleOf === undefined) {
-			errors.push({
-				type: SchemaErrorType.NumericConstraint,
-				key: path || "$root",
-				expected: fmtConstraint("multipleOf", sup.multipleOf),
-				received: fmtConstraint("multipleOf", sub.multipleOf),
-			});
-		} else if (sub.multipleOf !== sup.multipleOf) {
-			// sub.multipleOf must be a multiple of sup.multipleOf for sub ⊆ sup
-			if (sub.multipleOf % sup.multipleOf !== 0) {
-				errors.push({
-					type: SchemaErrorType.NumericConstraint,
-					key: path || "$root",
-					expected: fmtConstraint("multipleOf", sup.multipleOf),
-					received: fmtConstraint("multipleOf", sub.multipleOf),
-				});
-			}
-		}
-	}
+/**
+ * Builds the error of an unsatisfied numeric bound, with the values as
+ * written in the schemas (before integer rounding).
+ */
+function numericBoundError(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+	subBound: NumericBound | null,
+	supBound: NumericBound,
+	at: ErrorLocation,
+): SchemaError {
+	return {
+		type: SchemaErrorType.NumericConstraint,
+		key: at.key || "$root",
+		expected: fmtConstraint(supBound.keyword, sup[supBound.keyword]),
+		received:
+			subBound !== null
+				? fmtConstraint(subBound.keyword, sub[subBound.keyword])
+				: fmtConstraint(supBound.keyword, undefined),
+		...keywordFields(
+			supBound.keyword,
+			sup[supBound.keyword],
+			subBound !== null ? sub[subBound.keyword] : undefined,
+		),
+		...pointers(at, subBound?.keyword, supBound.keyword),
+	};
 }
 
 /**
@@ -473,14 +626,14 @@ function checkNumericConstraints(
 function checkStringConstraints(
 	sub: JSONSchema7,
 	sup: JSONSchema7,
-	path: string,
+	at: ErrorLocation,
 	errors: SchemaError[],
 ): void {
 	checkMinConstraint(
 		sub.minLength,
 		sup.minLength,
 		"minLength",
-		path,
+		at,
 		errors,
 		SchemaErrorType.StringConstraint,
 	);
@@ -488,7 +641,7 @@ function checkStringConstraints(
 		sub.maxLength,
 		sup.maxLength,
 		"maxLength",
-		path,
+		at,
 		errors,
 		SchemaErrorType.StringConstraint,
 	);
@@ -498,9 +651,11 @@ function checkStringConstraints(
 		if (sub.pattern === undefined) {
 			errors.push({
 				type: SchemaErrorType.StringConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: fmtConstraint("pattern", sup.pattern),
 				received: "no pattern constraint",
+				...keywordFields("pattern", sup.pattern, undefined, "unconstrained"),
+				...pointers(at, undefined, "pattern"),
 			});
 		} else if (sub.pattern !== sup.pattern) {
 			// Different patterns — we can't statically determine subset relationship
@@ -509,9 +664,11 @@ function checkStringConstraints(
 			// so if we get here, they're genuinely different.
 			errors.push({
 				type: SchemaErrorType.StringConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: fmtConstraint("pattern", sup.pattern),
 				received: fmtConstraint("pattern", sub.pattern),
+				...keywordFields("pattern", sup.pattern, sub.pattern),
+				...pointers(at, "pattern", "pattern"),
 			});
 		}
 	}
@@ -521,16 +678,20 @@ function checkStringConstraints(
 		if (sub.format === undefined) {
 			errors.push({
 				type: SchemaErrorType.StringConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: fmtConstraint("format", sup.format),
 				received: "no format constraint",
+				...keywordFields("format", sup.format, undefined, "unconstrained"),
+				...pointers(at, undefined, "format"),
 			});
 		} else {
 			errors.push({
 				type: SchemaErrorType.StringConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: fmtConstraint("format", sup.format),
 				received: fmtConstraint("format", sub.format),
+				...keywordFields("format", sup.format, sub.format),
+				...pointers(at, "format", "format"),
 			});
 		}
 	}
@@ -542,7 +703,7 @@ function checkStringConstraints(
 function checkObjectConstraints(
 	sub: JSONSchema7,
 	sup: JSONSchema7,
-	path: string,
+	at: ErrorLocation,
 	errors: SchemaError[],
 ): void {
 	// ── additionalProperties ──
@@ -556,9 +717,19 @@ function checkObjectConstraints(
 				// sub allows them → incompatible
 				errors.push({
 					type: SchemaErrorType.ObjectConstraint,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: "additionalProperties: false",
 					received: "additional properties allowed",
+					...keywordFields(
+						"additionalProperties",
+						false,
+						sub.additionalProperties,
+					),
+					...pointers(
+						at,
+						setIn(sub, "additionalProperties"),
+						"additionalProperties",
+					),
 				});
 			} else if (
 				typeof sub.additionalProperties === "object" &&
@@ -567,9 +738,15 @@ function checkObjectConstraints(
 				// sub has a schema for additional properties → still allows them
 				errors.push({
 					type: SchemaErrorType.ObjectConstraint,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: "additionalProperties: false",
 					received: "additionalProperties: schema",
+					...keywordFields(
+						"additionalProperties",
+						false,
+						sub.additionalProperties,
+					),
+					...pointers(at, "additionalProperties", "additionalProperties"),
 				});
 			}
 		} else if (
@@ -584,22 +761,38 @@ function checkObjectConstraints(
 				// sub allows anything → more permissive
 				errors.push({
 					type: SchemaErrorType.ObjectConstraint,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: `additionalProperties: ${formatSchemaType(sup.additionalProperties as JSONSchema7Definition)}`,
 					received: "additional properties allowed",
+					...keywordFields(
+						"additionalProperties",
+						sup.additionalProperties,
+						sub.additionalProperties,
+						"unconstrained",
+					),
+					...pointers(
+						at,
+						setIn(sub, "additionalProperties"),
+						"additionalProperties",
+					),
 				});
 			} else if (
 				typeof sub.additionalProperties === "object" &&
 				sub.additionalProperties !== null
 			) {
 				// Both have schema-form additionalProperties — recurse
-				const apPath = path
-					? `${path}.<additionalProperties>`
-					: "<additionalProperties>";
 				const apErrors = computeSemanticErrors(
 					sub.additionalProperties as JSONSchema7Definition,
 					sup.additionalProperties as JSONSchema7Definition,
-					apPath,
+					childLocation(
+						at,
+						at.key
+							? `${at.key}.<additionalProperties>`
+							: "<additionalProperties>",
+						"/additionalProperties",
+						"/additionalProperties",
+						"/*",
+					),
 				);
 				errors.push(...apErrors);
 			}
@@ -611,7 +804,7 @@ function checkObjectConstraints(
 		sub.minProperties,
 		sup.minProperties,
 		"minProperties",
-		path,
+		at,
 		errors,
 		SchemaErrorType.ObjectConstraint,
 	);
@@ -619,7 +812,7 @@ function checkObjectConstraints(
 		sub.maxProperties,
 		sup.maxProperties,
 		"maxProperties",
-		path,
+		at,
 		errors,
 		SchemaErrorType.ObjectConstraint,
 	);
@@ -629,16 +822,29 @@ function checkObjectConstraints(
 		if (sub.propertyNames === undefined) {
 			errors.push({
 				type: SchemaErrorType.ObjectConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: `propertyNames: ${formatSchemaType(sup.propertyNames)}`,
 				received: "no propertyNames constraint",
+				...keywordFields(
+					"propertyNames",
+					sup.propertyNames,
+					undefined,
+					"unconstrained",
+				),
+				...pointers(at, undefined, "propertyNames"),
 			});
 		} else {
 			// Both have propertyNames — recurse
 			const pnErrors = computeSemanticErrors(
 				sub.propertyNames as JSONSchema7Definition,
 				sup.propertyNames as JSONSchema7Definition,
-				path ? `${path}.<propertyNames>` : "<propertyNames>",
+				childLocation(
+					at,
+					at.key ? `${at.key}.<propertyNames>` : "<propertyNames>",
+					"/propertyNames",
+					"/propertyNames",
+					"/*",
+				),
 			);
 			errors.push(...pnErrors);
 		}
@@ -662,6 +868,7 @@ function checkObjectConstraints(
 		for (const key of Object.keys(supDeps)) {
 			const supDep = supDeps[key];
 			const subDep = subDeps?.[key];
+			const depKeyword = `dependencies/${escapePointer(key)}`;
 
 			if (subDep === undefined) {
 				if (Array.isArray(supDep)) {
@@ -685,9 +892,11 @@ function checkObjectConstraints(
 					if (!allDepsAlwaysRequired && !triggerNeverProduced) {
 						errors.push({
 							type: SchemaErrorType.ObjectConstraint,
-							key: path || "$root",
+							key: at.key || "$root",
 							expected: `dependency: ${key} requires ${supDep.join(", ")}`,
 							received: `no dependency for ${key}`,
+							...keywordFields("dependencies", supDep, undefined),
+							...pointers(at, undefined, depKeyword),
 						});
 					}
 				} else if (isPlainObj(supDep)) {
@@ -776,9 +985,11 @@ function checkObjectConstraints(
 						if (!allDepRequiredSatisfied || !allDepPropsSatisfied) {
 							errors.push({
 								type: SchemaErrorType.ObjectConstraint,
-								key: path || "$root",
+								key: at.key || "$root",
 								expected: `dependency: ${key} requires schema`,
 								received: `no dependency for ${key}`,
+								...keywordFields("dependencies", supDep, undefined),
+								...pointers(at, undefined, depKeyword),
 							});
 						}
 					}
@@ -789,33 +1000,39 @@ function checkObjectConstraints(
 				if (missing.length > 0) {
 					errors.push({
 						type: SchemaErrorType.ObjectConstraint,
-						key: path || "$root",
+						key: at.key || "$root",
 						expected: `dependency: ${key} requires ${supDep.join(", ")}`,
 						received: `dependency: ${key} requires ${subDep.join(", ")}`,
+						...keywordFields("dependencies", supDep, subDep),
+						...pointers(at, depKeyword, depKeyword),
 					});
 				}
 			} else if (!Array.isArray(supDep) && !Array.isArray(subDep)) {
 				// Both are schema form — recurse
-				const depPath = path
-					? `${path}.<dependency:${key}>`
-					: `<dependency:${key}>`;
 				const depErrors = computeSemanticErrors(
 					subDep as JSONSchema7Definition,
 					supDep as JSONSchema7Definition,
-					depPath,
+					childLocation(
+						at,
+						at.key ? `${at.key}.<dependency:${key}>` : `<dependency:${key}>`,
+						`/${depKeyword}`,
+						`/${depKeyword}`,
+					),
 				);
 				errors.push(...depErrors);
 			} else {
 				// Mixed forms (one array, one schema) — report mismatch
 				errors.push({
 					type: SchemaErrorType.ObjectConstraint,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: Array.isArray(supDep)
 						? `dependency: ${key} requires ${supDep.join(", ")}`
 						: `dependency: ${key} requires schema`,
 					received: Array.isArray(subDep)
 						? `dependency: ${key} requires ${subDep.join(", ")}`
 						: `dependency: ${key} requires schema`,
+					...keywordFields("dependencies", supDep, subDep, "mismatch"),
+					...pointers(at, depKeyword, depKeyword),
 				});
 			}
 		}
@@ -827,32 +1044,267 @@ function checkObjectConstraints(
 			string,
 			JSONSchema7Definition
 		>;
-		const subPP = isPlainObj(sub.patternProperties)
-			? (sub.patternProperties as Record<string, JSONSchema7Definition>)
-			: null;
+		for (const [pattern, supPropDef] of Object.entries(supPP)) {
+			checkPatternProperty(sub, pattern, supPropDef, at, errors);
+		}
+	}
+
+	// ── Keys no sup name or pattern covers ──
+	if (
+		sup.additionalProperties !== undefined &&
+		sup.additionalProperties !== true
+	) {
+		checkUncoveredKeys(sub, sup, sup.additionalProperties, at, errors);
+	}
+}
 
-		for (const pattern of Object.keys(supPP)) {
-			const supPropDef = supPP[pattern];
-			if (supPropDef === undefined) continue;
+/**
+ * Builds the path of a `patternProperties` entry:
+ * `<patternProperties:^x_>`, `user.<patternProperties:^x_>`.
+ */
+function patternPath(parent: string, pattern: string): string {
+	return joinPath(parent, `<patternProperties:${pattern}>`);
+}
 
-			const subPropDef = subPP?.[pattern];
-			const ppPath = path
-				? `${path}.<patternProperties:${pattern}>`
-				: `<patternProperties:${pattern}>`;
+/**
+ * Compares every key of sub matching a sup pattern with the pattern's
+ * schema: named properties, sub patterns sharing keys with it, and the
+ * `additionalProperties` of sub for the remaining keys.
+ */
+function checkPatternProperty(
+	sub: JSONSchema7,
+	pattern: string,
+	supPropDef: JSONSchema7Definition,
+	at: ErrorLocation,
+	errors: SchemaError[],
+): void {
+	const ppPath = patternPath(at.key, pattern);
+	const supPointer = `/patternProperties/${escapePointer(pattern)}`;
 
-			if (subPropDef === undefined) {
-				// sub doesn't constrain this pattern at all — more permissive
-				errors.push({
-					type: SchemaErrorType.ObjectConstraint,
-					key: ppPath,
-					expected: formatSchemaType(supPropDef),
-					received: "no constraint for this pattern",
-				});
-			} else {
-				// Both define the same pattern — recurse
-				const ppErrors = computeSemanticErrors(subPropDef, supPropDef, ppPath);
-				errors.push(...ppErrors);
+	// ── Named properties of sub matching the pattern ──
+	for (const [key, subPropDef] of Object.entries(getProperties(sub) ?? {})) {
+		if (subPropDef === false || matchesPattern(key, pattern) === false) {
+			continue;
+		}
+		const token = `/${escapePointer(key)}`;
+		errors.push(
+			...computeSemanticErrors(
+				subPropDef,
+				supPropDef,
+				childLocation(
+					at,
+					joinPath(ppPath, key),
+					`/properties${token}`,
+					supPointer,
+					token,
+				),
+			),
+		);
+	}
+
+	// ── Patterns of sub sharing keys with the pattern ──
+	const subPP = isPlainObj(sub.patternProperties)
+		? (sub.patternProperties as Record<string, JSONSchema7Definition>)
+		: {};
+	for (const [subPattern, subPropDef] of Object.entries(subPP)) {
+		if (subPropDef === false) continue;
+		if (
+			subPattern !== pattern &&
+			arePatternsDisjoint(subPattern, pattern) === true
+		) {
+			continue;
+		}
+		errors.push(
+			...computeSemanticErrors(
+				subPropDef,
+				supPropDef,
+				childLocation(
+					at,
+					ppPath,
+					`/patternProperties/${escapePointer(subPattern)}`,
+					supPointer,
+					"/*",
+				),
+			),
+		);
+	}
+
+	// ── Other keys: additionalProperties of sub ──
+	if (sub.additionalProperties === false) return;
+	const covered = Object.keys(subPP).some(
+		(subPattern) => isPatternSubset(pattern, subPattern) === true,
+	);
+	if (covered) return;
+	if (
+		sub.additionalProperties === undefined ||
+		sub.additionalProperties === true
+	) {
+		if (supPropDef === true) return;
+		// sub doesn't constrain this pattern at all — more permissive
+		errors.push({
+			type: SchemaErrorType.ObjectConstraint,
+			key: ppPath,
+			expected: formatSchemaType(supPropDef),
+			received: "no constraint for this pattern",
+			...keywordFields(
+				"patternProperties",
+				supPropDef,
+				sub.additionalProperties,
+				"unconstrained",
+			),
+			...pointers(childLocation(at, ppPath, "", supPointer, "/*")),
+		});
+		return;
+	}
+	errors.push(
+		...computeSemanticErrors(
+			sub.additionalProperties,
+			supPropDef,
+			childLocation(at, ppPath, "/additionalProperties", supPointer, "/*"),
+		),
+	);
+}
+
+/**
+ * Compares the keys of sub that neither a name nor a pattern of sup covers
+ * with sup `additionalProperties` (the `additionalProperties` of both sides
+ * are compared by `checkObjectConstraints`). Sub patterns are covered when
+ * `isPatternSubset` includes them in a sup pattern.
+ */
+function checkUncoveredKeys(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+	additional: JSONSchema7Definition,
+	at: ErrorLocation,
+	errors: SchemaError[],
+): void {
+	const supProps = getProperties(sup) ?? {};
+	const supPatterns = isPlainObj(sup.patternProperties)
+		? Object.keys(sup.patternProperties)
+		: [];
+
+	const check = (
+		subPropDef: JSONSchema7Definition,
+		key: string,
+		subPointer: string,
+		instance: string,
+	) => {
+		const location = childLocation(
+			at,
+			key,
+			subPointer,
+			"/additionalProperties",
+			instance,
+		);
+		if (additional === false) {
+			errors.push({
+				type: SchemaErrorType.ObjectConstraint,
+				key,
+				expected: "additionalProperties: false",
+				received: formatSchemaType(subPropDef),
+				...keywordFields("additionalProperties", false, subPropDef),
+				...pointers(location),
+			});
+		} else {
+			errors.push(...computeSemanticErrors(subPropDef, additional, location));
+		}
+	};
+
+	for (const [key, subPropDef] of Object.entries(getProperties(sub) ?? {})) {
+		if (subPropDef === false || hasOwn(supProps, key)) continue;
+		if (supPatterns.some((pattern) => matchesPattern(key, pattern) === true)) {
+			continue;
+		}
+		const token = `/${escapePointer(key)}`;
+		check(subPropDef, joinPath(at.key, key), `/properties${token}`, token);
+	}
+
+	if (isPlainObj(sub.patternProperties)) {
+		const subPP = sub.patternProperties as Record<
+			string,
+			JSONSchema7Definition
+		>;
+		for (const [subPattern, subPropDef] of Object.entries(subPP)) {
+			if (subPropDef === false) continue;
+			if (
+				supPatterns.some(
+					(pattern) => isPatternSubset(subPattern, pattern) === true,
+				)
+			) {
+				continue;
 			}
+			check(
+				subPropDef,
+				patternPath(at.key, subPattern),
+				`/patternProperties/${escapePointer(subPattern)}`,
+				"/*",
+			);
+		}
+	}
+}
+
+/**
+ * Compares the items of two array schemas position by position when
+ * either uses tuple `items` (see `tuple-items.ts`). Tuple items are
+ * reported at `path[i]`, the items after the longest tuple at `path[]`.
+ */
+function checkTupleItems(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+	at: ErrorLocation,
+	errors: SchemaError[],
+): void {
+	for (const position of itemPositions(sub, sup)) {
+		if (position.sup === true) continue;
+		const key = position.rest
+			? arrayPath(at.key)
+			: indexPath(at.key, position.index);
+		const location = childLocation(
+			at,
+			key,
+			itemPointerAt(sub, position.index),
+			itemPointerAt(sup, position.index),
+			position.rest ? "/*" : `/${position.index}`,
+		);
+
+		if (position.sup === false) {
+			errors.push({
+				type: SchemaErrorType.ArrayConstraint,
+				key,
+				expected: "additionalItems: false",
+				received: formatSchemaType(position.sub),
+				...keywordFields("additionalItems", false, position.sub),
+				...pointers(location),
+			});
+		} else if (position.sub === true) {
+			errors.push(
+				position.rest
+					? {
+							type: SchemaErrorType.ArrayConstraint,
+							key,
+							expected: formatSchemaType(position.sup),
+							received: "no constraint for these items",
+							...keywordFields(
+								"items",
+								position.sup,
+								position.sub,
+								"unconstrained",
+							),
+							...pointers(location),
+						}
+					: {
+							type: SchemaErrorType.MissingProperty,
+							key,
+							expected: formatSchemaType(position.sup),
+							received: "undefined",
+							...keywordFields("items", position.sup, undefined, "missing"),
+							...pointers(location),
+						},
+			);
+		} else {
+			errors.push(
+				...computeSemanticErrors(position.sub, position.sup, location),
+			);
 		}
 	}
 }
@@ -863,22 +1315,23 @@ function checkObjectConstraints(
 function checkArrayConstraints(
 	sub: JSONSchema7,
 	sup: JSONSchema7,
-	path: string,
+	at: ErrorLocation,
 	errors: SchemaError[],
 ): void {
 	checkMinConstraint(
 		sub.minItems,
 		sup.minItems,
 		"minItems",
-		path,
+		at,
 		errors,
 		SchemaErrorType.ArrayConstraint,
 	);
+	// A closed tuple bounds the length without `maxItems`
 	checkMaxConstraint(
-		sub.maxItems,
+		effectiveMaxItems(sub),
 		sup.maxItems,
 		"maxItems",
-		path,
+		at,
 		errors,
 		SchemaErrorType.ArrayConstraint,
 	);
@@ -887,9 +1340,11 @@ function checkArrayConstraints(
 	if (sup.uniqueItems === true && sub.uniqueItems !== true) {
 		errors.push({
 			type: SchemaErrorType.ArrayConstraint,
-			key: path || "$root",
+			key: at.key || "$root",
 			expected: "uniqueItems: true",
 			received: fmtConstraint("uniqueItems", sub.uniqueItems ?? false),
+			...keywordFields("uniqueItems", true, sub.uniqueItems),
+			...pointers(at, setIn(sub, "uniqueItems"), "uniqueItems"),
 		});
 	}
 
@@ -898,19 +1353,45 @@ function checkArrayConstraints(
 		if (sub.contains === undefined) {
 			errors.push({
 				type: SchemaErrorType.ArrayConstraint,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: `contains: ${formatSchemaType(sup.contains as JSONSchema7Definition)}`,
 				received: "no contains constraint",
+				...keywordFields("contains", sup.contains, undefined),
+				...pointers(at, undefined, "contains"),
 			});
 		} else {
 			// Both have contains — recurse to compare the contained schemas
-			const containsPath = path ? `${path}.<contains>` : "<contains>";
 			const containsErrors = computeSemanticErrors(
 				sub.contains as JSONSchema7Definition,
 				sup.contains as JSONSchema7Definition,
-				containsPath,
+				childLocation(
+					at,
+					at.key ? `${at.key}.<contains>` : "<contains>",
+					"/contains",
+					"/contains",
+					"/*",
+				),
 			);
 			errors.push(...containsErrors);
+
+			// ── minContains / maxContains (Draft 2019-09) ──
+			// `minContains` defaults to 1 whenever `contains` is present
+			checkMinConstraint(
+				sub.minContains ?? 1,
+				sup.minContains,
+				"minContains",
+				at,
+				errors,
+				SchemaErrorType.ArrayConstraint,
+			);
+			checkMaxConstraint(
+				sub.maxContains,
+				sup.maxContains,
+				"maxContains",
+				at,
+				errors,
+				SchemaErrorType.ArrayConstraint,
+			);
 		}
 	}
 }
@@ -993,7 +1474,9 @@ function hasArrayKeywords(s: JSONSchema7): boolean {
 		s.minItems !== undefined ||
 		s.maxItems !== undefined ||
 		s.uniqueItems !== undefined ||
-		s.contains !== undefined
+		s.contains !== undefined ||
+		s.minContains !== undefined ||
+		s.maxContains !== undefined
 	);
 }
 
@@ -1004,7 +1487,7 @@ function hasArrayKeywords(s: JSONSchema7): boolean {
  *
  * @param sub   The source schema (what is produced / received)
  * @param sup   The target schema (what is expected)
- * @param path  The current normalized path
+ * @param at    Position of the compared nodes
  * @returns     List of semantic errors
  */
 /**
@@ -1079,10 +1562,59 @@ function isNotSatisfied(sub: JSONSchema7, sup: JSONSchema7): boolean | null {
 	return null;
 }
 
+// ─── Recursive references ────────────────────────────────────────────────────
+//
+// Recursive `$ref` placeholders (see `unfoldRecursiveRef`) are unfolded when
+// met. On cyclic schemas the comparison reaches the same (sub, sup) pair
+// again: the pair is already being compared higher up, so its errors are
+// reported there — the nested occurrence produces none.
+
+/** (sub, sup) pairs of recursive schemas currently being compared. */
+const activePairs = new Map<object, Set<object>>();
+
 export function computeSemanticErrors(
 	sub: JSONSchema7Definition,
 	sup: JSONSchema7Definition,
-	path = "",
+	at: ErrorLocation = ROOT_LOCATION,
+): SchemaError[] {
+	const subTarget = unfoldRecursiveRef(sub);
+	const supTarget = unfoldRecursiveRef(sup);
+	if (subTarget !== undefined || supTarget !== undefined) {
+		return computeSemanticErrors(
+			subTarget === undefined ? sub : normalize(subTarget),
+			supTarget === undefined ? sup : normalize(supTarget),
+			at,
+		);
+	}
+
+	if (
+		typeof sub === "boolean" ||
+		typeof sup === "boolean" ||
+		(!containsRecursiveRef(sub) && !containsRecursiveRef(sup))
+	) {
+		return compareSchemas(sub, sup, at);
+	}
+
+	// ── Cycle guard ──
+	let active = activePairs.get(sub);
+	if (active?.has(sup)) return [];
+	if (active === undefined) {
+		active = new Set();
+		activePairs.set(sub, active);
+	}
+	active.add(sup);
+	try {
+		return compareSchemas(sub, sup, at);
+	} finally {
+		active.delete(sup);
+		if (active.size === 0) activePairs.delete(sub);
+	}
+}
+
+function compareSchemas(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	at: ErrorLocation,
 ): SchemaError[] {
 	// ── Boolean schemas ──
 	if (typeof sup === "boolean") {
@@ -1090,9 +1622,11 @@ export function computeSemanticErrors(
 			return [
 				{
 					type: SchemaErrorType.TypeMismatch,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: "never",
 					received: formatSchemaType(sub),
+					...keywordFields("type", false, typeValue(sub), "never"),
+					...pointers(at),
 				},
 			];
 		}
@@ -1103,9 +1637,11 @@ export function computeSemanticErrors(
 			return [
 				{
 					type: SchemaErrorType.TypeMismatch,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: formatSchemaType(sup),
 					received: "any",
+					...keywordFields("type", typeValue(sup), true, "unconstrained"),
+					...pointers(at),
 				},
 			];
 		}
@@ -1135,18 +1671,22 @@ export function computeSemanticErrors(
 			// Sub definitely violates the `not` → confirmed error
 			errors.push({
 				type: SchemaErrorType.NotSchema,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: `not ${notFormatted}`,
 				received: formatSchemaType(subSchema),
+				...keywordFields("not", notSchema, undefined),
+				...pointers(at, undefined, "not"),
 			});
 		} else if (notResult === null) {
 			// Indeterminate → fall back to structural check
 			if (!hasOwn(subSchema, "not")) {
 				errors.push({
 					type: SchemaErrorType.NotSchema,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: `not ${notFormatted}`,
 					received: formatSchemaType(subSchema),
+					...keywordFields("not", notSchema, undefined),
+					...pointers(at, undefined, "not"),
 				});
 			} else if (
 				isPlainObj(subSchema.not) &&
@@ -1156,9 +1696,11 @@ export function computeSemanticErrors(
 				if (!deepEqual(subNotSchema, notSchema)) {
 					errors.push({
 						type: SchemaErrorType.NotSchema,
-						key: path || "$root",
+						key: at.key || "$root",
 						expected: `not ${notFormatted}`,
 						received: `not ${formatSchemaType(subNotSchema)}`,
+						...keywordFields("not", notSchema, subNotSchema),
+						...pointers(at, "not", "not"),
 					});
 				}
 			}
@@ -1174,15 +1716,25 @@ export function computeSemanticErrors(
 	// If sup has branches, try to find the best matching one for error reporting
 	const supBranches = supSchema.anyOf ?? supSchema.oneOf;
 	if (Array.isArray(supBranches) && supBranches.length > 0 && !supSchema.type) {
-		return computeErrorsAgainstBranches(subSchema, supBranches, path);
+		return computeErrorsAgainstBranches(
+			subSchema,
+			supBranches,
+			at,
+			supSchema.anyOf !== undefined ? "anyOf" : "oneOf",
+		);
 	}
 
 	// ── Handle anyOf/oneOf in sub ──
 	const subBranches = subSchema.anyOf ?? subSchema.oneOf;
 	if (Array.isArray(subBranches) && subBranches.length > 0 && !subSchema.type) {
+		const keyword = subSchema.anyOf !== undefined ? "anyOf" : "oneOf";
 		const branchErrors: SchemaError[] = [];
-		for (const branch of subBranches) {
-			const errs = computeSemanticErrors(branch, sup, path);
+		for (const [i, branch] of subBranches.entries()) {
+			const errs = computeSemanticErrors(
+				branch,
+				sup,
+				childLocation(at, at.key, `/${keyword}/${i}`, ""),
+			);
 			branchErrors.push(...errs);
 		}
 		return branchErrors;
@@ -1198,9 +1750,11 @@ export function computeSemanticErrors(
 			// sub is not an object at all
 			errors.push({
 				type: SchemaErrorType.TypeMismatch,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: formatSchemaType(supSchema),
 				received: formatSchemaType(subSchema),
+				...keywordFields("type", typeValue(supSchema), typeValue(subSchema)),
+				...typePointers(at, subSchema, supSchema),
 			});
 			return errors;
 		}
@@ -1210,7 +1764,7 @@ export function computeSemanticErrors(
 			const subRequired = getRequired(subSchema);
 
 			for (const key of Object.keys(supProps)) {
-				const propPath = joinPath(path, key);
+				const location = propertyLocation(at, key);
 				const supPropDef = supProps[key];
 				const subPropDef = subProps?.[key];
 
@@ -1218,14 +1772,27 @@ export function computeSemanticErrors(
 
 				const isRequiredInSup = supRequired.includes(key);
 
+				// ── Untyped property (required in both, declared in sup only) ──
+				if (subPropDef === undefined && subRequired.includes(key)) {
+					errors.push(
+						...comparePropertySchemas({}, supPropDef, {
+							...location,
+							sub: at.sub,
+						}),
+					);
+					continue;
+				}
+
 				// ── Missing property (required in sup, absent in sub) ──
 				if (subPropDef === undefined) {
 					if (isRequiredInSup) {
 						errors.push({
 							type: SchemaErrorType.MissingProperty,
-							key: propPath,
+							key: location.key,
 							expected: formatSchemaType(supPropDef),
 							received: "undefined",
+							...keywordFields("required", key, undefined),
+							...pointers({ ...location, sub: at.sub }),
 						});
 					}
 					continue;
@@ -1235,9 +1802,15 @@ export function computeSemanticErrors(
 				if (isRequiredInSup && !subRequired.includes(key)) {
 					errors.push({
 						type: SchemaErrorType.Optionality,
-						key: propPath,
+						key: location.key,
 						expected: "not optional",
 						received: "optional",
+						...keywordFields("required", key, undefined, "optional"),
+						...pointers(
+							{ ...at, instance: location.instance },
+							setIn(subSchema, "required"),
+							"required",
+						),
 					});
 					continue;
 				}
@@ -1246,14 +1819,14 @@ export function computeSemanticErrors(
 				const propErrors = comparePropertySchemas(
 					subPropDef,
 					supPropDef,
-					propPath,
+					location,
 				);
 				errors.push(...propErrors);
 			}
 		}
 
 		// ── Object-level constraints ──
-		checkObjectConstraints(subSchema, supSchema, path, errors);
+		checkObjectConstraints(subSchema, supSchema, at, errors);
 
 		return errors;
 	}
@@ -1264,59 +1837,64 @@ export function computeSemanticErrors(
 		(subType === "array" || subSchema.items !== undefined)
 	) {
 		// Check items compatibility
-		if (supSchema.items !== undefined && typeof supSchema.items !== "boolean") {
+		if (
+			supSchema.items !== undefined &&
+			(isTupleSchema(supSchema) || isTupleSchema(subSchema))
+		) {
+			// Tuple on either side — compare item positions
+			checkTupleItems(subSchema, supSchema, at, errors);
+		} else if (
+			supSchema.items !== undefined &&
+			typeof supSchema.items !== "boolean"
+		) {
 			if (
 				subSchema.items !== undefined &&
 				typeof subSchema.items !== "boolean"
 			) {
-				// Both have items schemas — recurse
-				if (Array.isArray(supSchema.items) && Array.isArray(subSchema.items)) {
-					// Tuple comparison
-					const maxLen = Math.max(
-						supSchema.items.length,
-						subSchema.items.length,
-					);
-					for (let i = 0; i < maxLen; i++) {
-						const supItem = supSchema.items[i];
-						const subItem = subSchema.items[i];
-						const itemPath = joinPath(path, `[${i}]`);
-						if (supItem !== undefined && subItem === undefined) {
-							errors.push({
-								type: SchemaErrorType.MissingProperty,
-								key: itemPath,
-								expected: formatSchemaType(supItem),
-								received: "undefined",
-							});
-						} else if (supItem !== undefined && subItem !== undefined) {
-							errors.push(...computeSemanticErrors(subItem, supItem, itemPath));
-						}
-					}
-				} else if (
-					!Array.isArray(supSchema.items) &&
-					!Array.isArray(subSchema.items)
-				) {
-					// Single items schema — recurse with [] path
-					const itemPath = arrayPath(path);
-					const itemErrors = computeSemanticErrors(
-						subSchema.items as JSONSchema7Definition,
-						supSchema.items as JSONSchema7Definition,
-						itemPath,
-					);
-					errors.push(...itemErrors);
-				}
+				// Single items schema — recurse with [] path
+				const itemErrors = computeSemanticErrors(
+					subSchema.items as JSONSchema7Definition,
+					supSchema.items as JSONSchema7Definition,
+					childLocation(at, arrayPath(at.key), "/items", "/items", "/*"),
+				);
+				errors.push(...itemErrors);
 			} else {
 				// sup has items schema but sub doesn't
 				errors.push({
 					type: SchemaErrorType.TypeMismatch,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: formatSchemaType(supSchema),
 					received: formatSchemaType(subSchema),
+					...keywordFields(
+						"items",
+						supSchema.items,
+						subSchema.items,
+						"unconstrained",
+					),
+					...pointers(at, undefined, "items"),
 				});
 			}
 		}
 
 		// ── Array-level constraints ──
-		checkArrayConstraints(subSchema, supSchema, path, errors);
+		checkArrayConstraints(subSchema, supSchema, at, errors);
+
+		// ── Type inferred from `items` in sub, declared in sup ──
+		// Nothing else differs: the values of other types sub accepts
+		if (
+			errors.length === 0 &&
+			subSchema.type === undefined &&
+			supSchema.type !== undefined
+		) {
+			errors.push({
+				type: SchemaErrorType.TypeMismatch,
+				key: at.key || "$root",
+				expected: formatSchemaType(supSchema),
+				received: "unknown",
+				...keywordFields("type", typeValue(supSchema), undefined),
+				...typePointers(at, subSchema, supSchema),
+			});
+		}
 
 		return errors;
 	}
@@ -1326,9 +1904,11 @@ export function computeSemanticErrors(
 		if (!typesAreCompatible(subType, supType)) {
 			errors.push({
 				type: SchemaErrorType.TypeMismatch,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: formatSchemaType(supSchema),
 				received: formatSchemaType(subSchema),
+				...keywordFields("type", typeValue(supSchema), typeValue(subSchema)),
+				...typePointers(at, subSchema, supSchema),
 			});
 			return errors;
 		}
@@ -1344,9 +1924,11 @@ export function computeSemanticErrors(
 			if (subExtra.length > 0) {
 				errors.push({
 					type: SchemaErrorType.EnumMismatch,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: formatEnumValues(supSchema.enum),
 					received: formatEnumValues(subSchema.enum),
+					...keywordFields("enum", supSchema.enum, enumValue(subSchema)),
+					...enumPointers(at, subSchema),
 				});
 			}
 		} else if (hasOwn(subSchema, "const")) {
@@ -1357,18 +1939,22 @@ export function computeSemanticErrors(
 			if (!constInEnum) {
 				errors.push({
 					type: SchemaErrorType.EnumMismatch,
-					key: path || "$root",
+					key: at.key || "$root",
 					expected: formatEnumValues(supSchema.enum),
 					received: formatSchemaType(subSchema),
+					...keywordFields("enum", supSchema.enum, enumValue(subSchema)),
+					...enumPointers(at, subSchema),
 				});
 			}
 		} else {
 			// sup has enum but sub is a plain type (no enum restriction)
 			errors.push({
 				type: SchemaErrorType.EnumMismatch,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: formatEnumValues(supSchema.enum),
 				received: formatSchemaType(subSchema),
+				...keywordFields("enum", supSchema.enum, enumValue(subSchema)),
+				...enumPointers(at, subSchema),
 			});
 		}
 		return errors;
@@ -1379,9 +1965,11 @@ export function computeSemanticErrors(
 		if (!deepEqual(supSchema.const, subSchema.const)) {
 			errors.push({
 				type: SchemaErrorType.EnumMismatch,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: formatSchemaType(supSchema),
 				received: formatSchemaType(subSchema),
+				...keywordFields("const", supSchema.const, subSchema.const),
+				...pointers(at, "const", "const"),
 			});
 		}
 		return errors;
@@ -1396,7 +1984,7 @@ export function computeSemanticErrors(
 		hasNumericKeywords(supSchema) ||
 		hasNumericKeywords(subSchema)
 	) {
-		checkNumericConstraints(subSchema, supSchema, path, errors);
+		checkNumericConstraints(subSchema, supSchema, at, errors);
 	}
 
 	if (
@@ -1405,7 +1993,7 @@ export function computeSemanticErrors(
 		hasStringKeywords(supSchema) ||
 		hasStringKeywords(subSchema)
 	) {
-		checkStringConstraints(subSchema, supSchema, path, errors);
+		checkStringConstraints(subSchema, supSchema, at, errors);
 	}
 
 	// Object-level constraints when sup doesn't have explicit properties
@@ -1416,7 +2004,7 @@ export function computeSemanticErrors(
 		hasObjectKeywords(supSchema) ||
 		hasObjectKeywords(subSchema)
 	) {
-		checkObjectConstraints(subSchema, supSchema, path, errors);
+		checkObjectConstraints(subSchema, supSchema, at, errors);
 	}
 
 	// Array-level constraints when sup doesn't have explicit items
@@ -1427,7 +2015,7 @@ export function computeSemanticErrors(
 		hasArrayKeywords(supSchema) ||
 		hasArrayKeywords(subSchema)
 	) {
-		checkArrayConstraints(subSchema, supSchema, path, errors);
+		checkArrayConstraints(subSchema, supSchema, at, errors);
 	}
 
 	if (errors.length > 0) {
@@ -1468,12 +2056,29 @@ export function computeSemanticErrors(
 				(subEffective === "integer" || supEffective === "integer"));
 
 		if (!isFormattingCosmetic) {
-			errors.push({
-				type: SchemaErrorType.TypeMismatch,
-				key: path || "$root",
-				expected: expectedStr,
-				received: receivedStr,
-			});
+			errors.push(
+				hasOwn(supSchema, "const") || Array.isArray(supSchema.enum)
+					? {
+							// sup was formatted from its values: they are what sub misses
+							type: SchemaErrorType.EnumMismatch,
+							key: at.key || "$root",
+							expected: expectedStr,
+							received: receivedStr,
+							...valueMismatchFields(at, subSchema, supSchema),
+						}
+					: {
+							type: SchemaErrorType.TypeMismatch,
+							key: at.key || "$root",
+							expected: expectedStr,
+							received: receivedStr,
+							...keywordFields(
+								"type",
+								typeValue(supSchema),
+								typeValue(subSchema),
+							),
+							...typePointers(at, subSchema, supSchema),
+						},
+			);
 		}
 	}
 
@@ -1489,16 +2094,18 @@ export function computeSemanticErrors(
 function comparePropertySchemas(
 	subDef: JSONSchema7Definition,
 	supDef: JSONSchema7Definition,
-	path: string,
+	at: ErrorLocation,
 ): SchemaError[] {
 	if (typeof subDef === "boolean" || typeof supDef === "boolean") {
 		if (subDef !== supDef) {
 			return [
 				{
 					type: SchemaErrorType.TypeMismatch,
-					key: path,
+					key: at.key,
 					expected: formatSchemaType(supDef),
 					received: formatSchemaType(subDef),
+					...keywordFields("type", typeValue(supDef), typeValue(subDef)),
+					...pointers(at),
 				},
 			];
 		}
@@ -1521,9 +2128,11 @@ function comparePropertySchemas(
 				return [
 					{
 						type: SchemaErrorType.EnumMismatch,
-						key: path,
+						key: at.key,
 						expected: formatEnumValues(supSchema.enum),
 						received: formatEnumValues(subSchema.enum),
+						...keywordFields("enum", supSchema.enum, enumValue(subSchema)),
+						...enumPointers(at, subSchema),
 					},
 				];
 			}
@@ -1537,9 +2146,11 @@ function comparePropertySchemas(
 				return [
 					{
 						type: SchemaErrorType.EnumMismatch,
-						key: path,
+						key: at.key,
 						expected: formatEnumValues(supSchema.enum),
 						received: formatSchemaType(subSchema),
+						...keywordFields("enum", supSchema.enum, enumValue(subSchema)),
+						...enumPointers(at, subSchema),
 					},
 				];
 			}
@@ -1549,9 +2160,11 @@ function comparePropertySchemas(
 		return [
 			{
 				type: SchemaErrorType.EnumMismatch,
-				key: path,
+				key: at.key,
 				expected: formatEnumValues(supSchema.enum),
 				received: formatSchemaType(subSchema),
+				...keywordFields("enum", supSchema.enum, enumValue(subSchema)),
+				...enumPointers(at, subSchema),
 			},
 		];
 	}
@@ -1562,9 +2175,11 @@ function comparePropertySchemas(
 			return [
 				{
 					type: SchemaErrorType.EnumMismatch,
-					key: path,
+					key: at.key,
 					expected: formatSchemaType(supSchema),
 					received: formatSchemaType(subSchema),
+					...keywordFields("const", supSchema.const, subSchema.const),
+					...pointers(at, "const", "const"),
 				},
 			];
 		}
@@ -1577,16 +2192,18 @@ function comparePropertySchemas(
 			return [
 				{
 					type: SchemaErrorType.TypeMismatch,
-					key: path,
+					key: at.key,
 					expected: formatSchemaType(supSchema),
 					received: formatSchemaType(subSchema),
+					...keywordFields("type", typeValue(supSchema), typeValue(subSchema)),
+					...typePointers(at, subSchema, supSchema),
 				},
 			];
 		}
 	}
 
 	// ── If same types, recurse deeper ──
-	return computeSemanticErrors(subDef, supDef, path);
+	return computeSemanticErrors(subDef, supDef, at);
 }
 
 // ─── Branch Error Computation ────────────────────────────────────────────────
@@ -1601,12 +2218,17 @@ function comparePropertySchemas(
 function computeErrorsAgainstBranches(
 	sub: JSONSchema7,
 	branches: JSONSchema7Definition[],
-	path: string,
+	at: ErrorLocation,
+	keyword: "anyOf" | "oneOf",
 ): SchemaError[] {
 	let bestErrors: SchemaError[] | null = null;
 
-	for (const branch of branches) {
-		const errors = computeSemanticErrors(sub, branch, path);
+	for (const [i, branch] of branches.entries()) {
+		const errors = computeSemanticErrors(
+			sub,
+			branch,
+			childLocation(at, at.key, "", `/${keyword}/${i}`),
+		);
 		if (errors.length === 0) return [];
 		if (bestErrors === null || errors.length < bestErrors.length) {
 			bestErrors = errors;
@@ -1617,10 +2239,71 @@ function computeErrorsAgainstBranches(
 		bestErrors ?? [
 			{
 				type: SchemaErrorType.BranchMismatch,
-				key: path || "$root",
+				key: at.key || "$root",
 				expected: formatSchemaType({ anyOf: branches } as JSONSchema7),
 				received: formatSchemaType(sub),
+				...keywordFields(keyword, branches, undefined),
+				...pointers(at, undefined, keyword),
 			},
 		]
 	);
 }
+
+// ─── allOf Attribution ───────────────────────────────────────────────────────
+
+/**
+ * Points the errors of a flattened `allOf` sub (see `flattenAllOf`) to the
+ * member that introduced the offending constraint:
+ * `maxLength` → `allOf[1]`, `user.name` → `allOf[0].user.name`.
+ *
+ * An error is attributed to the first member whose own comparison with sup
+ * reports it. Errors reported by every member — typically a constraint
+ * none of them sets — keep their path.
+ */
+export function attributeAllOfErrors(
+	errors: SchemaError[],
+	members: JSONSchema7Definition[],
+	sup: JSONSchema7Definition,
+): SchemaError[] {
+	if (errors.length === 0 || members.length < 2) return errors;
+	const memberErrors = members.map((member) =>
+		computeSemanticErrors(normalize(member), sup),
+	);
+
+	return errors.map((error) => {
+		const reporting = memberErrors.map((list) =>
+			list.find((e) => sameError(e, error)),
+		);
+		const index = reporting.findIndex((e) => e !== undefined);
+		const found = reporting[index];
+		if (found === undefined || reporting.every(Boolean)) return error;
+
+		const member = `allOf[${index}]`;
+		const key =
+			error.key === "$root"
+				? member
+				: error.key.startsWith("[]")
+					? `${member}${error.key}`
+					: joinPath(member, error.key);
+		return {
+			...error,
+			key,
+			subSchemaPath: `/allOf/${index}${found.subSchemaPath ?? ""}`,
+		};
+	});
+}
+
+/**
+ * Same error on another sub: the sub pointer differs between the flattened
+ * sub and the member.
+ */
+function sameError(a: SchemaError, b: SchemaError): boolean {
+	return (
+		a.type === b.type &&
+		a.key === b.key &&
+		a.expected === b.expected &&
+		a.received === b.received &&
+		a.supSchemaPath === b.supSchemaPath &&
+		a.instancePath === b.instancePath
+	);
+}
@@ -1,10 +1,42 @@
 import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import { errorCode } from "./error-codes.ts";
 import { isFormatSubset } from "./format-validator.ts";
 import type { MergeEngine } from "./merge-engine.ts";
 import { normalize } from "./normalizer.ts";
-import { isPatternSubset } from "./pattern-subset.ts";
-import { computeSemanticErrors } from "./semantic-errors.ts";
-import type { SchemaError, SubsetResult } from "./types.ts";
+import {
+	isEmptyInterval,
+	lowerBoundImplies,
+	numericInterval,
+	numericStep,
+	upperBoundImplies,
+} from "./numeric-interval.ts";
+import {
+	arePatternsDisjoint,
+	isPatternSubset,
+	matchesPattern,
+} from "./pattern-subset.ts";
+import { isMultipleOf } from "./rational.ts";
+import {
+	containsRecursiveRef,
+	escapePointer,
+	unfoldRecursiveRef,
+} from "./ref-resolver.ts";
+import { isDataValidForSchema } from "./runtime-validator.ts";
+import {
+	computeSemanticErrors,
+	type ErrorLocation,
+	ROOT_LOCATION,
+} from "./semantic-errors.ts";
+import {
+	effectiveMaxItems,
+	isTupleSchema,
+	itemPositions,
+} from "./tuple-items.ts";
+import {
+	type SchemaError,
+	SchemaErrorType,
+	type SubsetResult,
+} from "./types.ts";
 import {
 	deepEqual,
 	hasOwn,
@@ -29,6 +61,7 @@ import {
 //     - not with anyOf/oneOf (1.2)
 //     - not in sub (1.3)
 //     - not.format (format-vs-format)
+//   - Recursive `$ref` placeholders, checked coinductively
 //
 // Uses shared native helpers from `./utils` for optimal performance
 // (deepEqual, hasOwn, isPlainObj, omitKeys).
@@ -41,10 +74,11 @@ import {
  * Point 6 — Distinguishes `anyOf` from `oneOf` to produce more precise
  * diff messages. `"none"` indicates an atomic schema (no branches).
  *
- * Note: the exclusivity semantics of `oneOf` are not verified
+ * Note: the exclusivity semantics of `oneOf` are not verified by default
  * (this would be an NP-hard problem in general). The checker treats `oneOf`
  * like `anyOf` for subset checking, which is correct for the `sub ⊆ sup`
- * case but may produce false positives if the sub's branches overlap.
+ * case but may produce false positives if the sup's branches overlap.
+ * The `strictOneOf` option rejects such overlaps (`findOneOfOverlaps`).
  */
 export type BranchType = "anyOf" | "oneOf" | "none";
 
@@ -101,6 +135,490 @@ export function getBranchesTyped(def: JSONSchema7Definition): BranchResult {
 	return cached;
 }
 
+// ─── allOf decomposition (sub) ───────────────────────────────────────────────
+
+/**
+ * Maximum number of conjunctions produced when distributing `allOf` over
+ * `anyOf` / `oneOf` — beyond that, the sub is left as is and compared
+ * through its members (`checkUndecomposedAllOf`).
+ */
+const MAX_ALL_OF_BRANCHES = 64;
+
+/**
+ * Flattens an `allOf` of sub into an atomic schema, or into an `anyOf`
+ * in disjunctive normal form when its members contain `anyOf` / `oneOf`:
+ *
+ *   `allOf: [A, anyOf: [B, C]]` → `anyOf: [A ∩ B, A ∩ C]`
+ *
+ * Empty conjunctions are dropped (an `allOf` without any value becomes
+ * `false`). `oneOf` members are distributed like `anyOf` — a superset of
+ * their values, which keeps `sub ⊆ sup` sound.
+ *
+ * The `allOf`s of `properties`, single-schema `items` and `anyOf` /
+ * `oneOf` members are flattened first, the same way.
+ *
+ * Only meant for the sub side: the merge engine already resolves `allOf`
+ * when intersecting with sup.
+ *
+ * @returns The flattened schema — a root `allOf` too large to decompose
+ *          is kept — or `def` itself when it holds no `allOf`
+ */
+export function flattenAllOf(
+	def: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition {
+	if (typeof def === "boolean") return def;
+	const cached = allOfCache.get(def);
+	if (cached !== undefined) return cached;
+
+	let nested: JSONSchema7 = def;
+	const ensureCopy = (): JSONSchema7 => {
+		if (nested === def) nested = { ...def };
+		return nested;
+	};
+
+	// ── Nested allOf ──
+	if (isPlainObj(def.properties)) {
+		const props = def.properties as Record<string, JSONSchema7Definition>;
+		let newProps: Record<string, JSONSchema7Definition> | undefined;
+		for (const [key, prop] of Object.entries(props)) {
+			const flat = flattenAllOf(prop, engine);
+			if (flat !== prop) {
+				if (!newProps) newProps = { ...props };
+				newProps[key] = flat;
+			}
+		}
+		if (newProps) ensureCopy().properties = newProps;
+	}
+	if (isPlainObj(def.items)) {
+		const items = def.items as JSONSchema7Definition;
+		const flat = flattenAllOf(items, engine);
+		if (flat !== items) ensureCopy().items = flat;
+	}
+	for (const keyword of ["anyOf", "oneOf"] as const) {
+		const members = def[keyword];
+		if (!Array.isArray(members)) continue;
+		const flat = members.map((member) => flattenAllOf(member, engine));
+		if (flat.some((member, i) => member !== members[i])) {
+			ensureCopy()[keyword] = flat;
+		}
+	}
+
+	// ── Root allOf ──
+	let result: JSONSchema7Definition = nested;
+	if (Array.isArray(nested.allOf)) {
+		const conjunctions = disjunctiveForm(nested, engine);
+		if (conjunctions !== null) {
+			result =
+				conjunctions.length === 0
+					? false
+					: normalize(
+							conjunctions.length === 1
+								? (conjunctions[0] as JSONSchema7Definition)
+								: { anyOf: conjunctions },
+						);
+		}
+	}
+	allOfCache.set(def, result);
+	return result;
+}
+
+const allOfCache = new WeakMap<object, JSONSchema7Definition>();
+
+/**
+ * Checks `sub ⊆ sup` for a sub whose root `allOf` — or that of one of its
+ * `anyOf` / `oneOf` branches, such as the cases of a condition —
+ * `flattenAllOf` left as is (beyond `MAX_ALL_OF_BRANCHES`). Each such
+ * `allOf` is compared through its members (`isIncludedThroughMembers`),
+ * the other branches as usual. An `allOf` nothing is proven for is
+ * reported as an abandoned decomposition.
+ *
+ * @returns The result, or `null` when sub has no undecomposed `allOf`
+ */
+export function checkUndecomposedAllOf(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): SubsetResult | null {
+	const { branches, type } = getBranchesTyped(sub);
+	if (!branches.some(hasRootAllOf)) return null;
+
+	let isSubset = true;
+	const errors: SchemaError[] = [];
+	branches.forEach((branch, i) => {
+		const location = type === "none" ? "" : `/${type}/${i}`;
+		if (hasRootAllOf(branch)) {
+			if (isIncludedThroughMembers(branch, sup, engine)) return;
+			isSubset = false;
+			errors.push({
+				type: SchemaErrorType.BranchMismatch,
+				key: "$root",
+				expected: `at most ${MAX_ALL_OF_BRANCHES} allOf branches`,
+				received: "allOf decomposition abandoned",
+				code: errorCode("allOf", "too_large"),
+				keyword: "allOf",
+				expectedValue: MAX_ALL_OF_BRANCHES,
+				receivedValue: branch.allOf.length,
+				subSchemaPath: `${location}/allOf`,
+				supSchemaPath: "",
+				instancePath: "",
+			});
+		} else if (!isAtomicSubsetOf(branch, sup, engine)) {
+			isSubset = false;
+			errors.push(
+				...computeSemanticErrors(branch, sup, {
+					...ROOT_LOCATION,
+					sub: location,
+				}),
+			);
+		}
+	});
+
+	return isSubset
+		? { isSubset: true, merged: sub, errors: [] }
+		: { isSubset: false, merged: null, errors };
+}
+
+/** Whether a schema still holds a root `allOf`. */
+function hasRootAllOf(
+	def: JSONSchema7Definition,
+): def is JSONSchema7 & { allOf: JSONSchema7Definition[] } {
+	return typeof def !== "boolean" && Array.isArray(def.allOf);
+}
+
+/**
+ * Whether a sub with an undecomposed root `allOf` is proven included in
+ * sup: it is included in its non-branching part (its keywords outside
+ * `allOf` merged with the members without `anyOf` / `oneOf`) and in each
+ * branching member, so one of them included in sup is enough.
+ */
+function isIncludedThroughMembers(
+	sub: JSONSchema7 & { allOf: JSONSchema7Definition[] },
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): boolean {
+	let core: JSONSchema7Definition | null = omitKeys(
+		sub as JSONSchema7 as Record<string, unknown>,
+		["allOf"],
+	) as JSONSchema7;
+	const branching: JSONSchema7Definition[] = [];
+	for (const member of sub.allOf) {
+		const flat = flattenAllOf(member, engine);
+		if (getBranchesTyped(flat).type === "none") {
+			core = core === null ? null : engine.merge(core, flat);
+		} else {
+			branching.push(flat);
+		}
+	}
+	// No value satisfies the non-branching part
+	if (core === null) return true;
+
+	return [core, ...branching].some((part) =>
+		getBranchesTyped(part).branches.every((branch) =>
+			isAtomicSubsetOf(branch, sup, engine),
+		),
+	);
+}
+
+/**
+ * Conjunctions (schemas without `allOf` / `anyOf` / `oneOf` at the root)
+ * whose union is `def`, or `null` beyond `MAX_ALL_OF_BRANCHES`.
+ */
+function disjunctiveForm(
+	def: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition[] | null {
+	if (typeof def === "boolean") return def ? [true] : [];
+
+	// Each factor is a disjunction; the schema is their conjunction
+	const factors: JSONSchema7Definition[][] = [
+		[omitKeys(def as Record<string, unknown>, ["allOf", "anyOf", "oneOf"])],
+	];
+	for (const keyword of ["anyOf", "oneOf"] as const) {
+		const branches = def[keyword];
+		if (!Array.isArray(branches)) continue;
+		const factor: JSONSchema7Definition[] = [];
+		for (const branch of branches) {
+			const disjuncts = disjunctiveForm(branch, engine);
+			if (disjuncts === null) return null;
+			factor.push(...disjuncts);
+		}
+		factors.push(factor);
+	}
+	for (const member of def.allOf ?? []) {
+		const disjuncts = disjunctiveForm(member, engine);
+		if (disjuncts === null) return null;
+		factors.push(disjuncts);
+	}
+
+	// ── Distribute: one merge per combination, empty ones dropped ──
+	let conjunctions: JSONSchema7Definition[] = [true];
+	for (const factor of factors) {
+		if (conjunctions.length * factor.length > MAX_ALL_OF_BRANCHES) {
+			return null;
+		}
+		const next: JSONSchema7Definition[] = [];
+		for (const conjunction of conjunctions) {
+			for (const disjunct of factor) {
+				const merged = engine.merge(conjunction, disjunct);
+				if (merged !== null && merged !== false) next.push(merged);
+			}
+		}
+		conjunctions = next;
+	}
+	return conjunctions;
+}
+
+// ─── Conditional decomposition (if/then/else) ────────────────────────────────
+//
+// Without runtime data, `if/then/else` is split into its two cases:
+//
+//   `{ ...rest, if: I, then: T, else: E }` → `anyOf: [rest ∩ I ∩ T, rest ∩ ¬I ∩ E]`
+//
+// so that the branching logic compares conditional schemas case by case.
+// A case `rest` cannot reach is dropped: `rest ∩ I` when the merge fails or
+// `evaluateNot` proves `rest` disjoint from `I`, `rest ∩ ¬I` when `rest` is
+// included in `I`.
+//
+// `splitByCondition` cuts sub along the root `if` of sup the same way, so
+// that a sub spanning both cases is compared with each of them.
+
+/**
+ * Rewrites every `if/then/else` of a schema — at the root, in `properties`,
+ * single-schema `items` and `allOf` / `anyOf` / `oneOf` members — into the
+ * `anyOf` of its reachable cases.
+ *
+ * @returns The rewritten schema, or `def` itself when it has no condition
+ */
+export function expandConditions(
+	def: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition {
+	if (typeof def === "boolean") return def;
+	const cached = conditionCache.get(def);
+	if (cached !== undefined) return cached;
+
+	let result: JSONSchema7 = def;
+	const ensureCopy = (): JSONSchema7 => {
+		if (result === def) result = { ...def };
+		return result;
+	};
+
+	// ── Nested conditions ──
+	if (isPlainObj(def.properties)) {
+		const props = def.properties as Record<string, JSONSchema7Definition>;
+		let newProps: Record<string, JSONSchema7Definition> | undefined;
+		for (const [key, prop] of Object.entries(props)) {
+			const expanded = expandConditions(prop, engine);
+			if (expanded !== prop) {
+				if (!newProps) newProps = { ...props };
+				newProps[key] = expanded;
+			}
+		}
+		if (newProps) ensureCopy().properties = newProps;
+	}
+	if (isPlainObj(def.items)) {
+		const items = def.items as JSONSchema7Definition;
+		const expanded = expandConditions(items, engine);
+		if (expanded !== items) ensureCopy().items = expanded;
+	}
+	for (const keyword of ["allOf", "anyOf", "oneOf"] as const) {
+		const members = def[keyword];
+		if (!Array.isArray(members)) continue;
+		const expanded = members.map((member) => expandConditions(member, engine));
+		if (expanded.some((member, i) => member !== members[i])) {
+			ensureCopy()[keyword] = expanded;
+		}
+	}
+
+	// ── Root condition ──
+	let expandedDef: JSONSchema7Definition = result;
+	if (def.if !== undefined) {
+		const rest = omitKeys(result as Record<string, unknown>, [
+			"if",
+			"then",
+			"else",
+		]) as JSONSchema7;
+		expandedDef =
+			def.then === undefined && def.else === undefined
+				? rest
+				: conditionalCases(
+						rest,
+						expandConditions(def.if, engine),
+						expandConditions(def.then ?? true, engine),
+						expandConditions(def.else ?? true, engine),
+						engine,
+					);
+	}
+
+	conditionCache.set(def, expandedDef);
+	return expandedDef;
+}
+
+const conditionCache = new WeakMap<object, JSONSchema7Definition>();
+
+/**
+ * Cuts `sub` along the root `if` of `sup` when sub reaches both of its
+ * cases: `anyOf: [sub ∩ I, sub ∩ ¬I]`. A sub disjoint from `I` becomes
+ * `sub ∩ ¬I`, which the else case of sup can accept.
+ *
+ * @returns The split sub, or `sub` itself when sup has no root condition
+ *          or sub lies in the if case
+ */
+export function splitByCondition(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition {
+	if (typeof sub === "boolean" || typeof sup === "boolean") return sub;
+	if (sup.if === undefined || typeof sup.if === "boolean") return sub;
+	if (sup.then === undefined && sup.else === undefined) return sub;
+
+	const { branches } = getBranchesTyped(sub);
+	const cases: JSONSchema7Definition[] = [];
+	let changed = false;
+	for (const branch of branches) {
+		if (typeof branch === "boolean") return sub;
+		const split = conditionalCases(branch, sup.if, true, true, engine);
+		const { branches: splitBranches } = getBranchesTyped(split);
+		if (splitBranches.length > 1) {
+			cases.push(...splitBranches);
+			changed = true;
+		} else if (split !== false && isDisjointFromIf(branch, sup.if, engine)) {
+			// The if case is pruned: the branch is its else case, whose
+			// `not: if` matches the else case of sup
+			cases.push(split);
+			changed = true;
+		} else {
+			cases.push(branch);
+		}
+	}
+	if (!changed) return sub;
+	return cases.length === 1
+		? (cases[0] as JSONSchema7Definition)
+		: normalize({ anyOf: cases });
+}
+
+/**
+ * Whether no value of `schema` matches `ifSchema`: both only admit
+ * objects, and a property present in all of them (required by either
+ * side) has schemas whose merge fails.
+ */
+function isDisjointFromIf(
+	schema: JSONSchema7,
+	ifSchema: JSONSchema7,
+	engine: MergeEngine,
+): boolean {
+	if (schema.type !== "object" && ifSchema.type !== "object") return false;
+	if (!isPlainObj(schema.properties) || !isPlainObj(ifSchema.properties)) {
+		return false;
+	}
+	const subProps = schema.properties as Record<string, JSONSchema7Definition>;
+	const ifProps = ifSchema.properties as Record<string, JSONSchema7Definition>;
+	const required = new Set([
+		...(ifSchema.required ?? []),
+		...(schema.required ?? []),
+	]);
+	return [...required].some((key) => {
+		if (!hasOwn(subProps, key) || !hasOwn(ifProps, key)) return false;
+		const subProp = subProps[key] as JSONSchema7Definition;
+		const ifProp = ifProps[key] as JSONSchema7Definition;
+		if (subProp === false || ifProp === false) return true;
+		return engine.merge(subProp, ifProp) === null;
+	});
+}
+
+/**
+ * Reachable cases of `rest` under a condition, as one normalized schema:
+ * `rest ∩ ifSchema ∩ thenSchema` and `rest ∩ ¬ifSchema ∩ elseSchema`.
+ */
+function conditionalCases(
+	rest: JSONSchema7,
+	ifSchema: JSONSchema7Definition,
+	thenSchema: JSONSchema7Definition,
+	elseSchema: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition {
+	if (typeof ifSchema === "boolean") {
+		return engine.merge(rest, ifSchema ? thenSchema : elseSchema) ?? false;
+	}
+
+	// `true`: rest is disjoint from if, `false`: rest is included in it
+	const reach = conditionReach(rest, ifSchema, engine);
+	const cases: JSONSchema7Definition[] = [];
+	if (reach !== true) {
+		const withIf = engine.merge(rest, ifSchema);
+		const thenCase = withIf === null ? null : engine.merge(withIf, thenSchema);
+		if (thenCase !== null && thenCase !== false) cases.push(thenCase);
+	}
+	if (reach !== false) {
+		const withElse = engine.merge(rest, elseSchema);
+		const elseCase =
+			withElse === null ? null : engine.merge(withElse, { not: ifSchema });
+		if (elseCase !== null && elseCase !== false) cases.push(elseCase);
+	}
+
+	if (cases.length === 0) return false;
+	return normalize(
+		cases.length === 1 ? (cases[0] as JSONSchema7Definition) : { anyOf: cases },
+	);
+}
+
+/**
+ * Whether `rest` is disjoint from `ifSchema` (`true`) or included in it
+ * (`false`) — only when proven, `null` otherwise: a case is pruned on
+ * this answer, so an approximation would drop values of `rest`.
+ */
+function conditionReach(
+	rest: JSONSchema7,
+	ifSchema: JSONSchema7,
+	engine: MergeEngine,
+): boolean | null {
+	if (engine.merge(rest, ifSchema) === null) return true;
+	if (isDisjointFromIf(rest, ifSchema, engine)) return true;
+	const restType = rest.type;
+	const ifType = ifSchema.type;
+	if (
+		restType !== undefined &&
+		ifType !== undefined &&
+		!typeListsOverlap(restType, ifType)
+	) {
+		return true;
+	}
+
+	// A finite rest is decided value by value
+	const values = hasOwn(rest, "const")
+		? [rest.const]
+		: Array.isArray(rest.enum)
+			? rest.enum
+			: null;
+	if (values !== null) {
+		const matching = values.filter((value) =>
+			isDataValidForSchema(ifSchema, value),
+		).length;
+		if (matching === 0) return true;
+		if (matching === values.length) return false;
+		return null;
+	}
+
+	return isAtomicSubsetOf(rest, ifSchema, engine) ? false : null;
+}
+
+/** Whether two `type` values admit a common type — integers are numbers. */
+function typeListsOverlap(
+	a: JSONSchema7["type"] & {},
+	b: JSONSchema7["type"] & {},
+): boolean {
+	const aTypes = Array.isArray(a) ? a : [a];
+	const bTypes = Array.isArray(b) ? b : [b];
+	return aTypes.some(
+		(type) =>
+			bTypes.includes(type) ||
+			(type === "integer" && bTypes.includes("number")) ||
+			(type === "number" && bTypes.includes("integer")),
+	);
+}
+
 // ─── `not` reasoning (Point 7 — extended) ────────────────────────────────────
 
 /**
@@ -129,7 +647,7 @@ export function getBranchesTyped(def: JSONSchema7Definition): BranchResult {
  *
  * When in doubt → `null`. NEVER return `true` without certainty.
  */
-function evaluateNot(
+export function evaluateNot(
 	sub: JSONSchema7Definition,
 	sup: JSONSchema7Definition,
 ): boolean | null {
@@ -147,7 +665,7 @@ function evaluateNot(
 	if (hasOwn(sup, "not") && isPlainObj(sup.not)) {
 		const notSchema = sup.not as JSONSchema7;
 
-		// ── 1.1 — Case not with properties + required ──
+		// ── 1.1 — Case not with properties (+ required) ──
 		// IMPORTANT: this check is placed BEFORE the not.type check because when
 		// the not has both `type` and `properties`, the not.type check alone
 		// would produce a false negative (e.g. sub type=object and not type=object
@@ -155,12 +673,14 @@ function evaluateNot(
 		// which would make sub compatible with the not).
 		// If not contains properties with const/enum and required,
 		// verify that sub's properties are incompatible with the not's properties.
-		if (isPlainObj(notSchema.properties) && Array.isArray(notSchema.required)) {
+		if (isPlainObj(notSchema.properties)) {
 			const notProps = notSchema.properties as Record<
 				string,
 				JSONSchema7Definition
 			>;
-			const notRequired = notSchema.required as string[];
+			const notRequired = Array.isArray(notSchema.required)
+				? (notSchema.required as string[])
+				: [];
 
 			// sub must have properties for us to compare
 			if (isPlainObj(sub.properties)) {
@@ -194,6 +714,11 @@ function evaluateNot(
 
 					// Compare the const/enum of the property
 					if (!hasOwn(subProps, key)) return false;
+					// A value without the key matches the not whatever the
+					// property says: only a key sub requires can disagree
+					if (!notRequired.includes(key) && !subRequired.includes(key)) {
+						return false;
+					}
 					const subPropDef = subProps[key];
 					if (typeof subPropDef === "boolean") return false;
 					const subProp = subPropDef as JSONSchema7;
@@ -326,29 +851,27 @@ function evaluateNot(
 		// short-circuiting cases where the not has more specific constraints.
 		// The type check alone is a fallback for simple not schemas
 		// (e.g. { not: { type: "string" } }).
-		if (hasOwn(notSchema, "type") && hasOwn(sub, "type")) {
-			const notType = notSchema.type;
+		if (
+			notSchema.type !== undefined &&
+			sub.type !== undefined &&
+			typeof sub.type === "string"
+		) {
+			const notTypes = Array.isArray(notSchema.type)
+				? notSchema.type
+				: [notSchema.type];
 			const subType = sub.type;
 
-			// If both are simple strings
-			if (typeof notType === "string" && typeof subType === "string") {
-				// Only return if the not does NOT have more specific constraints
-				// (const, enum, properties) that should have been handled above
-				if (
-					!hasOwn(notSchema, "const") &&
-					!hasOwn(notSchema, "enum") &&
-					!isPlainObj(notSchema.properties)
-				) {
-					if (subType === notType) return false; // Incompatible: sub is exactly the excluded type
-					return true; // Compatible: sub is a different type from the excluded type
-				}
-			}
-
-			// If notType is an array, sub.type must not be in it
-			if (Array.isArray(notType) && typeof subType === "string") {
-				if (notType.includes(subType)) return false;
-				return true;
-			}
+			// Compatible: no value of sub has an excluded type — whatever
+			// the other keywords of the not (integers are numbers)
+			if (!typeListsOverlap(subType, notTypes)) return true;
+
+			// Incompatible: every value of sub has an excluded type, and the
+			// not constrains nothing but the type
+			const covered =
+				notTypes.includes(subType) ||
+				(subType === "integer" && notTypes.includes("number"));
+			const onlyType = Object.keys(notSchema).every((key) => key === "type");
+			if (covered && onlyType) return false;
 		}
 
 		// ── 1.2 — Case not with anyOf / oneOf ──
@@ -629,11 +1152,14 @@ function stripPatternFromSup(
 }
 
 /**
- * Strips redundant numeric bounds from `sup` when `sub` already has a stricter
- * exclusive bound that implies the inclusive bound.
+ * Strips numeric bounds from `sup` when the bounds of `sub` already imply
+ * them, whatever keywords spell them (see `numeric-interval.ts`),
+ * `multipleOf` when the step of `sub` is a multiple of it, and `maxItems`
+ * when the arrays of `sub` are no longer (`effectiveMaxItems`).
  *
- * For example, if sub has `exclusiveMinimum: 5` and sup has `minimum: 5`,
- * the sup's `minimum` is redundant because `x > 5` ⊂ `x ≥ 5`.
+ * For example, if sub has `exclusiveMinimum: 5` and sup has `minimum: 0`,
+ * the sup's `minimum` is redundant because `x > 5` ⊂ `x ≥ 0` — but the
+ * merge would add it to sub, making `merged ≠ sub` structurally.
  */
 function stripRedundantBoundsFromSup(
 	sub: JSONSchema7Definition,
@@ -643,44 +1169,42 @@ function stripRedundantBoundsFromSup(
 
 	const keysToStrip: string[] = [];
 
-	// sub.exclusiveMinimum >= sup.minimum → sup.minimum is redundant
+	const step = numericStep(sub);
+	const subInterval = numericInterval(sub, step);
+	const supInterval = numericInterval(sup, step);
+
 	if (
-		sup.minimum !== undefined &&
-		sub.minimum === undefined &&
-		sub.exclusiveMinimum !== undefined &&
-		sub.exclusiveMinimum >= sup.minimum
+		supInterval.lower !== null &&
+		lowerBoundImplies(subInterval.lower, supInterval.lower)
 	) {
-		keysToStrip.push("minimum");
+		keysToStrip.push("minimum", "exclusiveMinimum");
 	}
-
-	// sub.exclusiveMaximum <= sup.maximum → sup.maximum is redundant
 	if (
-		sup.maximum !== undefined &&
-		sub.maximum === undefined &&
-		sub.exclusiveMaximum !== undefined &&
-		sub.exclusiveMaximum <= sup.maximum
+		supInterval.upper !== null &&
+		upperBoundImplies(subInterval.upper, supInterval.upper)
 	) {
-		keysToStrip.push("maximum");
+		keysToStrip.push("maximum", "exclusiveMaximum");
 	}
 
-	// sub.minimum > sup.exclusiveMinimum → sup.exclusiveMinimum is redundant
+	// sub's numbers are multiples of sup.multipleOf (integers ⊆ multipleOf 0.5)
 	if (
-		sup.exclusiveMinimum !== undefined &&
-		sub.exclusiveMinimum === undefined &&
-		sub.minimum !== undefined &&
-		sub.minimum > sup.exclusiveMinimum
+		typeof sup.multipleOf === "number" &&
+		step !== null &&
+		step !== sup.multipleOf &&
+		isMultipleOf(step, sup.multipleOf)
 	) {
-		keysToStrip.push("exclusiveMinimum");
+		keysToStrip.push("multipleOf");
 	}
 
-	// sub.maximum < sup.exclusiveMaximum → sup.exclusiveMaximum is redundant
+	// sub's arrays are no longer than sup.maxItems — a closed tuple bounds
+	// them without `maxItems`
+	const subMaxItems = effectiveMaxItems(sub);
 	if (
-		sup.exclusiveMaximum !== undefined &&
-		sub.exclusiveMaximum === undefined &&
-		sub.maximum !== undefined &&
-		sub.maximum < sup.exclusiveMaximum
+		sup.maxItems !== undefined &&
+		subMaxItems !== undefined &&
+		subMaxItems <= sup.maxItems
 	) {
-		keysToStrip.push("exclusiveMaximum");
+		keysToStrip.push("maxItems");
 	}
 
 	// ── Top-level stripping ────────────────────────────────────
@@ -865,121 +1389,454 @@ function stripDependenciesFromSup(
 	]) as JSONSchema7;
 }
 
-// ─── Vacuous false-property stripping ────────────────────────────────────────
-//
-// In JSON Schema, `properties: { x: false }` means "if x is present, it must
-// validate against `false` (impossible)". If x is **absent** from the instance,
-// the constraint is **trivially satisfied** (vacuous truth).
+// ─── patternProperties stripping ─────────────────────────────────────────────
 //
-// After merge(sub, sup), the merge engine may add `false`-schema properties
-// from sup into the merged result even when sub doesn't define those properties.
-// This causes `deepEqual(merged, sub)` to fail — a false negative.
+// The merge engine intersects `patternProperties` by pattern string, so a
+// sub listing the names a sup pattern covers (`{ properties: { x_a } }` vs
+// `{ patternProperties: { "^x_": … } }`) never merges back into itself.
 //
-// `stripVacuousFalseProperties` removes those vacuously-satisfied `false`
-// properties from `merged` so that the structural comparison succeeds.
+// `stripPatternPropertiesFromSup` reasons about property keys instead:
+//   - a sup pattern is implied when every key of sub it matches — named
+//     properties, sub patterns it may overlap, and otherwise
+//     `additionalProperties` — has a schema included in the pattern's
+//   - sup `additionalProperties` is implied when every key of sub that no
+//     sup name or pattern covers has a schema included in it; sub patterns
+//     are covered when `isPatternSubset` includes them in a sup pattern
 
 /**
- * Strips `false`-schema properties from `merged` that are absent in `sub`.
- *
- * A property `{ key: false }` in merged that doesn't exist in sub's properties
- * is vacuously satisfied — sub never produces that key, so the "impossible"
- * constraint has no effect. Removing it lets `deepEqual(merged, sub)` succeed.
- *
- * @returns A new schema with vacuous `false` properties removed, or the
- *          original `merged` if no stripping was needed.
+ * Strips the `patternProperties` (and the `additionalProperties`) of `sup`
+ * that `sub` is proven to satisfy. Recurses into common `properties`.
  */
-function stripVacuousFalseProperties(
-	merged: JSONSchema7Definition,
+function stripPatternPropertiesFromSup(
 	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
 ): JSONSchema7Definition {
-	if (typeof merged === "boolean" || typeof sub === "boolean") return merged;
-	if (!isPlainObj(merged.properties)) return merged;
-
-	const mergedProps = merged.properties as Record<
-		string,
-		JSONSchema7Definition
-	>;
-	const subProps = (isPlainObj(sub.properties) ? sub.properties : {}) as Record<
-		string,
-		JSONSchema7Definition
-	>;
+	if (typeof sub === "boolean" || typeof sup === "boolean") return sup;
+	let result = sup;
+	const ensureCopy = (): JSONSchema7 => {
+		if (result === sup) result = { ...sup };
+		return result as JSONSchema7;
+	};
 
-	let strippedProps: Record<string, JSONSchema7Definition> | null = null;
+	if (isPlainObj(sup.patternProperties)) {
+		const supPatterns = sup.patternProperties as Record<
+			string,
+			JSONSchema7Definition
+		>;
+		const additional = sup.additionalProperties;
+		const constrainsAdditional =
+			additional !== undefined && additional !== true;
 
-	for (const key of Object.keys(mergedProps)) {
-		if (mergedProps[key] === false && !hasOwn(subProps, key)) {
-			// Lazily copy on first strip
-			if (strippedProps === null) {
-				strippedProps = { ...mergedProps };
+		// Stripping a pattern while sup additionalProperties remains would
+		// extend the latter to the keys of the pattern
+		if (
+			!constrainsAdditional ||
+			impliesAdditionalProperties(sub, sup, additional, engine)
+		) {
+			const remaining: Record<string, JSONSchema7Definition> = {};
+			for (const [pattern, schema] of Object.entries(supPatterns)) {
+				if (!impliesPatternProperty(sub, pattern, schema, engine)) {
+					remaining[pattern] = schema;
+				}
+			}
+			const stripped =
+				Object.keys(remaining).length < Object.keys(supPatterns).length;
+			if (stripped || constrainsAdditional) {
+				const copy = ensureCopy();
+				if (Object.keys(remaining).length > 0) {
+					copy.patternProperties = remaining;
+				} else {
+					delete copy.patternProperties;
+				}
+				delete copy.additionalProperties;
 			}
-			delete strippedProps[key];
 		}
 	}
 
-	if (strippedProps === null) return merged;
-
-	// Return a new schema with the cleaned properties
-	const result = { ...merged, properties: strippedProps };
-
-	// If properties is now empty and sub doesn't have properties, remove it
-	if (Object.keys(strippedProps).length === 0 && !isPlainObj(sub.properties)) {
-		delete (result as Record<string, unknown>).properties;
+	// ── Nested objects ──
+	if (isPlainObj(sup.properties) && isPlainObj(sub.properties)) {
+		const supProps = sup.properties as Record<string, JSONSchema7Definition>;
+		const subProps = sub.properties as Record<string, JSONSchema7Definition>;
+		let newProps: Record<string, JSONSchema7Definition> | undefined;
+		for (const [key, supProp] of Object.entries(supProps)) {
+			const subProp = subProps[key];
+			if (subProp === undefined) continue;
+			const stripped = stripPatternPropertiesFromSup(subProp, supProp, engine);
+			if (stripped !== supProp) {
+				if (!newProps) newProps = { ...supProps };
+				newProps[key] = stripped;
+			}
+		}
+		if (newProps) ensureCopy().properties = newProps;
 	}
 
 	return result;
 }
 
-// ─── Nested branching fallback ───────────────────────────────────────────────
-//
-// The merge engine (`@x0k/json-schema-merge`) cannot resolve `allOf` over
-// `oneOf`/`anyOf` inside properties — it either throws or produces garbage
-// like `{ type: "string", oneOf: [...] }`.
-//
-// When the merge-based check fails (null or merged ≠ sub), and either schema
-// contains `oneOf`/`anyOf` inside its properties or items, we fall back to a
-// **property-by-property** comparison that uses the existing branching logic
-// (`getBranchesTyped` / `isAtomicSubsetOf`) on each sub-schema individually.
-//
-// Three helpers:
-//   1. `hasNestedBranching` — guard: does a schema contain oneOf/anyOf in
-//      properties or items? Avoids triggering the fallback on normal schemas.
-//   2. `isPropertySubsetOf` — compares a single property sub-schema handling
-//      branches on both sides (sub may have oneOf, sup may have oneOf).
-//   3. `isObjectSubsetByProperties` — the fallback itself: iterates over
-//      object properties + items and delegates to `isPropertySubsetOf`.
-//   4. `tryNestedBranchingFallback` — the single entry point called from
-//      `isAtomicSubsetOf` and `checkAtomic`. Encapsulates the guard check
-//      and the call, returning `boolean | null` (null = not applicable).
-
 /**
- * Returns `true` if the schema contains `oneOf`/`anyOf` inside its
- * `properties` or `items`. Recurses into nested object schemas.
- *
- * This is a cheap guard so we only attempt the property-by-property
- * fallback when the merge failure is plausibly caused by nested branching.
+ * Checks whether every key of `sub` matching `pattern` has a schema
+ * included in `schema`.
  */
-function hasNestedBranching(schema: JSONSchema7Definition): boolean {
-	if (typeof schema === "boolean") return false;
+function impliesPatternProperty(
+	sub: JSONSchema7,
+	pattern: string,
+	schema: JSONSchema7Definition,
+	engine: MergeEngine,
+): boolean {
+	// ── Named properties of sub matching the pattern ──
+	for (const [key, subProp] of Object.entries(sub.properties ?? {})) {
+		if (subProp === false || matchesPattern(key, pattern) === false) continue;
+		if (!isPropertySubsetOf(subProp, schema, engine)) return false;
+	}
 
-	if (isPlainObj(schema.properties)) {
-		const props = schema.properties as Record<string, JSONSchema7Definition>;
-		for (const key of Object.keys(props)) {
-			const prop = props[key];
-			if (prop === undefined || typeof prop === "boolean") continue;
-			if (hasOwn(prop, "oneOf") || hasOwn(prop, "anyOf")) return true;
-			if (hasNestedBranching(prop)) return true;
+	// ── Patterns of sub sharing keys with the pattern ──
+	const subPatterns = sub.patternProperties ?? {};
+	for (const [subPattern, subSchema] of Object.entries(subPatterns)) {
+		if (subSchema === false) continue;
+		if (
+			subPattern !== pattern &&
+			arePatternsDisjoint(subPattern, pattern) === true
+		) {
+			continue;
 		}
+		if (!isPropertySubsetOf(subSchema, schema, engine)) return false;
 	}
 
-	if (isPlainObj(schema.items) && typeof schema.items !== "boolean") {
-		const items = schema.items as JSONSchema7;
-		if (hasOwn(items, "oneOf") || hasOwn(items, "anyOf")) return true;
-		if (hasNestedBranching(items)) return true;
+	// ── Other keys: additionalProperties of sub ──
+	if (sub.additionalProperties === false) return true;
+	const covered = Object.keys(subPatterns).some(
+		(subPattern) => isPatternSubset(pattern, subPattern) === true,
+	);
+	return (
+		covered ||
+		isPropertySubsetOf(sub.additionalProperties ?? true, schema, engine)
+	);
+}
+
+/**
+ * Checks whether every key of `sub` that neither a name nor a pattern of
+ * `sup` covers has a schema included in `additional`.
+ */
+function impliesAdditionalProperties(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+	additional: JSONSchema7Definition,
+	engine: MergeEngine,
+): boolean {
+	const supProps = sup.properties ?? {};
+	const supPatterns = Object.keys(sup.patternProperties ?? {});
+
+	for (const [key, subProp] of Object.entries(sub.properties ?? {})) {
+		if (subProp === false || hasOwn(supProps, key)) continue;
+		if (supPatterns.some((pattern) => matchesPattern(key, pattern) === true)) {
+			continue;
+		}
+		if (!isPropertySubsetOf(subProp, additional, engine)) return false;
+	}
+
+	for (const [subPattern, subSchema] of Object.entries(
+		sub.patternProperties ?? {},
+	)) {
+		if (subSchema === false) continue;
+		if (
+			supPatterns.some(
+				(pattern) => isPatternSubset(subPattern, pattern) === true,
+			)
+		) {
+			continue;
+		}
+		if (!isPropertySubsetOf(subSchema, additional, engine)) return false;
 	}
 
+	return (
+		sub.additionalProperties === false ||
+		isPropertySubsetOf(sub.additionalProperties ?? true, additional, engine)
+	);
+}
+
+// ─── Tuple items ─────────────────────────────────────────────────────────────
+//
+// The merge engine combines tuple `items` index by index and loses
+// `additionalItems` against a list `items`: `[string, number]` with
+// `additionalItems: false` never merges back into itself against
+// `items: { type: ["string", "number"] }`, and an open tuple looks included
+// in any list.
+//
+// Item positions (`tuple-items.ts`) are compared with the full subset check
+// instead:
+//   - `hasTupleItemsMismatch` — pre-check: a position sub can reach is not
+//     included in sup's → sub ⊄ sup
+//   - `stripTupleItemsFromSup` — every position is included → `items` and
+//     `additionalItems` are removed from sup before the merge
+
+/**
+ * Compares the item positions of `sub` and `sup` when either uses tuple
+ * `items`. Returns `null` when neither does (the merge handles lists).
+ */
+function isTupleItemsSubset(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+	engine: MergeEngine,
+): boolean | null {
+	if (sup.items === undefined) return null;
+	if (!isTupleSchema(sub) && !isTupleSchema(sup)) return null;
+	if (sub.items === undefined && sub.type !== "array") return null;
+	return itemPositions(sub, sup).every(
+		(position) =>
+			position.sup === true ||
+			isPropertySubsetOf(position.sub, position.sup, engine),
+	);
+}
+
+/**
+ * Returns `true` when the tuple items of `sub` are proven not included in
+ * those of `sup`, at the root or in common `properties` / list `items`.
+ */
+function hasTupleItemsMismatch(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): boolean {
+	if (typeof sub === "boolean" || typeof sup === "boolean") return false;
+	if (isTupleItemsSubset(sub, sup, engine) === false) return true;
+
+	const subProps = sub.properties ?? {};
+	for (const [key, supProp] of Object.entries(sup.properties ?? {})) {
+		const subProp = subProps[key];
+		if (
+			subProp !== undefined &&
+			hasTupleItemsMismatch(subProp, supProp, engine)
+		) {
+			return true;
+		}
+	}
+
+	if (isPlainObj(sub.items) && isPlainObj(sup.items)) {
+		return hasTupleItemsMismatch(
+			sub.items as JSONSchema7Definition,
+			sup.items as JSONSchema7Definition,
+			engine,
+		);
+	}
 	return false;
 }
 
+/**
+ * Strips `items` and `additionalItems` from `sup` when every item position
+ * of `sub` is included in sup's. Recurses into common `properties` and list
+ * `items`.
+ */
+function stripTupleItemsFromSup(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition {
+	if (typeof sub === "boolean" || typeof sup === "boolean") return sup;
+
+	if (isTupleItemsSubset(sub, sup, engine) === true) {
+		return omitKeys(sup as unknown as Record<string, unknown>, [
+			"items",
+			"additionalItems",
+		]) as JSONSchema7;
+	}
+
+	let result = sup;
+
+	// ── Nested objects ──
+	if (isPlainObj(sup.properties) && isPlainObj(sub.properties)) {
+		const supProps = sup.properties as Record<string, JSONSchema7Definition>;
+		const subProps = sub.properties as Record<string, JSONSchema7Definition>;
+		let newProps: Record<string, JSONSchema7Definition> | undefined;
+		for (const [key, supProp] of Object.entries(supProps)) {
+			const subProp = subProps[key];
+			if (subProp === undefined) continue;
+			const stripped = stripTupleItemsFromSup(subProp, supProp, engine);
+			if (stripped !== supProp) {
+				if (!newProps) newProps = { ...supProps };
+				newProps[key] = stripped;
+			}
+		}
+		if (newProps) result = { ...result, properties: newProps };
+	}
+
+	// ── List items ──
+	if (isPlainObj(sup.items) && isPlainObj(sub.items)) {
+		const supItems = sup.items as JSONSchema7Definition;
+		const stripped = stripTupleItemsFromSup(
+			sub.items as JSONSchema7Definition,
+			supItems,
+			engine,
+		);
+		if (stripped !== supItems) result = { ...result, items: stripped };
+	}
+
+	return result;
+}
+
+// ─── Vacuous false-property stripping ────────────────────────────────────────
+//
+// In JSON Schema, `properties: { x: false }` means "if x is present, it must
+// validate against `false` (impossible)". If x is **absent** from the instance,
+// the constraint is **trivially satisfied** (vacuous truth).
+//
+// After merge(sub, sup), the merge engine may add `false`-schema properties
+// from sup into the merged result even when sub doesn't define those properties.
+// This causes `deepEqual(merged, sub)` to fail — a false negative.
+//
+// `stripVacuousFalseProperties` removes those vacuously-satisfied `false`
+// properties from `merged` so that the structural comparison succeeds.
+
+/**
+ * Strips `false`-schema properties from `merged` that are absent in `sub`.
+ *
+ * A property `{ key: false }` in merged that doesn't exist in sub's properties
+ * is vacuously satisfied — sub never produces that key, so the "impossible"
+ * constraint has no effect. Removing it lets `deepEqual(merged, sub)` succeed.
+ *
+ * @returns A new schema with vacuous `false` properties removed, or the
+ *          original `merged` if no stripping was needed.
+ */
+function stripVacuousFalseProperties(
+	merged: JSONSchema7Definition,
+	sub: JSONSchema7Definition,
+): JSONSchema7Definition {
+	if (typeof merged === "boolean" || typeof sub === "boolean") return merged;
+	if (!isPlainObj(merged.properties)) return merged;
+
+	const mergedProps = merged.properties as Record<
+		string,
+		JSONSchema7Definition
+	>;
+	const subProps = (isPlainObj(sub.properties) ? sub.properties : {}) as Record<
+		string,
+		JSONSchema7Definition
+	>;
+
+	let strippedProps: Record<string, JSONSchema7Definition> | null = null;
+
+	for (const key of Object.keys(mergedProps)) {
+		if (mergedProps[key] === false && !hasOwn(subProps, key)) {
+			// Lazily copy on first strip
+			if (strippedProps === null) {
+				strippedProps = { ...mergedProps };
+			}
+			delete strippedProps[key];
+		}
+	}
+
+	if (strippedProps === null) return merged;
+
+	// Return a new schema with the cleaned properties
+	const result = { ...merged, properties: strippedProps };
+
+	// If properties is now empty and sub doesn't have properties, remove it
+	if (Object.keys(strippedProps).length === 0 && !isPlainObj(sub.properties)) {
+		delete (result as Record<string, unknown>).properties;
+	}
+
+	return result;
+}
+
+// ─── Nested branching fallback ───────────────────────────────────────────────
+//
+// The merge engine (`@x0k/json-schema-merge`) cannot resolve `allOf` over
+// `oneOf`/`anyOf` inside properties — it either throws or produces garbage
+// like `{ type: "string", oneOf: [...] }`.
+//
+// When the merge-based check fails (null or merged ≠ sub), and either schema
+// contains `oneOf`/`anyOf` inside one of its object or array sub-schemas, we
+// fall back to a **property-by-property** comparison that uses the existing branching logic
+// (`getBranchesTyped` / `isAtomicSubsetOf`) on each sub-schema individually.
+//
+// Three helpers:
+//   1. `hasNestedBranching` — guard: does a schema contain oneOf/anyOf in
+//      a nested sub-schema? Avoids triggering the fallback on normal schemas.
+//   2. `isPropertySubsetOf` — compares a single property sub-schema handling
+//      branches on both sides (sub may have oneOf, sup may have oneOf).
+//   3. `isObjectSubsetByProperties` — the fallback itself: compares every
+//      object and array keyword, delegating sub-schemas to
+//      `isPropertySubsetOf`.
+//   4. `tryNestedBranchingFallback` — the single entry point called from
+//      `isAtomicSubsetOf` and `checkAtomic`. Encapsulates the guard check
+//      and the call, returning `boolean | null` (null = not applicable).
+//      A sup holding a keyword the fallback does not compare (`enum`,
+//      `const`, `not`, `if`, tuple `items`…) leaves it undecided.
+
+/** Keywords of sup compared by the fallback, or constraining no value */
+const FALLBACK_KEYWORDS: ReadonlySet<string> = new Set([
+	"type",
+	"properties",
+	"required",
+	"patternProperties",
+	"additionalProperties",
+	"propertyNames",
+	"dependencies",
+	"minProperties",
+	"maxProperties",
+	"items",
+	"contains",
+	"minItems",
+	"maxItems",
+	"uniqueItems",
+	"$id",
+	"$schema",
+	"$comment",
+	"title",
+	"description",
+	"default",
+	"examples",
+	"readOnly",
+	"writeOnly",
+	"definitions",
+	"$defs",
+]);
+
+/**
+ * Returns `true` if the schema contains `oneOf`/`anyOf` inside one of its
+ * object or array sub-schemas (see `nestedSchemas`). Recurses into nested
+ * schemas.
+ *
+ * This is a cheap guard so we only attempt the property-by-property
+ * fallback when the merge failure is plausibly caused by nested branching.
+ */
+function hasNestedBranching(schema: JSONSchema7Definition): boolean {
+	if (typeof schema === "boolean") return false;
+
+	for (const nested of nestedSchemas(schema)) {
+		if (typeof nested === "boolean") continue;
+		if (hasOwn(nested, "oneOf") || hasOwn(nested, "anyOf")) return true;
+		if (hasNestedBranching(nested)) return true;
+	}
+
+	return false;
+}
+
+/**
+ * Lists the sub-schemas the fallback compares: `properties`,
+ * `patternProperties`, schema-form `additionalProperties` and
+ * `dependencies`, `propertyNames`, single-schema `items` and `contains`.
+ */
+function nestedSchemas(schema: JSONSchema7): JSONSchema7Definition[] {
+	const nested: JSONSchema7Definition[] = [
+		...Object.values(schema.properties ?? {}),
+		...Object.values(schema.patternProperties ?? {}),
+	];
+	for (const dep of Object.values(schema.dependencies ?? {})) {
+		if (!Array.isArray(dep)) nested.push(dep);
+	}
+	for (const keyword of [
+		"additionalProperties",
+		"propertyNames",
+		"items",
+		"contains",
+	] as const) {
+		const value = schema[keyword];
+		if (isPlainObj(value)) nested.push(value as JSONSchema7);
+	}
+	return nested;
+}
+
 /**
  * Checks `sub ⊆ sup` for a single property sub-schema, handling branches
  * on **both** sides.
@@ -1022,7 +1879,8 @@ function isArrayConstraintsSubset(sub: JSONSchema7, sup: JSONSchema7): boolean {
 	}
 	// maxItems: sub.maxItems must be <= sup.maxItems
 	if (sup.maxItems !== undefined) {
-		if (sub.maxItems === undefined || sub.maxItems > sup.maxItems) {
+		const subMaxItems = effectiveMaxItems(sub);
+		if (subMaxItems === undefined || subMaxItems > sup.maxItems) {
 			return false;
 		}
 	}
@@ -1033,15 +1891,135 @@ function isArrayConstraintsSubset(sub: JSONSchema7, sup: JSONSchema7): boolean {
 	return true;
 }
 
+/**
+ * Checks whether the object-level constraints of `sub` are compatible
+ * with those of `sup` for subset semantics:
+ * - `minProperties`: sub must have at least as many properties, counting
+ *   its `required` keys
+ * - `maxProperties`: sub must have at most as many properties, counting
+ *   the keys a closed sub (no patterns, `additionalProperties: false`)
+ *   can hold
+ */
+function isObjectConstraintsSubset(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+): boolean {
+	// minProperties: sub's lower bound must be >= sup.minProperties
+	if (sup.minProperties !== undefined) {
+		const subMin = Math.max(
+			sub.minProperties ?? 0,
+			new Set(sub.required ?? []).size,
+		);
+		if (subMin < sup.minProperties) return false;
+	}
+	// maxProperties: sub's upper bound must be <= sup.maxProperties
+	if (sup.maxProperties !== undefined) {
+		let subMax = sub.maxProperties ?? Number.POSITIVE_INFINITY;
+		if (
+			sub.additionalProperties === false &&
+			Object.keys(sub.patternProperties ?? {}).length === 0
+		) {
+			const keys = Object.values(sub.properties ?? {}).filter(
+				(prop) => prop !== false,
+			);
+			subMax = Math.min(subMax, keys.length);
+		}
+		if (subMax > sup.maxProperties) return false;
+	}
+	return true;
+}
+
+/**
+ * Checks whether every key of `sup.dependencies` is satisfied by `sub`:
+ * - the trigger is never produced by `sub`
+ * - array form: every dependent is required by `sub`, or listed in the
+ *   dependency `sub` declares for the same trigger
+ * - schema form: `sub` itself, or the dependency `sub` declares for the
+ *   same trigger, is included in the dependency schema
+ */
+function isDependenciesSubset(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+	engine: MergeEngine,
+): boolean {
+	const subRequired = sub.required ?? [];
+	const subProps = sub.properties ?? {};
+	const subPatterns = Object.keys(sub.patternProperties ?? {});
+
+	for (const [key, dep] of Object.entries(sup.dependencies ?? {})) {
+		const triggerNeverProduced = hasOwn(subProps, key)
+			? subProps[key] === false
+			: sub.additionalProperties === false &&
+				!subRequired.includes(key) &&
+				subPatterns.every((pattern) => matchesPattern(key, pattern) === false);
+		if (triggerNeverProduced) continue;
+
+		const subDep = sub.dependencies?.[key];
+		if (Array.isArray(dep)) {
+			const declared = Array.isArray(subDep) ? subDep : [];
+			if (dep.every((d) => subRequired.includes(d) || declared.includes(d))) {
+				continue;
+			}
+			return false;
+		}
+
+		if (
+			subDep !== undefined &&
+			!Array.isArray(subDep) &&
+			isPropertySubsetOf(subDep, dep, engine)
+		) {
+			continue;
+		}
+		if (!isPropertySubsetOf(sub, dep, engine)) return false;
+	}
+
+	return true;
+}
+
+/**
+ * Checks the array keywords of `sub ⊆ sup` individually: single-schema
+ * `items`, `contains` and the `minItems`/`maxItems`/`uniqueItems` bounds.
+ */
+function isArraySubsetByItems(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+	engine: MergeEngine,
+): boolean {
+	if (isPlainObj(sup.items)) {
+		// Items of sub are unconstrained when it declares none
+		const subItems = isPlainObj(sub.items)
+			? (sub.items as JSONSchema7Definition)
+			: true;
+		if (
+			!isPropertySubsetOf(subItems, sup.items as JSONSchema7Definition, engine)
+		) {
+			return false;
+		}
+	}
+
+	// contains: the items sub guarantees must satisfy sup's contains
+	if (sup.contains !== undefined) {
+		if (
+			sub.contains === undefined ||
+			!isPropertySubsetOf(sub.contains, sup.contains, engine)
+		) {
+			return false;
+		}
+	}
+
+	return isArrayConstraintsSubset(sub, sup);
+}
+
 /**
  * Checks `sub ⊆ sup` by comparing object properties (and array items)
  * individually, using the full branching-aware logic.
  *
  * This is a **fallback** for when the merge-based check fails due to
- * `oneOf`/`anyOf` inside properties. It does NOT check object-level
- * keywords like `minProperties`/`maxProperties` — those are rare in
- * practice and are already handled correctly by the merge when the
- * branching isn't involved.
+ * `oneOf`/`anyOf` inside properties. It covers the same object and array
+ * keywords as the main path: `properties`, `required`, `patternProperties`,
+ * `additionalProperties`, `dependencies`, `propertyNames`,
+ * `minProperties`/`maxProperties`, single-schema `items`, `contains` and
+ * the array bounds.
  *
  * @returns `true` if sub ⊆ sup, `false` otherwise.
  */
@@ -1053,24 +2031,10 @@ function isObjectSubsetByProperties(
 	const subIsObj = sub.type === "object" || isPlainObj(sub.properties);
 	const supIsObj = sup.type === "object" || isPlainObj(sup.properties);
 
-	// ── Array path: both are arrays with items ──
+	// ── Array path: both are arrays ──
 	if (!subIsObj && !supIsObj) {
-		if (
-			sub.type === "array" &&
-			sup.type === "array" &&
-			isPlainObj(sub.items) &&
-			isPlainObj(sup.items)
-		) {
-			if (
-				!isPropertySubsetOf(
-					sub.items as JSONSchema7Definition,
-					sup.items as JSONSchema7Definition,
-					engine,
-				)
-			) {
-				return false;
-			}
-			return isArrayConstraintsSubset(sub, sup);
+		if (sub.type === "array" && sup.type === "array") {
+			return isArraySubsetByItems(sub, sup, engine);
 		}
 		return false;
 	}
@@ -1103,12 +2067,8 @@ function isObjectSubsetByProperties(
 		if (!subRequired.includes(key)) return false;
 	}
 
-	// ── additionalProperties: false on sup ──
-	if (sup.additionalProperties === false) {
-		for (const key of Object.keys(subProps)) {
-			if (!hasOwn(supProps, key)) return false;
-		}
-	}
+	// ── minProperties / maxProperties ──
+	if (!isObjectConstraintsSubset(sub, sup)) return false;
 
 	// ── Property-by-property check ──
 	for (const key of Object.keys(supProps)) {
@@ -1121,38 +2081,54 @@ function isObjectSubsetByProperties(
 		}
 	}
 
-	// ── Sub's extra properties vs sup's additionalProperties schema ──
-	if (
-		isPlainObj(sup.additionalProperties) &&
-		typeof sup.additionalProperties !== "boolean"
-	) {
-		const addPropSchema = sup.additionalProperties as JSONSchema7Definition;
+	// ── patternProperties of sup ──
+	for (const [pattern, schema] of Object.entries(sup.patternProperties ?? {})) {
+		if (!impliesPatternProperty(sub, pattern, schema, engine)) return false;
+	}
+
+	// ── Keys sup covers by neither a name nor a pattern ──
+	if (sup.additionalProperties === false) {
 		for (const key of Object.keys(subProps)) {
-			if (hasOwn(supProps, key)) continue;
-			const subProp = subProps[key];
-			if (subProp === undefined) continue;
-			if (!isPropertySubsetOf(subProp, addPropSchema, engine)) {
+			if (hasOwn(supProps, key) || subProps[key] === false) continue;
+			if (
+				!Object.keys(sup.patternProperties ?? {}).some(
+					(pattern) => matchesPattern(key, pattern) === true,
+				)
+			) {
 				return false;
 			}
 		}
-	}
-
-	// ── Items (object schema that also has array items) ──
-	if (isPlainObj(sub.items) && isPlainObj(sup.items)) {
+	} else if (isPlainObj(sup.additionalProperties)) {
 		if (
-			!isPropertySubsetOf(
-				sub.items as JSONSchema7Definition,
-				sup.items as JSONSchema7Definition,
+			!impliesAdditionalProperties(
+				{ ...sub, additionalProperties: false },
+				sup,
+				sup.additionalProperties as JSONSchema7Definition,
 				engine,
 			)
 		) {
 			return false;
 		}
-		if (!isArrayConstraintsSubset(sub, sup)) {
+	}
+
+	// ── propertyNames ──
+	if (sup.propertyNames !== undefined) {
+		if (
+			sub.propertyNames === undefined ||
+			!isPropertySubsetOf(sub.propertyNames, sup.propertyNames, engine)
+		) {
 			return false;
 		}
 	}
 
+	// ── dependencies ──
+	if (!isDependenciesSubset(sub, sup, engine)) return false;
+
+	// ── Items (object schema that also has array items) ──
+	if (isPlainObj(sub.items) && isPlainObj(sup.items)) {
+		if (!isArraySubsetByItems(sub, sup, engine)) return false;
+	}
+
 	return true;
 }
 
@@ -1165,7 +2141,8 @@ function isObjectSubsetByProperties(
  *
  * @returns `true` if the fallback confirms sub ⊆ sup, `false` if it
  *          confirms sub ⊄ sup, `null` if the fallback is not applicable
- *          (neither schema has nested branching, or schemas are booleans).
+ *          (neither schema has nested branching, schemas are booleans, or
+ *          sup holds a keyword the fallback does not compare).
  */
 function tryNestedBranchingFallback(
 	sub: JSONSchema7Definition,
@@ -1174,9 +2151,218 @@ function tryNestedBranchingFallback(
 ): boolean | null {
 	if (typeof sub === "boolean" || typeof sup === "boolean") return null;
 	if (!hasNestedBranching(sub) && !hasNestedBranching(sup)) return null;
+	if (
+		Array.isArray(sup.items) ||
+		Object.keys(sup).some((keyword) => !FALLBACK_KEYWORDS.has(keyword))
+	) {
+		return null;
+	}
 	return isObjectSubsetByProperties(sub, sup, engine);
 }
 
+// ─── Recursive references (coinductive check) ────────────────────────────────
+//
+// Recursive `$ref`s are kept as placeholders by the ref resolver (see
+// `unfoldRecursiveRef`). Merging two placeholders is meaningless — the merge
+// engine keeps the first `$ref` — so every position where sub or sup holds a
+// placeholder is checked on its own before the merge, by unfolding it.
+//
+// On cyclic schemas that check reaches itself again. It is resolved
+// coinductively: while a `(subTarget, supTarget)` pair is being checked, a
+// nested occurrence of the same pair is assumed to hold. Subset is the
+// greatest fixpoint of the structural rules, so the assumption is sound:
+// `false` can only come from a concrete mismatch found while unfolding.
+//
+// Caching:
+//   - `false` results are definitive and always cached
+//   - `true` results are cached only when no pair is in progress anymore
+//     (until then they may depend on the assumptions made for the stack)
+
+/** Settled results per (sub target, sup target) pair. */
+const refPairCache = new WeakMap<object, WeakMap<object, boolean>>();
+
+/** Pairs currently being checked — assumed to hold when met again. */
+const refPairsInProgress = new Map<object, Set<object>>();
+
+/** Number of pairs currently being checked. */
+let refPairDepth = 0;
+
+/** Sub-schema keywords compared position by position. */
+const RECURSIVE_POSITION_KEYWORDS = [
+	"items",
+	"additionalItems",
+	"additionalProperties",
+	"contains",
+	"propertyNames",
+] as const;
+
+/**
+ * Returns the normalized target of a recursive-reference placeholder, or
+ * the schema itself when it is not a placeholder.
+ */
+function unfoldForCheck(def: JSONSchema7Definition): JSONSchema7Definition {
+	const target = unfoldRecursiveRef(def);
+	return target === undefined ? def : normalize(target);
+}
+
+/**
+ * Checks `sub ⊆ sup` when either side is (or may be) a recursive-reference
+ * placeholder, unfolding both sides and assuming the pairs already being
+ * checked hold.
+ */
+function isRecursiveRefSubset(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): boolean {
+	const subTarget = unfoldForCheck(sub);
+	const supTarget = unfoldForCheck(sup);
+	if (typeof subTarget === "boolean" || typeof supTarget === "boolean") {
+		return isPropertySubsetOf(subTarget, supTarget, engine);
+	}
+
+	const cached = refPairCache.get(subTarget)?.get(supTarget);
+	if (cached !== undefined) return cached;
+
+	let active = refPairsInProgress.get(subTarget);
+	// ── Coinductive hypothesis: the pair is already being checked ──
+	if (active?.has(supTarget)) return true;
+	if (active === undefined) {
+		active = new Set();
+		refPairsInProgress.set(subTarget, active);
+	}
+
+	active.add(supTarget);
+	refPairDepth++;
+	let result: boolean;
+	try {
+		result = isPropertySubsetOf(subTarget, supTarget, engine);
+	} finally {
+		refPairDepth--;
+		active.delete(supTarget);
+		if (active.size === 0) refPairsInProgress.delete(subTarget);
+	}
+
+	if (!result || refPairDepth === 0) {
+		let bySup = refPairCache.get(subTarget);
+		if (bySup === undefined) {
+			bySup = new WeakMap();
+			refPairCache.set(subTarget, bySup);
+		}
+		bySup.set(supTarget, result);
+	}
+	return result;
+}
+
+/**
+ * Checks recursive-reference placeholders of `sub` and `sup` at matching
+ * positions (`properties`, `patternProperties`, `items`, tuple items,
+ * `additionalItems`, `additionalProperties`, `contains`, `propertyNames`)
+ * before the merge.
+ *
+ * Each position where either side holds a placeholder is decided by
+ * `isRecursiveRefSubset`, then replaced in sup by:
+ *   - `true`  when it holds — the merge keeps sub's schema as-is
+ *   - `false` when it does not — the merge can no longer be equal to sub
+ *
+ * Returns the original `sup` when neither schema contains a placeholder.
+ */
+function stripRecursiveRefsFromSup(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition {
+	if (typeof sub === "boolean" || typeof sup === "boolean") return sup;
+	if (!containsRecursiveRef(sub) && !containsRecursiveRef(sup)) return sup;
+
+	let result = sup as JSONSchema7 & Record<string, unknown>;
+	let copied = false;
+
+	function ensureCopy(): JSONSchema7 & Record<string, unknown> {
+		if (!copied) {
+			result = { ...(sup as JSONSchema7) } as JSONSchema7 &
+				Record<string, unknown>;
+			copied = true;
+		}
+		return result;
+	}
+
+	function stripPosition(
+		subDef: JSONSchema7Definition,
+		supDef: JSONSchema7Definition,
+	): JSONSchema7Definition {
+		if (
+			unfoldRecursiveRef(subDef) !== undefined ||
+			unfoldRecursiveRef(supDef) !== undefined
+		) {
+			return isRecursiveRefSubset(subDef, supDef, engine);
+		}
+		return stripRecursiveRefsFromSup(subDef, supDef, engine);
+	}
+
+	function stripRecord(
+		subRecord: unknown,
+		supRecord: unknown,
+	): Record<string, JSONSchema7Definition> | undefined {
+		if (!isPlainObj(subRecord) || !isPlainObj(supRecord)) return undefined;
+		let stripped: Record<string, JSONSchema7Definition> | undefined;
+		for (const key of Object.keys(supRecord)) {
+			const subDef = subRecord[key] as JSONSchema7Definition | undefined;
+			const supDef = supRecord[key] as JSONSchema7Definition | undefined;
+			if (subDef === undefined || supDef === undefined) continue;
+			const next = stripPosition(subDef, supDef);
+			if (next !== supDef) {
+				if (!stripped) {
+					stripped = { ...supRecord } as Record<string, JSONSchema7Definition>;
+				}
+				stripped[key] = next;
+			}
+		}
+		return stripped;
+	}
+
+	for (const key of RECURSIVE_POSITION_KEYWORDS) {
+		const subDef = sub[key];
+		const supDef = sup[key];
+		if (subDef === undefined || supDef === undefined) continue;
+
+		if (Array.isArray(subDef) || Array.isArray(supDef)) {
+			// Tuple-form `items`: compare index by index
+			if (!Array.isArray(subDef) || !Array.isArray(supDef)) continue;
+			let stripped: JSONSchema7Definition[] | undefined;
+			for (let i = 0; i < supDef.length && i < subDef.length; i++) {
+				const subItem = subDef[i];
+				const supItem = supDef[i];
+				if (subItem === undefined || supItem === undefined) continue;
+				const next = stripPosition(subItem, supItem);
+				if (next !== supItem) {
+					if (!stripped) stripped = supDef.slice();
+					stripped[i] = next;
+				}
+			}
+			if (stripped) ensureCopy()[key] = stripped;
+			continue;
+		}
+
+		const next = stripPosition(
+			subDef as JSONSchema7Definition,
+			supDef as JSONSchema7Definition,
+		);
+		if (next !== supDef) ensureCopy()[key] = next;
+	}
+
+	const properties = stripRecord(sub.properties, sup.properties);
+	if (properties) ensureCopy().properties = properties;
+
+	const patternProperties = stripRecord(
+		sub.patternProperties,
+		sup.patternProperties,
+	);
+	if (patternProperties) ensureCopy().patternProperties = patternProperties;
+
+	return result;
+}
+
 // ─── Atomic subset check ─────────────────────────────────────────────────────
 
 /**
@@ -1250,11 +2436,35 @@ function resolveSupAllOf(
 	return resolved ?? sup;
 }
 
+/**
+ * Checks whether a schema only accepts numbers and its bounds leave none.
+ */
+function isEmptyNumericSchema(def: JSONSchema7Definition): boolean {
+	if (typeof def === "boolean" || def.type === undefined) return false;
+	const types = Array.isArray(def.type) ? def.type : [def.type];
+	if (!types.every((t) => t === "number" || t === "integer")) return false;
+	return isEmptyInterval(numericInterval(def, numericStep(def)));
+}
+
 export function isAtomicSubsetOf(
 	sub: JSONSchema7Definition,
 	sup: JSONSchema7Definition,
 	engine: MergeEngine,
 ): boolean {
+	// ── Recursive `$ref` placeholder on either side ──
+	if (
+		unfoldRecursiveRef(sub) !== undefined ||
+		unfoldRecursiveRef(sup) !== undefined
+	) {
+		return isRecursiveRefSubset(sub, sup, engine);
+	}
+
+	// ── Unsatisfiable numeric sub ──
+	// A sub accepting only numbers, with bounds no number satisfies
+	// (`{ type: "integer", exclusiveMinimum: 4, exclusiveMaximum: 5 }`),
+	// is the empty set — a subset of anything.
+	if (isEmptyNumericSchema(sub)) return true;
+
 	// ── Resolve allOf in sup ──
 	// Pre-flatten allOf so that the stripping pipeline (stripNotFromSup,
 	// stripDependenciesFromSup, etc.) can see keywords from all branches.
@@ -1306,6 +2516,9 @@ export function isAtomicSubsetOf(
 			if (patResult === false) return false;
 		}
 
+		// ── Tuple items pre-check ──
+		if (hasTupleItemsMismatch(sub, sup, engine)) return false;
+
 		// Remove `not` from sup (top-level and/or in properties)
 		// when evaluateNot confirms compatibility at the corresponding level.
 		// This prevents the merge engine from adding a `not` constraint that sub doesn't have
@@ -1336,6 +2549,9 @@ export function isAtomicSubsetOf(
 			effectiveSup = stripPatternFromSup(sub, effectiveSup);
 			effectiveSup = stripRedundantBoundsFromSup(sub, effectiveSup);
 			effectiveSup = stripDependenciesFromSup(sub, effectiveSup);
+			effectiveSup = stripPatternPropertiesFromSup(sub, effectiveSup, engine);
+			effectiveSup = stripTupleItemsFromSup(sub, effectiveSup, engine);
+			effectiveSup = stripRecursiveRefsFromSup(sub, effectiveSup, engine);
 		}
 
 		const merged = engine.merge(sub, effectiveSup);
@@ -1392,6 +2608,9 @@ export function isAtomicSubsetOf(
 			if (patResult === false) return false;
 		}
 
+		// ── Tuple items pre-check par branche ──
+		if (hasTupleItemsMismatch(sub, branch, engine)) return false;
+
 		// Same strip logic for branches
 		let effectiveBranch = branch;
 		if (typeof branch !== "boolean") {
@@ -1411,6 +2630,13 @@ export function isAtomicSubsetOf(
 			effectiveBranch = stripPatternFromSup(sub, effectiveBranch);
 			effectiveBranch = stripRedundantBoundsFromSup(sub, effectiveBranch);
 			effectiveBranch = stripDependenciesFromSup(sub, effectiveBranch);
+			effectiveBranch = stripPatternPropertiesFromSup(
+				sub,
+				effectiveBranch,
+				engine,
+			);
+			effectiveBranch = stripTupleItemsFromSup(sub, effectiveBranch, engine);
+			effectiveBranch = stripRecursiveRefsFromSup(sub, effectiveBranch, engine);
 		}
 
 		const merged = engine.merge(sub, effectiveBranch);
@@ -1463,7 +2689,10 @@ export function checkBranchedSub(
 		if (branch === undefined) continue;
 		if (!isAtomicSubsetOf(branch, sup, engine)) {
 			allSubset = false;
-			const branchErrors = computeSemanticErrors(branch, sup, "");
+			const branchErrors = computeSemanticErrors(branch, sup, {
+				...ROOT_LOCATION,
+				sub: `/${branchType}/${i}`,
+			});
 			allErrors.push(...branchErrors);
 		}
 	}
@@ -1489,14 +2718,23 @@ export function checkBranchedSup(
 	sub: JSONSchema7Definition,
 	supBranches: JSONSchema7Definition[],
 	engine: MergeEngine,
-	_branchType: BranchType = "anyOf",
+	branchType: BranchType = "anyOf",
 ): SubsetResult {
 	for (const branch of supBranches) {
+		// Recursive `$ref` placeholder branch → unfold instead of merging
+		if (unfoldRecursiveRef(branch) !== undefined) {
+			if (isRecursiveRefSubset(sub, branch, engine)) {
+				return { isSubset: true, merged: sub, errors: [] };
+			}
+			continue;
+		}
+
 		// Strip not + patterns confirmed by sampling before the merge
 		let effectiveBranch = branch;
 		if (typeof sub !== "boolean" && typeof branch !== "boolean") {
 			const notResult = evaluateNot(sub, branch);
 			if (notResult === false) continue; // This branch rejects sub
+			if (hasTupleItemsMismatch(sub, branch, engine)) continue;
 
 			if (notResult === true) {
 				effectiveBranch = stripNotFromSup(sub, branch, true);
@@ -1512,6 +2750,13 @@ export function checkBranchedSup(
 			effectiveBranch = stripPatternFromSup(sub, effectiveBranch);
 			effectiveBranch = stripRedundantBoundsFromSup(sub, effectiveBranch);
 			effectiveBranch = stripDependenciesFromSup(sub, effectiveBranch);
+			effectiveBranch = stripPatternPropertiesFromSup(
+				sub,
+				effectiveBranch,
+				engine,
+			);
+			effectiveBranch = stripTupleItemsFromSup(sub, effectiveBranch, engine);
+			effectiveBranch = stripRecursiveRefsFromSup(sub, effectiveBranch, engine);
 		}
 		const merged = engine.merge(sub, effectiveBranch);
 		if (merged !== null) {
@@ -1530,11 +2775,9 @@ export function checkBranchedSup(
 	}
 
 	// Generate semantic errors by comparing sub with the original sup
-	const semanticErrors = computeSemanticErrors(
-		sub,
-		{ anyOf: supBranches } as JSONSchema7,
-		"",
-	);
+	const semanticErrors = computeSemanticErrors(sub, {
+		[branchType === "oneOf" ? "oneOf" : "anyOf"]: supBranches,
+	} as JSONSchema7);
 
 	return {
 		isSubset: false,
@@ -1555,6 +2798,25 @@ export function checkAtomic(
 	sup: JSONSchema7Definition,
 	engine: MergeEngine,
 ): SubsetResult {
+	// ── Recursive `$ref` placeholder on either side ──
+	if (
+		unfoldRecursiveRef(sub) !== undefined ||
+		unfoldRecursiveRef(sup) !== undefined
+	) {
+		return isRecursiveRefSubset(sub, sup, engine)
+			? { isSubset: true, merged: sub, errors: [] }
+			: {
+					isSubset: false,
+					merged: null,
+					errors: computeSemanticErrors(sub, sup),
+				};
+	}
+
+	// ── Unsatisfiable numeric sub (aligned with isAtomicSubsetOf) ──
+	if (isEmptyNumericSchema(sub)) {
+		return { isSubset: true, merged: sub, errors: [] };
+	}
+
 	// ── Resolve allOf in sup ──
 	// Same as in isAtomicSubsetOf: pre-flatten allOf so that the stripping
 	// pipeline can see keywords from all branches.
@@ -1566,9 +2828,9 @@ export function checkAtomic(
 			? evaluateNot(sub, sup)
 			: null;
 
-	// If evaluateNot confirms incompatibility → fail immediately
-	if (notResult === false) {
-		const errors = computeSemanticErrors(sub, sup, "");
+	// If evaluateNot or the tuple items confirm incompatibility → fail immediately
+	if (notResult === false || hasTupleItemsMismatch(sub, sup, engine)) {
+		const errors = computeSemanticErrors(sub, sup);
 		return { isSubset: false, merged: null, errors };
 	}
 
@@ -1576,6 +2838,8 @@ export function checkAtomic(
 	// same strategy as in isAtomicSubsetOf to avoid structural false negatives
 	// caused by the conjunction of patterns as lookahead.
 	let effectiveSup = sup;
+	// Positions of recursive placeholders decided and replaced by true/false
+	let refsStripped = false;
 	if (typeof sub !== "boolean" && typeof sup !== "boolean") {
 		// If the `not` is confirmed compatible → strip it before the merge
 		if (notResult === true) {
@@ -1592,6 +2856,11 @@ export function checkAtomic(
 		effectiveSup = stripPatternFromSup(sub, effectiveSup);
 		effectiveSup = stripRedundantBoundsFromSup(sub, effectiveSup);
 		effectiveSup = stripDependenciesFromSup(sub, effectiveSup);
+		effectiveSup = stripPatternPropertiesFromSup(sub, effectiveSup, engine);
+		effectiveSup = stripTupleItemsFromSup(sub, effectiveSup, engine);
+		const beforeRefs = effectiveSup;
+		effectiveSup = stripRecursiveRefsFromSup(sub, effectiveSup, engine);
+		refsStripped = effectiveSup !== beforeRefs;
 	}
 
 	try {
@@ -1623,15 +2892,21 @@ export function checkAtomic(
 			return { isSubset: true, merged: sub, errors: [] };
 		}
 
-		const errors = computeSemanticErrors(sub, sup, "");
-		return { isSubset: false, merged: normalizedMerged, errors };
+		const errors = computeSemanticErrors(sub, sup);
+		// The `true` / `false` standing for recursive positions are no
+		// schema of the user: an intersection holding them would be wrong
+		return {
+			isSubset: false,
+			merged: refsStripped ? null : normalizedMerged,
+			errors,
+		};
 	} catch (_e) {
 		// ── Fallback: property-by-property for nested oneOf/anyOf ──
 		if (tryNestedBranchingFallback(sub, effectiveSup, engine) === true) {
 			return { isSubset: true, merged: sub, errors: [] };
 		}
 
-		const errors = computeSemanticErrors(sub, sup, "");
+		const errors = computeSemanticErrors(sub, sup);
 		return {
 			isSubset: false,
 			merged: null,
@@ -1639,3 +2914,142 @@ export function checkAtomic(
 		};
 	}
 }
+
+// ─── oneOf exclusivity (strictOneOf) ─────────────────────────────────────────
+
+/**
+ * Finds the `oneOf` branches of sup that a value of sub could match
+ * together — such a value is rejected by sup, although the branch-by-branch
+ * check (which treats `oneOf` like `anyOf`) accepts it.
+ *
+ * Two branches overlap on sub when `sub ∩ branch[i] ∩ branch[j]` is not
+ * provably empty (the merge succeeds and no numeric interval is empty).
+ * The merge cannot always prove emptiness, so an overlap may be reported
+ * for branches that are in fact exclusive — never the other way round.
+ *
+ * Also inspects the `oneOf`s of `properties` and single-schema `items`,
+ * with the same path notation as the semantic errors (`users[].role`).
+ *
+ * @returns One `BranchMismatch` error per overlapping pair of branches
+ */
+export function findOneOfOverlaps(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	engine: MergeEngine,
+	at: ErrorLocation = ROOT_LOCATION,
+): SchemaError[] {
+	if (sub === false || typeof sup === "boolean") return [];
+	const { branches: subBranches, type: subBranchType } = getBranchesTyped(sub);
+	/** Pointer of the k-th branch of sub */
+	const branchPointer = (k: number) =>
+		subBranchType === "anyOf" || subBranchType === "oneOf"
+			? `${at.sub}/${subBranchType}/${k}`
+			: at.sub;
+	const errors: SchemaError[] = [];
+
+	if (Array.isArray(sup.oneOf)) {
+		const branches = sup.oneOf;
+		for (let i = 0; i < branches.length; i++) {
+			for (let j = i + 1; j < branches.length; j++) {
+				const a = branches[i];
+				const b = branches[j];
+				if (a === undefined || b === undefined) continue;
+				const overlap = intersect(a, b, engine);
+				if (overlap === null) continue;
+				if (subBranches.some((s) => intersect(s, overlap, engine) !== null)) {
+					errors.push({
+						type: SchemaErrorType.BranchMismatch,
+						key: at.key || "$root",
+						expected: "exactly one oneOf branch",
+						received: `oneOf[${i}] and oneOf[${j}] overlap`,
+						code: errorCode("oneOf", "overlap"),
+						keyword: "oneOf",
+						expectedValue: branches,
+						receivedValue: [i, j],
+						subSchemaPath: at.sub,
+						supSchemaPath: `${at.sup}/oneOf`,
+						instancePath: at.instance,
+					});
+				}
+			}
+		}
+	}
+
+	// ── Nested oneOf ──
+	const seen = new Set(errors.map((e) => `${e.key}|${e.received}`));
+	const pushNested = (nested: SchemaError[]) => {
+		for (const error of nested) {
+			const id = `${error.key}|${error.received}`;
+			if (seen.has(id)) continue;
+			seen.add(id);
+			errors.push(error);
+		}
+	};
+
+	if (isPlainObj(sup.properties)) {
+		for (const [key, supProp] of Object.entries(sup.properties)) {
+			const token = `/${escapePointer(key)}`;
+			for (const [k, branch] of subBranches.entries()) {
+				const subProp = propertySchema(branch, key);
+				if (subProp === undefined) continue;
+				pushNested(
+					findOneOfOverlaps(subProp, supProp, engine, {
+						key: at.key ? `${at.key}.${key}` : key,
+						sub: `${branchPointer(k)}/properties${token}`,
+						sup: `${at.sup}/properties${token}`,
+						instance: `${at.instance}${token}`,
+					}),
+				);
+			}
+		}
+	}
+
+	if (isPlainObj(sup.items)) {
+		for (const [k, branch] of subBranches.entries()) {
+			const subItems =
+				typeof branch === "boolean" || branch.items === undefined
+					? true
+					: branch.items;
+			// Tuples: not inspected
+			if (Array.isArray(subItems)) continue;
+			pushNested(
+				findOneOfOverlaps(subItems, sup.items, engine, {
+					key: at.key ? `${at.key}[]` : "[]",
+					sub: `${branchPointer(k)}/items`,
+					sup: `${at.sup}/items`,
+					instance: `${at.instance}/*`,
+				}),
+			);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Intersection of two schemas, or `null` when it is provably empty.
+ */
+function intersect(
+	a: JSONSchema7Definition,
+	b: JSONSchema7Definition,
+	engine: MergeEngine,
+): JSONSchema7Definition | null {
+	const merged = engine.merge(a, b);
+	if (merged === null || merged === false) return null;
+	return isEmptyNumericSchema(merged) ? null : merged;
+}
+
+/**
+ * Schema a sub accepts for property `key`, or `undefined` when the
+ * property is forbidden (`additionalProperties: false`).
+ */
+function propertySchema(
+	def: JSONSchema7Definition,
+	key: string,
+): JSONSchema7Definition | undefined {
+	if (typeof def === "boolean") return def || undefined;
+	const declared = def.properties?.[key];
+	if (declared !== undefined) return declared === false ? undefined : declared;
+	if (def.additionalProperties === false) return undefined;
+	return def.additionalProperties ?? true;
+}
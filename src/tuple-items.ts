@@ -0,0 +1,102 @@
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+
+// ─── Tuple items ─────────────────────────────────────────────────────────────
+//
+// Models the items of an array schema position by position, so that tuples
+// (`items: [...]` + `additionalItems`) and lists (`items: {...}`) can be
+// compared with each other:
+//   - tuple: index `i` is `items[i]`, every later index `additionalItems`
+//   - list: every index is `items`
+//
+// Two schemas are compared on the indexes below their longest tuple, plus
+// one "rest" position standing for every later index. Positions a sub array
+// can never reach — past its `maxItems`, or after an item schema `false` —
+// are skipped.
+
+/** One item position compared between a sub and a sup array schema. */
+export interface ItemPosition {
+	/** Index of the item — the first index covered for the rest position */
+	index: number;
+	/** `true` for the position covering every index from `index` on */
+	rest: boolean;
+	sub: JSONSchema7Definition;
+	sup: JSONSchema7Definition;
+}
+
+/** Returns `true` when `items` is in tuple form. */
+export function isTupleSchema(schema: JSONSchema7): boolean {
+	return Array.isArray(schema.items);
+}
+
+/** Returns the schema items at `index` must validate against. */
+export function itemSchemaAt(
+	schema: JSONSchema7,
+	index: number,
+): JSONSchema7Definition {
+	if (Array.isArray(schema.items)) {
+		return schema.items[index] ?? schema.additionalItems ?? true;
+	}
+	return schema.items ?? true;
+}
+
+/**
+ * Returns the JSON pointer, relative to `schema`, of the schema items at
+ * `index` validate against (see `itemSchemaAt`).
+ */
+export function itemPointerAt(schema: JSONSchema7, index: number): string {
+	if (Array.isArray(schema.items)) {
+		return index < schema.items.length ? `/items/${index}` : "/additionalItems";
+	}
+	return "/items";
+}
+
+/**
+ * Returns the largest length of the arrays of `schema`: its `maxItems`,
+ * or less when a closed tuple (`additionalItems: false`) or an item schema
+ * `false` ends them earlier — `undefined` when their length is unbounded.
+ */
+export function effectiveMaxItems(schema: JSONSchema7): number | undefined {
+	let length: number | undefined;
+	if (Array.isArray(schema.items)) {
+		const closed = schema.items.indexOf(false);
+		if (closed !== -1) length = closed;
+		else if (schema.additionalItems === false) length = schema.items.length;
+	} else if (schema.items === false) {
+		length = 0;
+	}
+	if (length === undefined) return schema.maxItems;
+	return schema.maxItems === undefined
+		? length
+		: Math.min(length, schema.maxItems);
+}
+
+/**
+ * Lists the item positions a sub array can reach, with the item schemas
+ * of sub and sup at each of them.
+ */
+export function itemPositions(
+	sub: JSONSchema7,
+	sup: JSONSchema7,
+): ItemPosition[] {
+	const restIndex = Math.max(tupleLength(sub), tupleLength(sup));
+	const maxItems = sub.maxItems ?? Number.POSITIVE_INFINITY;
+	const positions: ItemPosition[] = [];
+
+	for (let index = 0; index <= restIndex && index < maxItems; index++) {
+		const subItem = itemSchemaAt(sub, index);
+		// No array of sub holds an item here, nor at any later index
+		if (subItem === false) break;
+		positions.push({
+			index,
+			rest: index === restIndex,
+			sub: subItem,
+			sup: itemSchemaAt(sup, index),
+		});
+	}
+
+	return positions;
+}
+
+function tupleLength(schema: JSONSchema7): number {
+	return Array.isArray(schema.items) ? schema.items.length : 0;
+}
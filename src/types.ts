@@ -1,4 +1,5 @@
 import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import type { SchemaRegistry } from "./schema-registry.ts";
 
 // ─── Module augmentation ─────────────────────────────────────────────────────
 // Extends JSONSchema7 with the custom `constraints` keyword so that consumers
@@ -8,11 +9,57 @@ import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
 declare module "json-schema" {
 	interface JSONSchema7 {
 		constraints?: Constraints;
+		/** Draft 2019-09 — kept as-is by the internal form (see `dialect.ts`) */
+		minContains?: number;
+		/** Draft 2019-09 — kept as-is by the internal form (see `dialect.ts`) */
+		maxContains?: number;
+		/** Draft 2019-09 — rewritten into Draft-07 keywords when possible (see `unevaluated.ts`) */
+		unevaluatedProperties?: JSONSchema7Definition;
+		/** Draft 2019-09 — rewritten into Draft-07 keywords when possible (see `unevaluated.ts`) */
+		unevaluatedItems?: JSONSchema7Definition;
 	}
 }
 
 // ─── Public types ────────────────────────────────────────────────────────────
 
+/**
+ * JSON Schema dialects understood by the checker — `"openapi30"` stands for
+ * OpenAPI 3.0 schema objects (`nullable`, `discriminator`, …).
+ *
+ * Schemas of any dialect are converted to a single internal form
+ * (Draft-07 keywords, plus `minContains` / `maxContains`) before comparison,
+ * so schemas written against different drafts can be compared together.
+ */
+export type Draft =
+	| "draft-04"
+	| "draft-06"
+	| "draft-07"
+	| "2019-09"
+	| "2020-12"
+	| "openapi30";
+
+/**
+ * A Draft-04 / Draft-06 construct rewritten into its Draft-07 form.
+ */
+export interface SchemaRewrite {
+	/** JSON pointer of the rewritten schema node (`""` for the root) */
+	path: string;
+	/** Keyword that was rewritten or dropped */
+	keyword: string;
+	/** What the rewrite did (e.g. `"exclusiveMinimum: true → exclusiveMinimum: 0"`) */
+	description: string;
+}
+
+/**
+ * Result of `JsonSchemaCompatibilityChecker.upgrade()`.
+ */
+export interface UpgradeResult {
+	/** The schema in the internal (Draft-07) form */
+	schema: JSONSchema7Definition;
+	/** Rewrites applied to Draft-04 / Draft-06 nodes, in document order */
+	rewrites: SchemaRewrite[];
+}
+
 /**
  * Discriminant for `SchemaError` — indicates the nature of the incompatibility.
  *
@@ -30,6 +77,8 @@ declare module "json-schema" {
  * | `BranchMismatch`       | No `anyOf` / `oneOf` branch matches                                | `semantic-errors.ts`       |
  * | `RuntimeValidation`    | Runtime data invalid against a standard JSON Schema keyword (AJV)  | `runtime-validator.ts`     |
  * | `CustomConstraint`     | Custom constraint failed, unknown, or threw                        | `constraint-validator.ts`  |
+ * | `UnresolvedRef`        | `$ref` target not found in the schema nor in the registry          | `json-schema-compatibility-checker.ts` |
+ * | `OpenApiMismatch`      | Operation, status code or media type missing in the other document | `openapi.ts`               |
  */
 export enum SchemaErrorType {
 	TypeMismatch = "type_mismatch",
@@ -44,6 +93,8 @@ export enum SchemaErrorType {
 	BranchMismatch = "branch_mismatch",
 	RuntimeValidation = "runtime_validation",
 	CustomConstraint = "custom_constraint",
+	UnresolvedRef = "unresolved_ref",
+	OpenApiMismatch = "openapi_mismatch",
 }
 
 export interface SchemaError {
@@ -55,6 +106,45 @@ export interface SchemaError {
 	expected: string;
 	/** Type or value received from the source schema (sub) */
 	received: string;
+	/**
+	 * Stable machine-readable code: `<domain>.<keyword>.<reason>` for the
+	 * keywords of one type (e.g. "numeric.minimum.too_low",
+	 * "object.required.missing"), `<keyword>.<reason>` for the others
+	 * (e.g. "type.mismatch", "oneOf.overlap")
+	 */
+	code: string;
+	/** Offending keyword (e.g. "minimum", "required", "type") */
+	keyword: string;
+	/**
+	 * Value `expected` describes: the value of the keyword in sup (e.g. `3`
+	 * for `minimum: 3`, the required property name for `required`)
+	 */
+	expectedValue: unknown;
+	/**
+	 * Value `received` describes: the value of the keyword in sub
+	 * (`undefined` when sub does not set it), or the failing value for
+	 * runtime validation errors
+	 */
+	receivedValue: unknown;
+	/**
+	 * JSON pointer (RFC 6901) of the offending keyword in sub, or of the
+	 * node lacking it (e.g. "/properties/users/items/properties/name/minLength").
+	 * Absent for errors concerning sup only.
+	 */
+	subSchemaPath?: string;
+	/**
+	 * JSON pointer of the offending keyword (or node) in sup. Absent for
+	 * errors concerning sub only.
+	 */
+	supSchemaPath?: string;
+	/**
+	 * Location of the concerned values in an instance, as a JSON pointer
+	 * where `*` stands for any array index or property name (e.g.
+	 * "/tags/*" for the items of `tags`, "/pair/0" for a tuple item, ""
+	 * for the root). Runtime validation errors carry the pointer of the
+	 * failing value ("/users/1/name").
+	 */
+	instancePath: string;
 }
 
 export interface SubsetResult {
@@ -64,6 +154,70 @@ export interface SubsetResult {
 	merged: JSONSchema7Definition | null;
 	/** Semantic errors describing incompatibilities between the two schemas */
 	errors: SchemaError[];
+	/**
+	 * A value valid for sub and invalid for sup, confirmed with AJV.
+	 * Only set on failed checks, when the search finds one.
+	 */
+	counterexample?: unknown;
+	/** Outcome of the cross-validation requested with the `verify` option */
+	verification?: VerificationResult;
+}
+
+/**
+ * Cross-validation of a subset answer with generated instances of sub.
+ */
+export interface VerifyOptions {
+	/** Number of instances of sub generated and validated against sup */
+	samples: number;
+	/**
+	 * Seed of the instance generator — the same seed yields the same instances.
+	 *
+	 * @default 0
+	 */
+	seed?: number;
+}
+
+/**
+ * Result of the `verify` option of `check()`.
+ */
+export interface VerificationResult {
+	/** Number of distinct instances of sub generated and validated against sup */
+	samples: number;
+	/**
+	 * `true` when the check answered `isSubset: true` although a generated
+	 * instance of sub fails sup — a false positive of the static check
+	 */
+	contradiction: boolean;
+	/** The first generated instance of sub that fails sup, if any */
+	failingInstance?: unknown;
+}
+
+/**
+ * Options of the static `check()` — without runtime data.
+ */
+export interface CheckOptions {
+	/**
+	 * Searches, when the check fails, a value valid for sub and invalid for
+	 * sup, confirmed with AJV, and sets it as `result.counterexample`.
+	 * Off by default: the search costs far more than the check itself.
+	 *
+	 * @default false
+	 */
+	counterexample?: boolean;
+
+	/**
+	 * Validates generated instances of sub against sup with AJV, and flags
+	 * a `isSubset: true` answer contradicted by one of them.
+	 *
+	 * @example
+	 * ```ts
+	 * const result = checker.check(sub, sup, { verify: { samples: 100, seed: 1 } });
+	 * if (result.verification?.contradiction) {
+	 *   console.warn("false positive", result.verification.failingInstance);
+	 * }
+	 * ```
+	 */
+	verify?: VerifyOptions;
 }
 
 /**
@@ -142,7 +296,7 @@ export interface ValidateTargets {
  *
  * When `data` is provided, the checker:
  *   1. Resolves `if/then/else` conditions in both `sub` and `sup` using `data`
- *      (if `data` is `undefined`, conditions are resolved with `{}`)
+ *      (if `data` is `undefined`, they are left to the static check)
  *   2. Narrows schemas using runtime values (e.g. enum materialization)
  *   3. Performs the static subset check on the resolved/narrowed schemas
  *
@@ -154,8 +308,10 @@ export interface ValidateTargets {
  * `data` can be a partial discriminant (e.g. `{ kind: "text" }`) used solely
  * for condition resolution and narrowing. It does **not** need to be a complete
  * instance of the schemas unless runtime validation is enabled.
+ *
+ * `verify` cross-validates the static check of the resolved/narrowed schemas.
  */
-export interface CheckRuntimeOptions {
+export interface CheckRuntimeOptions extends CheckOptions {
 	/** Runtime data used for condition resolution, narrowing, and optionally runtime validation */
 	data: unknown;
 
@@ -312,4 +468,182 @@ export interface CheckerOptions {
 	 * will be reported as errors during runtime validation.
 	 */
 	constraints?: ConstraintValidatorRegistry;
+
+	/**
+	 * Documents available to cross-document `$ref`s.
+	 *
+	 * References such as `common.json#/definitions/Money` are resolved
+	 * against the `$id` of the schema holding them and looked up in this
+	 * registry — nothing is ever fetched over the network. References that
+	 * cannot be resolved are reported as `SchemaErrorType.UnresolvedRef`.
+	 */
+	registry?: SchemaRegistry;
+
+	/**
+	 * Dialect of schemas that do not declare one through `$schema`.
+	 * A `$schema` keyword always takes precedence.
+	 *
+	 * @default "draft-07"
+	 */
+	draft?: Draft;
+
+	/**
+	 * Verifies the exclusivity of `oneOf` in sup.
+	 *
+	 * By default `oneOf` is checked like `anyOf`: a value of sub matching
+	 * two branches of sup is accepted, although sup rejects it. With this
+	 * option, `sub ⊆ sup` fails when two `oneOf` branches of sup have a
+	 * non-empty intersection that overlaps sub, with a `BranchMismatch`
+	 * error naming the overlapping branches.
+	 *
+	 * @default false
+	 */
+	strictOneOf?: boolean;
+}
+
+// ─── Example types ───────────────────────────────────────────────────────────
+
+/**
+ * Options of `JsonSchemaCompatibilityChecker.generateExample()`.
+ */
+export interface ExampleOptions {
+	/**
+	 * Seed of the random draws — the same seed always yields the same value.
+	 *
+	 * @default 0
+	 */
+	seed?: number;
+}
+
+// ─── Satisfiability types ────────────────────────────────────────────────────
+
+/**
+ * Result of `JsonSchemaCompatibilityChecker.isSatisfiable()`.
+ */
+export interface SatisfiabilityResult {
+	/**
+	 * `false` when the schema provably accepts no value. `true` means no
+	 * contradiction was found — some empty schemas (e.g. through `not`)
+	 * are not detected.
+	 */
+	isSatisfiable: boolean;
+
+	/** Why the schema accepts no value — empty when `isSatisfiable` */
+	contradictions: Contradiction[];
+}
+
+/**
+ * Keywords of one schema node that exclude each other.
+ */
+export interface Contradiction {
+	/**
+	 * JSON pointer of the node in the normalized schema ("" for the root),
+	 * e.g. "/properties/age"
+	 */
+	path: string;
+
+	/** The conflicting keywords, e.g. ["minimum", "maximum"] */
+	keywords: string[];
+
+	/** Human-readable explanation */
+	description: string;
+}
+
+// ─── Relation types ──────────────────────────────────────────────────────────
+
+/**
+ * How the sets of values accepted by two schemas `a` and `b` relate:
+ *   - `equal`: same values
+ *   - `subset`: every value of `a` is valid for `b`, not conversely
+ *   - `superset`: every value of `b` is valid for `a`, not conversely
+ *   - `overlapping`: some values are valid for both, neither includes the other
+ *   - `disjoint`: no value is valid for both
+ */
+export type SchemaRelation =
+	| "equal"
+	| "subset"
+	| "superset"
+	| "overlapping"
+	| "disjoint";
+
+/**
+ * Result of `JsonSchemaCompatibilityChecker.relate()`.
+ *
+ * Witnesses are validated with AJV; each is absent when no such value was
+ * found (the key is absent, so that `null` remains a valid witness).
+ */
+export interface RelationResult {
+	relation: SchemaRelation;
+
+	/** A value valid for both schemas — always present when `overlapping` */
+	commonValue?: unknown;
+
+	/** A value valid for `a` but not `b` — when `superset`, `overlapping` or `disjoint` */
+	onlyInA?: unknown;
+
+	/** A value valid for `b` but not `a` — when `subset`, `overlapping` or `disjoint` */
+	onlyInB?: unknown;
+}
+
+// ─── Pattern types ───────────────────────────────────────────────────────────
+
+/**
+ * Result of `checkPatternSubset(sub, sup)`.
+ */
+export interface PatternSubsetResult {
+	/**
+	 * `true` / `false`, or `null` when undetermined (invalid pattern,
+	 * generation failed)
+	 */
+	isSubset: boolean | null;
+	/**
+	 * - `"automaton"`: exact decision on the regular subset of ECMAScript
+	 *   regexes
+	 * - `"sampling"`: patterns with lookarounds, backreferences or `\b` —
+	 *   `false` is certain, `true` is high confidence only
+	 */
+	method: "automaton" | "sampling";
+}
+
+// ─── OpenAPI types ───────────────────────────────────────────────────────────
+
+/**
+ * An OpenAPI 3.x document, as a plain JSON object.
+ * Only the parts relevant to compatibility checking are typed.
+ */
+export interface OpenApiDocument {
+	/** `3.0.x` (OpenAPI 3.0 schema objects) or `3.1.x` (JSON Schema 2020-12) */
+	openapi: string;
+	/** Default dialect of the schemas of a 3.1 document */
+	jsonSchemaDialect?: string;
+	paths?: Record<string, unknown>;
+	components?: Record<string, unknown>;
+	[key: string]: unknown;
+}
+
+/**
+ * Result of `checkOpenApi(oldDoc, newDoc)`.
+ */
+export interface OpenApiCompatibilityResult {
+	/** `true` when every operation of the old document is still compatible */
+	isCompatible: boolean;
+	/** Reports of the operations of the old document, per path then per HTTP method */
+	paths: Record<string, Record<string, OpenApiOperationReport>>;
+}
+
+/**
+ * Compatibility report of one operation. Only groups holding errors are
+ * present.
+ */
+export interface OpenApiOperationReport {
+	/** `true` when requests and responses of the operation are compatible */
+	isCompatible: boolean;
+	/** Errors on the operation itself (removed, request body now required) */
+	errors: SchemaError[];
+	/** Parameter errors, per location (`path`, `query`, `header`, `cookie`) — old ⊆ new */
+	parameters: Record<string, SchemaError[]>;
+	/** Request body errors, per media type — old ⊆ new */
+	requestBody: Record<string, SchemaError[]>;
+	/** Response errors, per status code then media type (`*` for the response itself) — new ⊆ old */
+	responses: Record<string, Record<string, SchemaError[]>>;
 }
@@ -0,0 +1,496 @@
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import { escapePointer, mapSubSchemas } from "./ref-resolver.ts";
+import { hasOwn, isPlainObj } from "./utils.ts";
+
+// ─── Unevaluated keywords ────────────────────────────────────────────────────
+//
+// Rewrites `unevaluatedProperties` / `unevaluatedItems` (Draft 2019-09+) into
+// Draft-07 keywords, so that the merge engine and the subset checker reason
+// about them like `additionalProperties` / `additionalItems`.
+//
+// `unevaluatedProperties: U` constrains the properties that no adjacent
+// keyword evaluated — including the keywords of the `allOf` members and of
+// the `anyOf` / `oneOf` / `if` branches the instance validates against. Once
+// the evaluated names and patterns are known, the keyword is equivalent to a
+// closure: `properties` listing the names with `{}`, `patternProperties`
+// listing the patterns with `{}`, and `additionalProperties: U`.
+//
+//   - Without branches, the closure is applied to the schema itself
+//   - `oneOf` and `if`/`then`/`else`: the closure is distributed into each
+//     branch (`then` / `else`), with the names that branch evaluates
+//   - `anyOf`: several branches may validate at once, so the branches are
+//     replaced by their non-empty combinations (`allOf` of the branches),
+//     each closed over what the combination evaluates
+//   - `unevaluatedItems` works the same way with the evaluated tuple prefix
+//     (`items` array + `additionalItems`)
+//
+// When the evaluated set cannot be known statically (recursive `$ref`,
+// branches nested in `allOf` members, schema-form `dependencies`, `contains`
+// for items, more than one branching keyword, …) the keyword is left as-is
+// and still applied by the runtime validation. The subset check cannot
+// reason about it: a sup keeping one is never proven a superset
+// (`unevaluatedLocations` finds them).
+//
+// Runs after `$ref` resolution, so that referenced schemas contribute the
+// properties they evaluate.
+
+// ─── Caches ──────────────────────────────────────────────────────────────────
+
+/** `resolveUnevaluated` results per schema object. */
+const unevaluatedCache = new WeakMap<object, JSONSchema7Definition>();
+
+/** `containsUnevaluated` results per schema object. */
+const containsCache = new WeakMap<object, boolean>();
+
+/** Keywords whose sub-schemas apply to the properties or items of the instance. */
+const INSTANCE_KEYWORDS = new Set([
+	"patternProperties",
+	"additionalProperties",
+	"items",
+	"additionalItems",
+	"contains",
+]);
+
+/** `anyOf` branches beyond which combinations (2ⁿ − 1) are not expanded. */
+const MAX_ANY_OF_BRANCHES = 4;
+
+// ─── Annotations ─────────────────────────────────────────────────────────────
+
+/** What a schema evaluates, whatever the instance. */
+interface Annotations {
+	/** Names listed in `properties` */
+	properties: Set<string>;
+	/** Patterns listed in `patternProperties` */
+	patterns: Set<string>;
+	/** `additionalProperties` or `unevaluatedProperties` — every property */
+	allProperties: boolean;
+	/** Length of the evaluated tuple prefix (array-form `items`) */
+	items: number;
+	/** Schema-form `items`, `additionalItems` or `unevaluatedItems` — every item */
+	allItems: boolean;
+	/** `contains` evaluates the items it matches — unknown statically */
+	contains: boolean;
+}
+
+function emptyAnnotations(): Annotations {
+	return {
+		properties: new Set(),
+		patterns: new Set(),
+		allProperties: false,
+		items: 0,
+		allItems: false,
+		contains: false,
+	};
+}
+
+function unionAnnotations(...all: Annotations[]): Annotations {
+	const result = emptyAnnotations();
+	for (const a of all) {
+		for (const name of a.properties) result.properties.add(name);
+		for (const pattern of a.patterns) result.patterns.add(pattern);
+		result.allProperties ||= a.allProperties;
+		result.items = Math.max(result.items, a.items);
+		result.allItems ||= a.allItems;
+		result.contains ||= a.contains;
+	}
+	return result;
+}
+
+/** Checks whether `a` evaluates everything `b` evaluates. */
+function coversAnnotations(a: Annotations, b: Annotations): boolean {
+	const properties =
+		a.allProperties ||
+		(!b.allProperties &&
+			[...b.properties].every((name) => a.properties.has(name)) &&
+			[...b.patterns].every((pattern) => a.patterns.has(pattern)));
+	const items = a.allItems || (!b.allItems && a.items >= b.items);
+	return properties && items && (a.contains || !b.contains);
+}
+
+function isEmptyAnnotations(a: Annotations): boolean {
+	return coversAnnotations(emptyAnnotations(), a);
+}
+
+/**
+ * Annotations produced by the keywords of the schema itself.
+ * `unevaluated*` are skipped when `withUnevaluated` is `false` — when
+ * computing what they apply to.
+ */
+function ownAnnotations(
+	schema: JSONSchema7,
+	withUnevaluated: boolean,
+): Annotations {
+	const result = emptyAnnotations();
+	if (isPlainObj(schema.properties)) {
+		for (const name of Object.keys(schema.properties)) {
+			result.properties.add(name);
+		}
+	}
+	if (isPlainObj(schema.patternProperties)) {
+		for (const pattern of Object.keys(schema.patternProperties)) {
+			result.patterns.add(pattern);
+		}
+	}
+	result.allProperties =
+		schema.additionalProperties !== undefined ||
+		(withUnevaluated && schema.unevaluatedProperties !== undefined);
+
+	if (Array.isArray(schema.items)) {
+		result.items = schema.items.length;
+		result.allItems = schema.additionalItems !== undefined;
+	} else {
+		result.allItems = schema.items !== undefined;
+	}
+	result.allItems ||= withUnevaluated && schema.unevaluatedItems !== undefined;
+	result.contains = schema.contains !== undefined;
+	return result;
+}
+
+/**
+ * Annotations produced by a schema and its `allOf` members — the part that
+ * does not depend on branches. Returns `null` when it cannot be known:
+ * unresolved or recursive `$ref`, schema-form `dependencies` that evaluate
+ * something, or a member that is itself branched.
+ */
+function baseAnnotations(
+	schema: JSONSchema7,
+	withUnevaluated: boolean,
+): Annotations | null {
+	if (typeof schema.$ref === "string") return null;
+
+	const parts = [ownAnnotations(schema, withUnevaluated)];
+	if (Array.isArray(schema.allOf)) {
+		for (const member of schema.allOf) {
+			const annotations = staticAnnotations(member);
+			if (annotations === null) return null;
+			parts.push(annotations);
+		}
+	}
+
+	if (isPlainObj(schema.dependencies)) {
+		for (const dependency of Object.values(schema.dependencies)) {
+			if (Array.isArray(dependency)) continue;
+			const annotations = staticAnnotations(dependency);
+			if (annotations === null || !isEmptyAnnotations(annotations)) {
+				return null;
+			}
+		}
+	}
+
+	return unionAnnotations(...parts);
+}
+
+/**
+ * Annotations produced by a schema whatever the instance, or `null` when
+ * they depend on which branches the instance validates against.
+ */
+function staticAnnotations(def: JSONSchema7Definition): Annotations | null {
+	if (typeof def === "boolean") return emptyAnnotations();
+
+	const base = baseAnnotations(def, true);
+	if (base === null) return null;
+
+	const branches = [
+		...(def.anyOf ?? []),
+		...(def.oneOf ?? []),
+		...(def.if !== undefined
+			? [def.if, def.then ?? true, def.else ?? true]
+			: []),
+	];
+	for (const branch of branches) {
+		const annotations = staticAnnotations(branch);
+		if (annotations === null || !isEmptyAnnotations(annotations)) return null;
+	}
+	return base;
+}
+
+/** Maps `staticAnnotations` over branches — `null` if any is unknown. */
+function branchAnnotations(
+	branches: JSONSchema7Definition[],
+): Annotations[] | null {
+	const result: Annotations[] = [];
+	for (const branch of branches) {
+		const annotations = staticAnnotations(branch);
+		if (annotations === null) return null;
+		result.push(annotations);
+	}
+	return result;
+}
+
+// ─── Rewriting ───────────────────────────────────────────────────────────────
+
+/**
+ * Checks whether a schema (or any sub-schema) uses `unevaluatedProperties`
+ * or `unevaluatedItems`.
+ */
+function containsUnevaluated(def: JSONSchema7Definition): boolean {
+	if (typeof def === "boolean") return false;
+	const cached = containsCache.get(def);
+	if (cached !== undefined) return cached;
+
+	let found =
+		hasOwn(def, "unevaluatedProperties") || hasOwn(def, "unevaluatedItems");
+	if (!found) {
+		mapSubSchemas(
+			def,
+			(sub) => {
+				if (!found && containsUnevaluated(sub)) found = true;
+				return sub;
+			},
+			false,
+		);
+	}
+
+	containsCache.set(def, found);
+	return found;
+}
+
+/**
+ * Locates the `unevaluatedProperties` / `unevaluatedItems` keywords a
+ * rewritten schema still holds: JSON pointers of the keywords, and of
+ * the instances they apply to (`/*` for any property or item).
+ */
+export function unevaluatedLocations(
+	def: JSONSchema7Definition,
+): { pointer: string; instancePath: string }[] {
+	if (typeof def === "boolean" || !containsUnevaluated(def)) return [];
+	const found = ["unevaluatedProperties", "unevaluatedItems"]
+		.filter((keyword) => hasOwn(def, keyword))
+		.map((keyword) => ({ pointer: `/${keyword}`, instancePath: "" }));
+	mapSubSchemas(
+		def,
+		(sub, keyword, key) => {
+			const at = key === undefined ? "" : `/${escapePointer(key)}`;
+			const instance =
+				keyword === "properties" || (keyword === "items" && key !== undefined)
+					? at
+					: INSTANCE_KEYWORDS.has(keyword)
+						? "/*"
+						: "";
+			for (const location of unevaluatedLocations(sub)) {
+				found.push({
+					pointer: `/${keyword}${at}${location.pointer}`,
+					instancePath: `${instance}${location.instancePath}`,
+				});
+			}
+			return sub;
+		},
+		false,
+	);
+	return found;
+}
+
+/**
+ * Rewrites `unevaluatedProperties` / `unevaluatedItems` into Draft-07
+ * keywords wherever the evaluated properties / items can be determined
+ * statically. Expects a schema whose `$ref`s are already resolved.
+ *
+ * @returns The rewritten schema — the original object when it uses neither
+ *          keyword
+ *
+ * @example
+ * ```ts
+ * resolveUnevaluated({
+ *   allOf: [{ properties: { id: { type: "string" } } }],
+ *   properties: { name: { type: "string" } },
+ *   unevaluatedProperties: false,
+ * });
+ * // → {
+ * //   allOf: [{ properties: { id: { type: "string" } } }],
+ * //   properties: { name: { type: "string" }, id: {} },
+ * //   additionalProperties: false,
+ * // }
+ * ```
+ */
+export function resolveUnevaluated(
+	def: JSONSchema7Definition,
+): JSONSchema7Definition {
+	if (typeof def === "boolean") return def;
+
+	const cached = unevaluatedCache.get(def);
+	if (cached !== undefined) return cached;
+
+	let result: JSONSchema7Definition = def;
+	if (containsUnevaluated(def)) {
+		const mapped = mapSubSchemas(def, resolveUnevaluated, false);
+		result =
+			hasOwn(def, "unevaluatedProperties") || hasOwn(def, "unevaluatedItems")
+				? closeUnevaluated(def, mapped)
+				: mapped;
+	}
+
+	unevaluatedCache.set(def, result);
+	return result;
+}
+
+/**
+ * Replaces the `unevaluated*` keywords of a single node by closures.
+ * Annotations are computed on `original` (sub-schemas not yet rewritten);
+ * closures are built from `mapped` (sub-schemas already rewritten).
+ */
+function closeUnevaluated(
+	original: JSONSchema7,
+	mapped: JSONSchema7,
+): JSONSchema7 {
+	const base = baseAnnotations(original, false);
+	if (base === null) return mapped;
+
+	// ── Branching keywords that evaluate something ──
+	const anyOf = branchAnnotations(original.anyOf ?? []);
+	const oneOf = branchAnnotations(original.oneOf ?? []);
+	const conditional =
+		original.if !== undefined
+			? branchAnnotations([
+					original.if,
+					original.then ?? true,
+					original.else ?? true,
+				])
+			: [];
+	if (anyOf === null || oneOf === null || conditional === null) return mapped;
+
+	const active = [anyOf, oneOf, conditional].filter((group) =>
+		group.some((annotations) => !isEmptyAnnotations(annotations)),
+	);
+	if (active.length > 1) return mapped;
+	const [group] = active;
+
+	// ── Keywords that can be closed ──
+	const everything = unionAnnotations(base, ...anyOf, ...oneOf, ...conditional);
+	const { unevaluatedProperties, unevaluatedItems, ...rest } = mapped;
+	const result: JSONSchema7 = rest;
+	const closable = {
+		properties: unevaluatedProperties,
+		items: everything.contains ? undefined : unevaluatedItems,
+	};
+	if (closable.items === undefined && unevaluatedItems !== undefined) {
+		result.unevaluatedItems = unevaluatedItems;
+	}
+
+	// ── No branch evaluates anything: close the schema itself ──
+	if (group === undefined) {
+		return close(result, base, closable) as JSONSchema7;
+	}
+
+	// ── oneOf: close each branch ──
+	if (group === oneOf) {
+		result.oneOf = (mapped.oneOf ?? []).map((branch, i) =>
+			close(branch, unionAnnotations(base, oneOf[i] as Annotations), closable),
+		);
+		return result;
+	}
+
+	// ── if/then/else: close then and else ──
+	if (group === conditional) {
+		const [ifAnnotations, thenAnnotations, elseAnnotations] = conditional as [
+			Annotations,
+			Annotations,
+			Annotations,
+		];
+		result.then = close(
+			mapped.then ?? true,
+			unionAnnotations(base, ifAnnotations, thenAnnotations),
+			closable,
+		);
+		result.else = close(
+			mapped.else ?? true,
+			unionAnnotations(base, elseAnnotations),
+			closable,
+		);
+		return result;
+	}
+
+	// ── anyOf: close each combination of branches ──
+	const branches = mapped.anyOf ?? [];
+	if (branches.length > MAX_ANY_OF_BRANCHES) return mapped;
+	result.anyOf = [];
+	for (const combination of combinations(branches.length)) {
+		const parts = combination.map((i) => anyOf[i] as Annotations);
+		// A branch that adds nothing to the others is already covered by
+		// the smaller combination
+		const redundant =
+			combination.length > 1 &&
+			parts.some((part, i) =>
+				coversAnnotations(
+					unionAnnotations(base, ...parts.filter((_, j) => j !== i)),
+					part,
+				),
+			);
+		if (redundant) continue;
+
+		const schemas = combination.map(
+			(i) => branches[i] as JSONSchema7Definition,
+		);
+		result.anyOf.push(
+			close(
+				schemas.length === 1
+					? (schemas[0] as JSONSchema7Definition)
+					: { allOf: schemas },
+				unionAnnotations(base, ...parts),
+				closable,
+			),
+		);
+	}
+	return result;
+}
+
+/** Non-empty subsets of `[0, n)`, smallest first. */
+function combinations(n: number): number[][] {
+	const result: number[][] = [];
+	for (let mask = 1; mask < 1 << n; mask++) {
+		const combination: number[] = [];
+		for (let i = 0; i < n; i++) {
+			if (mask & (1 << i)) combination.push(i);
+		}
+		result.push(combination);
+	}
+	return result.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Adds to a schema the Draft-07 keywords equivalent to `unevaluated*`,
+ * given everything evaluated alongside it. The schema is expected to be
+ * part of what `annotations` covers (so it has no `additionalProperties`
+ * of its own unless `allProperties` is set).
+ */
+function close(
+	def: JSONSchema7Definition,
+	annotations: Annotations,
+	closable: {
+		properties: JSONSchema7Definition | undefined;
+		items: JSONSchema7Definition | undefined;
+	},
+): JSONSchema7Definition {
+	if (def === false) return false;
+	const schema: JSONSchema7 = def === true ? {} : { ...def };
+
+	// ── unevaluatedProperties → properties + patternProperties + additionalProperties ──
+	if (closable.properties !== undefined && !annotations.allProperties) {
+		const properties = { ...schema.properties };
+		for (const name of annotations.properties) {
+			if (!hasOwn(properties, name)) properties[name] = {};
+		}
+		if (Object.keys(properties).length > 0) schema.properties = properties;
+
+		const patterns = { ...schema.patternProperties };
+		for (const pattern of annotations.patterns) {
+			if (!hasOwn(patterns, pattern)) patterns[pattern] = {};
+		}
+		if (Object.keys(patterns).length > 0) schema.patternProperties = patterns;
+
+		schema.additionalProperties = closable.properties;
+	}
+
+	// ── unevaluatedItems → items + additionalItems ──
+	if (closable.items !== undefined && !annotations.allItems) {
+		if (annotations.items === 0 && schema.items === undefined) {
+			schema.items = closable.items;
+		} else {
+			const tuple = Array.isArray(schema.items) ? [...schema.items] : [];
+			while (tuple.length < annotations.items) tuple.push({});
+			schema.items = tuple;
+			schema.additionalItems = closable.items;
+		}
+	}
+
+	return schema;
+}
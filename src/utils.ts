@@ -194,6 +194,8 @@ const SEMANTIC_KEYWORDS = new Set([
 	"minItems",
 	"uniqueItems",
 	"contains",
+	"minContains",
+	"maxContains",
 	// object
 	"maxProperties",
 	"minProperties",
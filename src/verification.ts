@@ -0,0 +1,56 @@
+import type { JSONSchema7Definition } from "json-schema";
+import { generateExamples } from "./example-generator.ts";
+import type { MergeEngine } from "./merge-engine.ts";
+import { collectUnresolvedRefs } from "./ref-resolver.ts";
+import { isDataValidForSchema } from "./runtime-validator.ts";
+import type { VerificationResult, VerifyOptions } from "./types.ts";
+
+// ─── Cross-validation ────────────────────────────────────────────────────────
+//
+// Checks a static subset answer against concrete values: instances of sub
+// are generated (`example-generator.ts`) and validated against sup with AJV.
+// An instance rejected by sup while the static answer is `isSubset: true`
+// reveals a false positive of the merge-based check.
+
+/**
+ * Validates generated instances of `sub` against `sup`.
+ *
+ * @param sub      Normalized schema of the subset candidate
+ * @param sup      Normalized schema of the expected superset
+ * @param isSubset The static answer being verified
+ * @param engine   Merge engine used by the generator
+ * @param options  Number of instances and seed of the generator
+ */
+export function verifySubset(
+	sub: JSONSchema7Definition,
+	sup: JSONSchema7Definition,
+	isSubset: boolean,
+	engine: MergeEngine,
+	options: VerifyOptions,
+): VerificationResult {
+	// A `$ref` to an unknown document cannot be validated by AJV
+	if (
+		collectUnresolvedRefs(sub).length > 0 ||
+		collectUnresolvedRefs(sup).length > 0
+	) {
+		return { samples: 0, contradiction: false };
+	}
+
+	const instances = generateExamples(
+		sub,
+		engine,
+		options.samples,
+		options.seed ?? 0,
+	);
+	const failing = instances.find(
+		(instance) => !isDataValidForSchema(sup, instance),
+	);
+	if (failing === undefined) {
+		return { samples: instances.length, contradiction: false };
+	}
+	return {
+		samples: instances.length,
+		contradiction: isSubset,
+		failingInstance: failing,
+	};
+}
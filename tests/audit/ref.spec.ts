@@ -9,21 +9,21 @@ beforeAll(() => {
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
-//  $ref — CRITICAL GAP
+//  $ref — local references
 //  $ref is the most used composition mechanism in JSON Schema.
-//  The checker has NO $ref resolution. These tests document what happens.
+//  Local pointers are resolved during normalization, each schema against
+//  its own root.
 // ═══════════════════════════════════════════════════════════════════════════════
 
 // ─────────────────────────────────────────────────────────────────────────────
-//  1. $ref — CRITICAL GAP
+//  1. $ref — local resolution
 //
-//  $ref is the most used composition mechanism in JSON Schema.
-//  The checker has NO $ref resolution. These tests document what happens
-//  when $ref is encountered — spoiler: it's silently ignored.
+//  These tests used to document that $ref was silently ignored. They now
+//  assert that the referenced constraints take part in every operation.
 // ─────────────────────────────────────────────────────────────────────────────
 
-describe("$ref — CRITICAL GAP", () => {
-	test("$ref to definitions is silently ignored — schema with $ref treated as empty", () => {
+describe("$ref — local resolution", () => {
+	test("$ref to definitions is inlined by normalize", () => {
 		const schema: JSONSchema7 = {
 			type: "object",
 			definitions: {
@@ -39,18 +39,21 @@ describe("$ref — CRITICAL GAP", () => {
 			required: ["billing"],
 		};
 
-		// The $ref is not resolved, so "billing" has no constraints
-		// normalized billing property should be { $ref: "..." } which is opaque
 		const normalized = checker.normalize(schema) as JSONSchema7;
 		const billingProp = (
 			normalized.properties as Record<string, JSONSchema7Definition> | undefined
 		)?.billing;
 
-		// $ref is kept as-is (not resolved, not removed)
-		expect(billingProp).toHaveProperty("$ref");
+		expect(billingProp).toEqual({
+			type: "object",
+			properties: { street: { type: "string" } },
+			required: ["street"],
+		});
+		// definitions are dropped once every reference has been inlined
+		expect(normalized).not.toHaveProperty("definitions");
 	});
 
-	test("subset check with $ref produces INCORRECT result — $ref is invisible", () => {
+	test("subset check sees the constraints of the referenced schema", () => {
 		const sub: JSONSchema7 = {
 			type: "object",
 			properties: {
@@ -72,19 +75,17 @@ describe("$ref — CRITICAL GAP", () => {
 			},
 		};
 
-		// This SHOULD be true (sub.name is string, sup.name via $ref is string+constraints)
-		// But since $ref is not resolved, sup.name has no type constraint visible
-		// The merge treats $ref as an opaque key
-		const result = checker.isSubset(sub, sup);
+		// sub.name is any string, sup.name (via $ref) requires minLength 5
+		expect(checker.isSubset(sub, sup)).toBe(false);
 
-		// Document the actual behavior: $ref is not resolved so the check
-		// doesn't see the constraints from the referenced schema
-		// The result may be true because sup.name effectively has no visible constraints
-		expect(typeof result).toBe("boolean");
-		// This is the key insight: the result is UNRELIABLE when $ref is present
+		const result = checker.check(sub, sup);
+		expect(result.errors.some((e) => e.key === "name")).toBe(true);
+
+		// The other direction holds
+		expect(checker.isSubset(sup, sub)).toBe(true);
 	});
 
-	test("intersect with $ref — $ref key is preserved but NOT dereferenced", () => {
+	test("intersect with $ref — referenced constraints are applied", () => {
 		const a: JSONSchema7 = {
 			type: "object",
 			properties: {
@@ -103,19 +104,12 @@ describe("$ref — CRITICAL GAP", () => {
 		};
 
 		const result = checker.intersect(a, b);
-		// The merge should succeed (no type conflict visible since $ref is opaque)
-		// but the result won't contain the maxLength from the $ref target
 		expect(result).not.toBeNull();
-		if (result && typeof result !== "boolean") {
-			const xProp = (result as JSONSchema7).properties?.x;
-			if (xProp && typeof xProp !== "boolean") {
-				// maxLength from definitions.foo is NOT applied (not dereferenced)
-				expect(xProp).not.toHaveProperty("maxLength");
-			}
-		}
+		const xProp = (result as JSONSchema7).properties?.x;
+		expect(xProp).toEqual({ type: "string", minLength: 1, maxLength: 50 });
 	});
 
-	test("$ref across both schemas — check produces meaningless result", () => {
+	test("$ref across both schemas — each side resolves against its own definitions", () => {
 		const sub: JSONSchema7 = {
 			type: "object",
 			properties: {
@@ -136,14 +130,12 @@ describe("$ref — CRITICAL GAP", () => {
 			},
 		};
 
-		// These schemas have INCOMPATIBLE types (string vs number) via $ref
-		// But since $ref is not resolved, the checker sees both as opaque
-		const result = checker.isSubset(sub, sup);
-		// The checker cannot detect the incompatibility
-		expect(typeof result).toBe("boolean");
+		// Same pointer, INCOMPATIBLE targets (string vs number)
+		expect(checker.isSubset(sub, sup)).toBe(false);
+		expect(checker.isSubset(sub, sub)).toBe(true);
 	});
 
-	test("check with $ref — subset check is unreliable", () => {
+	test("check with $ref — required is compared against the inlined target", () => {
 		const sourceOutput: JSONSchema7 = {
 			type: "object",
 			properties: {
@@ -170,9 +162,14 @@ describe("$ref — CRITICAL GAP", () => {
 			required: ["result"],
 		};
 
+		// Only `required` differs once the $ref is inlined
 		const result = checker.check(sourceOutput, targetInput);
-		// Source has $ref (unresolved), target has inline schema
-		// The result is unreliable
-		expect(result).toHaveProperty("isSubset");
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toHaveLength(1);
+		expect(result.errors[0]?.key).toBe("result");
+
+		expect(
+			checker.isSubset(sourceOutput, { ...targetInput, required: [] }),
+		).toBe(true);
 	});
 });
@@ -247,22 +247,16 @@ describe("definitions — behavior without $ref", () => {
 });
 
 describe("allOf — behavior in subset checking", () => {
-	test("allOf in sub is NOT decomposed by getBranchesTyped (LIMITATION)", () => {
+	test("allOf in sub is flattened before the check", () => {
 		const sub: JSONSchema7 = {
 			allOf: [{ type: "string", minLength: 1 }, { maxLength: 100 }],
 		};
 
 		const sup: JSONSchema7 = { type: "string" };
 
-		// LIMITATION: getBranchesTyped only extracts anyOf/oneOf branches,
-		// not allOf. When sub has allOf, it stays as a single atomic schema.
-		// The merge engine merges sub (with allOf) against sup, producing a
-		// result that structurally differs from sub (the allOf gets flattened
-		// in the merge result but sub still has it), so isEqual fails.
-		//
-		// Workaround: pre-resolve allOf in sub before checking, or use
-		// intersect() to flatten the allOf first.
-		expect(checker.isSubset(sub, sup)).toBe(false); // LIMITATION — should be true
+		// getBranchesTyped only extracts anyOf/oneOf branches: the members
+		// of a sub allOf are merged into one schema before the check.
+		expect(checker.isSubset(sub, sup)).toBe(true);
 	});
 
 	test("allOf in sub works when pre-flattened via intersect()", () => {
@@ -36,7 +36,7 @@ describe("check with conditions", () => {
 		},
 	};
 
-	test("sub matching then-branch ⊆ resolved sup (fixes false negative)", async () => {
+	test("sub matching then-branch ⊆ resolved sup", async () => {
 		const sub: JSONSchema7 = {
 			type: "object",
 			properties: {
@@ -46,8 +46,8 @@ describe("check with conditions", () => {
 			required: ["kind", "value"],
 		};
 
-		// Without resolution: false (known limitation)
-		expect(checker.isSubset(sub, conditionalSup)).toBe(false);
+		// Without resolution: the condition is split into its cases
+		expect(checker.isSubset(sub, conditionalSup)).toBe(true);
 
 		// With resolution: true! data is a complete instance matching the then-branch.
 		const result = await checker.check(sub, conditionalSup, {
@@ -201,8 +201,8 @@ describe("check with conditions", () => {
 			additionalProperties: false,
 		};
 
-		// Without resolution: false (known limitation — if/then/else gets added)
-		expect(checker.isSubset(businessOutput, formSchema)).toBe(false);
+		// Without resolution: the else-branch is unreachable from the output
+		expect(checker.isSubset(businessOutput, formSchema)).toBe(true);
 
 		// With resolution: true! Data is a complete business instance.
 		const result = await checker.check(businessOutput, formSchema, {
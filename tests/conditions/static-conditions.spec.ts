@@ -0,0 +1,235 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  if / then / else without runtime data — case splitting
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** `value` is a string for kind "text", a number otherwise */
+const conditional: JSONSchema7 = {
+	type: "object",
+	properties: {
+		kind: { enum: ["text", "count"] },
+		value: {},
+	},
+	required: ["kind", "value"],
+	if: { properties: { kind: { const: "text" } } },
+	then: { properties: { value: { type: "string" } } },
+	else: { properties: { value: { type: "number" } } },
+};
+
+function output(kind: JSONSchema7, value: JSONSchema7): JSONSchema7 {
+	return {
+		type: "object",
+		properties: { kind, value },
+		required: ["kind", "value"],
+	};
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Conditional sup
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("static conditions — conditional sup", () => {
+	test("a sub in the then case is checked against then", () => {
+		expect(
+			checker.isSubset(
+				output({ const: "text" }, { type: "string", minLength: 1 }),
+				conditional,
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				output({ const: "text" }, { type: "number" }),
+				conditional,
+			),
+		).toBe(false);
+	});
+
+	test("a sub in the else case is checked against else", () => {
+		expect(
+			checker.isSubset(
+				output({ const: "count" }, { type: "integer" }),
+				conditional,
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				output({ const: "count" }, { type: "string" }),
+				conditional,
+			),
+		).toBe(false);
+	});
+
+	test("anyOf branches of sub may fall in different cases", () => {
+		const sub: JSONSchema7 = {
+			anyOf: [
+				output({ const: "text" }, { type: "string" }),
+				output({ const: "count" }, { type: "integer" }),
+			],
+		};
+		expect(checker.isSubset(sub, conditional)).toBe(true);
+	});
+
+	test("a sub spanning both cases is split along the condition", () => {
+		const lenient: JSONSchema7 = {
+			...conditional,
+			else: { properties: { value: { type: ["string", "number"] } } },
+		};
+		const sub = output({ enum: ["text", "count"] }, { type: "string" });
+		expect(checker.isSubset(sub, lenient)).toBe(true);
+		expect(checker.isSubset(sub, conditional)).toBe(false);
+	});
+
+	test("a case is only pruned when sub provably misses it", () => {
+		// -1 is a number and an integer below 0
+		expect(
+			checker.isSubset(
+				{ type: "number" },
+				{ if: { type: "integer" }, then: { minimum: 0 } },
+			),
+		).toBe(false);
+		// 11 is at least 10 and not a multiple of 5
+		expect(
+			checker.isSubset(
+				{ type: "integer", minimum: 0 },
+				{ if: { type: "number", minimum: 10 }, then: { multipleOf: 5 } },
+			),
+		).toBe(false);
+		expect(
+			checker.isSubset(
+				{ type: "object", properties: { a: { type: "number" } } },
+				{
+					type: "object",
+					properties: {
+						a: { if: { type: "integer" }, then: { minimum: 0 } },
+					},
+				},
+			),
+		).toBe(false);
+		expect(
+			checker.isSubset(
+				{ type: "string" },
+				{ if: { type: "integer" }, then: { minimum: 0 } },
+			),
+		).toBe(true);
+	});
+
+	test("a sub that can never meet the if is checked against else only", () => {
+		// x is a number whenever present: the if (x required and a string) never holds
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { x: { type: "number" } },
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			if: { properties: { x: { type: "string" } }, required: ["x"] },
+			then: { required: ["y"] },
+		};
+		expect(checker.isSubset(sub, sup)).toBe(true);
+		expect(checker.check(sub, sup).isSubset).toBe(true);
+	});
+
+	test("errors point to the case sub fails", () => {
+		const result = checker.check(
+			output({ const: "text" }, { type: "boolean" }),
+			conditional,
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.TypeMismatch,
+				key: "value",
+				expected: "string",
+				received: "boolean",
+				code: "type.mismatch",
+				keyword: "type",
+				expectedValue: "string",
+				receivedValue: "boolean",
+				subSchemaPath: "/properties/value/type",
+				supSchemaPath: "/then/properties/value/type",
+				instancePath: "/value",
+			},
+		]);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Conditional sub
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("static conditions — conditional sub", () => {
+	test("every reachable case must be accepted", () => {
+		expect(
+			checker.isSubset(conditional, {
+				type: "object",
+				properties: { value: { type: ["string", "number"] } },
+				required: ["value"],
+			}),
+		).toBe(true);
+		expect(
+			checker.isSubset(conditional, {
+				type: "object",
+				properties: { value: { type: "string" } },
+			}),
+		).toBe(false);
+	});
+
+	test("unreachable cases are pruned", () => {
+		// kind is always "text": the else case cannot happen
+		const textOnly: JSONSchema7 = {
+			...conditional,
+			properties: { kind: { const: "text" }, value: {} },
+		};
+		expect(
+			checker.isSubset(textOnly, {
+				type: "object",
+				properties: { value: { type: "string" } },
+			}),
+		).toBe(true);
+	});
+
+	test("if without then or else constrains nothing", () => {
+		expect(
+			checker.isSubset(
+				{ type: "string", if: { minLength: 3 } },
+				{ type: "string" },
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{ type: "string" },
+				{ type: "string", if: { minLength: 3 } },
+			),
+		).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Nested conditions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("static conditions — nested", () => {
+	test("conditions inside properties are split too", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { field: conditional },
+			required: ["field"],
+		};
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: {
+				field: output({ const: "count" }, { type: "number", minimum: 0 }),
+			},
+			required: ["field"],
+		};
+		expect(checker.isSubset(sub, sup)).toBe(true);
+	});
+});
@@ -568,7 +568,6 @@ describe("edge cases", () => {
 			else: { properties: { value: { type: "number" } } },
 		};
 
-		// Without data, the conditional sup causes a false negative (known limitation).
 		// data: undefined should produce the same static result, NOT enter the runtime path.
 		const staticResult = checker.check(sub, sup);
 		const undefinedDataResult = await checker.check(sub, sup, {
@@ -576,6 +575,8 @@ describe("edge cases", () => {
 		});
 
 		expect(undefinedDataResult.isSubset).toBe(staticResult.isSubset);
+		expect(undefinedDataResult.isSubset).toBe(true);
+		expect(undefinedDataResult.resolvedSup.branch).toBeNull();
 	});
 
 	test("check with { data: null } — null is validated against both schemas", async () => {
@@ -0,0 +1,302 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  allOf in sub — flattening and disjunctive normal form
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** An object allOf of `n` anyOf members — 2^n conjunctions. */
+function choices(n: number): JSONSchema7 {
+	return {
+		type: "object",
+		allOf: Array.from({ length: n }, (_, i) => ({
+			anyOf: [{ required: [`a${i}`] }, { required: [`b${i}`] }],
+		})),
+	};
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("allOf in sub — isSubset", () => {
+	test("members are merged into one schema", () => {
+		const sub: JSONSchema7 = {
+			allOf: [{ type: "string", minLength: 1 }, { maxLength: 100 }],
+		};
+		expect(checker.isSubset(sub, { type: "string", maxLength: 100 })).toBe(
+			true,
+		);
+		expect(checker.isSubset(sub, { type: "string", maxLength: 50 })).toBe(
+			false,
+		);
+	});
+
+	test("sibling keywords are part of the conjunction", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			required: ["id"],
+			allOf: [{ properties: { id: { type: "integer" } } }],
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "number" } },
+			required: ["id"],
+		};
+		expect(checker.isSubset(sub, sup)).toBe(true);
+	});
+
+	test("anyOf members are distributed into branches", () => {
+		// string ∩ (minLength: 1 ∪ number) = string with minLength: 1
+		const sub: JSONSchema7 = {
+			allOf: [
+				{ type: "string" },
+				{ anyOf: [{ minLength: 1 }, { type: "number" }] },
+			],
+		};
+		expect(checker.isSubset(sub, { type: "string", minLength: 1 })).toBe(true);
+	});
+
+	test("each combination of branches must be accepted", () => {
+		const sub: JSONSchema7 = {
+			allOf: [
+				{ oneOf: [{ type: "string" }, { type: "integer" }] },
+				{ anyOf: [{ minLength: 2 }, { minimum: 0 }] },
+			],
+		};
+		// "" (minimum ignores strings) and -1 (minLength ignores numbers) match sub
+		expect(checker.isSubset(sub, { type: ["string", "integer"] })).toBe(true);
+		expect(
+			checker.isSubset(sub, {
+				anyOf: [
+					{ type: "string", minLength: 2 },
+					{ type: "integer", minimum: 0 },
+				],
+			}),
+		).toBe(false);
+	});
+
+	test("an allOf without any value is a subset of everything", () => {
+		const sub: JSONSchema7 = {
+			allOf: [{ type: "string" }, { type: "number" }],
+		};
+		expect(checker.isSubset(sub, { type: "boolean" })).toBe(true);
+	});
+
+	test("beyond the branch limit, one member included in sup is enough", () => {
+		expect(checker.isSubset(choices(8), { type: "object" })).toBe(true);
+		expect(
+			checker.isSubset(
+				{ ...choices(8), required: ["id"] },
+				{ type: "object", required: ["id"] },
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{
+					...choices(8),
+					allOf: [...(choices(8).allOf ?? []), { maxProperties: 3 }],
+				},
+				{ type: "object", maxProperties: 5 },
+			),
+		).toBe(true);
+	});
+
+	test("nested allOf members are flattened too", () => {
+		const sub: JSONSchema7 = {
+			allOf: [{ allOf: [{ type: "integer" }, { minimum: 1 }] }, { maximum: 9 }],
+		};
+		expect(
+			checker.isSubset(sub, { type: "integer", minimum: 0, maximum: 10 }),
+		).toBe(true);
+	});
+
+	test("allOf inside properties, items and branches is flattened", () => {
+		const nonEmpty: JSONSchema7 = {
+			allOf: [{ type: "string" }, { minLength: 1 }],
+		};
+		expect(
+			checker.isSubset(
+				{ properties: { x: nonEmpty } },
+				{ properties: { x: { type: "string" } } },
+			),
+		).toBe(true);
+		expect(
+			checker.check(
+				{ properties: { x: nonEmpty } },
+				{ properties: { x: { type: "string" } } },
+			).isSubset,
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{ type: "array", items: nonEmpty },
+				{ type: "array", items: { type: "string", minLength: 1 } },
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{ anyOf: [nonEmpty, { type: "null" }] },
+				{ type: ["string", "null"] },
+			),
+		).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  check — errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("allOf in sub — errors", () => {
+	test("errors point to the member that introduced the constraint", () => {
+		const result = checker.check(
+			{ allOf: [{ type: "string", minLength: 1 }, { maxLength: 200 }] },
+			{ type: "string", maxLength: 100 },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.StringConstraint,
+				key: "allOf[1]",
+				expected: "maxLength: 100",
+				received: "maxLength: 200",
+				code: "string.maxLength.too_long",
+				keyword: "maxLength",
+				expectedValue: 100,
+				receivedValue: 200,
+				subSchemaPath: "/allOf/1/maxLength",
+				supSchemaPath: "/maxLength",
+				instancePath: "",
+			},
+		]);
+	});
+
+	test("an abandoned decomposition is reported", () => {
+		const result = checker.check(choices(8), {
+			type: "object",
+			required: ["a0"],
+		});
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				code: "allOf.too_large",
+				keyword: "allOf",
+				subSchemaPath: "/allOf",
+			}),
+		]);
+	});
+
+	test("an abandoned decomposition in a branch of sub is reported", () => {
+		const result = checker.check(
+			{ anyOf: [choices(8), { type: "string" }] },
+			{ type: "object", required: ["a0"] },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				code: "allOf.too_large",
+				subSchemaPath: "/anyOf/0/allOf",
+			}),
+			expect.objectContaining({
+				code: "type.mismatch",
+				subSchemaPath: "/anyOf/1/type",
+			}),
+		]);
+		expect(
+			checker.check(
+				{ anyOf: [choices(8), { type: "object", required: ["a0"] }] },
+				{ type: "object" },
+			).isSubset,
+		).toBe(true);
+	});
+
+	test("the same error from both cases of a condition is reported once", () => {
+		const result = checker.check(
+			{
+				type: "string",
+				if: { minLength: 3 },
+				then: { maxLength: 10 },
+				else: { maxLength: 10 },
+			},
+			{ type: "number" },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				code: "type.mismatch",
+				subSchemaPath: "/type",
+				supSchemaPath: "/type",
+			}),
+		]);
+	});
+
+	test("nested property paths are prefixed with the member", () => {
+		const result = checker.check(
+			{
+				allOf: [
+					{ type: "object", required: ["user"] },
+					{
+						properties: {
+							user: {
+								type: "object",
+								properties: { name: { type: "string", maxLength: 80 } },
+							},
+						},
+					},
+				],
+			},
+			{
+				type: "object",
+				properties: {
+					user: {
+						type: "object",
+						properties: { name: { type: "string", maxLength: 40 } },
+					},
+				},
+			},
+		);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.StringConstraint,
+				key: "allOf[1].user.name",
+				expected: "maxLength: 40",
+				received: "maxLength: 80",
+				code: "string.maxLength.too_long",
+				keyword: "maxLength",
+				expectedValue: 40,
+				receivedValue: 80,
+				subSchemaPath: "/allOf/1/properties/user/properties/name/maxLength",
+				supSchemaPath: "/properties/user/properties/name/maxLength",
+				instancePath: "/user/name",
+			},
+		]);
+	});
+
+	test("a constraint no member sets keeps its path", () => {
+		const result = checker.check(
+			{ allOf: [{ type: "string" }, { minLength: 1 }] },
+			{ type: "string", maxLength: 10 },
+		);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.StringConstraint,
+				key: "$root",
+				expected: "maxLength: 10",
+				received: "maxLength: not set",
+				code: "string.maxLength.too_long",
+				keyword: "maxLength",
+				expectedValue: 10,
+				receivedValue: undefined,
+				subSchemaPath: "",
+				supSchemaPath: "/maxLength",
+				instancePath: "",
+			},
+		]);
+	});
+});
@@ -0,0 +1,195 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Counterexamples — values valid for sub and invalid for sup
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** Options requesting the counterexample search */
+const search = { counterexample: true };
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Failed checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("counterexample — failed checks", () => {
+	test("a value of the wrong type", () => {
+		const result = checker.check(
+			{ type: "string" },
+			{ type: "number" },
+			search,
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.counterexample).toBe("a");
+	});
+
+	test("a fraction for a number sup restricts to integers", () => {
+		expect(
+			checker.check({ type: "number" }, { type: "integer" }, search)
+				.counterexample,
+		).toBe(0.5);
+	});
+
+	test("a value just past a bound of sup", () => {
+		expect(
+			checker.check(
+				{ type: "string", maxLength: 10 },
+				{ type: "string", maxLength: 5 },
+				search,
+			).counterexample,
+		).toBe("aaaaaa");
+		expect(
+			checker.check(
+				{ type: "integer", minimum: 0 },
+				{ type: "integer", minimum: 0, maximum: 100 },
+				search,
+			).counterexample,
+		).toBe(101);
+		expect(
+			checker.check(
+				{ type: "array", items: { type: "string" } },
+				{ type: "array", items: { type: "string" }, maxItems: 2 },
+				search,
+			).counterexample,
+		).toEqual(["a", "a", "a"]);
+	});
+
+	test("a string matching the pattern of sub only", () => {
+		expect(
+			checker.check(
+				{ type: "string", pattern: "^[a-z]+$" },
+				{ type: "string", pattern: "^[a-z]{3}$" },
+				search,
+			).counterexample,
+		).toBe("a");
+	});
+
+	test("an object missing a key sup requires", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { name: { type: "string" } },
+		};
+		expect(
+			checker.check(sub, { ...sub, required: ["name"] }, search).counterexample,
+		).toEqual({});
+	});
+
+	test("a nested value breaking a constraint of sup", () => {
+		const user = (minLength: number): JSONSchema7 => ({
+			type: "object",
+			properties: {
+				user: {
+					type: "object",
+					properties: { name: { type: "string", minLength } },
+					required: ["name"],
+				},
+			},
+			required: ["user"],
+		});
+		expect(checker.check(user(1), user(3), search).counterexample).toEqual({
+			user: { name: "a" },
+		});
+	});
+
+	test("a value of a branch of sub sup rejects", () => {
+		expect(
+			checker.check(
+				{ anyOf: [{ type: "string" }, { type: "null" }] },
+				{ type: "string" },
+				search,
+			).counterexample,
+		).toBeNull();
+	});
+
+	test("an allOf branching at every member is searched within a budget", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			allOf: Array.from({ length: 12 }, (_, i) => ({
+				anyOf: [{ required: [`a${i}`] }, { required: [`b${i}`] }],
+			})),
+		};
+		const result = checker.check(
+			sub,
+			{ type: "object", required: ["id"] },
+			search,
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.counterexample).toMatchObject({ a0: null, a11: null });
+		expect(result.counterexample).not.toHaveProperty("id");
+	});
+
+	test("the counterexample is printed by formatResult", () => {
+		const result = checker.check(
+			{ type: "string" },
+			{ type: "number" },
+			search,
+		);
+		expect(checker.formatResult("string ⊆ number", result)).toContain(
+			'Counterexample: "a"',
+		);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  No counterexample
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("counterexample — absent", () => {
+	test("failed checks carry none unless requested", () => {
+		const result = checker.check({ type: "string" }, { type: "number" });
+		expect(result.isSubset).toBe(false);
+		expect("counterexample" in result).toBe(false);
+	});
+
+	test("checks that pass carry no counterexample", () => {
+		const result = checker.check(
+			{ type: "string", minLength: 3 },
+			{ type: "string" },
+			search,
+		);
+		expect(result.isSubset).toBe(true);
+		expect("counterexample" in result).toBe(false);
+	});
+
+	test("unresolved $refs leave nothing to sample", () => {
+		const result = checker.check(
+			{ $ref: "missing.json" },
+			{ type: "string" },
+			search,
+		);
+		expect(result.isSubset).toBe(false);
+		expect("counterexample" in result).toBe(false);
+	});
+
+	test("a sub accepting no value has no counterexample", () => {
+		const result = checker.check(
+			{ type: "string", minLength: 5, maxLength: 2 },
+			{ type: "number" },
+			search,
+		);
+		expect("counterexample" in result).toBe(false);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Runtime path
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("counterexample — runtime options", () => {
+	test("failed static checks keep their counterexample", async () => {
+		const result = await checker.check(
+			{ type: "string" },
+			{ type: "string", format: "email" },
+			{ data: "user", counterexample: true },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.counterexample).toBe("a");
+	});
+});
@@ -159,6 +159,12 @@ describe("data narrowing — runtime validation (validate: true)", () => {
 				key: "$sub",
 				expected: "minLength: 5",
 				received: "a",
+				code: "string.minLength.too_short",
+				keyword: "minLength",
+				expectedValue: 5,
+				receivedValue: "a",
+				subSchemaPath: "/minLength",
+				instancePath: "",
 			},
 		]);
 		expect(result.resolvedSub.resolved).toEqual(schema);
@@ -184,12 +190,24 @@ describe("data narrowing — runtime validation (validate: true)", () => {
 				key: "$sub",
 				expected: "red, green, or blue",
 				received: "Je ne suis pas une couleur",
+				code: "enum.mismatch",
+				keyword: "enum",
+				expectedValue: ["red", "green", "blue"],
+				receivedValue: "Je ne suis pas une couleur",
+				subSchemaPath: "/enum",
+				instancePath: "",
 			},
 			{
 				type: SchemaErrorType.RuntimeValidation,
 				key: "$sup",
 				expected: "red, green, or blue",
 				received: "Je ne suis pas une couleur",
+				code: "enum.mismatch",
+				keyword: "enum",
+				expectedValue: ["red", "green", "blue"],
+				receivedValue: "Je ne suis pas une couleur",
+				supSchemaPath: "/enum",
+				instancePath: "",
 			},
 		]);
 		expect(result.resolvedSub.resolved).toEqual(schema);
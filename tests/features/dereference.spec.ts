@@ -0,0 +1,189 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import Ajv from "ajv";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaRegistry } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  dereference / bundle — self-contained schemas
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const common: JSONSchema7 = {
+	$id: "common.json",
+	definitions: {
+		money: { type: "number", minimum: 0 },
+		price: {
+			type: "object",
+			properties: { amount: { $ref: "#/definitions/money" } },
+			required: ["amount"],
+		},
+	},
+};
+
+const node: JSONSchema7 = {
+	$id: "node.json",
+	type: "object",
+	properties: {
+		value: { type: "string" },
+		children: { type: "array", items: { $ref: "node.json" } },
+	},
+	required: ["value"],
+};
+
+const order: JSONSchema7 = {
+	type: "object",
+	properties: {
+		total: { $ref: "common.json#/definitions/price" },
+		tags: { type: "array", items: { $ref: "#/definitions/tag" } },
+	},
+	definitions: { tag: { type: "string", maxLength: 8 } },
+};
+
+let registry: SchemaRegistry;
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	registry = new SchemaRegistry([common, node]);
+	checker = new JsonSchemaCompatibilityChecker({ registry });
+});
+
+/** Compiles with a fresh AJV instance, so nothing leaks between tests. */
+function compile(schema: JSONSchema7) {
+	return new Ajv({ allErrors: true }).compile(schema);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  dereference
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("dereference", () => {
+	test("inlines local and cross-document refs", () => {
+		expect(checker.dereference(order)).toEqual({
+			type: "object",
+			properties: {
+				total: {
+					type: "object",
+					properties: { amount: { type: "number", minimum: 0 } },
+					required: ["amount"],
+				},
+				tags: { type: "array", items: { type: "string", maxLength: 8 } },
+			},
+		});
+	});
+
+	test("returns schemas without $ref as-is", () => {
+		const schema: JSONSchema7 = { type: "string" };
+		expect(checker.dereference(schema)).toBe(schema);
+	});
+
+	test("keeps recursive refs as local $defs", () => {
+		const schema = checker.dereference({ $ref: "node.json" }) as JSONSchema7 & {
+			$defs?: Record<string, JSONSchema7>;
+		};
+		const children = schema.properties?.children as JSONSchema7;
+		expect(children.items).toEqual({ $ref: "#/$defs/node" });
+		expect(schema.$defs?.node?.required).toEqual(["value"]);
+
+		const validate = compile(schema);
+		expect(validate({ value: "a", children: [{ value: "b" }] })).toBe(true);
+		expect(validate({ value: "a", children: [{ value: 1 }] })).toBe(false);
+	});
+
+	test("a recursive root keeps its $id alone", () => {
+		const tree: JSONSchema7 = {
+			$id: "https://example.com/tree.json",
+			type: "object",
+			properties: { kids: { type: "array", items: { $ref: "#" } } },
+		};
+		const schema = checker.dereference(tree) as JSONSchema7 & {
+			$defs?: Record<string, JSONSchema7>;
+		};
+		expect(schema.$id).toBe("https://example.com/tree.json");
+		expect(schema.$defs?.root?.$id).toBeUndefined();
+
+		const validate = compile(schema);
+		expect(validate({ kids: [{ kids: [] }] })).toBe(true);
+		expect(validate({ kids: [1] })).toBe(false);
+	});
+
+	test("accepts an explicit registry", () => {
+		const plain = new JsonSchemaCompatibilityChecker();
+		expect(
+			plain.dereference({ $ref: "common.json#/definitions/money" }, registry),
+		).toEqual({ type: "number", minimum: 0 });
+	});
+
+	test("throws on unresolved refs", () => {
+		expect(() =>
+			checker.dereference({ properties: { a: { $ref: "missing.json" } } }),
+		).toThrow('unresolved $ref "missing.json" at "a"');
+		expect(() =>
+			new JsonSchemaCompatibilityChecker().dereference(order),
+		).toThrow("unresolved $ref");
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  bundle
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("bundle", () => {
+	test("embeds referenced documents under $defs and keeps the refs", () => {
+		expect(checker.bundle(order)).toEqual({
+			...order,
+			$defs: { common: { ...common } },
+		} as JSONSchema7);
+	});
+
+	test("returns schemas without external refs as-is", () => {
+		const schema: JSONSchema7 = {
+			$ref: "#/definitions/a",
+			definitions: { a: { type: "string" } },
+		};
+		expect(checker.bundle(schema)).toBe(schema);
+	});
+
+	test("collects documents referenced transitively", () => {
+		const local = new SchemaRegistry([
+			{ $id: "a.json", properties: { b: { $ref: "b.json" } } },
+			{ $id: "b.json", type: "integer" },
+		]);
+		const bundled = checker.bundle({ $ref: "a.json" }, local) as {
+			$defs?: Record<string, JSONSchema7>;
+		};
+		expect(Object.keys(bundled.$defs ?? {})).toEqual(["a", "b"]);
+	});
+
+	test("resolves to what was checked", () => {
+		const bundled = checker.bundle(order);
+		const plain = new JsonSchemaCompatibilityChecker();
+		expect(plain.normalize(bundled)).toEqual(checker.normalize(order));
+		expect(checker.isEqual(bundled, order)).toBe(true);
+	});
+
+	test("the bundle compiles without the registry", () => {
+		const validate = compile(checker.bundle(order) as JSONSchema7);
+		expect(validate({ total: { amount: 3 }, tags: ["a"] })).toBe(true);
+		expect(validate({ total: { amount: -1 } })).toBe(false);
+	});
+
+	test("absolute ids are kept when the root has its own $id", () => {
+		const shared: JSONSchema7 = {
+			$id: "https://example.com/common.json",
+			definitions: { money: { type: "number" } },
+		};
+		const schema: JSONSchema7 = {
+			$id: "https://example.com/schemas/order.json",
+			properties: { price: { $ref: "../common.json#/definitions/money" } },
+		};
+		expect(checker.bundle(schema, new SchemaRegistry([shared]))).toEqual({
+			...schema,
+			$defs: { common: shared },
+		} as JSONSchema7);
+	});
+
+	test("throws on unresolved refs", () => {
+		expect(() => checker.bundle({ $ref: "missing.json" })).toThrow(
+			'Cannot bundle schema: unresolved $ref "missing.json"',
+		);
+	});
+});
@@ -0,0 +1,279 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import {
+	JsonSchemaCompatibilityChecker,
+	MergeEngine,
+	SchemaErrorType,
+	SchemaRegistry,
+} from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Draft 2019-09 / 2020-12 — conversion to the internal form
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const DRAFT_2020 = "https://json-schema.org/draft/2020-12/schema";
+const DRAFT_2019 = "https://json-schema.org/draft/2019-09/schema";
+
+/** Newer keywords are not part of the Draft-07 typings. */
+type AnySchema = JSONSchema7 & Record<string, unknown>;
+
+let checker: JsonSchemaCompatibilityChecker;
+let checker2020: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+	checker2020 = new JsonSchemaCompatibilityChecker({ draft: "2020-12" });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  normalize — keyword conversion
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("dialects — normalize", () => {
+	test("prefixItems + items become tuple items + additionalItems", () => {
+		const schema: AnySchema = {
+			type: "array",
+			prefixItems: [{ type: "string" }, { type: "number" }],
+			items: false,
+		};
+		expect(checker2020.normalize(schema)).toEqual({
+			type: "array",
+			items: [{ type: "string" }, { type: "number" }],
+			additionalItems: false,
+		});
+	});
+
+	test("a single-schema items keeps its meaning", () => {
+		const schema: AnySchema = { type: "array", items: { type: "string" } };
+		expect(checker2020.normalize(schema)).toEqual(schema);
+	});
+
+	test("dependentRequired and dependentSchemas become dependencies", () => {
+		const schema: AnySchema = {
+			type: "object",
+			dependentRequired: { card: ["cvv"] },
+			dependentSchemas: { iban: { required: ["bic"] } },
+		};
+		expect(checker2020.normalize(schema)).toEqual({
+			type: "object",
+			dependencies: { card: ["cvv"], iban: { required: ["bic"] } },
+		});
+	});
+
+	test("$schema takes precedence over the draft option", () => {
+		const schema: AnySchema = {
+			$schema: DRAFT_2020,
+			prefixItems: [{ type: "string" }],
+		};
+		expect(checker.normalize(schema)).toEqual({ items: [{ type: "string" }] });
+	});
+
+	test("2019-09 keeps the array form of items", () => {
+		const schema: AnySchema = {
+			$schema: DRAFT_2019,
+			items: [{ type: "string" }],
+			additionalItems: false,
+		};
+		expect(checker.normalize(schema)).toEqual({
+			items: [{ type: "string" }],
+			additionalItems: false,
+		});
+	});
+
+	test("$ref siblings are applied since 2019-09", () => {
+		const schema: AnySchema = {
+			$defs: { name: { type: "string" } },
+			properties: { name: { $ref: "#/$defs/name", minLength: 2 } },
+		};
+		const normalized = checker2020.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.name).toEqual({
+			allOf: [{ type: "string" }, { minLength: 2 }],
+		});
+
+		// Draft-07 ignores them
+		const legacy = checker.normalize(schema) as JSONSchema7;
+		expect(legacy.properties?.name).toEqual({ type: "string" });
+	});
+
+	test("$anchor and pointers through prefixItems are resolved", () => {
+		const schema: AnySchema = {
+			type: "object",
+			properties: {
+				pair: {
+					type: "array",
+					prefixItems: [{ $anchor: "first", type: "string" }],
+				} as AnySchema,
+				a: { $ref: "#first" },
+				b: { $ref: "#/properties/pair/prefixItems/0" },
+			},
+		};
+		const normalized = checker2020.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.a).toMatchObject({ type: "string" });
+		expect(normalized.properties?.b).toMatchObject({ type: "string" });
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset / check — cross-draft comparison
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("dialects — subset checking", () => {
+	test("a 2020-12 tuple and its Draft-07 spelling are equivalent", () => {
+		const modern: AnySchema = {
+			$schema: DRAFT_2020,
+			type: "array",
+			prefixItems: [{ type: "string" }],
+			items: false,
+		};
+		const legacy: JSONSchema7 = {
+			type: "array",
+			items: [{ type: "string" }],
+			additionalItems: false,
+		};
+		expect(checker.isSubset(modern, legacy)).toBe(true);
+		expect(checker.isSubset(legacy, modern)).toBe(true);
+	});
+
+	test("2020-12 items constrains the elements after prefixItems", () => {
+		const strict: AnySchema = {
+			type: "array",
+			prefixItems: [{ type: "string" }],
+			items: { type: "integer" },
+		};
+		const loose: AnySchema = {
+			type: "array",
+			prefixItems: [{ type: "string" }],
+			items: { type: "number" },
+		};
+		expect(checker2020.isSubset(strict, loose)).toBe(true);
+		expect(checker2020.isSubset(loose, strict)).toBe(false);
+	});
+
+	test("dependentRequired is compared like dependencies", () => {
+		const sub: AnySchema = {
+			type: "object",
+			dependentRequired: { card: ["cvv", "expiry"] },
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			dependencies: { card: ["cvv"] },
+		};
+		expect(checker2020.isSubset(sub, sup)).toBe(true);
+		expect(checker2020.isSubset(sup, sub)).toBe(false);
+	});
+
+	test("minContains / maxContains are compared as bounds", () => {
+		const atLeastTwo: AnySchema = {
+			type: "array",
+			contains: { type: "string" },
+			minContains: 2,
+		};
+		const atLeastOne: AnySchema = {
+			type: "array",
+			contains: { type: "string" },
+		};
+		expect(checker2020.isSubset(atLeastTwo, atLeastOne)).toBe(true);
+		expect(checker2020.isSubset(atLeastOne, atLeastTwo)).toBe(false);
+
+		const result = checker2020.check(atLeastOne, atLeastTwo);
+		expect(result.errors).toContainEqual({
+			type: SchemaErrorType.ArrayConstraint,
+			key: "$root",
+			expected: "minContains: 2",
+			received: "minContains: 1",
+			code: "array.minContains.too_few",
+			keyword: "minContains",
+			expectedValue: 2,
+			receivedValue: 1,
+			subSchemaPath: "",
+			supSchemaPath: "/minContains",
+			instancePath: "",
+		});
+
+		const atMostOne: AnySchema = { ...atLeastOne, maxContains: 1 };
+		expect(checker2020.isSubset(atMostOne, atLeastOne)).toBe(true);
+		expect(checker2020.isSubset(atLeastOne, atMostOne)).toBe(false);
+	});
+
+	test("contains with minContains: 0 does not constrain the array", () => {
+		const vacuous: AnySchema = {
+			type: "array",
+			contains: { type: "string" },
+			minContains: 0,
+		};
+		expect(checker2020.normalize(vacuous)).toEqual({ type: "array" });
+		expect(checker2020.isSubset({ type: "array" }, vacuous)).toBe(true);
+		expect(checker2020.isSubset(vacuous, { type: "array" })).toBe(true);
+
+		const atMostOne: AnySchema = { ...vacuous, maxContains: 1 };
+		expect(checker2020.isSubset({ type: "array" }, atMostOne)).toBe(false);
+	});
+
+	test("runtime validation understands the converted keywords", async () => {
+		const schema: AnySchema = {
+			type: "array",
+			prefixItems: [{ type: "string" }],
+			items: false,
+			contains: { type: "string" },
+			maxContains: 1,
+		};
+		const valid = await checker2020.check(schema, schema, {
+			data: ["a"],
+			validate: true,
+		});
+		expect(valid.isSubset).toBe(true);
+
+		const invalid = await checker2020.check(schema, schema, {
+			data: ["a", 1],
+			validate: { sub: true },
+		});
+		expect(invalid.isSubset).toBe(false);
+		expect(invalid.errors[0]?.type).toBe(SchemaErrorType.RuntimeValidation);
+	});
+
+	test("registry documents are converted with their own dialect", () => {
+		const registry = new SchemaRegistry(
+			[
+				{
+					$id: "pair.json",
+					type: "array",
+					prefixItems: [{ type: "string" }],
+				} as AnySchema,
+			],
+			{ draft: "2020-12" },
+		);
+		const local = new JsonSchemaCompatibilityChecker({ registry });
+		expect(local.normalize({ $ref: "pair.json" })).toEqual({
+			type: "array",
+			items: [{ type: "string" }],
+		});
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  MergeEngine
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("dialects — MergeEngine", () => {
+	test("merges 2020-12 schemas in the internal form", () => {
+		const engine = new MergeEngine({ draft: "2020-12" });
+		const merged = engine.merge(
+			{ type: "array", prefixItems: [{ type: "string" }] } as AnySchema,
+			{ type: "array", prefixItems: [{ minLength: 1 }] } as AnySchema,
+		);
+		expect(merged).toEqual({
+			type: "array",
+			items: [{ type: "string", minLength: 1 }],
+		});
+	});
+
+	test("intersects minContains / maxContains", () => {
+		const engine = new MergeEngine();
+		expect(
+			engine.merge(
+				{ contains: { type: "string" }, minContains: 2, maxContains: 5 },
+				{ contains: { type: "string" }, minContains: 3, maxContains: 4 },
+			),
+		).toEqual({ contains: { type: "string" }, minContains: 3, maxContains: 4 });
+	});
+});
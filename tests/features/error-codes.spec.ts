@@ -0,0 +1,313 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Error codes — stable codes, keywords and structured values
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+const codes = (sub: JSONSchema7, sup: JSONSchema7) =>
+	checker.check(sub, sup).errors.map((e) => e.code);
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Static errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("error codes — static errors", () => {
+	test("numeric keywords are told apart", () => {
+		const [error] = checker.check(
+			{ type: "number", minimum: 0 },
+			{ type: "number", minimum: 18 },
+		).errors;
+		expect(error).toMatchObject({
+			code: "numeric.minimum.too_low",
+			keyword: "minimum",
+			expectedValue: 18,
+			receivedValue: 0,
+		});
+		expect(
+			codes(
+				{ type: "number", maximum: 200 },
+				{ type: "number", exclusiveMaximum: 150 },
+			),
+		).toEqual(["numeric.exclusiveMaximum.too_high"]);
+		expect(
+			codes(
+				{ type: "number", multipleOf: 2 },
+				{ type: "number", multipleOf: 3 },
+			),
+		).toEqual(["numeric.multipleOf.not_multiple"]);
+	});
+
+	test("a keyword sub lacks has no received value", () => {
+		const [error] = checker.check(
+			{ type: "string" },
+			{ type: "string", pattern: "^[a-z]+$" },
+		).errors;
+		expect(error).toMatchObject({
+			code: "string.pattern.unconstrained",
+			keyword: "pattern",
+			expectedValue: "^[a-z]+$",
+			receivedValue: undefined,
+		});
+	});
+
+	test("missing and optional properties name the property", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" } },
+			required: ["id"],
+		};
+		expect(
+			checker.check({ type: "object", properties: {} }, sup).errors,
+		).toEqual([
+			expect.objectContaining({
+				code: "object.required.missing",
+				expectedValue: "id",
+			}),
+		]);
+		expect(
+			checker.check(
+				{ type: "object", properties: { id: { type: "string" } } },
+				sup,
+			).errors[0],
+		).toMatchObject({
+			code: "object.required.optional",
+			keyword: "required",
+			expectedValue: "id",
+		});
+	});
+
+	test("a required property without a schema in sub is a type mismatch", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" } },
+			required: ["id"],
+		};
+		expect(
+			checker.check({ type: "object", required: ["id"] }, sup).errors,
+		).toEqual([
+			expect.objectContaining({
+				key: "id",
+				code: "type.mismatch",
+				keyword: "type",
+				expectedValue: "string",
+				supSchemaPath: "/properties/id/type",
+			}),
+		]);
+	});
+
+	test("type and enum errors carry the types and values", () => {
+		expect(
+			checker.check({ type: "string" }, { type: ["number", "null"] }).errors[0],
+		).toMatchObject({
+			code: "type.mismatch",
+			keyword: "type",
+			expectedValue: ["number", "null"],
+			receivedValue: "string",
+		});
+		expect(
+			checker.check({ const: "b" }, { const: "a" }).errors[0],
+		).toMatchObject({
+			code: "const.mismatch",
+			keyword: "const",
+			expectedValue: "a",
+			receivedValue: "b",
+		});
+		expect(
+			checker.check({ enum: ["a", "b", "c"] }, { enum: ["a", "b"] }).errors[0],
+		).toMatchObject({
+			code: "enum.mismatch",
+			keyword: "enum",
+			expectedValue: ["a", "b"],
+			receivedValue: ["a", "b", "c"],
+		});
+	});
+
+	test("enum and const values sup lacks are not reported as types", () => {
+		expect(checker.check({ enum: ["a", "b"] }, { enum: ["a"] }).errors).toEqual(
+			[
+				expect.objectContaining({
+					code: "enum.mismatch",
+					keyword: "enum",
+					expectedValue: ["a"],
+					receivedValue: ["a", "b"],
+					subSchemaPath: "/enum",
+					supSchemaPath: "/enum",
+				}),
+			],
+		);
+		expect(
+			checker.check(
+				{ type: "object", properties: { x: { enum: [1, 2] } } },
+				{ type: "object", properties: { x: { const: 1 } } },
+			).errors,
+		).toEqual([
+			expect.objectContaining({
+				code: "enum.mismatch",
+				expectedValue: [1],
+				receivedValue: [1, 2],
+				subSchemaPath: "/properties/x/enum",
+				supSchemaPath: "/properties/x/const",
+			}),
+		]);
+		expect(
+			checker.check({ type: "string" }, { const: "a" }).errors[0],
+		).toMatchObject({
+			code: "const.mismatch",
+			keyword: "const",
+			expectedValue: "a",
+			receivedValue: "string",
+			supSchemaPath: "/const",
+		});
+	});
+
+	test("array and object keywords", () => {
+		expect(
+			codes(
+				{ type: "array", items: { type: "string" } },
+				{ type: "array", items: { type: "string" }, uniqueItems: true },
+			),
+		).toEqual(["array.uniqueItems.not_unique"]);
+		expect(
+			codes(
+				{ type: "object" },
+				{ type: "object", additionalProperties: false },
+			),
+		).toEqual(["object.additionalProperties.not_allowed"]);
+	});
+
+	test("the false schema is never satisfied", () => {
+		expect(checker.check({ type: "string" }, false).errors[0]).toMatchObject({
+			code: "type.never",
+			keyword: "type",
+			expectedValue: false,
+			receivedValue: "string",
+		});
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Runtime errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("error codes — runtime errors", () => {
+	test("runtime errors share the codes of static errors", async () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { age: { type: "number", minimum: 18 } },
+		};
+		const result = await checker.check(schema, schema, {
+			data: { age: 12 },
+			validate: { sub: false, sup: true },
+		});
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				code: "numeric.minimum.too_low",
+				keyword: "minimum",
+				expectedValue: 18,
+				receivedValue: 12,
+			}),
+		]);
+	});
+
+	test("required and additionalProperties errors name the property", async () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" } },
+			required: ["id"],
+			additionalProperties: false,
+		};
+		const result = await checker.check(schema, schema, {
+			data: { extra: 1 },
+			validate: { sub: false, sup: true },
+		});
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				code: "object.required.missing",
+				expectedValue: "id",
+				receivedValue: undefined,
+			}),
+			expect.objectContaining({
+				code: "object.additionalProperties.not_allowed",
+				expectedValue: false,
+				receivedValue: 1,
+			}),
+		]);
+	});
+
+	test("contains bounds are told apart", async () => {
+		const errorsFor = async (schema: JSONSchema7, data: unknown[]) =>
+			(
+				await checker.check(schema, schema, {
+					data,
+					validate: { sub: false, sup: true },
+				})
+			).errors;
+		const atMostOne = {
+			type: "array",
+			contains: { const: 1 },
+			maxContains: 1,
+		} as JSONSchema7;
+		expect(await errorsFor(atMostOne, [1, 1])).toEqual([
+			expect.objectContaining({
+				code: "array.maxContains.too_many",
+				keyword: "maxContains",
+				expectedValue: 1,
+				receivedValue: [1, 1],
+				supSchemaPath: "/maxContains",
+			}),
+		]);
+		const atLeastTwo = {
+			type: "array",
+			contains: { const: 1 },
+			minContains: 2,
+		} as JSONSchema7;
+		expect(await errorsFor(atLeastTwo, [1])).toEqual([
+			expect.objectContaining({
+				code: "array.minContains.too_few",
+				keyword: "minContains",
+				expectedValue: 2,
+				supSchemaPath: "/minContains",
+			}),
+		]);
+	});
+
+	test("custom constraints are coded by outcome", async () => {
+		const local = new JsonSchemaCompatibilityChecker({
+			constraints: { Never: () => ({ valid: false }) },
+		});
+		const schema = {
+			type: "string",
+			constraints: ["Never", { name: "Missing", params: { n: 1 } }],
+		} as JSONSchema7;
+		const result = await local.check(schema, schema, {
+			data: "a",
+			validate: { sub: false, sup: true },
+		});
+		expect(
+			result.errors.map(({ code, expectedValue, receivedValue }) => ({
+				code,
+				expectedValue,
+				receivedValue,
+			})),
+		).toEqual([
+			{
+				code: "constraints.failed",
+				expectedValue: "Never",
+				receivedValue: "a",
+			},
+			{
+				code: "constraints.unknown",
+				expectedValue: { name: "Missing", params: { n: 1 } },
+				receivedValue: "a",
+			},
+		]);
+	});
+});
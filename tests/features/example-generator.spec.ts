@@ -0,0 +1,189 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  generateExample — values valid for a schema
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** Validates `data` against `schema` through the runtime path of `check` */
+async function isValid(schema: JSONSchema7, data: unknown): Promise<boolean> {
+	const result = await checker.check(schema, schema, {
+		data,
+		validate: { sub: true },
+	});
+	return result.isSubset;
+}
+
+const order: JSONSchema7 = {
+	type: "object",
+	properties: {
+		id: { type: "string", format: "uuid" },
+		quantity: { type: "integer", minimum: 1, maximum: 10 },
+		price: { type: "number", exclusiveMinimum: 0, multipleOf: 0.01 },
+		status: { enum: ["pending", "paid", "shipped"] },
+		tags: {
+			type: "array",
+			items: { type: "string", pattern: "^[a-z]{2,8}$" },
+			minItems: 1,
+			maxItems: 3,
+			uniqueItems: true,
+		},
+		note: { type: "string", maxLength: 20 },
+	},
+	required: ["id", "quantity", "price", "status", "tags"],
+	additionalProperties: false,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Validity
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("generateExample — validity", () => {
+	test.each<[string, JSONSchema7]>([
+		["numeric bounds", { type: "integer", minimum: 3, exclusiveMaximum: 5 }],
+		["multipleOf", { type: "number", minimum: 1, multipleOf: 0.25 }],
+		["string length", { type: "string", minLength: 4, maxLength: 4 }],
+		["pattern", { type: "string", pattern: "^[A-Z]{3}-\\d{4}$" }],
+		["format", { type: "string", format: "date-time" }],
+		["const", { const: { nested: [1, 2] } }],
+		["tuple", { type: "array", items: [{ type: "string" }, { type: "null" }] }],
+		["contains", { type: "array", contains: { const: 7 } }],
+		["oneOf", { oneOf: [{ type: "string" }, { type: "integer", minimum: 0 }] }],
+		["not", { type: "integer", minimum: 0, maximum: 2, not: { const: 0 } }],
+		["minProperties", { type: "object", minProperties: 2 }],
+		[
+			"minProperties within propertyNames",
+			{
+				type: "object",
+				propertyNames: { pattern: "^[a-z]$" },
+				minProperties: 2,
+			},
+		],
+		[
+			"minProperties within patternProperties",
+			{
+				type: "object",
+				patternProperties: { "^x-": { type: "integer" } },
+				additionalProperties: false,
+				minProperties: 2,
+			},
+		],
+		[
+			"patterns of an allOf with a length",
+			{
+				type: "string",
+				allOf: [{ pattern: "^a" }, { pattern: "b$" }],
+				minLength: 4,
+			},
+		],
+		[
+			"a pattern sampled too short",
+			{ type: "string", pattern: "^[a-z]+$", minLength: 12 },
+		],
+		[
+			"bounds closer than the grid",
+			{ type: "number", exclusiveMinimum: 0, exclusiveMaximum: 1e-9 },
+		],
+		[
+			"exclusive bounds on the grid",
+			{ type: "number", exclusiveMinimum: 0, exclusiveMaximum: 0.01 },
+		],
+		["an order", order],
+	])("%s", async (_, schema) => {
+		const value = checker.generateExample(schema);
+		expect(await isValid(schema, value)).toBe(true);
+	});
+
+	test("required keys are always present", () => {
+		for (let seed = 0; seed < 10; seed++) {
+			const value = checker.generateExample(order, { seed });
+			expect(Object.keys(value as object)).toEqual(
+				expect.arrayContaining(["id", "quantity", "price", "status", "tags"]),
+			);
+		}
+	});
+
+	test("conditions hold in the generated value", async () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { kind: { enum: ["text", "count"] }, value: {} },
+			required: ["kind", "value"],
+			if: { properties: { kind: { const: "text" } } },
+			then: { properties: { value: { type: "string" } } },
+			else: { properties: { value: { type: "number" } } },
+		};
+		for (let seed = 0; seed < 10; seed++) {
+			const value = checker.generateExample(schema, { seed });
+			expect(await isValid(schema, value)).toBe(true);
+		}
+	});
+
+	test("recursive schemas yield finite values", async () => {
+		const tree: JSONSchema7 = {
+			type: "object",
+			properties: { children: { type: "array", items: { $ref: "#" } } },
+			required: ["children"],
+		};
+		expect(await isValid(tree, checker.generateExample(tree))).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Determinism
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("generateExample — seed", () => {
+	test("the same seed yields the same value", () => {
+		expect(checker.generateExample(order, { seed: 7 })).toEqual(
+			checker.generateExample(order, { seed: 7 }),
+		);
+		expect(checker.generateExample(order)).toEqual(
+			checker.generateExample(order, { seed: 0 }),
+		);
+	});
+
+	test("different seeds yield different values", () => {
+		const values = new Set(
+			[1, 2, 3, 4, 5].map((seed) =>
+				JSON.stringify(checker.generateExample(order, { seed })),
+			),
+		);
+		expect(values.size).toBeGreaterThan(1);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Failures
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("generateExample — failures", () => {
+	test("a schema accepting no value yields undefined", () => {
+		expect(
+			checker.generateExample({ type: "string", minLength: 3, maxLength: 1 }),
+		).toBeUndefined();
+		expect(checker.generateExample(false)).toBeUndefined();
+	});
+
+	test("too few key names for minProperties yields undefined", () => {
+		expect(
+			checker.generateExample({
+				type: "object",
+				propertyNames: { enum: ["a", "b"] },
+				minProperties: 3,
+			}),
+		).toBeUndefined();
+	});
+
+	test("an unresolved $ref throws", () => {
+		expect(() => checker.generateExample({ $ref: "missing.json" })).toThrow(
+			'Cannot generate an example for schema: unresolved $ref "missing.json"',
+		);
+	});
+});
@@ -47,6 +47,12 @@ async function expectRuntimeFormatResult(
 		key: "$sub",
 		expected: `format: ${format}`,
 		received: typeof value === "string" ? value : JSON.stringify(value),
+		code: "string.format.mismatch",
+		keyword: "format",
+		expectedValue: format,
+		receivedValue: value,
+		subSchemaPath: "/format",
+		instancePath: "",
 	});
 }
 
@@ -0,0 +1,206 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import {
+	JsonSchemaCompatibilityChecker,
+	MergeEngine,
+	SchemaErrorType,
+	SchemaRegistry,
+} from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Draft-04 / Draft-06 — upgrade to the internal form
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const DRAFT_04 = "http://json-schema.org/draft-04/schema#";
+const DRAFT_06 = "http://json-schema.org/draft-06/schema#";
+
+/** Draft-04 keywords are not part of the Draft-07 typings. */
+type LegacySchema = JSONSchema7 & Record<string, unknown>;
+
+/** `exclusiveMinimum: true` in a Draft-04 schema */
+function exclusiveMin(minimum: number): JSONSchema7 {
+	return {
+		$schema: DRAFT_04,
+		type: "number",
+		minimum,
+		exclusiveMinimum: true,
+	} as unknown as JSONSchema7;
+}
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  normalize / upgrade — keyword rewrites
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("legacy drafts — upgrade", () => {
+	test("boolean exclusive bounds become numeric bounds", () => {
+		expect(checker.normalize(exclusiveMin(0))).toEqual({
+			type: "number",
+			exclusiveMinimum: 0,
+		});
+	});
+
+	test("a false exclusive bound is dropped and the bound kept", () => {
+		const schema = {
+			$schema: DRAFT_04,
+			maximum: 10,
+			exclusiveMaximum: false,
+		} as unknown as JSONSchema7;
+		expect(checker.normalize(schema)).toEqual({ maximum: 10 });
+	});
+
+	test("reports each rewrite with the path of its node", () => {
+		const schema = {
+			$schema: DRAFT_04,
+			id: "person.json",
+			type: "object",
+			properties: {
+				age: { type: "integer", minimum: 0, exclusiveMinimum: true },
+				"a/b": { const: 1 },
+			},
+		} as unknown as JSONSchema7;
+		const { schema: upgraded, rewrites } = checker.upgrade(schema);
+		expect(upgraded).toEqual({
+			$id: "person.json",
+			type: "object",
+			properties: { age: { type: "integer", exclusiveMinimum: 0 }, "a/b": {} },
+		});
+		expect(rewrites).toEqual([
+			{ path: "", keyword: "id", description: "id → $id" },
+			{
+				path: "/properties/age",
+				keyword: "exclusiveMinimum",
+				description: "exclusiveMinimum: true → exclusiveMinimum: 0",
+			},
+			{
+				path: "/properties/a~1b",
+				keyword: "const",
+				description: "unknown to draft-04, dropped",
+			},
+		]);
+	});
+
+	test("Draft-06 ignores if / then / else", () => {
+		const schema: LegacySchema = {
+			$schema: DRAFT_06,
+			type: "object",
+			if: { required: ["a"] },
+			then: { required: ["b"] },
+		};
+		const { schema: upgraded, rewrites } = checker.upgrade(schema);
+		expect(upgraded).toEqual({ type: "object" });
+		expect(rewrites.map((r) => r.keyword)).toEqual(["if", "then"]);
+	});
+
+	test("the draft option applies to schemas without $schema", () => {
+		const legacy = new JsonSchemaCompatibilityChecker({ draft: "draft-04" });
+		expect(
+			legacy.normalize({
+				minimum: 1,
+				exclusiveMinimum: true,
+			} as unknown as JSONSchema7),
+		).toEqual({ exclusiveMinimum: 1 });
+	});
+
+	test("Draft-04 nodes inside a Draft-07 schema are upgraded", () => {
+		const schema: JSONSchema7 = {
+			$schema: "http://json-schema.org/draft-07/schema#",
+			type: "object",
+			properties: { n: exclusiveMin(0) },
+		};
+		expect(checker.upgrade(schema)).toEqual({
+			schema: {
+				type: "object",
+				properties: { n: { type: "number", exclusiveMinimum: 0 } },
+			},
+			rewrites: [
+				{
+					path: "/properties/n",
+					keyword: "exclusiveMinimum",
+					description: "exclusiveMinimum: true → exclusiveMinimum: 0",
+				},
+			],
+		});
+	});
+
+	test("Draft-07 schemas report no rewrite", () => {
+		const schema: JSONSchema7 = { type: "number", exclusiveMinimum: 0 };
+		expect(checker.upgrade(schema)).toEqual({ schema, rewrites: [] });
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset / check
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("legacy drafts — subset checking", () => {
+	test("boolean exclusive bounds are compared as numeric bounds", () => {
+		expect(checker.isSubset(exclusiveMin(5), exclusiveMin(0))).toBe(true);
+		expect(checker.isSubset(exclusiveMin(0), exclusiveMin(5))).toBe(false);
+
+		const inclusive: JSONSchema7 = { type: "number", minimum: 0 };
+		expect(checker.isSubset(exclusiveMin(0), inclusive)).toBe(true);
+		expect(checker.isSubset(inclusive, exclusiveMin(0))).toBe(false);
+	});
+
+	test("numeric errors show the upgraded bounds", () => {
+		const result = checker.check(
+			{ type: "number", minimum: 0 },
+			exclusiveMin(0),
+		);
+		expect(result.errors).toContainEqual(
+			expect.objectContaining({
+				type: SchemaErrorType.NumericConstraint,
+				expected: expect.stringContaining("exclusiveMinimum"),
+			}),
+		);
+	});
+
+	test("runtime validation sees the upgraded nested bounds", async () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { n: exclusiveMin(0) },
+		};
+		const valid = await checker.check(schema, schema, {
+			data: { n: 1 },
+			validate: true,
+		});
+		expect(valid.isSubset).toBe(true);
+		const invalid = await checker.check(schema, schema, {
+			data: { n: 0 },
+			validate: true,
+		});
+		expect(invalid.isSubset).toBe(false);
+	});
+
+	test("Draft-04 id is a base URI for $ref resolution", () => {
+		const registry = new SchemaRegistry(
+			[
+				{
+					id: "common.json",
+					definitions: { positive: { minimum: 0, exclusiveMinimum: true } },
+				} as unknown as JSONSchema7,
+			],
+			{ draft: "draft-04" },
+		);
+		const local = new JsonSchemaCompatibilityChecker({ registry });
+		const ref: JSONSchema7 = { $ref: "common.json#/definitions/positive" };
+		expect(local.normalize(ref)).toEqual({ exclusiveMinimum: 0 });
+		expect(local.isSubset({ type: "number", minimum: 0 }, ref)).toBe(false);
+	});
+
+	test("MergeEngine merges upgraded bounds", () => {
+		const engine = new MergeEngine({ draft: "draft-04" });
+		expect(
+			engine.merge(
+				{ minimum: 0, exclusiveMinimum: true } as unknown as JSONSchema7,
+				{ maximum: 10 },
+			),
+		).toEqual({ exclusiveMinimum: 0, maximum: 10 });
+	});
+});
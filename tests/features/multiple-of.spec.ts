@@ -0,0 +1,120 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import {
+	JsonSchemaCompatibilityChecker,
+	MergeEngine,
+	SchemaErrorType,
+} from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  multipleOf — exact decimal arithmetic
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+let engine: MergeEngine;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+	engine = new MergeEngine();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset / check
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("multipleOf — decimal steps", () => {
+	test.each([
+		[0.3, 0.1],
+		[0.07, 0.01],
+		[19.99, 0.01],
+		[1.2, 0.4],
+	])("multipleOf %p ⊆ multipleOf %p", (subStep, supStep) => {
+		const sub: JSONSchema7 = { type: "number", multipleOf: subStep };
+		const sup: JSONSchema7 = { type: "number", multipleOf: supStep };
+		expect(checker.isSubset(sub, sup)).toBe(true);
+		expect(checker.check(sub, sup).errors).toEqual([]);
+	});
+
+	test("a step that is not a multiple is rejected", () => {
+		const result = checker.check(
+			{ type: "number", multipleOf: 0.1 },
+			{ type: "number", multipleOf: 0.3 },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.NumericConstraint,
+				key: "$root",
+				expected: "multipleOf: 0.3",
+				received: "multipleOf: 0.1",
+				code: "numeric.multipleOf.not_multiple",
+				keyword: "multipleOf",
+				expectedValue: 0.3,
+				receivedValue: 0.1,
+				subSchemaPath: "/multipleOf",
+				supSchemaPath: "/multipleOf",
+				instancePath: "",
+			},
+		]);
+	});
+
+	test("integers are multiples of divisors of 1", () => {
+		const cents: JSONSchema7 = { type: "number", multipleOf: 0.01 };
+		expect(checker.isSubset({ type: "integer" }, cents)).toBe(true);
+		expect(
+			checker.isSubset({ type: "integer" }, { type: "number", multipleOf: 2 }),
+		).toBe(false);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Bounds rounded to the step
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("multipleOf — bounds", () => {
+	test("bounds are rounded to the step of sub", () => {
+		const sub: JSONSchema7 = {
+			type: "number",
+			multipleOf: 0.5,
+			exclusiveMinimum: 1,
+		};
+		expect(checker.isSubset(sub, { type: "number", minimum: 1.5 })).toBe(true);
+		expect(checker.isSubset(sub, { type: "number", minimum: 1.6 })).toBe(false);
+	});
+
+	test("decimal bounds are rounded exactly", () => {
+		expect(
+			checker.isSubset(
+				{ type: "number", multipleOf: 0.1, exclusiveMaximum: 0.3 },
+				{ type: "number", maximum: 0.2 },
+			),
+		).toBe(true);
+	});
+
+	test("no multiple of the step between the bounds is an empty set", () => {
+		const empty: JSONSchema7 = {
+			type: "number",
+			multipleOf: 0.5,
+			exclusiveMinimum: 1,
+			exclusiveMaximum: 1.5,
+		};
+		expect(checker.isSubset(empty, { type: "string" })).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  MergeEngine
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("multipleOf — MergeEngine", () => {
+	test.each([
+		[0.07, 0.03, 0.21],
+		[0.1, 0.3, 0.3],
+		[0.25, 0.1, 0.5],
+		[4, 6, 12],
+	])("intersects multipleOf %p and %p as their LCM %p", (a, b, lcm) => {
+		expect(engine.merge({ multipleOf: a }, { multipleOf: b })).toEqual({
+			multipleOf: lcm,
+		});
+	});
+});
@@ -493,3 +493,159 @@ describe("Nested branching — constrained branches", () => {
 		expect(checker.isSubset(sub, sup)).toBe(true);
 	});
 });
+
+// ── Scenario K — Object keywords around nested branching ─────────────────────
+
+/** Property whose value is a string or a number */
+const stringOrNumber: JSONSchema7 = {
+	oneOf: [{ type: "string" }, { type: "number" }],
+};
+
+describe("Nested branching — object-level keywords", () => {
+	test("minProperties counts the keys sub requires", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { v: stringOrNumber },
+			required: ["v"],
+			minProperties: 2,
+		};
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { v: { type: "string" }, w: { type: "string" } },
+			required: ["v"],
+		};
+		expect(checker.isSubset(sub, sup)).toBe(false);
+		expect(checker.isSubset({ ...sub, required: ["v", "w"] }, sup)).toBe(true);
+	});
+
+	test("maxProperties holds for closed sub objects only", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { v: stringOrNumber },
+			maxProperties: 1,
+		};
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { v: { type: "string" } },
+			required: ["v"],
+		};
+		expect(checker.isSubset(sub, sup)).toBe(false);
+		expect(checker.isSubset({ ...sub, additionalProperties: false }, sup)).toBe(
+			true,
+		);
+	});
+
+	test("patternProperties of sup apply to the matching keys of sub", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			patternProperties: { "^x_": stringOrNumber },
+			additionalProperties: false,
+		};
+		expect(
+			checker.isSubset(
+				{
+					type: "object",
+					properties: { x_a: { type: "string" }, x_b: { type: "integer" } },
+					additionalProperties: false,
+				},
+				sup,
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{
+					type: "object",
+					properties: { x_a: { type: "boolean" } },
+					additionalProperties: false,
+				},
+				sup,
+			),
+		).toBe(false);
+	});
+
+	test("schema-form dependencies are checked against sub", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { a: stringOrNumber },
+			dependencies: {
+				a: { properties: { b: stringOrNumber }, required: ["b"] },
+			},
+		};
+		expect(
+			checker.isSubset(
+				{
+					type: "object",
+					properties: { a: { type: "string" }, b: { type: "number" } },
+					required: ["a", "b"],
+				},
+				sup,
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{
+					type: "object",
+					properties: { a: { type: "string" }, b: { type: "boolean" } },
+					required: ["a"],
+				},
+				sup,
+			),
+		).toBe(false);
+	});
+});
+
+// ── Scenario L — Array keywords around nested branching ──────────────────────
+
+describe("Nested branching — array-level keywords", () => {
+	test("contains of sub must satisfy contains of sup", () => {
+		const sup: JSONSchema7 = { type: "array", contains: stringOrNumber };
+		expect(
+			checker.isSubset({ type: "array", contains: { type: "string" } }, sup),
+		).toBe(true);
+		expect(
+			checker.isSubset({ type: "array", items: { type: "string" } }, sup),
+		).toBe(false);
+	});
+
+	test("array bounds are compared alongside branched items", () => {
+		const sup: JSONSchema7 = {
+			type: "array",
+			items: stringOrNumber,
+			maxItems: 5,
+		};
+		expect(
+			checker.isSubset(
+				{ type: "array", items: { type: "string" }, maxItems: 3 },
+				sup,
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset({ type: "array", items: { type: "string" } }, sup),
+		).toBe(false);
+	});
+});
+
+// ── Scenario M — Sup keywords the fallback does not compare ──────────────────
+
+describe("Nested branching — keywords outside the fallback", () => {
+	const sub: JSONSchema7 = {
+		type: "object",
+		properties: { a: stringOrNumber },
+		required: ["a"],
+	};
+
+	test.each<[string, JSONSchema7]>([
+		["enum", { enum: [{ a: "x" }] }],
+		["const", { const: { a: "x" } }],
+		["not", { not: { required: ["a"] } }],
+		["if / then", { if: { required: ["a"] }, then: { required: ["b"] } }],
+	])("a sup with %s is not proven a superset", (_, extra) => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { a: stringOrNumber },
+			...extra,
+		};
+		expect(checker.isSubset(sub, sup)).toBe(false);
+		expect(checker.check(sub, sup).isSubset).toBe(false);
+	});
+});
@@ -0,0 +1,149 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Numeric bounds compared as intervals
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Cross-keyword bounds
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("numeric intervals — cross-keyword bounds", () => {
+	test("exclusiveMinimum: 5 ⊆ minimum: 0", () => {
+		const sub: JSONSchema7 = { type: "number", exclusiveMinimum: 5 };
+		const sup: JSONSchema7 = { type: "number", minimum: 0 };
+		expect(checker.isSubset(sub, sup)).toBe(true);
+		expect(checker.isSubset(sup, sub)).toBe(false);
+	});
+
+	test("a closed bound is not inside an open bound of the same value", () => {
+		const closed: JSONSchema7 = { type: "number", maximum: 10 };
+		const open: JSONSchema7 = { type: "number", exclusiveMaximum: 10 };
+		expect(checker.isSubset(open, closed)).toBe(true);
+		expect(checker.isSubset(closed, open)).toBe(false);
+	});
+
+	test("the tightest of two bounds on one side is used", () => {
+		const sub: JSONSchema7 = {
+			type: "number",
+			minimum: 0,
+			exclusiveMinimum: 2,
+		};
+		expect(checker.isSubset(sub, { type: "number", minimum: 2 })).toBe(true);
+		expect(checker.isSubset(sub, { type: "number", minimum: 3 })).toBe(false);
+	});
+
+	test("bounds are compared inside properties", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { age: { type: "number", exclusiveMinimum: 0 } },
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { age: { type: "number", minimum: 0 } },
+		};
+		expect(checker.isSubset(sub, sup)).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Integer rounding
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("numeric intervals — integers", () => {
+	test("integer exclusiveMinimum: 4 ≡ minimum: 5", () => {
+		const open: JSONSchema7 = { type: "integer", exclusiveMinimum: 4 };
+		const closed: JSONSchema7 = { type: "integer", minimum: 5 };
+		expect(checker.isSubset(open, closed)).toBe(true);
+		expect(checker.isSubset(closed, open)).toBe(true);
+	});
+
+	test("fractional bounds are rounded inwards", () => {
+		expect(
+			checker.isSubset(
+				{ type: "integer", minimum: 1.5, maximum: 9.5 },
+				{ type: "integer", minimum: 2, maximum: 9 },
+			),
+		).toBe(true);
+	});
+
+	test("number schemas are not rounded", () => {
+		expect(
+			checker.isSubset(
+				{ type: "number", exclusiveMinimum: 4 },
+				{ type: "number", minimum: 5 },
+			),
+		).toBe(false);
+	});
+
+	test("an integer range without integers is empty", () => {
+		const empty: JSONSchema7 = {
+			type: "integer",
+			exclusiveMinimum: 4,
+			exclusiveMaximum: 5,
+		};
+		expect(checker.isSubset(empty, { type: "string" })).toBe(true);
+
+		// Strings are still accepted: not empty
+		const withStrings: JSONSchema7 = { ...empty, type: ["integer", "string"] };
+		expect(checker.isSubset(withStrings, { type: "string" })).toBe(false);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  check — errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("numeric intervals — errors", () => {
+	test("reports the tightest bound of sup once per side", () => {
+		const result = checker.check(
+			{ type: "number", exclusiveMinimum: 2 },
+			{ type: "number", minimum: 3, exclusiveMinimum: 1 },
+		);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.NumericConstraint,
+				key: "$root",
+				expected: "minimum: 3",
+				received: "exclusiveMinimum: 2",
+				code: "numeric.minimum.too_low",
+				keyword: "minimum",
+				expectedValue: 3,
+				receivedValue: 2,
+				subSchemaPath: "/exclusiveMinimum",
+				supSchemaPath: "/minimum",
+				instancePath: "",
+			},
+		]);
+	});
+
+	test("reports a missing bound", () => {
+		const result = checker.check(
+			{ type: "integer" },
+			{ type: "integer", exclusiveMaximum: 10 },
+		);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.NumericConstraint,
+				key: "$root",
+				expected: "exclusiveMaximum: 10",
+				received: "exclusiveMaximum: not set",
+				code: "numeric.exclusiveMaximum.too_high",
+				keyword: "exclusiveMaximum",
+				expectedValue: 10,
+				receivedValue: undefined,
+				subSchemaPath: "",
+				supSchemaPath: "/exclusiveMaximum",
+				instancePath: "",
+			},
+		]);
+	});
+});
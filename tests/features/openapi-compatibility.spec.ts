@@ -0,0 +1,405 @@
+import { describe, expect, test } from "bun:test";
+import { checkOpenApi, type OpenApiDocument, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  checkOpenApi — OpenAPI 3.x document comparison
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const pet = {
+	type: "object",
+	properties: {
+		id: { type: "integer" },
+		name: { type: "string" },
+		tag: { type: "string" },
+	},
+	required: ["id", "name"],
+};
+
+/** Builds a 3.0 document with one `/pets` path item. */
+function document(
+	pathItem: Record<string, unknown>,
+	components?: Record<string, unknown>,
+): OpenApiDocument {
+	return {
+		openapi: "3.0.3",
+		paths: { "/pets": pathItem },
+		...(components ? { components } : {}),
+	};
+}
+
+function json(schema: unknown) {
+	return { content: { "application/json": { schema } } };
+}
+
+const listPets = {
+	parameters: [
+		{ name: "limit", in: "query", schema: { type: "integer", maximum: 100 } },
+	],
+	responses: {
+		"200": json({ type: "array", items: pet }),
+	},
+};
+
+const createPet = {
+	requestBody: { required: true, ...json(pet) },
+	responses: { "201": json(pet) },
+};
+
+const v1 = document({ get: listPets, post: createPet });
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Operations
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("checkOpenApi — operations", () => {
+	test("an identical document is compatible", () => {
+		const result = checkOpenApi(v1, v1);
+		expect(result.isCompatible).toBe(true);
+		expect(result.paths["/pets"]?.get).toEqual({
+			isCompatible: true,
+			errors: [],
+			parameters: {},
+			requestBody: {},
+			responses: {},
+		});
+	});
+
+	test("a removed operation is reported", () => {
+		const result = checkOpenApi(v1, document({ get: listPets }));
+		expect(result.isCompatible).toBe(false);
+		expect(result.paths["/pets"]?.get?.isCompatible).toBe(true);
+		expect(result.paths["/pets"]?.post?.errors).toEqual([
+			{
+				type: SchemaErrorType.OpenApiMismatch,
+				key: "operation",
+				expected: "defined",
+				received: "undefined",
+				code: "openapi.operation.missing",
+				keyword: "operation",
+				expectedValue: true,
+				receivedValue: false,
+				instancePath: "",
+			},
+		]);
+	});
+
+	test("added operations and paths are compatible", () => {
+		const v2: OpenApiDocument = {
+			...document({ get: listPets, post: createPet, delete: listPets }),
+		};
+		v2.paths = { ...v2.paths, "/owners": { get: listPets } };
+		expect(checkOpenApi(v1, v2).isCompatible).toBe(true);
+	});
+
+	test("unsupported versions throw", () => {
+		expect(() =>
+			checkOpenApi({ openapi: "2.0" } as OpenApiDocument, v1),
+		).toThrow('unsupported version "2.0"');
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Requests — contravariant
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("checkOpenApi — requests", () => {
+	test("a new required parameter is reported under its location", () => {
+		const v2 = document({
+			get: {
+				...listPets,
+				parameters: [
+					...listPets.parameters,
+					{ name: "owner", in: "query", required: true, schema: {} },
+				],
+			},
+			post: createPet,
+		});
+		const report = checkOpenApi(v1, v2).paths["/pets"]?.get;
+		expect(report?.isCompatible).toBe(false);
+		expect(report?.parameters.query).toContainEqual(
+			expect.objectContaining({ key: "owner" }),
+		);
+	});
+
+	test("new optional parameter is compatible", () => {
+		const v2 = document({
+			get: {
+				...listPets,
+				parameters: [
+					...listPets.parameters,
+					{ name: "owner", in: "query", schema: { type: "integer" } },
+					{ name: "X-Trace", in: "header", schema: { type: "string" } },
+				],
+			},
+			post: createPet,
+		});
+		const result = checkOpenApi(v1, v2);
+		expect(result.isCompatible).toBe(true);
+		expect(result.paths["/pets"]?.get?.parameters).toEqual({});
+	});
+
+	test("a parameter becoming required is reported", () => {
+		const v2 = document({
+			get: {
+				...listPets,
+				parameters: [{ ...listPets.parameters[0], required: true }],
+			},
+			post: createPet,
+		});
+		const report = checkOpenApi(v1, v2).paths["/pets"]?.get;
+		expect(report?.isCompatible).toBe(false);
+		expect(report?.parameters.query).toContainEqual(
+			expect.objectContaining({ key: "limit" }),
+		);
+	});
+
+	test("a widened parameter is compatible, a narrowed one is not", () => {
+		const withLimit = (maximum: number) =>
+			document({
+				get: {
+					...listPets,
+					parameters: [
+						{
+							name: "limit",
+							in: "query",
+							schema: { type: "integer", maximum },
+						},
+					],
+				},
+				post: createPet,
+			});
+		expect(checkOpenApi(v1, withLimit(500)).isCompatible).toBe(true);
+		expect(checkOpenApi(v1, withLimit(50)).isCompatible).toBe(false);
+	});
+
+	test("path-level and $ref parameters are taken into account", () => {
+		const limit = {
+			name: "Limit",
+			in: "header",
+			required: true,
+			schema: { type: "integer" },
+		};
+		const old = document({
+			get: { ...listPets, parameters: [] },
+			post: createPet,
+		});
+		const v2 = document(
+			{
+				parameters: [{ $ref: "#/components/parameters/Limit" }],
+				get: { ...listPets, parameters: [] },
+				post: createPet,
+			},
+			{ parameters: { Limit: limit } },
+		);
+		const report = checkOpenApi(old, v2).paths["/pets"]?.get;
+		expect(report?.parameters.header).toContainEqual(
+			expect.objectContaining({ key: "limit" }),
+		);
+	});
+
+	test("a widened request body is compatible, a narrowed one is not", () => {
+		const withBody = (schema: unknown) =>
+			document({
+				get: listPets,
+				post: {
+					...createPet,
+					requestBody: { required: true, ...json(schema) },
+				},
+			});
+		const optionalTag = { ...pet, required: ["name"] };
+		const requiredTag = { ...pet, required: ["id", "name", "tag"] };
+
+		expect(checkOpenApi(v1, withBody(optionalTag)).isCompatible).toBe(true);
+		const result = checkOpenApi(v1, withBody(requiredTag));
+		expect(result.isCompatible).toBe(false);
+		expect(
+			result.paths["/pets"]?.post?.requestBody["application/json"],
+		).toContainEqual(expect.objectContaining({ key: "tag" }));
+	});
+
+	test("a request body becoming required is reported", () => {
+		const old = document({
+			post: { ...createPet, requestBody: json(pet) },
+		});
+		const result = checkOpenApi(old, document({ post: createPet }));
+		expect(result.paths["/pets"]?.post?.errors).toContainEqual({
+			type: SchemaErrorType.Optionality,
+			key: "requestBody",
+			expected: "not optional",
+			received: "optional",
+			code: "openapi.requestBody.optional",
+			keyword: "required",
+			expectedValue: true,
+			receivedValue: undefined,
+			instancePath: "",
+		});
+	});
+
+	test("a removed request media type is reported, wildcards are matched", () => {
+		const withContent = (mediaType: string) =>
+			document({
+				post: {
+					...createPet,
+					requestBody: {
+						required: true,
+						content: { [mediaType]: { schema: pet } },
+					},
+				},
+			});
+		const v2 = withContent("application/xml");
+		expect(
+			checkOpenApi(v1, v2).paths["/pets"]?.post?.requestBody[
+				"application/json"
+			],
+		).toEqual([
+			{
+				type: SchemaErrorType.OpenApiMismatch,
+				key: "content",
+				expected: "application/json",
+				received: "undefined",
+				code: "openapi.content.missing",
+				keyword: "content",
+				expectedValue: "application/json",
+				receivedValue: undefined,
+				instancePath: "",
+			},
+		]);
+		expect(
+			checkOpenApi(document({ post: createPet }), withContent("application/*"))
+				.isCompatible,
+		).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Responses — covariant
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("checkOpenApi — responses", () => {
+	const withResponses = (responses: Record<string, unknown>) =>
+		document({ get: { ...listPets, responses }, post: createPet });
+
+	test("a narrowed response is compatible, a widened one is not", () => {
+		const narrowed = withResponses({
+			"200": json({ type: "array", items: pet, maxItems: 10 }),
+		});
+		expect(checkOpenApi(v1, narrowed).isCompatible).toBe(true);
+
+		const widened = withResponses({
+			"200": json({
+				type: "array",
+				items: {
+					...pet,
+					properties: { ...pet.properties, id: { type: "string" } },
+				},
+			}),
+		});
+		const result = checkOpenApi(v1, widened);
+		expect(result.isCompatible).toBe(false);
+		expect(
+			result.paths["/pets"]?.get?.responses["200"]?.["application/json"],
+		).toBeDefined();
+	});
+
+	test("a new status code is reported unless a range or default covers it", () => {
+		const withNotFound = withResponses({
+			...listPets.responses,
+			"404": json({ type: "object" }),
+		});
+		expect(
+			checkOpenApi(v1, withNotFound).paths["/pets"]?.get?.responses["404"],
+		).toEqual({
+			"*": [
+				{
+					type: SchemaErrorType.OpenApiMismatch,
+					key: "status",
+					expected: "200",
+					received: "404",
+					code: "openapi.status.unexpected",
+					keyword: "status",
+					expectedValue: ["200"],
+					receivedValue: "404",
+					instancePath: "",
+				},
+			],
+		});
+
+		const withDefault = withResponses({
+			...listPets.responses,
+			default: json({ type: "object" }),
+		});
+		expect(checkOpenApi(withDefault, withNotFound).isCompatible).toBe(true);
+	});
+
+	test("a new response media type is reported", () => {
+		const v2 = withResponses({
+			"200": {
+				content: {
+					...json({ type: "array", items: pet }).content,
+					"text/csv": { schema: { type: "string" } },
+				},
+			},
+		});
+		expect(
+			checkOpenApi(v1, v2).paths["/pets"]?.get?.responses["200"]?.["text/csv"],
+		).toEqual([
+			{
+				type: SchemaErrorType.OpenApiMismatch,
+				key: "content",
+				expected: "application/json",
+				received: "text/csv",
+				code: "openapi.content.unexpected",
+				keyword: "content",
+				expectedValue: ["application/json"],
+				receivedValue: "text/csv",
+				instancePath: "",
+			},
+		]);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Schemas — dialects and components
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("checkOpenApi — schemas", () => {
+	test("component schemas are resolved in each document", () => {
+		const withPet = (schema: unknown) =>
+			document(
+				{
+					get: {
+						responses: { "200": json({ $ref: "#/components/schemas/Pet" }) },
+					},
+				},
+				{ schemas: { Pet: schema } },
+			);
+		const old = withPet(pet);
+		expect(
+			checkOpenApi(old, withPet({ ...pet, additionalProperties: false }))
+				.isCompatible,
+		).toBe(true);
+		expect(
+			checkOpenApi(old, withPet({ ...pet, required: ["id"] })).isCompatible,
+		).toBe(false);
+	});
+
+	test("3.0 and 3.1 documents are compared with their own dialect", () => {
+		const old = document({
+			get: { responses: { "200": json({ type: "string", nullable: true }) } },
+		});
+		const v31 = (schema: unknown): OpenApiDocument => ({
+			openapi: "3.1.0",
+			paths: { "/pets": { get: { responses: { "200": json(schema) } } } },
+		});
+		expect(
+			checkOpenApi(old, v31({ type: ["string", "null"] })).isCompatible,
+		).toBe(true);
+		expect(
+			checkOpenApi(
+				v31({ type: "array", prefixItems: [{ type: "string" }] }),
+				v31({ type: "array", prefixItems: [{ type: "string", minLength: 1 }] }),
+			).isCompatible,
+		).toBe(true);
+		expect(checkOpenApi(v31({ type: "string" }), old).isCompatible).toBe(false);
+	});
+});
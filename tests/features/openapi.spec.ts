@@ -0,0 +1,202 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaRegistry } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  OpenAPI 3.0 schema objects — `openapi30` input mode
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** OpenAPI keywords are not part of the Draft-07 typings. */
+type OpenApiSchema = JSONSchema7 & Record<string, unknown>;
+
+const components = {
+	schemas: {
+		Cat: {
+			type: "object",
+			properties: {
+				petType: { type: "string" },
+				name: { type: "string", nullable: true },
+			},
+			required: ["petType"],
+		},
+		Dog: {
+			type: "object",
+			properties: { petType: { type: "string" }, bark: { type: "string" } },
+			required: ["petType"],
+		},
+	},
+};
+
+const pet: OpenApiSchema = {
+	components,
+	oneOf: [
+		{ $ref: "#/components/schemas/Cat" },
+		{ $ref: "#/components/schemas/Dog" },
+	],
+	discriminator: { propertyName: "petType" },
+};
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker({ draft: "openapi30" });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  normalize — keyword conversion
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("openapi30 — normalize", () => {
+	test("nullable adds null to type", () => {
+		expect(
+			checker.normalize({ type: "string", nullable: true } as OpenApiSchema),
+		).toEqual({ type: ["string", "null"] });
+	});
+
+	test("nullable adds null to enum", () => {
+		expect(
+			checker.normalize({
+				type: "string",
+				enum: ["a", "b"],
+				nullable: true,
+			} as OpenApiSchema),
+		).toEqual({ type: ["string", "null"], enum: ["a", "b", null] });
+	});
+
+	test("nullable without type, or false, has no effect", () => {
+		expect(checker.normalize({ nullable: true } as OpenApiSchema)).toEqual({});
+		expect(
+			checker.normalize({ type: "string", nullable: false } as OpenApiSchema),
+		).toEqual({ type: "string" });
+	});
+
+	test("boolean exclusive bounds become numeric bounds", () => {
+		expect(
+			checker.normalize({
+				type: "number",
+				minimum: 0,
+				exclusiveMinimum: true,
+				maximum: 10,
+				exclusiveMaximum: false,
+			} as unknown as JSONSchema7),
+		).toEqual({ type: "number", exclusiveMinimum: 0, maximum: 10 });
+	});
+
+	test("example becomes examples, readOnly / writeOnly are kept", () => {
+		expect(
+			checker.normalize({
+				type: "string",
+				example: "abc",
+				readOnly: true,
+			} as OpenApiSchema),
+		).toEqual({ type: "string", examples: ["abc"], readOnly: true });
+	});
+
+	test("discriminator requires the implicit schema name in each branch", () => {
+		const normalized = checker.normalize(pet) as JSONSchema7;
+		expect(normalized.oneOf?.[0]).toMatchObject({
+			allOf: [
+				{ properties: { name: { type: ["string", "null"] } } },
+				{
+					properties: { petType: { const: "Cat" } },
+					required: ["petType"],
+				},
+			],
+		});
+		expect(normalized).not.toHaveProperty("discriminator");
+	});
+
+	test("discriminator mapping takes precedence over the schema name", () => {
+		const normalized = checker.normalize({
+			...pet,
+			discriminator: {
+				propertyName: "petType",
+				mapping: {
+					cat: "#/components/schemas/Cat",
+					kitten: "Cat",
+				},
+			},
+		} as OpenApiSchema) as JSONSchema7;
+		const [cat, dog] = (normalized.oneOf ?? []) as JSONSchema7[];
+		expect(cat?.allOf?.[1]).toEqual({
+			properties: { petType: { enum: ["cat", "kitten"], type: "string" } },
+			required: ["petType"],
+		});
+		expect(dog?.allOf?.[1]).toMatchObject({
+			properties: { petType: { const: "Dog" } },
+		});
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset / check
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("openapi30 — subset checking", () => {
+	test("a nullable field is not a subset of a non-nullable one", () => {
+		const nullable: OpenApiSchema = { type: "string", nullable: true };
+		const strict: JSONSchema7 = { type: "string" };
+		expect(checker.isSubset(nullable, strict)).toBe(false);
+		expect(checker.isSubset(strict, nullable)).toBe(true);
+	});
+
+	test("nullable fields in referenced components are taken into account", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { petType: { const: "Cat" }, name: { type: "string" } },
+			required: ["petType"],
+		};
+		expect(checker.isSubset(sub, pet)).toBe(true);
+		expect(
+			checker.isSubset(
+				{
+					...sub,
+					properties: { ...sub.properties, name: { type: "null" } },
+				},
+				{ $ref: "#/components/schemas/Dog", components } as OpenApiSchema,
+			),
+		).toBe(false);
+	});
+
+	test("an unknown discriminant value is rejected", () => {
+		const bird: JSONSchema7 = {
+			type: "object",
+			properties: { petType: { const: "Bird" } },
+			required: ["petType"],
+		};
+		expect(checker.isSubset(bird, pet)).toBe(false);
+	});
+
+	test("runtime data selects the branch named by the discriminant", async () => {
+		const valid = await checker.check(pet, pet, {
+			data: { petType: "Cat", name: null },
+			validate: true,
+		});
+		expect(valid.isSubset).toBe(true);
+
+		const invalid = await checker.check(pet, pet, {
+			data: { petType: "Cat", name: 1 },
+			validate: { sub: true },
+		});
+		expect(invalid.isSubset).toBe(false);
+	});
+
+	test("OpenAPI documents can be registered", () => {
+		const document: OpenApiSchema = { $id: "api.json", components };
+		const registry = new SchemaRegistry([document], { draft: "openapi30" });
+		const local = new JsonSchemaCompatibilityChecker({ registry });
+		const cat: JSONSchema7 = { $ref: "api.json#/components/schemas/Cat" };
+		expect(
+			local.isSubset(cat, {
+				type: "object",
+				properties: { name: { type: "string" } },
+			}),
+		).toBe(false);
+	});
+
+	test("Draft-07 mode ignores OpenAPI keywords", () => {
+		const draft07 = new JsonSchemaCompatibilityChecker();
+		const schema: OpenApiSchema = { type: "string", nullable: true };
+		expect(draft07.normalize(schema)).toEqual(schema);
+	});
+});
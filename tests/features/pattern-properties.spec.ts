@@ -0,0 +1,222 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  patternProperties — property keys compared semantically
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** Extensions `x_*` must be strings, nothing else is allowed */
+const extensions: JSONSchema7 = {
+	type: "object",
+	patternProperties: { "^x_": { type: "string" } },
+	additionalProperties: false,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Named properties of sub
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("patternProperties — named properties of sub", () => {
+	test("names matching a sup pattern satisfy its schema", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { x_id: { type: "string", minLength: 1 } },
+			additionalProperties: false,
+		};
+		expect(checker.isSubset(sub, extensions)).toBe(true);
+	});
+
+	test("a name with an incompatible schema is rejected", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { x_id: { type: "number" } },
+			additionalProperties: false,
+		};
+		const result = checker.check(sub, extensions);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.TypeMismatch,
+				key: "<patternProperties:^x_>.x_id",
+				expected: "string",
+				received: "number",
+				code: "type.mismatch",
+				keyword: "type",
+				expectedValue: "string",
+				receivedValue: "number",
+				subSchemaPath: "/properties/x_id/type",
+				supSchemaPath: "/patternProperties/^x_/type",
+				instancePath: "/x_id",
+			},
+		]);
+	});
+
+	test("a name no sup pattern matches falls under additionalProperties", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { x_id: { type: "string" }, id: { type: "string" } },
+			additionalProperties: false,
+		};
+		const result = checker.check(sub, extensions);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.ObjectConstraint,
+				key: "id",
+				expected: "additionalProperties: false",
+				received: "string",
+				code: "object.additionalProperties.not_allowed",
+				keyword: "additionalProperties",
+				expectedValue: false,
+				receivedValue: { type: "string" },
+				subSchemaPath: "/properties/id",
+				supSchemaPath: "/additionalProperties",
+				instancePath: "/id",
+			},
+		]);
+	});
+
+	test("sup properties and patterns combine", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "integer" }, x_tag: { type: "string" } },
+			required: ["id"],
+			additionalProperties: false,
+		};
+		const sup: JSONSchema7 = {
+			...extensions,
+			properties: { id: { type: "number" } },
+		};
+		expect(checker.isSubset(sub, sup)).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Patterns of sub
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("patternProperties — patterns of sub", () => {
+	test("a narrower sub pattern is covered by a sup pattern", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			patternProperties: { "^x_[a-z]+$": { type: "string", maxLength: 10 } },
+			additionalProperties: false,
+		};
+		expect(checker.isSubset(sub, extensions)).toBe(true);
+	});
+
+	test("a sub pattern outside every sup pattern is named in the error", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			patternProperties: { "^y_": { type: "string" } },
+			additionalProperties: false,
+		};
+		const result = checker.check(sub, extensions);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.ObjectConstraint,
+				key: "<patternProperties:^y_>",
+				expected: "additionalProperties: false",
+				received: "string",
+				code: "object.additionalProperties.not_allowed",
+				keyword: "additionalProperties",
+				expectedValue: false,
+				receivedValue: { type: "string" },
+				subSchemaPath: "/patternProperties/^y_",
+				supSchemaPath: "/additionalProperties",
+				instancePath: "/*",
+			},
+		]);
+	});
+
+	test("an overlapping sub pattern must satisfy the sup schema", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			patternProperties: { "^x_[0-9]+$": { type: "number" } },
+			additionalProperties: false,
+		};
+		const result = checker.check(sub, extensions);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toContainEqual({
+			type: SchemaErrorType.TypeMismatch,
+			key: "<patternProperties:^x_>",
+			expected: "string",
+			received: "number",
+			code: "type.mismatch",
+			keyword: "type",
+			expectedValue: "string",
+			receivedValue: "number",
+			subSchemaPath: "/patternProperties/^x_[0-9]+$/type",
+			supSchemaPath: "/patternProperties/^x_/type",
+			instancePath: "/*",
+		});
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  additionalProperties of sub
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("patternProperties — additionalProperties of sub", () => {
+	test("open sub objects leave the pattern unconstrained", () => {
+		const result = checker.check(
+			{ type: "object" },
+			{ type: "object", patternProperties: { "^x_": { type: "string" } } },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.ObjectConstraint,
+				key: "<patternProperties:^x_>",
+				expected: "string",
+				received: "no constraint for this pattern",
+				code: "object.patternProperties.unconstrained",
+				keyword: "patternProperties",
+				expectedValue: { type: "string" },
+				receivedValue: undefined,
+				subSchemaPath: "",
+				supSchemaPath: "/patternProperties/^x_",
+				instancePath: "/*",
+			},
+		]);
+	});
+
+	test("an additionalProperties schema of sub can satisfy the pattern", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			additionalProperties: { type: "string", format: "email" },
+		};
+		expect(
+			checker.isSubset(sub, {
+				type: "object",
+				patternProperties: { "^x_": { type: "string" } },
+			}),
+		).toBe(true);
+	});
+
+	test("nested objects are compared too", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: {
+				meta: {
+					type: "object",
+					properties: { x_source: { type: "string" } },
+					additionalProperties: false,
+				},
+			},
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { meta: extensions },
+		};
+		expect(checker.isSubset(sub, sup)).toBe(true);
+	});
+});
@@ -0,0 +1,300 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Recursive $ref — cyclic schemas and coinductive subset proofs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** A comment with nested replies, recursive through the root (`#`). */
+function comment(text: JSONSchema7 = { type: "string" }): JSONSchema7 {
+	return {
+		type: "object",
+		properties: {
+			text,
+			replies: { type: "array", items: { $ref: "#" } },
+		},
+		required: ["text"],
+	};
+}
+
+/** A tree whose recursion goes through `definitions`. */
+function tree(value: JSONSchema7): JSONSchema7 {
+	return {
+		$ref: "#/definitions/node",
+		definitions: {
+			node: {
+				type: "object",
+				properties: {
+					value,
+					children: { type: "array", items: { $ref: "#/definitions/node" } },
+				},
+				required: ["value"],
+			},
+		},
+	};
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  normalize — termination
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("recursive $ref — normalize", () => {
+	test("a self-reference through # terminates and stays a $ref", () => {
+		const normalized = checker.normalize(comment()) as JSONSchema7;
+		const replies = normalized.properties?.replies as JSONSchema7;
+		expect(replies.items).toEqual({ $ref: "#" });
+	});
+
+	test("a recursive definition is inlined once, definitions are dropped", () => {
+		const normalized = checker.normalize(
+			tree({ type: "number" }),
+		) as JSONSchema7;
+		expect(normalized.type).toBe("object");
+		expect(normalized).not.toHaveProperty("definitions");
+		const children = normalized.properties?.children as JSONSchema7;
+		expect(children.items).toEqual({ $ref: "#/definitions/node" });
+	});
+
+	test("a reference cycle without content terminates", () => {
+		const schema: JSONSchema7 = {
+			properties: { a: { $ref: "#/definitions/a" } },
+			definitions: {
+				a: { $ref: "#/definitions/b" },
+				b: { $ref: "#/definitions/a" },
+			},
+		};
+		expect(() => checker.normalize(schema)).not.toThrow();
+		expect(checker.isSubset(schema, schema)).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset — coinductive reasoning
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("recursive $ref — isSubset", () => {
+	test("a recursive schema is a subset of itself", () => {
+		expect(checker.isSubset(comment(), comment())).toBe(true);
+		expect(
+			checker.isSubset(tree({ type: "number" }), tree({ type: "number" })),
+		).toBe(true);
+	});
+
+	test("a stricter recursive schema is a subset of a looser one", () => {
+		const strict = comment({ type: "string", minLength: 1 });
+		expect(checker.isSubset(strict, comment())).toBe(true);
+		expect(checker.isSubset(comment(), strict)).toBe(false);
+	});
+
+	test("recursion through definitions is compared level by level", () => {
+		const ints = tree({ type: "integer" });
+		const numbers = tree({ type: "number" });
+		expect(checker.isSubset(ints, numbers)).toBe(true);
+		expect(checker.isSubset(numbers, ints)).toBe(false);
+	});
+
+	test("different ref spellings of the same recursion are equivalent", () => {
+		const viaRoot: JSONSchema7 = {
+			type: "object",
+			properties: {
+				value: { type: "number" },
+				children: { type: "array", items: { $ref: "#" } },
+			},
+			required: ["value"],
+		};
+		const viaDefinitions = tree({ type: "number" });
+		expect(checker.isSubset(viaRoot, viaDefinitions)).toBe(true);
+		expect(checker.isSubset(viaDefinitions, viaRoot)).toBe(true);
+	});
+
+	test("a finite schema is a subset of a recursive one", () => {
+		const finite: JSONSchema7 = {
+			type: "object",
+			properties: {
+				text: { type: "string" },
+				replies: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: {
+							text: { type: "string" },
+							replies: { type: "array", items: false },
+						},
+						required: ["text"],
+					},
+				},
+			},
+			required: ["text"],
+		};
+		expect(checker.isSubset(finite, comment())).toBe(true);
+		expect(checker.isSubset(comment(), finite)).toBe(false);
+	});
+
+	test("a mismatch deep inside the unfolding is detected", () => {
+		const finite: JSONSchema7 = {
+			type: "object",
+			properties: {
+				text: { type: "string" },
+				replies: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: { text: { type: "number" } },
+						required: ["text"],
+					},
+				},
+			},
+			required: ["text"],
+		};
+		expect(checker.isSubset(finite, comment())).toBe(false);
+	});
+
+	test("mutually recursive definitions", () => {
+		const forest = (leaf: JSONSchema7): JSONSchema7 => ({
+			$ref: "#/definitions/tree",
+			definitions: {
+				tree: {
+					type: "object",
+					properties: { leaf, forest: { $ref: "#/definitions/forest" } },
+				},
+				forest: { type: "array", items: { $ref: "#/definitions/tree" } },
+			},
+		});
+		const strings = forest({ type: "string" });
+		const emails = forest({ type: "string", format: "email" });
+		expect(checker.isSubset(emails, strings)).toBe(true);
+		expect(checker.isSubset(strings, emails)).toBe(false);
+	});
+
+	test("recursion under anyOf (JSON value)", () => {
+		const json = (scalar: JSONSchema7[]): JSONSchema7 => ({
+			anyOf: [
+				...scalar,
+				{ type: "array", items: { $ref: "#" } },
+				{ type: "object", additionalProperties: { $ref: "#" } },
+			],
+		});
+		const narrow = json([{ type: "string" }]);
+		const wide = json([{ type: "string" }, { type: "number" }]);
+		expect(checker.isSubset(narrow, wide)).toBe(true);
+		expect(checker.isSubset(wide, narrow)).toBe(false);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  check — semantic errors and runtime validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("recursive $ref — check", () => {
+	test("errors are reported once, at the outermost level", () => {
+		const result = checker.check(
+			comment(),
+			comment({ type: "string", minLength: 1 }),
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toHaveLength(1);
+		expect(result.errors[0]?.key).toBe("text");
+	});
+
+	test("errors inside a recursive definition", () => {
+		const result = checker.check(
+			tree({ type: "number" }),
+			tree({ type: "integer" }),
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			expect.objectContaining({ key: "value", expected: "integer" }),
+		]);
+	});
+
+	test("a failed check returns no merge built on decided positions", () => {
+		const pair = (value: JSONSchema7): JSONSchema7 => ({
+			$ref: "#/definitions/a",
+			definitions: {
+				a: {
+					type: "object",
+					properties: { value, b: { $ref: "#/definitions/b" } },
+				},
+				b: { type: "object", properties: { a: { $ref: "#/definitions/a" } } },
+			},
+		});
+		const result = checker.check(
+			pair({ type: "number" }),
+			pair({ type: "integer" }),
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.merged).toBeNull();
+	});
+
+	test("runtime validation follows the recursion", async () => {
+		const valid = await checker.check(comment(), comment(), {
+			data: { text: "a", replies: [{ text: "b", replies: [{ text: "c" }] }] },
+			validate: true,
+		});
+		expect(valid.isSubset).toBe(true);
+
+		const invalid = await checker.check(comment(), comment(), {
+			data: { text: "a", replies: [{ text: "b", replies: [{ text: 3 }] }] },
+			validate: { sub: true },
+		});
+		expect(invalid.isSubset).toBe(false);
+		expect(invalid.errors[0]?.key).toBe("$sub.replies[].replies[].text");
+	});
+
+	test("runtime validation of a recursive root with an $id", async () => {
+		const tree: JSONSchema7 = {
+			$id: "https://example.com/tree.json",
+			type: "object",
+			properties: { kids: { type: "array", items: { $ref: "#" } } },
+		};
+		const valid = await checker.check(tree, tree, {
+			data: { kids: [{}] },
+			validate: true,
+		});
+		expect(valid.isSubset).toBe(true);
+
+		const invalid = await checker.check(tree, tree, {
+			data: { kids: [1] },
+			validate: true,
+		});
+		expect(invalid.isSubset).toBe(false);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  intersect
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("recursive $ref — intersect", () => {
+	test("the recursion still targets the original schema", async () => {
+		const tree: JSONSchema7 = {
+			type: "object",
+			properties: { kids: { type: "array", items: { $ref: "#" } } },
+		};
+		const intersection = checker.intersect(tree, {
+			type: "object",
+			properties: { kids: { maxItems: 3 } },
+		}) as JSONSchema7;
+		expect((intersection.properties?.kids as JSONSchema7).items).toEqual({
+			$ref: "#/$defs/root",
+		});
+
+		const nested = await checker.check(intersection, intersection, {
+			data: { kids: [{ kids: [{}, {}, {}, {}] }] },
+			validate: true,
+		});
+		expect(nested.isSubset).toBe(true);
+		const top = await checker.check(intersection, intersection, {
+			data: { kids: [{}, {}, {}, {}] },
+			validate: true,
+		});
+		expect(top.isSubset).toBe(false);
+	});
+});
@@ -0,0 +1,271 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  $ref — local JSON pointer resolution
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  normalize — inlining
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("$ref — normalize", () => {
+	test("resolves $defs the same way as definitions", () => {
+		const schema: JSONSchema7 & { $defs?: Record<string, JSONSchema7> } = {
+			type: "object",
+			properties: { id: { $ref: "#/$defs/id" } },
+			$defs: { id: { type: "integer", minimum: 1 } },
+		};
+		expect(checker.normalize(schema)).toEqual({
+			type: "object",
+			properties: { id: { type: "integer", minimum: 1 } },
+		});
+	});
+
+	test("resolves arbitrary JSON pointers, including array indexes", () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: {
+				pair: {
+					type: "array",
+					items: [{ type: "string" }, { type: "number" }],
+				},
+				second: { $ref: "#/properties/pair/items/1" },
+			},
+		};
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.second).toEqual({ type: "number" });
+	});
+
+	test("unescapes ~0, ~1 and percent-encoded pointer tokens", () => {
+		const schema: JSONSchema7 = {
+			properties: {
+				a: { $ref: "#/definitions/a~1b" },
+				b: { $ref: "#/definitions/c~0d" },
+				c: { $ref: "#/definitions/with%20space" },
+			},
+			definitions: {
+				"a/b": { type: "string" },
+				"c~d": { type: "number" },
+				"with space": { type: "boolean" },
+			},
+		};
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.properties).toEqual({
+			a: { type: "string" },
+			b: { type: "number" },
+			c: { type: "boolean" },
+		});
+	});
+
+	test("resolves plain-name anchors declared with $id", () => {
+		const schema: JSONSchema7 = {
+			properties: { email: { $ref: "#email" } },
+			definitions: {
+				email: { $id: "#email", type: "string", format: "email" },
+			},
+		};
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.email).toMatchObject({
+			type: "string",
+			format: "email",
+		});
+	});
+
+	test("resolves chained references", () => {
+		const schema: JSONSchema7 = {
+			properties: { value: { $ref: "#/definitions/alias" } },
+			definitions: {
+				alias: { $ref: "#/definitions/target" },
+				target: { type: "string", maxLength: 3 },
+			},
+		};
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.value).toEqual({
+			type: "string",
+			maxLength: 3,
+		});
+	});
+
+	test("a root-level $ref is replaced by its target", () => {
+		const schema: JSONSchema7 = {
+			$ref: "#/definitions/user",
+			definitions: {
+				user: { type: "object", required: ["id"] },
+			},
+		};
+		expect(checker.normalize(schema)).toEqual({
+			type: "object",
+			required: ["id"],
+		});
+	});
+
+	test("siblings of $ref are ignored (Draft-07)", () => {
+		const schema: JSONSchema7 = {
+			properties: {
+				name: { $ref: "#/definitions/name", minLength: 10 },
+			},
+			definitions: { name: { type: "string" } },
+		};
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.name).toEqual({ type: "string" });
+	});
+
+	test("a definition referenced twice resolves to the same object", () => {
+		const schema: JSONSchema7 = {
+			properties: {
+				a: { $ref: "#/definitions/shared" },
+				b: { $ref: "#/definitions/shared" },
+			},
+			definitions: { shared: { type: "string" } },
+		};
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.a).toBe(normalized.properties?.b);
+	});
+
+	test("schemas without $ref are returned as-is", () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { a: { type: "string" } },
+			definitions: { unused: { type: "number" } },
+		};
+		expect(checker.normalize(schema)).toBe(schema);
+	});
+
+	test("unknown pointers are left untouched", () => {
+		const schema: JSONSchema7 = {
+			properties: {
+				a: { $ref: "#/definitions/missing" },
+				b: { $ref: "#/definitions/known" },
+			},
+			definitions: { known: { type: "string" } },
+		};
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.properties?.a).toEqual({
+			$ref: "#/definitions/missing",
+		});
+		expect(normalized.properties?.b).toEqual({ type: "string" });
+		expect(normalized).not.toHaveProperty("definitions");
+	});
+
+	test("does not mutate the input schema", () => {
+		const schema: JSONSchema7 = {
+			properties: { a: { $ref: "#/definitions/a" } },
+			definitions: { a: { type: "string" } },
+		};
+		const snapshot = structuredClone(schema);
+		checker.normalize(schema);
+		expect(schema).toEqual(snapshot);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset / check — referenced constraints participate
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("$ref — subset checking", () => {
+	const address: JSONSchema7 = {
+		type: "object",
+		properties: {
+			street: { type: "string" },
+			zip: { type: "string", pattern: "^[0-9]{5}$" },
+		},
+		required: ["street", "zip"],
+	};
+
+	test("ref on the sub side is compared like the inline schema", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { shipping: { $ref: "#/definitions/address" } },
+			required: ["shipping"],
+			definitions: { address },
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: {
+				shipping: {
+					type: "object",
+					properties: { street: { type: "string" } },
+					required: ["street"],
+				},
+			},
+			required: ["shipping"],
+		};
+		expect(checker.isSubset(sub, sup)).toBe(true);
+		expect(checker.isSubset(sup, sub)).toBe(false);
+	});
+
+	test("semantic errors point inside the referenced schema", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: {
+				shipping: {
+					type: "object",
+					properties: { street: { type: "string" } },
+					required: ["street"],
+				},
+			},
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { shipping: { $ref: "#/definitions/address" } },
+			definitions: { address },
+		};
+		const result = checker.check(sub, sup);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors.some((e) => e.key.startsWith("shipping"))).toBe(true);
+	});
+
+	test("identical definitions under different names are equal", () => {
+		const a: JSONSchema7 = {
+			properties: { v: { $ref: "#/definitions/a" } },
+			definitions: { a: { type: "string", minLength: 1 } },
+		};
+		const b: JSONSchema7 = {
+			properties: { v: { $ref: "#/$defs/b" } },
+			$defs: { b: { type: "string", minLength: 1 } },
+		} as JSONSchema7;
+		expect(checker.isEqual(a, b)).toBe(true);
+	});
+
+	test("refs inside anyOf branches are resolved", () => {
+		const sub: JSONSchema7 = {
+			anyOf: [{ $ref: "#/definitions/s" }, { $ref: "#/definitions/n" }],
+			definitions: { s: { type: "string" }, n: { type: "number" } },
+		};
+		const sup: JSONSchema7 = { type: ["string", "number"] };
+		expect(checker.isSubset(sub, sup)).toBe(true);
+		expect(checker.isSubset(sub, { type: "string" })).toBe(false);
+	});
+
+	test("check with runtime data resolves conditions inside definitions", async () => {
+		const sub: JSONSchema7 = {
+			$ref: "#/definitions/payment",
+			definitions: {
+				payment: {
+					type: "object",
+					properties: { method: { type: "string" } },
+					required: ["method"],
+					if: { properties: { method: { const: "card" } } },
+					then: { required: ["method", "cardNumber"] },
+				},
+			},
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			required: ["cardNumber"],
+		};
+		const result = await checker.check(sub, sup, {
+			data: { method: "card" },
+		});
+		expect(result.isSubset).toBe(true);
+		expect(result.resolvedSub.branch).toBe("then");
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import {
+	checkPatternSubset,
+	isPatternSubset,
+	JsonSchemaCompatibilityChecker,
+} from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Pattern inclusion — automata with sampling fallback
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  checkPatternSubset — method
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("checkPatternSubset — decision method", () => {
+	test("regular patterns are decided with automata", () => {
+		expect(checkPatternSubset("^[a-z]{3}$", "^[a-z]+$")).toEqual({
+			isSubset: true,
+			method: "automaton",
+		});
+		expect(checkPatternSubset("^[a-z]+$", "^[a-z]{3}$")).toEqual({
+			isSubset: false,
+			method: "automaton",
+		});
+	});
+
+	test.each([
+		["^(a)\\1$", "^a+$"],
+		["^(?=a)[a-z]$", "^[a-z]$"],
+		["^\\bword$", "word"],
+		["^\\p{Lu}+$", "^.+$"],
+	])("%p falls back to sampling", (sub, sup) => {
+		expect(checkPatternSubset(sub, sup)).toEqual({
+			isSubset: true,
+			method: "sampling",
+		});
+	});
+
+	test("invalid patterns stay undetermined", () => {
+		expect(checkPatternSubset("invalid[", "^[a-z]+$").isSubset).toBeNull();
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Exact answers
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("isPatternSubset — exact answers", () => {
+	test("patterns match anywhere unless anchored", () => {
+		// "ax" matches `x` but not `^x`
+		expect(isPatternSubset("x", "^x")).toBe(false);
+		expect(isPatternSubset("^x", "x")).toBe(true);
+		expect(isPatternSubset("abc", "b")).toBe(true);
+	});
+
+	test("rare counter-examples are found", () => {
+		// Only "zzzzzzzz" separates the two patterns
+		expect(
+			isPatternSubset("^[a-z]{8}$", "^(?:[a-y][a-z]{7}|z[a-z]{0,6}[a-y])$"),
+		).toBe(false);
+		expect(
+			isPatternSubset(
+				"^[0-9]{4}$",
+				"^(?:[0-8][0-9]{3}|9[0-9]{2}[0-8]|99[0-8]9)$",
+			),
+		).toBe(false);
+	});
+
+	test("alternations, classes and escapes", () => {
+		expect(isPatternSubset("^(?:foo|bar)$", "^[a-z]{3}$")).toBe(true);
+		expect(isPatternSubset("^\\d{3}-\\d{4}$", "^[0-9-]+$")).toBe(true);
+		expect(isPatternSubset("^[^a]*$", "^[b-z]*$")).toBe(false);
+		expect(isPatternSubset("^\\x41\\u0042$", "^[A-Z]+$")).toBe(true);
+		expect(isPatternSubset("^.+$", "^[^\\n]+$")).toBe(true);
+	});
+
+	test("characters are code points, as with the u flag of AJV", () => {
+		expect(checkPatternSubset("^😀$", "^..$")).toEqual({
+			isSubset: false,
+			method: "automaton",
+		});
+		expect(isPatternSubset("^😀$", "^.$")).toBe(true);
+		expect(isPatternSubset("^\\u{1F600}$", "^\\uD83D\\uDE00$")).toBe(true);
+		expect(isPatternSubset("^[😀-😂]$", "^[^a]$")).toBe(true);
+		expect(isPatternSubset("^.$", "^[\\u0000-\\uFFFF]$")).toBe(false);
+	});
+
+	test("a pattern that matches nothing is a subset of every pattern", () => {
+		expect(isPatternSubset("a$b", "^c$")).toBe(true);
+		expect(isPatternSubset("[]", "^x$")).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Subset checking
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("pattern inclusion in subset checking", () => {
+	test("an unanchored sub pattern is not inside an anchored one", () => {
+		const checker = new JsonSchemaCompatibilityChecker();
+		expect(
+			checker.isSubset(
+				{ type: "string", pattern: "^[0-9]+" },
+				{ type: "string", pattern: "^[0-9]+$" },
+			),
+		).toBe(false);
+		expect(
+			checker.isSubset(
+				{ type: "string", pattern: "^[0-9]+$" },
+				{ type: "string", pattern: "^[0-9]+" },
+			),
+		).toBe(true);
+	});
+});
@@ -0,0 +1,193 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import type { SchemaRelation } from "../../src";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  relate — equal / subset / superset / overlapping / disjoint
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** Validates `data` against `schema` through the runtime path of `check` */
+async function isValid(
+	schema: JSONSchema7Definition,
+	data: unknown,
+): Promise<boolean> {
+	const result = await checker.check(schema, schema, {
+		data,
+		validate: { sub: true },
+	});
+	return result.isSubset;
+}
+
+const minor: JSONSchema7 = { type: "integer", minimum: 0, maximum: 17 };
+const teen: JSONSchema7 = { type: "integer", minimum: 13, maximum: 19 };
+const adult: JSONSchema7 = { type: "integer", minimum: 18 };
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Classification
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("relate — classification", () => {
+	test.each<
+		[string, JSONSchema7Definition, JSONSchema7Definition, SchemaRelation]
+	>([
+		["identical schemas", { type: "string" }, { type: "string" }, "equal"],
+		["reordered enums", { enum: [1, 2] }, { enum: [2, 1] }, "equal"],
+		[
+			"a narrower schema",
+			{ type: "string", minLength: 1 },
+			{ type: "string" },
+			"subset",
+		],
+		[
+			"a wider schema",
+			{ type: "string" },
+			{ type: "string", minLength: 1 },
+			"superset",
+		],
+		["false", false, { type: "string" }, "subset"],
+		["crossing ranges", minor, teen, "overlapping"],
+		["distinct types", { type: "string" }, { type: "number" }, "disjoint"],
+		["separate ranges", minor, adult, "disjoint"],
+		[
+			"different discriminants",
+			{
+				type: "object",
+				properties: { kind: { const: "a" } },
+				required: ["kind"],
+			},
+			{
+				type: "object",
+				properties: { kind: { const: "b" } },
+				required: ["kind"],
+			},
+			"disjoint",
+		],
+		[
+			"a schema and its negation",
+			{ type: "string" },
+			{ not: { type: "string" } },
+			"disjoint",
+		],
+		[
+			"patterns with no string in common",
+			{ type: "string", pattern: "^a" },
+			{ type: "string", pattern: "^b" },
+			"disjoint",
+		],
+		[
+			"patterns with a string in common",
+			{ type: "string", pattern: "^a" },
+			{ type: "string", pattern: "b$" },
+			"overlapping",
+		],
+		[
+			"conflicting optional properties",
+			{ type: "object", properties: { x: { type: "number" } } },
+			{ type: "object", properties: { x: { type: "string" } } },
+			"overlapping",
+		],
+	])("%s", (_, a, b, relation) => {
+		expect(checker.relate(a, b).relation).toBe(relation);
+	});
+
+	test("swapping the schemas swaps subset and superset", () => {
+		expect(checker.relate(teen, { type: "integer" }).relation).toBe("subset");
+		expect(checker.relate({ type: "integer" }, teen).relation).toBe("superset");
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Witnesses
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("relate — witnesses", () => {
+	test("equal schemas carry no witness", () => {
+		expect(checker.relate({ type: "string" }, { type: "string" })).toEqual({
+			relation: "equal",
+		});
+	});
+
+	test("a subset carries a value only in b", async () => {
+		const a: JSONSchema7 = { type: "string", minLength: 1 };
+		const b: JSONSchema7 = { type: "string" };
+		const result = checker.relate(a, b);
+		expect(Object.keys(result)).toEqual(["relation", "onlyInB"]);
+		expect(await isValid(b, result.onlyInB)).toBe(true);
+		expect(await isValid(a, result.onlyInB)).toBe(false);
+	});
+
+	test("a superset carries a value only in a", async () => {
+		const result = checker.relate({ type: "integer" }, teen);
+		expect(Object.keys(result)).toEqual(["relation", "onlyInA"]);
+		expect(await isValid(teen, result.onlyInA)).toBe(false);
+	});
+
+	test("overlapping schemas carry a common value and one per side", async () => {
+		const result = checker.relate(minor, teen);
+		expect(await isValid(minor, result.commonValue)).toBe(true);
+		expect(await isValid(teen, result.commonValue)).toBe(true);
+		expect(await isValid(minor, result.onlyInA)).toBe(true);
+		expect(await isValid(teen, result.onlyInA)).toBe(false);
+		expect(await isValid(teen, result.onlyInB)).toBe(true);
+		expect(await isValid(minor, result.onlyInB)).toBe(false);
+	});
+
+	test("overlapping schemas always carry a checked common value", async () => {
+		const pairs: [JSONSchema7, JSONSchema7][] = [
+			[
+				{ type: "string", pattern: "^a" },
+				{ type: "string", pattern: "b$" },
+			],
+			[
+				{ type: "object", properties: { x: { type: "number" } } },
+				{ type: "object", properties: { x: { type: "string" } } },
+			],
+		];
+		for (const [a, b] of pairs) {
+			const result = checker.relate(a, b);
+			expect(result.relation).toBe("overlapping");
+			expect("commonValue" in result).toBe(true);
+			expect(await isValid(a, result.commonValue)).toBe(true);
+			expect(await isValid(b, result.commonValue)).toBe(true);
+		}
+	});
+
+	test("disjoint schemas carry no common value", async () => {
+		const result = checker.relate(minor, adult);
+		expect("commonValue" in result).toBe(false);
+		expect(await isValid(minor, result.onlyInA)).toBe(true);
+		expect(await isValid(adult, result.onlyInB)).toBe(true);
+	});
+
+	test("a fraction is a witness against integers", () => {
+		expect(checker.relate({ type: "number" }, { type: "integer" })).toEqual({
+			relation: "superset",
+			onlyInA: 0.5,
+		});
+	});
+
+	test("null is a witness", () => {
+		expect(
+			checker.relate({ type: ["null", "string"] }, { type: "string" }),
+		).toEqual({ relation: "superset", onlyInA: null });
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Failures
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("relate — failures", () => {
+	test("an unresolved $ref throws", () => {
+		expect(() =>
+			checker.relate({ type: "string" }, { $ref: "missing.json" }),
+		).toThrow('Cannot relate schema: unresolved $ref "missing.json"');
+	});
+});
@@ -0,0 +1,372 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  isSatisfiable — emptiness check with explanation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Satisfiable schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("isSatisfiable — satisfiable schemas", () => {
+	test.each<[string, JSONSchema7Definition]>([
+		["true", true],
+		["{}", {}],
+		["bounds in order", { type: "integer", minimum: 1, maximum: 1 }],
+		["a pattern within the lengths", { pattern: "^a+$", maxLength: 3 }],
+		["an optional forbidden property", { properties: { x: false } }],
+		["an enum value passing", { enum: ["a", 1], type: "string" }],
+		[
+			"another type left",
+			{ type: ["string", "null"], minLength: 3, maxLength: 1 },
+		],
+		["keywords of other types", { minLength: 3, maxLength: 1 }],
+		["an empty optional array", { type: "array", items: false }],
+		[
+			"a recursive schema",
+			{
+				type: "object",
+				properties: { children: { type: "array", items: { $ref: "#" } } },
+			},
+		],
+	])("%s", (_, schema) => {
+		expect(checker.isSatisfiable(schema)).toEqual({
+			isSatisfiable: true,
+			contradictions: [],
+		});
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Contradictions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("isSatisfiable — contradictions", () => {
+	test("false", () => {
+		expect(checker.isSatisfiable(false)).toEqual({
+			isSatisfiable: false,
+			contradictions: [
+				{
+					path: "",
+					keywords: [],
+					description: "the false schema accepts no value",
+				},
+			],
+		});
+	});
+
+	test.each<[string, JSONSchema7, string[]]>([
+		[
+			"minimum > maximum",
+			{ type: "number", minimum: 5, maximum: 1 },
+			["minimum", "maximum"],
+		],
+		[
+			"exclusive bounds",
+			{ type: "number", exclusiveMinimum: 5, exclusiveMaximum: 5 },
+			["exclusiveMinimum", "exclusiveMaximum"],
+		],
+		[
+			"no integer in the bounds",
+			{ type: "integer", minimum: 1.2, maximum: 1.8 },
+			["minimum", "maximum", "type"],
+		],
+		[
+			"no multiple in the bounds",
+			{ type: "number", minimum: 1, maximum: 1.9, multipleOf: 2 },
+			["minimum", "maximum", "multipleOf"],
+		],
+		[
+			"minLength > maxLength",
+			{ type: "string", minLength: 3, maxLength: 1 },
+			["minLength", "maxLength"],
+		],
+		[
+			"a pattern longer than maxLength",
+			{ type: "string", pattern: "^a{5}$", maxLength: 3 },
+			["pattern", "maxLength"],
+		],
+		[
+			"minItems > maxItems",
+			{ type: "array", minItems: 2, maxItems: 1 },
+			["minItems", "maxItems"],
+		],
+		[
+			"a closed tuple too short",
+			{
+				type: "array",
+				items: [{ type: "string" }],
+				additionalItems: false,
+				minItems: 2,
+			},
+			["items", "additionalItems", "minItems"],
+		],
+		[
+			"a required item set to false",
+			{ type: "array", items: false, minItems: 1 },
+			["items", "minItems"],
+		],
+		[
+			"a required tuple item set to false",
+			{ type: "array", items: [{}, false], minItems: 2 },
+			["items", "minItems"],
+		],
+		[
+			"contains with maxItems: 0",
+			{ type: "array", contains: {}, maxItems: 0 },
+			["contains", "maxItems"],
+		],
+		[
+			"minProperties > maxProperties",
+			{ type: "object", minProperties: 3, maxProperties: 1 },
+			["minProperties", "maxProperties"],
+		],
+		[
+			"more required properties than maxProperties",
+			{ type: "object", required: ["a", "b"], maxProperties: 1 },
+			["required", "maxProperties"],
+		],
+		[
+			"a required property set to false",
+			{ type: "object", properties: { x: false }, required: ["x"] },
+			["required", "properties"],
+		],
+		[
+			"a required property closed by additionalProperties",
+			{ type: "object", additionalProperties: false, required: ["x"] },
+			["required", "additionalProperties"],
+		],
+		[
+			"a required property rejected by propertyNames",
+			{ type: "object", propertyNames: { maxLength: 2 }, required: ["abc"] },
+			["required", "propertyNames"],
+		],
+		["enum: []", { enum: [] }, ["enum"]],
+		["type: []", { type: [] } as unknown as JSONSchema7, ["type"]],
+		["not: {}", { not: {} }, ["not"]],
+	])("%s", (_, schema, keywords) => {
+		const result = checker.isSatisfiable(schema);
+		expect(result.isSatisfiable).toBe(false);
+		expect(result.contradictions).toHaveLength(1);
+		expect(result.contradictions[0]?.path).toBe("");
+		expect(result.contradictions[0]?.keywords).toEqual(keywords);
+	});
+
+	test("descriptions quote the conflicting values", () => {
+		expect(
+			checker.isSatisfiable({ type: "integer", minimum: 18, maximum: 10 })
+				.contradictions[0]?.description,
+		).toBe("no integer between minimum: 18 and maximum: 10");
+	});
+
+	test("enum values all rejected by a pattern", () => {
+		expect(
+			checker.isSatisfiable({ enum: ["ab", "cd"], pattern: "^x" })
+				.contradictions,
+		).toEqual([
+			{
+				path: "",
+				keywords: ["enum", "pattern"],
+				description: "no value of enum satisfies pattern",
+			},
+		]);
+	});
+
+	test("a const value of the wrong type", () => {
+		expect(
+			checker.isSatisfiable({ const: 5, type: "string", minLength: 0 })
+				.contradictions[0]?.keywords,
+		).toEqual(["const", "type"]);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Composition
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("isSatisfiable — composition", () => {
+	test("allOf members with different const values", () => {
+		expect(
+			checker.isSatisfiable({ allOf: [{ const: 1 }, { const: 2 }] })
+				.contradictions,
+		).toEqual([
+			{
+				path: "",
+				keywords: ["allOf"],
+				description: "allOf[0] and allOf[1]: conflicting const / enum values",
+			},
+		]);
+	});
+
+	test("allOf members with different formats", () => {
+		expect(
+			checker.isSatisfiable({
+				allOf: [{ format: "email" }, { format: "uuid" }],
+			}).contradictions[0]?.description,
+		).toBe("allOf[0] and allOf[1]: conflicting formats");
+	});
+
+	test("allOf members with no common type", () => {
+		expect(
+			checker.isSatisfiable({ allOf: [{ type: "string" }, { type: "number" }] })
+				.isSatisfiable,
+		).toBe(false);
+	});
+
+	test("an empty allOf member is reported at its path", () => {
+		expect(
+			checker.isSatisfiable({
+				allOf: [
+					{ type: "string" },
+					{ type: "string", minLength: 3, maxLength: 1 },
+				],
+			}).contradictions[0]?.path,
+		).toBe("/allOf/1");
+	});
+
+	test("anyOf is empty when every branch is", () => {
+		const result = checker.isSatisfiable({
+			anyOf: [
+				{ type: "string", minLength: 3, maxLength: 1 },
+				{ type: "number", minimum: 3, maximum: 1 },
+			],
+		});
+		expect(result.isSatisfiable).toBe(false);
+		expect(result.contradictions.map((c) => c.path)).toEqual([
+			"/anyOf/0",
+			"/anyOf/1",
+		]);
+	});
+
+	test("anyOf with one satisfiable branch", () => {
+		expect(
+			checker.isSatisfiable({
+				anyOf: [
+					{ type: "string", minLength: 3, maxLength: 1 },
+					{ type: "null" },
+				],
+			}).isSatisfiable,
+		).toBe(true);
+	});
+
+	test("a condition whose reachable case is empty", () => {
+		const result = checker.isSatisfiable({
+			type: "object",
+			properties: { kind: { const: "a" } },
+			required: ["kind"],
+			if: { properties: { kind: { const: "a" } } },
+			then: { properties: { value: false }, required: ["value"] },
+			else: { required: ["other"] },
+		});
+		expect(result.contradictions).toEqual([
+			{
+				path: "/then",
+				keywords: ["required", "properties"],
+				description: 'required property "value" is forbidden by properties',
+			},
+		]);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Nested paths
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("isSatisfiable — nested paths", () => {
+	test("a required property with crossed bounds", () => {
+		expect(
+			checker.isSatisfiable({
+				type: "object",
+				properties: { age: { type: "integer", minimum: 18, maximum: 10 } },
+				required: ["age"],
+			}),
+		).toEqual({
+			isSatisfiable: false,
+			contradictions: [
+				{
+					path: "/properties/age",
+					keywords: ["minimum", "maximum"],
+					description: "no integer between minimum: 18 and maximum: 10",
+				},
+			],
+		});
+	});
+
+	test("an optional empty property keeps the object satisfiable", () => {
+		expect(
+			checker.isSatisfiable({
+				type: "object",
+				properties: { age: { type: "integer", minimum: 18, maximum: 10 } },
+			}).isSatisfiable,
+		).toBe(true);
+	});
+
+	test("deeply nested required properties", () => {
+		expect(
+			checker.isSatisfiable({
+				type: "object",
+				properties: {
+					a: {
+						type: "object",
+						properties: { "b/c": { enum: [] } },
+						required: ["b/c"],
+					},
+				},
+				required: ["a"],
+			}).contradictions[0]?.path,
+		).toBe("/properties/a/properties/b~1c");
+	});
+
+	test("a required property matched by patternProperties", () => {
+		expect(
+			checker.isSatisfiable({
+				type: "object",
+				patternProperties: {
+					"^x": { type: "string", minLength: 2, maxLength: 1 },
+				},
+				required: ["xy"],
+			}).contradictions[0]?.path,
+		).toBe("/patternProperties/^x");
+	});
+
+	test("required array items and contains", () => {
+		expect(
+			checker.isSatisfiable({
+				type: "array",
+				items: { type: "string", minLength: 3, maxLength: 1 },
+				minItems: 1,
+			}).contradictions[0]?.path,
+		).toBe("/items");
+		expect(
+			checker.isSatisfiable({
+				type: "array",
+				items: [{}, { enum: [] }],
+				minItems: 2,
+			}).contradictions[0]?.path,
+		).toBe("/items/1");
+		expect(
+			checker.isSatisfiable({ type: "array", contains: false })
+				.contradictions[0]?.path,
+		).toBe("/contains");
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Failures
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("isSatisfiable — failures", () => {
+	test("an unresolved $ref throws", () => {
+		expect(() => checker.isSatisfiable({ $ref: "missing.json" })).toThrow(
+			'Cannot check the satisfiability of schema: unresolved $ref "missing.json"',
+		);
+	});
+});
@@ -0,0 +1,240 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Schema pointers — locating errors in the schemas as written
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+const users = (name: JSONSchema7): JSONSchema7 => ({
+	type: "object",
+	properties: {
+		users: { type: "array", items: { type: "object", properties: { name } } },
+	},
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Nested keywords
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("schema pointers — nested keywords", () => {
+	test("a bound points to the keyword on both sides", () => {
+		const result = checker.check(
+			users({ type: "string", minLength: 1 }),
+			users({ type: "string", minLength: 3 }),
+		);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.StringConstraint,
+				key: "users[].name",
+				expected: "minLength: 3",
+				received: "minLength: 1",
+				code: "string.minLength.too_short",
+				keyword: "minLength",
+				expectedValue: 3,
+				receivedValue: 1,
+				subSchemaPath: "/properties/users/items/properties/name/minLength",
+				supSchemaPath: "/properties/users/items/properties/name/minLength",
+				instancePath: "/users/*/name",
+			},
+		]);
+	});
+
+	test("a keyword sub lacks points to its node", () => {
+		const [error] = checker.check(
+			users({ type: "string" }),
+			users({ type: "string", maxLength: 10 }),
+		).errors;
+		expect(error?.subSchemaPath).toBe(
+			"/properties/users/items/properties/name",
+		);
+		expect(error?.supSchemaPath).toBe(
+			"/properties/users/items/properties/name/maxLength",
+		);
+	});
+
+	test("a missing property points to its declaration in sup", () => {
+		const result = checker.check(
+			{ type: "object", properties: {} },
+			{
+				type: "object",
+				properties: { "a/b": { type: "string" } },
+				required: ["a/b"],
+			},
+		);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.MissingProperty,
+				key: "a/b",
+				expected: "string",
+				received: "undefined",
+				code: "object.required.missing",
+				keyword: "required",
+				expectedValue: "a/b",
+				receivedValue: undefined,
+				subSchemaPath: "",
+				supSchemaPath: "/properties/a~1b",
+				instancePath: "/a~1b",
+			},
+		]);
+	});
+
+	test("an optional property points to required", () => {
+		const [error] = checker.check(
+			{ type: "object", properties: { id: { type: "string" } } },
+			{
+				type: "object",
+				properties: { id: { type: "string" } },
+				required: ["id"],
+			},
+		).errors;
+		expect(error).toMatchObject({
+			type: SchemaErrorType.Optionality,
+			subSchemaPath: "",
+			supSchemaPath: "/required",
+			instancePath: "/id",
+		});
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Rewritten schemas
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("schema pointers — rewritten schemas", () => {
+	test("a $ref is followed to the definition", () => {
+		const [error] = checker.check(
+			{ type: "object", properties: { id: { type: "string" } } },
+			{
+				type: "object",
+				properties: { id: { $ref: "#/definitions/id" } },
+				definitions: { id: { type: "string", maxLength: 5 } },
+			},
+		).errors;
+		expect(error?.supSchemaPath).toBe("/definitions/id/maxLength");
+	});
+
+	test("an allOf member of sub is named in the pointer", () => {
+		const [error] = checker.check(
+			{ allOf: [{ type: "string" }, { maxLength: 20 }] },
+			{ type: "string", maxLength: 10 },
+		).errors;
+		expect(error?.subSchemaPath).toBe("/allOf/1/maxLength");
+	});
+
+	test("each case of if/then/else points to its then or else", () => {
+		const result = checker.check(
+			{ type: "object", properties: { value: { type: "boolean" } } },
+			{
+				type: "object",
+				if: { properties: { kind: { const: "a" } }, required: ["kind"] },
+				then: { properties: { value: { type: "string" } } },
+				else: { properties: { value: { type: "number" } } },
+			},
+		);
+		expect(result.errors.map((e) => [e.key, e.supSchemaPath])).toEqual([
+			["value", "/then/properties/value/type"],
+			["value", "/else/properties/value/type"],
+		]);
+	});
+
+	test("a branch of sub is named in the pointer", () => {
+		const [error] = checker.check(
+			{ anyOf: [{ type: "string" }, { type: "string", maxLength: 20 }] },
+			{ type: "string", maxLength: 10 },
+		).errors;
+		expect(error?.subSchemaPath).toBe("/anyOf/0");
+		expect(error?.supSchemaPath).toBe("/maxLength");
+	});
+
+	test("Draft 2020-12 tuples point to prefixItems", () => {
+		const checker2020 = new JsonSchemaCompatibilityChecker({
+			draft: "2020-12",
+		});
+		const sub = {
+			type: "array",
+			prefixItems: [{ type: "string" }],
+		} as JSONSchema7;
+		const sup = {
+			type: "array",
+			prefixItems: [{ type: "number" }],
+		} as JSONSchema7;
+		const [error] = checker2020.check(sub, sup).errors;
+		expect(error).toMatchObject({
+			key: "[0]",
+			subSchemaPath: "/prefixItems/0/type",
+			supSchemaPath: "/prefixItems/0/type",
+			instancePath: "/0",
+		});
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Runtime errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("schema pointers — runtime errors", () => {
+	test("runtime errors point to the concrete value", async () => {
+		const schema = users({ type: "string", minLength: 3 });
+		const result = await checker.check(schema, schema, {
+			data: { users: [{ name: "abc" }, { name: "x" }] },
+			validate: { sub: false, sup: true },
+		});
+		expect(result.errors).toHaveLength(1);
+		expect(result.errors[0]).toMatchObject({
+			key: "$sup.users[].name",
+			supSchemaPath: "/properties/users/items/properties/name/minLength",
+			instancePath: "/users/1/name",
+		});
+	});
+
+	test("a missing required property is part of the instance path", async () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" } },
+			required: ["id"],
+		};
+		const result = await checker.check(schema, schema, {
+			data: {},
+			validate: { sub: true, sup: false },
+		});
+		expect(result.errors[0]).toMatchObject({
+			subSchemaPath: "/required",
+			instancePath: "/id",
+		});
+	});
+
+	test("custom constraints point to their constraints keyword", async () => {
+		const local = new JsonSchemaCompatibilityChecker({
+			constraints: { Never: () => ({ valid: false }) },
+		});
+		const schema = {
+			type: "object",
+			properties: {
+				tags: { type: "array", items: { constraints: ["Never"] } },
+			},
+		} as JSONSchema7;
+		const result = await local.check(schema, schema, {
+			data: { tags: ["a"] },
+			validate: { sub: false, sup: true },
+		});
+		expect(result.errors).toContainEqual({
+			type: SchemaErrorType.CustomConstraint,
+			key: "$sup.tags[]",
+			expected: "Never",
+			received: "constraint validation failed",
+			code: "constraints.failed",
+			keyword: "constraints",
+			expectedValue: "Never",
+			receivedValue: "a",
+			supSchemaPath: "/properties/tags/items/constraints",
+			instancePath: "/tags/0",
+		});
+	});
+});
@@ -0,0 +1,303 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import {
+	JsonSchemaCompatibilityChecker,
+	SchemaErrorType,
+	SchemaRegistry,
+} from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  SchemaRegistry — cross-document $ref resolution
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const common: JSONSchema7 = {
+	$id: "common.json",
+	definitions: {
+		money: {
+			type: "object",
+			properties: {
+				amount: { type: "number", minimum: 0 },
+				currency: { type: "string", pattern: "^[A-Z]{3}$" },
+			},
+			required: ["amount", "currency"],
+		},
+		currency: { $ref: "#/definitions/money/properties/currency" },
+	},
+};
+
+const address: JSONSchema7 = {
+	$id: "https://example.com/schemas/address.json",
+	type: "object",
+	properties: {
+		street: { type: "string" },
+		country: { $ref: "country.json" },
+	},
+	required: ["street"],
+};
+
+const country: JSONSchema7 = {
+	$id: "https://example.com/schemas/country.json",
+	type: "string",
+	enum: ["FR", "DE", "IT"],
+};
+
+let registry: SchemaRegistry;
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	registry = new SchemaRegistry([common, address, country]);
+	checker = new JsonSchemaCompatibilityChecker({ registry });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Registration
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("SchemaRegistry — registration", () => {
+	test("documents are indexed by their resolved $id", () => {
+		expect(registry.has("memory:///common.json")).toBe(true);
+		expect(registry.has("https://example.com/schemas/address.json")).toBe(true);
+		expect(registry.get("https://example.com/schemas/country.json")).toBe(
+			country,
+		);
+	});
+
+	test("an explicit URI takes precedence over $id", () => {
+		const schema: JSONSchema7 = { type: "string" };
+		const local = new SchemaRegistry().add(schema, "email.json");
+		expect(local.get("memory:///email.json")).toBe(schema);
+	});
+
+	test("embedded $id and anchors are indexed", () => {
+		const local = new SchemaRegistry().add({
+			$id: "https://example.com/root.json",
+			definitions: {
+				item: { $id: "item.json", type: "string" },
+				tag: { $id: "#tag", type: "number" },
+			},
+		});
+		expect(local.get("https://example.com/item.json")).toEqual({
+			$id: "item.json",
+			type: "string",
+		});
+		expect(local.get("https://example.com/root.json#tag")).toEqual({
+			$id: "#tag",
+			type: "number",
+		});
+	});
+
+	test("a schema without URI cannot be registered", () => {
+		expect(() => new SchemaRegistry().add({ type: "string" })).toThrow();
+		expect(() => new SchemaRegistry().add(true)).toThrow();
+	});
+
+	test("every registration bumps the revision", () => {
+		const local = new SchemaRegistry();
+		const before = local.revision;
+		local.add({ type: "string" }, "a.json");
+		expect(local.revision).toBe(before + 1);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  normalize — resolution against the registry
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("SchemaRegistry — normalize", () => {
+	test("resolves relative refs against the default base URI", () => {
+		const normalized = checker.normalize({
+			$ref: "common.json#/definitions/money",
+		}) as JSONSchema7;
+		expect(normalized.required).toEqual(["amount", "currency"]);
+	});
+
+	test("refs inside a registered document resolve against that document", () => {
+		const normalized = checker.normalize({
+			$ref: "common.json#/definitions/currency",
+		});
+		expect(normalized).toEqual({ type: "string", pattern: "^[A-Z]{3}$" });
+	});
+
+	test("resolves absolute refs and chains across documents", () => {
+		const normalized = checker.normalize({
+			$ref: "https://example.com/schemas/address.json",
+		}) as JSONSchema7;
+		expect(normalized.properties?.country).toEqual({
+			type: "string",
+			enum: ["FR", "DE", "IT"],
+		});
+	});
+
+	test("relative refs use the base URI of the root $id", () => {
+		const normalized = checker.normalize({
+			$id: "https://example.com/schemas/order.json",
+			type: "object",
+			properties: { ship: { $ref: "address.json" } },
+		}) as JSONSchema7;
+		expect(normalized.properties?.ship).toMatchObject({
+			type: "object",
+			required: ["street"],
+		});
+	});
+
+	test("local refs still win over the registry", () => {
+		const normalized = checker.normalize({
+			$id: "common.json",
+			$ref: "#/definitions/money",
+			definitions: { money: { type: "integer" } },
+		});
+		expect(normalized).toEqual({ type: "integer" });
+	});
+
+	test("recursion across documents terminates", () => {
+		const local = new SchemaRegistry([
+			{
+				$id: "node.json",
+				type: "object",
+				properties: { next: { $ref: "list.json" } },
+			},
+			{ $id: "list.json", type: "array", items: { $ref: "node.json" } },
+		]);
+		const localChecker = new JsonSchemaCompatibilityChecker({
+			registry: local,
+		});
+		const schema: JSONSchema7 = { $ref: "node.json" };
+		expect(() => localChecker.normalize(schema)).not.toThrow();
+		expect(localChecker.isSubset(schema, { type: "object" })).toBe(true);
+	});
+
+	test("documents registered later are picked up", () => {
+		const local = new SchemaRegistry();
+		const localChecker = new JsonSchemaCompatibilityChecker({
+			registry: local,
+		});
+		const schema: JSONSchema7 = { $ref: "late.json" };
+		expect(localChecker.normalize(schema)).toEqual({ $ref: "late.json" });
+
+		local.add({ type: "boolean" }, "late.json");
+		expect(localChecker.normalize(schema)).toEqual({ type: "boolean" });
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset / check — cross-document compatibility
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("SchemaRegistry — subset checking", () => {
+	test("a referenced schema is compared like the inline schema", () => {
+		const price: JSONSchema7 = {
+			type: "object",
+			properties: { price: { $ref: "common.json#/definitions/money" } },
+			required: ["price"],
+		};
+		const loose: JSONSchema7 = {
+			type: "object",
+			properties: { price: { type: "object", required: ["amount"] } },
+			required: ["price"],
+		};
+		expect(checker.isSubset(price, loose)).toBe(true);
+		expect(checker.isSubset(loose, price)).toBe(false);
+	});
+
+	test("runtime validation uses the referenced documents", async () => {
+		const order: JSONSchema7 = {
+			type: "object",
+			properties: {
+				ship: { $ref: "https://example.com/schemas/address.json" },
+				bill: { $ref: "https://example.com/schemas/address.json" },
+			},
+		};
+		const valid = await checker.check(order, order, {
+			data: { ship: { street: "a", country: "FR" } },
+			validate: true,
+		});
+		expect(valid.isSubset).toBe(true);
+
+		const invalid = await checker.check(order, order, {
+			data: { ship: { street: "a", country: "US" } },
+			validate: { sup: true },
+		});
+		expect(invalid.isSubset).toBe(false);
+		expect(invalid.errors[0]?.key).toBe("$sup.ship.country");
+	});
+
+	test("semantic errors point inside the referenced document", () => {
+		const result = checker.check(
+			{ type: "string" },
+			{ $ref: "https://example.com/schemas/country.json" },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors[0]?.type).toBe(SchemaErrorType.EnumMismatch);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Unresolved references
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("SchemaRegistry — unresolved references", () => {
+	test("an unknown document is reported on the side holding the ref", () => {
+		const result = checker.check(
+			{
+				type: "object",
+				properties: { total: { $ref: "missing.json#/definitions/x" } },
+			},
+			{ type: "object" },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.merged).toBeNull();
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.UnresolvedRef,
+				key: "$sub.total",
+				expected: "resolvable $ref",
+				received: "missing.json#/definitions/x",
+				code: "$ref.unresolved",
+				keyword: "$ref",
+				expectedValue: undefined,
+				receivedValue: "missing.json#/definitions/x",
+				subSchemaPath: "/properties/total/$ref",
+				instancePath: "/total",
+			},
+		]);
+	});
+
+	test("an unknown pointer in a known document is reported", () => {
+		const result = checker.check(
+			{ type: "object" },
+			{ $ref: "common.json#/definitions/nope" },
+		);
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				type: SchemaErrorType.UnresolvedRef,
+				key: "$sup",
+			}),
+		]);
+	});
+
+	test("without registry, cross-document refs are unresolved", () => {
+		const plain = new JsonSchemaCompatibilityChecker();
+		const sub: JSONSchema7 = {
+			type: "array",
+			items: { $ref: "common.json#/definitions/money" },
+		};
+		expect(plain.isSubset(sub, { type: "array" })).toBe(false);
+		expect(plain.check(sub, { type: "array" }).errors).toEqual([
+			expect.objectContaining({
+				type: SchemaErrorType.UnresolvedRef,
+				key: "$sub[]",
+			}),
+		]);
+		expect(checker.isSubset(sub, { type: "array" })).toBe(true);
+	});
+
+	test("check with runtime data reports unresolved refs", async () => {
+		const result = await checker.check(
+			{ $ref: "missing.json" },
+			{ type: "object" },
+			{ data: {} },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors[0]?.type).toBe(SchemaErrorType.UnresolvedRef);
+	});
+});
@@ -0,0 +1,176 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  strictOneOf — exclusivity of oneOf branches in sup
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+let strict: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+	strict = new JsonSchemaCompatibilityChecker({ strictOneOf: true });
+});
+
+/** `oneOf` whose branches both accept strings of length 3 to 5 */
+const overlapping: JSONSchema7 = {
+	oneOf: [
+		{ type: "string", minLength: 3 },
+		{ type: "string", maxLength: 5 },
+	],
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("strictOneOf — isSubset", () => {
+	test("oneOf is checked like anyOf by default", () => {
+		expect(checker.isSubset({ type: "string" }, overlapping)).toBe(false);
+		expect(
+			checker.isSubset({ type: "string", minLength: 4 }, overlapping),
+		).toBe(true);
+	});
+
+	test("a sub overlapping two branches is rejected", () => {
+		expect(strict.isSubset({ type: "string", minLength: 4 }, overlapping)).toBe(
+			false,
+		);
+	});
+
+	test("a sub outside the overlap is accepted", () => {
+		expect(strict.isSubset({ type: "string", minLength: 6 }, overlapping)).toBe(
+			true,
+		);
+		expect(strict.isSubset({ type: "string", maxLength: 2 }, overlapping)).toBe(
+			true,
+		);
+	});
+
+	test("exclusive branches are accepted", () => {
+		const exclusive: JSONSchema7 = {
+			oneOf: [{ type: "string" }, { type: "number" }],
+		};
+		expect(strict.isSubset({ type: "string" }, exclusive)).toBe(true);
+		expect(
+			strict.isSubset(
+				{ anyOf: [{ type: "string" }, { type: "number" }] },
+				exclusive,
+			),
+		).toBe(true);
+	});
+
+	test("empty numeric intersections are not overlaps", () => {
+		const ranges: JSONSchema7 = {
+			oneOf: [
+				{ type: "integer", maximum: 4 },
+				{ type: "integer", exclusiveMinimum: 4 },
+			],
+		};
+		expect(
+			strict.isSubset({ type: "integer", minimum: 0, maximum: 3 }, ranges),
+		).toBe(true);
+	});
+
+	test("identical schemas are still subsets", () => {
+		expect(strict.isSubset(overlapping, { ...overlapping })).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  check — errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("strictOneOf — check", () => {
+	test("reports the overlapping branch indexes", () => {
+		const sup: JSONSchema7 = {
+			oneOf: [
+				{ type: "number" },
+				{ type: "string", minLength: 3 },
+				{ type: "string", maxLength: 5 },
+			],
+		};
+		const result = strict.check({ type: "string", minLength: 4 }, sup);
+		expect(result.isSubset).toBe(false);
+		expect(result.merged).toBeNull();
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.BranchMismatch,
+				key: "$root",
+				expected: "exactly one oneOf branch",
+				received: "oneOf[1] and oneOf[2] overlap",
+				code: "oneOf.overlap",
+				keyword: "oneOf",
+				expectedValue: sup.oneOf,
+				receivedValue: [1, 2],
+				subSchemaPath: "",
+				supSchemaPath: "/oneOf",
+				instancePath: "",
+			},
+		]);
+	});
+
+	test("reports overlaps in nested properties and items", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: {
+				users: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: { id: { type: "integer" } },
+					},
+				},
+			},
+		};
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: {
+				users: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: {
+							id: { oneOf: [{ type: "integer" }, { type: "number" }] },
+						},
+					},
+				},
+			},
+		};
+		expect(checker.check(sub, sup).isSubset).toBe(true);
+
+		const result = strict.check(sub, sup);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.BranchMismatch,
+				key: "users[].id",
+				expected: "exactly one oneOf branch",
+				received: "oneOf[0] and oneOf[1] overlap",
+				code: "oneOf.overlap",
+				keyword: "oneOf",
+				expectedValue: [{ type: "integer" }, { type: "number" }],
+				receivedValue: [0, 1],
+				subSchemaPath: "/properties/users/items/properties/id",
+				supSchemaPath: "/properties/users/items/properties/id/oneOf",
+				instancePath: "/users/*/id",
+			},
+		]);
+	});
+
+	test("properties forbidden in sub are not inspected", () => {
+		const sup: JSONSchema7 = {
+			type: "object",
+			properties: { tag: overlapping },
+		};
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { name: { type: "string" } },
+			additionalProperties: false,
+		};
+		expect(strict.check(sub, sup).errors).toEqual([]);
+		expect(strict.isSubset(sub, sup)).toBe(true);
+	});
+});
@@ -0,0 +1,306 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  Tuple items — `items` arrays and `additionalItems`
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** `[string, number]`, open to further items */
+const pair: JSONSchema7 = {
+	type: "array",
+	items: [{ type: "string" }, { type: "number" }],
+};
+
+/** Arrays of strings and numbers */
+const mixedList: JSONSchema7 = {
+	type: "array",
+	items: { type: ["string", "number"] },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Tuple vs list
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("tuple ⊆ list", () => {
+	test("a closed tuple is included when every position is", () => {
+		expect(
+			checker.isSubset({ ...pair, additionalItems: false }, mixedList),
+		).toBe(true);
+	});
+
+	test("maxItems closes the tuple too", () => {
+		expect(checker.isSubset({ ...pair, maxItems: 2 }, mixedList)).toBe(true);
+	});
+
+	test("an open tuple leaves the following items unconstrained", () => {
+		const result = checker.check(pair, mixedList);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toContainEqual({
+			type: SchemaErrorType.ArrayConstraint,
+			key: "[]",
+			expected: "string | number",
+			received: "no constraint for these items",
+			code: "array.items.unconstrained",
+			keyword: "items",
+			expectedValue: { type: ["string", "number"] },
+			receivedValue: true,
+			subSchemaPath: "",
+			supSchemaPath: "/items",
+			instancePath: "/*",
+		});
+	});
+
+	test("additionalItems of sub are compared with the list", () => {
+		expect(
+			checker.isSubset(
+				{ ...pair, additionalItems: { type: "integer" } },
+				mixedList,
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{ ...pair, additionalItems: { type: "boolean" } },
+				mixedList,
+			),
+		).toBe(false);
+	});
+});
+
+describe("list ⊆ tuple", () => {
+	test("every position must accept the list items", () => {
+		const strings: JSONSchema7 = {
+			type: "array",
+			items: [{ type: "string" }, { type: "string" }],
+		};
+		expect(
+			checker.isSubset({ type: "array", items: { type: "string" } }, strings),
+		).toBe(true);
+
+		const result = checker.check(
+			{ type: "array", items: { type: "string" } },
+			pair,
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.TypeMismatch,
+				key: "[1]",
+				expected: "number",
+				received: "string",
+				code: "type.mismatch",
+				keyword: "type",
+				expectedValue: "number",
+				receivedValue: "string",
+				subSchemaPath: "/items/type",
+				supSchemaPath: "/items/1/type",
+				instancePath: "/1",
+			},
+		]);
+	});
+
+	test("positions past maxItems of sub are ignored", () => {
+		expect(
+			checker.isSubset(
+				{ type: "array", items: { type: "string" }, maxItems: 1 },
+				pair,
+			),
+		).toBe(true);
+	});
+
+	test("additionalItems: false of sup bounds the list", () => {
+		const single: JSONSchema7 = {
+			type: "array",
+			items: [{ type: "string" }],
+			additionalItems: false,
+		};
+		const result = checker.check(
+			{ type: "array", items: { type: "string" } },
+			single,
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.ArrayConstraint,
+				key: "[]",
+				expected: "additionalItems: false",
+				received: "string",
+				code: "array.additionalItems.not_allowed",
+				keyword: "additionalItems",
+				expectedValue: false,
+				receivedValue: { type: "string" },
+				subSchemaPath: "/items",
+				supSchemaPath: "/additionalItems",
+				instancePath: "/*",
+			},
+		]);
+		expect(
+			checker.isSubset(
+				{ type: "array", items: { type: "string" }, maxItems: 1 },
+				single,
+			),
+		).toBe(true);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Tuple vs tuple
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("tuple ⊆ tuple", () => {
+	test("a shorter tuple is compared through its additionalItems", () => {
+		expect(
+			checker.isSubset(
+				{
+					type: "array",
+					items: [{ type: "string" }],
+					additionalItems: { type: "integer" },
+				},
+				pair,
+			),
+		).toBe(true);
+	});
+
+	test("a longer tuple is compared with additionalItems of sup", () => {
+		const sup: JSONSchema7 = {
+			type: "array",
+			items: [{ type: "string" }],
+			additionalItems: { type: "number" },
+		};
+		expect(
+			checker.isSubset(
+				{
+					type: "array",
+					items: [{ type: "string" }, { type: "integer" }],
+					additionalItems: false,
+				},
+				sup,
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{
+					type: "array",
+					items: [{ type: "string" }, { type: "boolean" }],
+					additionalItems: false,
+				},
+				sup,
+			),
+		).toBe(false);
+	});
+
+	test("errors are reported at each position of nested tuples", () => {
+		const result = checker.check(
+			{
+				type: "object",
+				properties: {
+					point: {
+						type: "array",
+						items: [{ type: "string" }, { type: "number", maximum: 100 }],
+					},
+				},
+			},
+			{
+				type: "object",
+				properties: {
+					point: {
+						type: "array",
+						items: [{ type: "number" }, { type: "number", maximum: 10 }],
+					},
+				},
+			},
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			{
+				type: SchemaErrorType.TypeMismatch,
+				key: "point.[0]",
+				expected: "number",
+				received: "string",
+				code: "type.mismatch",
+				keyword: "type",
+				expectedValue: "number",
+				receivedValue: "string",
+				subSchemaPath: "/properties/point/items/0/type",
+				supSchemaPath: "/properties/point/items/0/type",
+				instancePath: "/point/0",
+			},
+			{
+				type: SchemaErrorType.NumericConstraint,
+				key: "point.[1]",
+				expected: "maximum: 10",
+				received: "maximum: 100",
+				code: "numeric.maximum.too_high",
+				keyword: "maximum",
+				expectedValue: 10,
+				receivedValue: 100,
+				subSchemaPath: "/properties/point/items/1/maximum",
+				supSchemaPath: "/properties/point/items/1/maximum",
+				instancePath: "/point/1",
+			},
+		]);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Length of closed tuples
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("closed tuple length", () => {
+	const single: JSONSchema7 = {
+		type: "array",
+		items: [{ type: "string" }],
+		additionalItems: false,
+	};
+
+	test("a closed tuple satisfies maxItems of sup without its own", () => {
+		expect(checker.isSubset(single, { type: "array", maxItems: 1 })).toBe(true);
+		expect(
+			checker.isSubset(
+				{ items: [{ type: "string" }], additionalItems: false, minItems: 1 },
+				{ minItems: 1, maxItems: 1 },
+			),
+		).toBe(true);
+		expect(
+			checker.isSubset(
+				{ type: "array", items: [{ type: "string" }, false] },
+				{ type: "array", maxItems: 1 },
+			),
+		).toBe(true);
+	});
+
+	test("a closed tuple longer than maxItems of sup is reported", () => {
+		const result = checker.check(
+			{ ...single, items: [{ type: "string" }, { type: "string" }] },
+			{ type: "array", maxItems: 1 },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				code: "array.maxItems.too_many",
+				expectedValue: 1,
+				receivedValue: 2,
+			}),
+		]);
+	});
+
+	test("a tuple without type still accepts values of other types", () => {
+		const result = checker.check(
+			{ items: [{ type: "string" }], additionalItems: false },
+			{ type: "array", maxItems: 1 },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				code: "type.mismatch",
+				expectedValue: "array",
+			}),
+		]);
+	});
+});
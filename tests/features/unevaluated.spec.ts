@@ -0,0 +1,316 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker, SchemaErrorType } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  unevaluatedProperties / unevaluatedItems
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const base: JSONSchema7 = {
+	type: "object",
+	properties: { id: { type: "string" } },
+	required: ["id"],
+};
+
+/** Closed extension of `base`: only `id` and `name` are allowed */
+const closed: JSONSchema7 = {
+	$defs: { base },
+	allOf: [{ $ref: "#/$defs/base" }],
+	properties: { name: { type: "string" } },
+	unevaluatedProperties: false,
+} as JSONSchema7;
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker({ draft: "2020-12" });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  normalize — rewriting into Draft-07 keywords
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("unevaluated — normalize", () => {
+	test("properties evaluated by allOf members are allowed", () => {
+		expect(checker.normalize(closed)).toEqual({
+			allOf: [base],
+			properties: { name: { type: "string" }, id: {} },
+			additionalProperties: false,
+		});
+	});
+
+	test("a $ref sibling sees what the referenced schema evaluates", () => {
+		const schema = {
+			$defs: { base },
+			$ref: "#/$defs/base",
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		expect(checker.normalize(schema)).toEqual({
+			allOf: [base],
+			properties: { id: {} },
+			additionalProperties: false,
+		});
+	});
+
+	test("is a no-op when additionalProperties already evaluates everything", () => {
+		const schema = {
+			allOf: [{ additionalProperties: { type: "string" } }],
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		expect(checker.normalize(schema)).toEqual({
+			allOf: [{ additionalProperties: { type: "string" } }],
+		});
+	});
+
+	test("oneOf branches are closed one by one", () => {
+		const schema = {
+			oneOf: [
+				{ properties: { a: { type: "string" } } },
+				{ properties: { b: { type: "string" } } },
+			],
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		expect(checker.normalize(schema)).toEqual({
+			oneOf: [
+				{ properties: { a: { type: "string" } }, additionalProperties: false },
+				{ properties: { b: { type: "string" } }, additionalProperties: false },
+			],
+		});
+	});
+
+	test("anyOf branches are closed per combination", () => {
+		const schema = {
+			anyOf: [
+				{ properties: { a: { type: "string" } } },
+				{ properties: { b: { type: "string" } } },
+			],
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.anyOf).toHaveLength(3);
+		expect(normalized.anyOf?.[2]).toMatchObject({
+			properties: { a: {}, b: {} },
+			additionalProperties: false,
+		});
+	});
+
+	test("then / else are closed with what each path evaluates", () => {
+		const schema = {
+			properties: { kind: { type: "string" } },
+			if: { properties: { kind: { const: "card" } } },
+			then: { properties: { cvv: { type: "string" } } },
+			else: { properties: { iban: { type: "string" } } },
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		const normalized = checker.normalize(schema) as JSONSchema7;
+		expect(normalized.then).toEqual({
+			properties: { cvv: { type: "string" }, kind: {} },
+			additionalProperties: false,
+		});
+		expect(normalized.else).toEqual({
+			properties: { iban: { type: "string" }, kind: {} },
+			additionalProperties: false,
+		});
+	});
+
+	test("unevaluatedItems closes the evaluated tuple prefix", () => {
+		const schema = {
+			type: "array",
+			prefixItems: [{ type: "string" }],
+			allOf: [{ prefixItems: [true, { type: "number" }] } as JSONSchema7],
+			unevaluatedItems: false,
+		} as JSONSchema7;
+		expect(checker.normalize(schema)).toEqual({
+			type: "array",
+			items: [{ type: "string" }, {}],
+			additionalItems: false,
+			allOf: [{ items: [true, { type: "number" }] }],
+		});
+	});
+
+	test("is left as-is when the evaluated set depends on contains", () => {
+		const schema = {
+			type: "array",
+			contains: { type: "string" },
+			unevaluatedItems: false,
+		} as JSONSchema7;
+		expect(checker.normalize(schema)).toEqual(schema);
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  isSubset / check
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("unevaluated — subset checking", () => {
+	test("accepts subs whose keys are all evaluated", () => {
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" }, name: { type: "string" } },
+			required: ["id"],
+			additionalProperties: false,
+		};
+		expect(checker.isSubset(sub, closed)).toBe(true);
+	});
+
+	test("rejects subs that allow extra keys", () => {
+		const open: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" }, name: { type: "string" } },
+			required: ["id"],
+		};
+		expect(checker.isSubset(open, closed)).toBe(false);
+
+		const extra: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" }, other: { type: "number" } },
+			required: ["id"],
+			additionalProperties: false,
+		};
+		expect(checker.isSubset(extra, closed)).toBe(false);
+	});
+
+	test("reports the extra keys as an additionalProperties error", () => {
+		const result = checker.check(
+			{ type: "object", properties: { id: { type: "string" } } },
+			closed,
+		);
+		expect(result.errors).toContainEqual({
+			type: SchemaErrorType.ObjectConstraint,
+			key: "$root",
+			expected: "additionalProperties: false",
+			received: "additional properties allowed",
+			code: "object.additionalProperties.not_allowed",
+			keyword: "additionalProperties",
+			expectedValue: false,
+			receivedValue: undefined,
+			subSchemaPath: "",
+			supSchemaPath: "/unevaluatedProperties",
+			instancePath: "",
+		});
+	});
+
+	test("keys evaluated by a discriminated oneOf branch are accepted", () => {
+		const payment = {
+			type: "object",
+			oneOf: [
+				{
+					properties: { kind: { const: "card" }, cvv: { type: "string" } },
+					required: ["kind"],
+				},
+				{
+					properties: { kind: { const: "iban" }, bic: { type: "string" } },
+					required: ["kind"],
+				},
+			],
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		const card: JSONSchema7 = {
+			type: "object",
+			properties: { kind: { const: "card" }, cvv: { type: "string" } },
+			required: ["kind"],
+			additionalProperties: false,
+		};
+		expect(checker.isSubset(card, payment)).toBe(true);
+
+		const cardWithIban: JSONSchema7 = {
+			...card,
+			properties: { ...card.properties, bic: { type: "string" } },
+		};
+		expect(checker.isSubset(cardWithIban, payment)).toBe(false);
+	});
+
+	test("keys evaluated by several anyOf branches are accepted together", () => {
+		const sup = {
+			type: "object",
+			anyOf: [
+				{ properties: { a: { type: "string" } } },
+				{ properties: { b: { type: "string" } } },
+			],
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		const both: JSONSchema7 = {
+			type: "object",
+			properties: { a: { type: "string" }, b: { type: "string" } },
+			required: ["a", "b"],
+			additionalProperties: false,
+		};
+		expect(checker.isSubset(both, sup)).toBe(true);
+	});
+
+	test("Draft-07 schemas are compared with the rewritten form", () => {
+		const legacy = new JsonSchemaCompatibilityChecker();
+		const closedLegacy: JSONSchema7 = {
+			type: "object",
+			properties: { id: { type: "string" }, name: { type: "string" } },
+			required: ["id"],
+			additionalProperties: false,
+		};
+		expect(legacy.isSubset(closedLegacy, closed)).toBe(true);
+	});
+
+	test("runtime validation applies the closed branches", async () => {
+		const schema = {
+			type: "object",
+			properties: { kind: { type: "string" } },
+			if: { properties: { kind: { const: "card" } } },
+			then: { properties: { cvv: { type: "string" } } },
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		const valid = await checker.check(schema, schema, {
+			data: { kind: "card", cvv: "123" },
+			validate: true,
+		});
+		expect(valid.isSubset).toBe(true);
+
+		const invalid = await checker.check(schema, schema, {
+			data: { kind: "bank", cvv: "123" },
+			validate: { sub: true },
+		});
+		expect(invalid.isSubset).toBe(false);
+	});
+
+	test("a sup keeping a keyword left as-is is never proven a superset", () => {
+		// Schema-form dependentSchemas evaluate properties: not rewritten
+		const sup = {
+			type: "object",
+			properties: { a: { type: "string" } },
+			dependentSchemas: { a: { properties: { b: { type: "number" } } } },
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		const sub: JSONSchema7 = {
+			type: "object",
+			properties: { b: { type: "string" } },
+			additionalProperties: false,
+		};
+		expect(checker.isSubset(sub, sup)).toBe(false);
+		expect(checker.check(sub, sup).errors).toEqual([
+			expect.objectContaining({
+				code: "object.unevaluatedProperties.undecided",
+				keyword: "unevaluatedProperties",
+				supSchemaPath: "/unevaluatedProperties",
+			}),
+		]);
+		expect(checker.isSubset(sup, sup)).toBe(true);
+	});
+
+	test("runtime validation applies keywords that were left as-is", async () => {
+		// Two branching keywords evaluate properties: not rewritten
+		const schema = {
+			type: "object",
+			anyOf: [{ properties: { a: true } }, { properties: { b: true } }],
+			oneOf: [{ properties: { c: true } }, { properties: { d: true } }],
+			unevaluatedProperties: false,
+		} as JSONSchema7;
+		expect(checker.normalize(schema)).toHaveProperty(
+			"unevaluatedProperties",
+			false,
+		);
+		const result = await checker.check(schema, schema, {
+			data: { a: 1, c: 1, e: 1 },
+			validate: { sub: true },
+		});
+		expect(result.isSubset).toBe(false);
+		expect(result.errors[0]?.type).toBe(SchemaErrorType.RuntimeValidation);
+	});
+});
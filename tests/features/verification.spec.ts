@@ -0,0 +1,125 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { JsonSchemaCompatibilityChecker } from "../../src";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  verify — cross-validation with generated instances of sub
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let checker: JsonSchemaCompatibilityChecker;
+
+beforeAll(() => {
+	checker = new JsonSchemaCompatibilityChecker();
+});
+
+/** Every string matches both branches: sup rejects them all */
+const overlapping: JSONSchema7 = {
+	oneOf: [
+		{ type: "string", minLength: 1 },
+		{ type: "string", maxLength: 100 },
+	],
+};
+
+const shortString: JSONSchema7 = {
+	type: "string",
+	minLength: 2,
+	maxLength: 10,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Static path
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("verify — static check", () => {
+	test("results without verify carry no verification", () => {
+		expect("verification" in checker.check(shortString, overlapping)).toBe(
+			false,
+		);
+	});
+
+	test("a confirmed subset reports the instances validated", () => {
+		const result = checker.check(
+			shortString,
+			{ type: "string" },
+			{ verify: { samples: 20 } },
+		);
+		expect(result.isSubset).toBe(true);
+		expect(result.verification).toEqual({ samples: 20, contradiction: false });
+	});
+
+	test("a false positive is flagged with the failing instance", () => {
+		const result = checker.check(shortString, overlapping, {
+			verify: { samples: 20, seed: 1 },
+		});
+		// The static answer is kept
+		expect(result.isSubset).toBe(true);
+		expect(result.verification?.contradiction).toBe(true);
+		const instance = result.verification?.failingInstance;
+		expect(typeof instance).toBe("string");
+		expect((instance as string).length).toBeGreaterThanOrEqual(2);
+	});
+
+	test("instances failing sup agree with a failed check", () => {
+		const result = checker.check(
+			{ type: "string" },
+			{ type: "number" },
+			{ verify: { samples: 5 } },
+		);
+		expect(result.isSubset).toBe(false);
+		expect(result.verification?.contradiction).toBe(false);
+		expect(typeof result.verification?.failingInstance).toBe("string");
+	});
+
+	test("the same seed yields the same verification", () => {
+		const verify = { samples: 10, seed: 3 };
+		expect(checker.check(shortString, overlapping, { verify })).toEqual(
+			checker.check(shortString, overlapping, { verify }),
+		);
+	});
+
+	test("samples counts the distinct instances generated", () => {
+		const result = checker.check(
+			{ enum: ["a", "b"] },
+			{ type: "string" },
+			{ verify: { samples: 10 } },
+		);
+		expect(result.verification).toEqual({ samples: 2, contradiction: false });
+	});
+
+	test("objects whose keys only come from patternProperties are sampled", () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			patternProperties: { "^x-": { type: "integer" } },
+			additionalProperties: false,
+			minProperties: 2,
+		};
+		const result = checker.check(schema, schema, { verify: { samples: 5 } });
+		expect(result.verification?.contradiction).toBe(false);
+		expect(result.verification?.samples).toBeGreaterThan(0);
+	});
+
+	test("unresolved $refs are not verified", () => {
+		const result = checker.check(
+			{ $ref: "missing.json" },
+			{ type: "string" },
+			{ verify: { samples: 10 } },
+		);
+		expect(result.verification).toEqual({ samples: 0, contradiction: false });
+	});
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+//  Runtime path
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("verify — runtime options", () => {
+	test("the resolved schemas are verified", async () => {
+		const result = await checker.check(shortString, overlapping, {
+			data: "abc",
+			verify: { samples: 10 },
+		});
+		expect(result.isSubset).toBe(true);
+		expect(result.verification?.contradiction).toBe(true);
+		expect(result.resolvedSub.branch).toBeNull();
+	});
+});